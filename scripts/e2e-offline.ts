@@ -0,0 +1,91 @@
+/**
+ * Offline End-to-End Run
+ *
+ * Drives the full orchestrator → create_chat → runConversation → analyzeAndDecide →
+ * Mission Complete pipeline with the fake Cursor agent and the scripted fake
+ * Anthropic API. No network, no `agent` binary, throwaway database.
+ *
+ * Usage:
+ *   npx tsx scripts/e2e-offline.ts [fixtures-dir]
+ *
+ * The fixtures directory must contain `anthropic.json` (fake API rules) and
+ * `agent/turn-N.jsonl` (fake agent transcripts). Defaults to scripts/fixtures/offline.
+ */
+
+import { mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import { join, resolve } from 'path';
+
+async function main() {
+    const fixtures = resolve(process.argv[2] || join(__dirname, 'fixtures', 'offline'));
+    const scratch = mkdtempSync(join(tmpdir(), 'cursor-pilot-e2e-'));
+    const workdir = mkdtempSync(join(scratch, 'workdir-'));
+
+    // Must be set before the app modules are loaded
+    process.env.DB_PATH = join(scratch, 'e2e.db');
+    process.env.SETTINGS_FILE = join(scratch, 'settings.json');
+    process.env.FAKE_ANTHROPIC_SCRIPT = join(fixtures, 'anthropic.json');
+    process.env.FAKE_AGENT_TRANSCRIPTS = join(fixtures, 'agent');
+    process.env.FAKE_AGENT_SCRIPT = join(__dirname, 'fake-cursor-agent.mjs');
+
+    const { OrchestratorAgent } = await import('../src/lib/agent/orchestrator');
+    const db = await import('../src/lib/db');
+
+    console.log('🧪 Offline E2E run');
+    console.log(`   fixtures: ${fixtures}`);
+    console.log(`   scratch:  ${scratch}\n`);
+
+    const completed = new Map<string, { success: boolean; turns?: number }>();
+    let resolveAll: () => void = () => {};
+    const allDone = new Promise<void>((r) => (resolveAll = r));
+    const created: string[] = [];
+
+    const agent = new OrchestratorAgent();
+    const result = await agent.run('Create hello.txt', workdir, (event) => {
+        if (event.type === 'chat_created' && event.chatId) {
+            created.push(event.chatId);
+            console.log(`🚀 chat created: ${event.chatId}`);
+        } else if (event.type === 'chat_update' && event.chatId) {
+            const update = JSON.parse(event.content);
+            if (update.type === 'state_detected' || update.type === 'ai_followup') {
+                console.log(`   [${event.chatId}] ${update.type}: ${String(update.content).split('\n').pop()}`);
+            }
+        } else if (event.type === 'chat_complete' && event.chatId) {
+            completed.set(event.chatId, JSON.parse(event.content));
+            if (created.every((id) => completed.has(id))) {
+                resolveAll();
+            }
+        }
+    });
+
+    if (!result.success) {
+        throw new Error(`Orchestrator failed: ${result.error}`);
+    }
+    if (created.length === 0) {
+        throw new Error('Orchestrator did not create any chat');
+    }
+
+    const timeout = setTimeout(() => {
+        console.error('❌ Timed out waiting for chats to complete');
+        process.exit(1);
+    }, 60_000);
+    await allDone;
+    clearTimeout(timeout);
+
+    let failed = false;
+    for (const chatId of created) {
+        const session = db.getSessionWithMessages(chatId);
+        const outcome = completed.get(chatId);
+        const ok = !!outcome?.success && session?.status === 'completed';
+        failed ||= !ok;
+        console.log(`\n${ok ? '✅' : '❌'} ${session?.title} — status=${session?.status}, turns=${outcome?.turns}`);
+        console.log(session?.taskMd);
+    }
+
+    process.exit(failed ? 1 : 0);
+}
+
+main().catch((error) => {
+    console.error('❌', error);
+    process.exit(1);
+});
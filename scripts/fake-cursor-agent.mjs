@@ -0,0 +1,130 @@
+#!/usr/bin/env node
+/**
+ * Fake Cursor Agent
+ *
+ * Deterministic stand-in for the Cursor `agent` CLI. Reads the prompt on stdin and
+ * replays a recorded stream-json transcript on stdout, one turn per invocation.
+ *
+ * Transcripts directory layout:
+ *   turn-1.jsonl, turn-2.jsonl, ...   (one CursorAgentMessage per line)
+ * When a session runs past the last file, the last turn is replayed again.
+ *
+ * Like Cursor, tool calls other than reads and searches are skipped unless --force is given,
+ * and in plan mode (--mode=plan).
+ *
+ * Usage:
+ *   node scripts/fake-cursor-agent.mjs --transcripts <dir> [--resume <id>] [--model <m>] [--delay <ms>]
+ *       [--force] [--mode=plan]
+ */
+
+import { existsSync, mkdirSync, readFileSync, readdirSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { randomBytes } from 'crypto';
+
+// Tools Cursor runs without --force and in plan mode
+const READ_ONLY_TOOLS = ['read', 'ls', 'glob', 'grep', 'semSearch', 'updateTodos'];
+
+// --key value, --key=value, or a bare --flag (true)
+function parseArgs(argv) {
+    const args = {};
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        if (!arg.startsWith('--')) continue;
+        const [key, value] = arg.slice(2).split(/=(.*)/s);
+        if (value !== undefined) {
+            args[key] = value;
+        } else if (i + 1 < argv.length && !argv[i + 1].startsWith('--')) {
+            args[key] = argv[++i];
+        } else {
+            args[key] = true;
+        }
+    }
+    return args;
+}
+
+// Tool type of a tool_call line ("writeToolCall" → "write"), or null for other lines
+function toolCallName(msg) {
+    if (msg.type !== 'tool_call' || !msg.tool_call) return null;
+    const key = Object.keys(msg.tool_call).find((k) => k.endsWith('ToolCall'));
+    return key ? key.slice(0, -'ToolCall'.length) : null;
+}
+
+async function readStdin() {
+    let data = '';
+    for await (const chunk of process.stdin) {
+        data += chunk;
+    }
+    return data;
+}
+
+function listTurns(dir) {
+    return readdirSync(dir)
+        .map((name) => ({ name, match: name.match(/^turn-(\d+)\.jsonl$/) }))
+        .filter((f) => f.match)
+        .sort((a, b) => Number(a.match[1]) - Number(b.match[1]))
+        .map((f) => join(dir, f.name));
+}
+
+// Turn counters live outside the fixtures so transcripts stay read-only
+function nextTurn(sessionId) {
+    const stateDir = join(tmpdir(), 'cursor-pilot-fake-agent');
+    if (!existsSync(stateDir)) {
+        mkdirSync(stateDir, { recursive: true });
+    }
+    const stateFile = join(stateDir, sessionId.replace(/[^\w-]/g, '_'));
+    const turn = existsSync(stateFile) ? Number(readFileSync(stateFile, 'utf-8')) + 1 : 1;
+    writeFileSync(stateFile, String(turn));
+    return turn;
+}
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function main() {
+    const args = parseArgs(process.argv.slice(2));
+    const dir = args.transcripts || process.env.FAKE_AGENT_TRANSCRIPTS;
+    const delay = Number(args.delay || process.env.FAKE_AGENT_DELAY_MS || 0);
+
+    if (!dir || !existsSync(dir)) {
+        process.stderr.write(`fake-cursor-agent: transcripts directory not found: ${dir}\n`);
+        process.exit(2);
+    }
+
+    await readStdin();
+
+    const turns = listTurns(dir);
+    if (turns.length === 0) {
+        process.stderr.write(`fake-cursor-agent: no turn-N.jsonl files in ${dir}\n`);
+        process.exit(2);
+    }
+
+    const sessionId = args.resume || `fake_${randomBytes(6).toString('hex')}`;
+    const turn = nextTurn(sessionId);
+    const file = turns[Math.min(turn, turns.length) - 1];
+
+    const readOnly = args.mode === 'plan' || !args.force;
+
+    const lines = readFileSync(file, 'utf-8').split('\n').filter((l) => l.trim());
+    for (const line of lines) {
+        const msg = JSON.parse(line);
+        const toolName = toolCallName(msg);
+        if (readOnly && toolName && !READ_ONLY_TOOLS.includes(toolName)) {
+            continue;
+        }
+        if (!msg.session_id) {
+            msg.session_id = sessionId;
+        }
+        if (msg.type === 'system' && msg.subtype === 'init' && args.model && !msg.model) {
+            msg.model = args.model;
+        }
+        process.stdout.write(JSON.stringify(msg) + '\n');
+        if (delay > 0) {
+            await sleep(delay);
+        }
+    }
+}
+
+main().catch((error) => {
+    process.stderr.write(`fake-cursor-agent: ${error?.message || error}\n`);
+    process.exit(1);
+});
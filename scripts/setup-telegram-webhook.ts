@@ -110,6 +110,10 @@ async function main() {
 
     // Set webhook
     const webhookUrl = arg1;
+    const secretToken = process.env.TELEGRAM_WEBHOOK_SECRET;
+    if (!secretToken) {
+        console.warn('⚠️  TELEGRAM_WEBHOOK_SECRET is not set: the webhook route rejects updates while sign-in is enabled');
+    }
     console.log(`🔗 Setting webhook to: ${webhookUrl}`);
     const setResponse = await fetch(`${TELEGRAM_API_BASE}${token}/setWebhook`, {
         method: 'POST',
@@ -117,6 +121,7 @@ async function main() {
         body: JSON.stringify({
             url: webhookUrl,
             allowed_updates: ['message', 'callback_query'],
+            ...(secretToken && { secret_token: secretToken }),
         }),
     });
     const setResult = await setResponse.json();
@@ -0,0 +1,91 @@
+/**
+ * Audit Log API Route
+ * Query the append-only audit log (admins only), as JSON or exported as CSV / JSONL
+ */
+import * as db from '@/lib/db';
+import { checkAdmin } from '@/lib/auth';
+import { AUDIT_ACTIONS, toCsv, toJsonl } from '@/lib/audit';
+import { AuditAction } from '@/lib/types';
+
+export const runtime = 'nodejs';
+
+const DEFAULT_LIMIT = 1000;
+const MAX_LIMIT = 100000;
+
+function parsePositiveInt(value: string | null): number | undefined {
+    if (!value) return undefined;
+    const parsed = Number.parseInt(value, 10);
+    if (Number.isNaN(parsed) || parsed < 0) return undefined;
+    return parsed;
+}
+
+// ISO date or epoch milliseconds
+function parseTime(value: string | null): Date | null | undefined {
+    if (!value) return undefined;
+    const date = /^\d+$/.test(value) ? new Date(Number(value)) : new Date(value);
+    return Number.isNaN(date.getTime()) ? null : date;
+}
+
+function badRequest(error: string): Response {
+    return new Response(
+        JSON.stringify({ error }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+}
+
+/**
+ * GET /api/audit?userId=&projectId=&sessionId=&action=&from=&to=&limit=&offset=&format=json|csv|jsonl
+ * Newest first; from is inclusive, to exclusive
+ */
+export async function GET(req: Request) {
+    try {
+        const denied = checkAdmin(req);
+        if (denied) return denied;
+
+        const url = new URL(req.url);
+        const action = url.searchParams.get('action') || undefined;
+        if (action && !AUDIT_ACTIONS.includes(action as AuditAction)) {
+            return badRequest(`Unknown action ${action} (one of ${AUDIT_ACTIONS.join(', ')})`);
+        }
+        const from = parseTime(url.searchParams.get('from'));
+        const to = parseTime(url.searchParams.get('to'));
+        if (from === null || to === null) {
+            return badRequest('from and to must be ISO dates or epoch milliseconds');
+        }
+        const format = url.searchParams.get('format') || 'json';
+        if (!['json', 'csv', 'jsonl'].includes(format)) {
+            return badRequest('format must be json, csv or jsonl');
+        }
+
+        const entries = db.queryAuditLog({
+            userId: url.searchParams.get('userId') || undefined,
+            projectId: url.searchParams.get('projectId') || undefined,
+            sessionId: url.searchParams.get('sessionId') || undefined,
+            action: action as AuditAction | undefined,
+            from,
+            to,
+            limit: Math.min(parsePositiveInt(url.searchParams.get('limit')) ?? DEFAULT_LIMIT, MAX_LIMIT),
+            offset: parsePositiveInt(url.searchParams.get('offset')),
+        });
+
+        if (format === 'json') {
+            return new Response(JSON.stringify({ entries }), {
+                headers: { 'Content-Type': 'application/json' },
+            });
+        }
+
+        const filename = `audit-${new Date().toISOString().slice(0, 10)}.${format}`;
+        return new Response(format === 'csv' ? toCsv(entries) : toJsonl(entries), {
+            headers: {
+                'Content-Type': format === 'csv' ? 'text/csv; charset=utf-8' : 'application/x-ndjson',
+                'Content-Disposition': `attachment; filename="${filename}"`,
+            },
+        });
+    } catch (error) {
+        console.error('[Audit API] Error:', error);
+        return new Response(
+            JSON.stringify({ error: 'Failed to query the audit log' }),
+            { status: 500, headers: { 'Content-Type': 'application/json' } }
+        );
+    }
+}
@@ -0,0 +1,33 @@
+/**
+ * Login API Route
+ */
+import { AuthError, sessionCookie, signIn } from '@/lib/auth';
+
+export const runtime = 'nodejs';
+
+// POST /api/auth/login - { username, password }; sets the session cookie
+export async function POST(req: Request) {
+    try {
+        const { username, password } = await req.json();
+
+        const { user, token, expiresAt } = await signIn(username, password);
+        console.log(`[Auth API] ${user.username} signed in`);
+
+        return new Response(
+            JSON.stringify({ user }),
+            { headers: { 'Content-Type': 'application/json', 'Set-Cookie': sessionCookie(req, token, expiresAt) } }
+        );
+    } catch (error) {
+        if (error instanceof AuthError) {
+            return new Response(
+                JSON.stringify({ error: error.message }),
+                { status: error.status, headers: { 'Content-Type': 'application/json' } }
+            );
+        }
+        console.error('[Auth API] Login error:', error);
+        return new Response(
+            JSON.stringify({ error: 'Failed to sign in' }),
+            { status: 500, headers: { 'Content-Type': 'application/json' } }
+        );
+    }
+}
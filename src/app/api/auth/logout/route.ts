@@ -0,0 +1,23 @@
+/**
+ * Logout API Route
+ */
+import { clearedSessionCookie, signOut } from '@/lib/auth';
+
+export const runtime = 'nodejs';
+
+// POST /api/auth/logout - Ends the browser session and clears its cookie
+export async function POST(req: Request) {
+    try {
+        signOut(req);
+        return new Response(
+            JSON.stringify({ success: true }),
+            { headers: { 'Content-Type': 'application/json', 'Set-Cookie': clearedSessionCookie() } }
+        );
+    } catch (error) {
+        console.error('[Auth API] Logout error:', error);
+        return new Response(
+            JSON.stringify({ error: 'Failed to sign out' }),
+            { status: 500, headers: { 'Content-Type': 'application/json' } }
+        );
+    }
+}
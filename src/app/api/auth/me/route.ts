@@ -0,0 +1,25 @@
+/**
+ * Current User API Route
+ */
+import { getOrchestratorSessionId, getRequestUser, isAuthEnabled, unauthorizedResponse } from '@/lib/auth';
+
+export const runtime = 'nodejs';
+
+// GET /api/auth/me - The signed-in user and their orchestrator chat
+export async function GET(req: Request) {
+    try {
+        const user = getRequestUser(req);
+        if (!user) return unauthorizedResponse();
+
+        return new Response(
+            JSON.stringify({ user, authEnabled: isAuthEnabled(), orchestratorChatId: getOrchestratorSessionId(user) }),
+            { headers: { 'Content-Type': 'application/json' } }
+        );
+    } catch (error) {
+        console.error('[Auth API] Me error:', error);
+        return new Response(
+            JSON.stringify({ error: 'Failed to get user' }),
+            { status: 500, headers: { 'Content-Type': 'application/json' } }
+        );
+    }
+}
@@ -0,0 +1,37 @@
+/**
+ * Auth Setup API Route
+ * Public until the first account exists: creates it as an admin and signs it in
+ */
+import { AuthError, sessionCookie, setupFirstUser, signIn } from '@/lib/auth';
+
+export const runtime = 'nodejs';
+
+// POST /api/auth/setup - { username, password }
+export async function POST(req: Request) {
+    try {
+        const { username, password } = await req.json();
+
+        await setupFirstUser(username, password);
+        const { user, token, expiresAt } = await signIn(username, password);
+
+        return new Response(
+            JSON.stringify({ user }),
+            {
+                status: 201,
+                headers: { 'Content-Type': 'application/json', 'Set-Cookie': sessionCookie(req, token, expiresAt) },
+            }
+        );
+    } catch (error) {
+        if (error instanceof AuthError) {
+            return new Response(
+                JSON.stringify({ error: error.message }),
+                { status: error.status, headers: { 'Content-Type': 'application/json' } }
+            );
+        }
+        console.error('[Auth API] Setup error:', error);
+        return new Response(
+            JSON.stringify({ error: 'Failed to create account' }),
+            { status: 500, headers: { 'Content-Type': 'application/json' } }
+        );
+    }
+}
@@ -0,0 +1,23 @@
+/**
+ * Auth Status API Route
+ * Public: tells the sign-in page whether auth is on and whether the first account is still missing
+ */
+import { isAuthEnabled, needsSetup } from '@/lib/auth';
+
+export const runtime = 'nodejs';
+
+// GET /api/auth/status
+export async function GET() {
+    try {
+        return new Response(
+            JSON.stringify({ authEnabled: isAuthEnabled(), setupRequired: needsSetup() }),
+            { headers: { 'Content-Type': 'application/json' } }
+        );
+    } catch (error) {
+        console.error('[Auth API] Status error:', error);
+        return new Response(
+            JSON.stringify({ error: 'Failed to get auth status' }),
+            { status: 500, headers: { 'Content-Type': 'application/json' } }
+        );
+    }
+}
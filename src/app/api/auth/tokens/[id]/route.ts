@@ -0,0 +1,37 @@
+/**
+ * API Token Route
+ */
+import * as db from '@/lib/db';
+import { getRequestUser, unauthorizedResponse } from '@/lib/auth';
+
+export const runtime = 'nodejs';
+
+// DELETE /api/auth/tokens/[id] - Revoke one of the signed-in user's tokens
+export async function DELETE(
+    req: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const user = getRequestUser(req);
+        if (!user) return unauthorizedResponse();
+
+        const { id } = await params;
+        if (!db.deleteApiToken(id, user.id)) {
+            return new Response(
+                JSON.stringify({ error: 'Token not found' }),
+                { status: 404, headers: { 'Content-Type': 'application/json' } }
+            );
+        }
+
+        return new Response(
+            JSON.stringify({ success: true, id }),
+            { headers: { 'Content-Type': 'application/json' } }
+        );
+    } catch (error) {
+        console.error('[Auth API] Error revoking token:', error);
+        return new Response(
+            JSON.stringify({ error: 'Failed to revoke token' }),
+            { status: 500, headers: { 'Content-Type': 'application/json' } }
+        );
+    }
+}
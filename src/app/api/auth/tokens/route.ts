@@ -0,0 +1,49 @@
+/**
+ * API Tokens Route
+ * The signed-in user's bearer tokens for scripts
+ */
+import * as db from '@/lib/db';
+import { createApiTokenForUser, getRequestUser, unauthorizedResponse } from '@/lib/auth';
+
+export const runtime = 'nodejs';
+
+// GET /api/auth/tokens - List tokens (without the token values)
+export async function GET(req: Request) {
+    try {
+        const user = getRequestUser(req);
+        if (!user) return unauthorizedResponse();
+
+        return new Response(
+            JSON.stringify({ tokens: db.getApiTokens(user.id) }),
+            { headers: { 'Content-Type': 'application/json' } }
+        );
+    } catch (error) {
+        console.error('[Auth API] Error listing tokens:', error);
+        return new Response(
+            JSON.stringify({ error: 'Failed to list tokens' }),
+            { status: 500, headers: { 'Content-Type': 'application/json' } }
+        );
+    }
+}
+
+// POST /api/auth/tokens - { name }; the token value is only returned here
+export async function POST(req: Request) {
+    try {
+        const user = getRequestUser(req);
+        if (!user) return unauthorizedResponse();
+
+        const { name } = await req.json();
+        const { apiToken, token } = createApiTokenForUser(user.id, String(name || ''));
+
+        return new Response(
+            JSON.stringify({ apiToken, token }),
+            { status: 201, headers: { 'Content-Type': 'application/json' } }
+        );
+    } catch (error) {
+        console.error('[Auth API] Error creating token:', error);
+        return new Response(
+            JSON.stringify({ error: 'Failed to create token' }),
+            { status: 500, headers: { 'Content-Type': 'application/json' } }
+        );
+    }
+}
@@ -0,0 +1,84 @@
+/**
+ * User API Route (admins only)
+ */
+import * as db from '@/lib/db';
+import { checkAdmin, getRequestUser } from '@/lib/auth';
+import { parseAgentPermissions } from '@/lib/agent/permissions';
+
+export const runtime = 'nodejs';
+
+// PATCH /api/auth/users/[id] - { agentPermissions } restrict the agents run for the user's chats (null clears)
+export async function PATCH(
+    req: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const denied = checkAdmin(req);
+        if (denied) return denied;
+
+        const { id } = await params;
+        const { agentPermissions } = await req.json();
+        let permissions;
+        try {
+            permissions = parseAgentPermissions(agentPermissions);
+        } catch (error) {
+            return new Response(
+                JSON.stringify({ error: error instanceof Error ? error.message : String(error) }),
+                { status: 400, headers: { 'Content-Type': 'application/json' } }
+            );
+        }
+        if (!db.updateUserAgentPermissions(id, permissions)) {
+            return new Response(
+                JSON.stringify({ error: 'User not found' }),
+                { status: 404, headers: { 'Content-Type': 'application/json' } }
+            );
+        }
+
+        return new Response(
+            JSON.stringify({ user: db.getUser(id) }),
+            { headers: { 'Content-Type': 'application/json' } }
+        );
+    } catch (error) {
+        console.error('[Auth API] Error updating user:', error);
+        return new Response(
+            JSON.stringify({ error: 'Failed to update user' }),
+            { status: 500, headers: { 'Content-Type': 'application/json' } }
+        );
+    }
+}
+
+// DELETE /api/auth/users/[id] - Delete an account, its sign-ins and tokens (its chats become admin-only)
+export async function DELETE(
+    req: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const denied = checkAdmin(req);
+        if (denied) return denied;
+
+        const { id } = await params;
+        if (id === getRequestUser(req)?.id) {
+            return new Response(
+                JSON.stringify({ error: 'You cannot delete your own account' }),
+                { status: 400, headers: { 'Content-Type': 'application/json' } }
+            );
+        }
+        if (!db.deleteUser(id)) {
+            return new Response(
+                JSON.stringify({ error: 'User not found' }),
+                { status: 404, headers: { 'Content-Type': 'application/json' } }
+            );
+        }
+
+        return new Response(
+            JSON.stringify({ success: true, id }),
+            { headers: { 'Content-Type': 'application/json' } }
+        );
+    } catch (error) {
+        console.error('[Auth API] Error deleting user:', error);
+        return new Response(
+            JSON.stringify({ error: 'Failed to delete user' }),
+            { status: 500, headers: { 'Content-Type': 'application/json' } }
+        );
+    }
+}
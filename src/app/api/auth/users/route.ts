@@ -0,0 +1,61 @@
+/**
+ * Users API Route (admins only)
+ */
+import * as db from '@/lib/db';
+import { AuthError, checkAdmin, createUserAccount } from '@/lib/auth';
+import { UserRole } from '@/lib/types';
+
+export const runtime = 'nodejs';
+
+// GET /api/auth/users - List accounts
+export async function GET(req: Request) {
+    try {
+        const denied = checkAdmin(req);
+        if (denied) return denied;
+
+        return new Response(
+            JSON.stringify({ users: db.getUsers() }),
+            { headers: { 'Content-Type': 'application/json' } }
+        );
+    } catch (error) {
+        console.error('[Auth API] Error listing users:', error);
+        return new Response(
+            JSON.stringify({ error: 'Failed to list users' }),
+            { status: 500, headers: { 'Content-Type': 'application/json' } }
+        );
+    }
+}
+
+// POST /api/auth/users - { username, password, role? } create an account
+export async function POST(req: Request) {
+    try {
+        const denied = checkAdmin(req);
+        if (denied) return denied;
+
+        const { username, password, role } = await req.json();
+        if (role !== undefined && role !== 'admin' && role !== 'member') {
+            return new Response(
+                JSON.stringify({ error: `Invalid role: ${role}` }),
+                { status: 400, headers: { 'Content-Type': 'application/json' } }
+            );
+        }
+
+        const user = await createUserAccount(username, password, (role as UserRole) || 'member');
+        return new Response(
+            JSON.stringify({ user }),
+            { status: 201, headers: { 'Content-Type': 'application/json' } }
+        );
+    } catch (error) {
+        if (error instanceof AuthError) {
+            return new Response(
+                JSON.stringify({ error: error.message }),
+                { status: error.status, headers: { 'Content-Type': 'application/json' } }
+            );
+        }
+        console.error('[Auth API] Error creating user:', error);
+        return new Response(
+            JSON.stringify({ error: 'Failed to create user' }),
+            { status: 500, headers: { 'Content-Type': 'application/json' } }
+        );
+    }
+}
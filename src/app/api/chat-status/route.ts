@@ -3,7 +3,9 @@
  * Allows frontend to poll for chat session status updates
  */
 import { OrchestratorAgent, chatStore } from '@/lib/agent/orchestrator';
+import { getQueuePosition } from '@/lib/agent/scheduler';
 import * as db from '@/lib/db';
+import { canAccessSession, getRequestUser, unauthorizedResponse } from '@/lib/auth';
 
 export const runtime = 'nodejs';
 
@@ -29,9 +31,11 @@ function parseBoolean(value: string | null): boolean {
 export async function GET(req: Request) {
     const url = new URL(req.url);
     const chatId = url.searchParams.get('chatId');
+    const user = getRequestUser(req);
+    if (!user) return unauthorizedResponse();
 
     if (!chatId) {
-        const allChats = OrchestratorAgent.getAllChats();
+        const allChats = OrchestratorAgent.getAllChats().filter((chat) => canAccessSession(user, chat));
         // Return all chats
         return new Response(
             JSON.stringify({
@@ -60,7 +64,7 @@ export async function GET(req: Request) {
     const cachedSession = chatStore.get(chatId);
     const chat = dbSession ?? cachedSession;
 
-    if (!chat) {
+    if (!chat || !canAccessSession(user, chat)) {
         console.log(`[chat-status] Chat not found for chatId=${chatId}`);
         return new Response(
             JSON.stringify({ error: 'Chat not found', chatId }),
@@ -114,6 +118,8 @@ export async function GET(req: Request) {
             cursorSessionId: chat.cursorSessionId,
             taskMd: chat.taskMd, // Include task.md content
             workdir: chat.workdir, // Include working directory
+            queuePosition: getQueuePosition(chatId), // Set while waiting for an agent slot
+            pendingApproval: chat.pendingApproval, // Set while waiting for the user to approve a decision
         }),
         { headers: { 'Content-Type': 'application/json' } }
     );
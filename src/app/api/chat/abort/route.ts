@@ -5,6 +5,12 @@
 import * as db from '@/lib/db';
 import { abortChat } from '@/lib/agent/abort-controller';
 import { killCursorProcessesByChatId } from '@/lib/agent/cursor-executor';
+import { cancelQueuedCursorCalls } from '@/lib/agent/scheduler';
+import { cancelApproval } from '@/lib/agent/approvals';
+import { cancelPause } from '@/lib/agent/pause';
+import { cancelPausedJobs } from '@/lib/agent/job-queue';
+import { audit } from '@/lib/audit';
+import { checkSessionAccess, getRequestUser, sessionOwnerId } from '@/lib/auth';
 
 /**
  * POST /api/chat/abort
@@ -23,20 +29,38 @@ export async function POST(req: Request) {
                 headers: { 'Content-Type': 'application/json' },
             });
         }
+        const denied = checkSessionAccess(req, chatId);
+        if (denied) return denied;
 
-        // Try to abort the controller if it exists
+        // Abort the chat's signal first: loops see it and stop instead of treating what follows as a failure
         const hadActiveController = abortChat(chatId);
 
-        // Kill any running Cursor processes for this chat
+        // Drop queued calls first so they don't start once the running ones are killed
+        const queuedCancelled = cancelQueuedCursorCalls(chatId);
+
+        // A loop waiting for approval ends as if its decision were rejected
+        const approvalCancelled = cancelApproval(chatId);
+
+        // A paused loop is released and sees the aborted signal; jobs paused before a restart are just cancelled
+        const pauseCancelled = cancelPause(chatId) || cancelPausedJobs(chatId) > 0;
+
+        // SIGTERM (then SIGKILL) any Cursor processes still running for this chat
         const processesKilled = killCursorProcessesByChatId(chatId);
-        console.log(`[Abort] chatId=${chatId}, hadActiveController=${hadActiveController}, processesKilled=${processesKilled}`);
+        const user = getRequestUser(req);
+        audit('chat_aborted', {
+            userId: user ? sessionOwnerId(user) : undefined,
+            sessionId: chatId,
+            details: { hadActiveController, processesKilled, queuedCancelled, approvalCancelled, pauseCancelled },
+        });
+        console.log(`[Abort] chatId=${chatId}, hadActiveController=${hadActiveController}, processesKilled=${processesKilled}, queuedCancelled=${queuedCancelled}, approvalCancelled=${approvalCancelled}, pauseCancelled=${pauseCancelled}`);
 
-        // Update session status in database
+        // A run that was stopped ends as cancelled; an already finished chat keeps its status
         const session = db.getSessionMeta(chatId);
-        if (session) {
+        const wasRunning = session?.status === 'running' || session?.status === 'waiting_response' || session?.status === 'paused';
+        if (session && (wasRunning || hadActiveController || processesKilled > 0 || queuedCancelled > 0)) {
             db.updateSession({
                 id: chatId,
-                status: 'idle',
+                status: 'cancelled',
             });
         }
 
@@ -45,6 +69,9 @@ export async function POST(req: Request) {
             message: 'Chat aborted',
             hadActiveController,
             processesKilled,
+            queuedCancelled,
+            approvalCancelled,
+            pauseCancelled,
         }), {
             status: 200,
             headers: { 'Content-Type': 'application/json' },
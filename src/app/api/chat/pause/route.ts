@@ -0,0 +1,66 @@
+/**
+ * Chat Pause API Route
+ * Pauses a running auto-conversation once its current turn is done
+ */
+import * as db from '@/lib/db';
+import { isSessionJobActive } from '@/lib/agent/job-queue';
+import { isPaused, requestPause } from '@/lib/agent/pause';
+import { checkSessionAccess } from '@/lib/auth';
+
+export const runtime = 'nodejs';
+
+/**
+ * POST /api/chat/pause
+ * 
+ * Request body:
+ * - chatId: the chat session ID to pause
+ */
+export async function POST(req: Request) {
+    try {
+        const { chatId } = await req.json();
+
+        if (!chatId) {
+            return new Response(JSON.stringify({ error: 'chatId is required' }), {
+                status: 400,
+                headers: { 'Content-Type': 'application/json' },
+            });
+        }
+        const denied = checkSessionAccess(req, chatId);
+        if (denied) return denied;
+        if (!db.sessionExists(chatId)) {
+            return new Response(JSON.stringify({ error: 'Session not found' }), {
+                status: 404,
+                headers: { 'Content-Type': 'application/json' },
+            });
+        }
+
+        // Only the Agent Manager loop has turns to pause between
+        if (isPaused(chatId) || !isSessionJobActive(chatId)) {
+            return new Response(JSON.stringify({
+                error: isPaused(chatId) ? 'Chat is already paused' : 'No auto-conversation is running in this chat',
+            }), {
+                status: 409,
+                headers: { 'Content-Type': 'application/json' },
+            });
+        }
+
+        requestPause(chatId);
+
+        return new Response(JSON.stringify({
+            success: true,
+            message: 'Pausing after the current turn',
+        }), {
+            status: 200,
+            headers: { 'Content-Type': 'application/json' },
+        });
+    } catch (error) {
+        console.error('Error pausing chat:', error);
+        return new Response(JSON.stringify({
+            error: 'Failed to pause chat',
+            details: error instanceof Error ? error.message : String(error),
+        }), {
+            status: 500,
+            headers: { 'Content-Type': 'application/json' },
+        });
+    }
+}
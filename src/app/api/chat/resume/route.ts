@@ -0,0 +1,70 @@
+/**
+ * Chat Resume API Route
+ * Resumes a paused auto-conversation, optionally with an instruction for Cursor
+ */
+import * as db from '@/lib/db';
+import { resumeConversation } from '@/lib/agent/job-queue';
+import { checkSessionAccess } from '@/lib/auth';
+
+export const runtime = 'nodejs';
+
+/**
+ * POST /api/chat/resume
+ * 
+ * Request body:
+ * - chatId: the chat session ID to resume
+ * - message: (optional) sent to Cursor instead of the Agent Manager's next message
+ */
+export async function POST(req: Request) {
+    try {
+        const { chatId, message } = await req.json();
+
+        if (!chatId) {
+            return new Response(JSON.stringify({ error: 'chatId is required' }), {
+                status: 400,
+                headers: { 'Content-Type': 'application/json' },
+            });
+        }
+        const denied = checkSessionAccess(req, chatId);
+        if (denied) return denied;
+        if (message !== undefined && typeof message !== 'string') {
+            return new Response(JSON.stringify({ error: 'message must be a string' }), {
+                status: 400,
+                headers: { 'Content-Type': 'application/json' },
+            });
+        }
+        if (!db.sessionExists(chatId)) {
+            return new Response(JSON.stringify({ error: 'Session not found' }), {
+                status: 404,
+                headers: { 'Content-Type': 'application/json' },
+            });
+        }
+
+        let recorded;
+        try {
+            recorded = resumeConversation(chatId, { message });
+        } catch (error) {
+            return new Response(JSON.stringify({ error: error instanceof Error ? error.message : String(error) }), {
+                status: 409,
+                headers: { 'Content-Type': 'application/json' },
+            });
+        }
+
+        return new Response(JSON.stringify({
+            success: true,
+            message: recorded,
+        }), {
+            status: 200,
+            headers: { 'Content-Type': 'application/json' },
+        });
+    } catch (error) {
+        console.error('Error resuming chat:', error);
+        return new Response(JSON.stringify({
+            error: 'Failed to resume chat',
+            details: error instanceof Error ? error.message : String(error),
+        }), {
+            status: 500,
+            headers: { 'Content-Type': 'application/json' },
+        });
+    }
+}
@@ -3,9 +3,9 @@
  * Supports both single message and auto-conversation modes
  * Compatible with Vercel AI SDK v4 stream format
  */
-import { spawn } from 'child_process';
+import { ChildProcessWithoutNullStreams } from 'child_process';
 import { ChatManager } from '@/lib/agent/chat-manager';
-import { CursorAgentMessage, Message } from '@/lib/types';
+import { AgentBackendConfig, Message, Project } from '@/lib/types';
 import * as db from '@/lib/db';
 import { generateId } from '@/lib/utils/id';
 import { getSettings } from '@/lib/settings';
@@ -13,25 +13,35 @@ import {
     registerCursorCall,
     setCallProcess,
     completeCursorCall,
+    terminateProcess,
+    watchPolicy,
+    watchTimeouts,
 } from '@/lib/agent/cursor-executor';
+import { acquireAbortSignal } from '@/lib/agent/abort-controller';
+import { audit, auditAgentEvent } from '@/lib/audit';
+import { getAgentBackend } from '@/lib/agent/backends';
+import { resolveAgentPermissions } from '@/lib/agent/permissions';
+import { acquireCursorSlot, CursorSlot } from '@/lib/agent/scheduler';
+import { CursorStreamDecoder, CursorStreamEvent } from '@/lib/agent/stream-decoder';
+import { recordTurn } from '@/lib/agent/turn-diffs';
+import { createRestorePoint, diffSinceSnapshot, takeSnapshot } from '@/lib/git/snapshot';
+import { canAccessSession, getRequestUser, sessionOwnerId, unauthorizedResponse } from '@/lib/auth';
+import { getAgentArgs, resolveAgentProject, resolveProjectWorkdir } from '@/lib/projects';
 
 /**
- * Extract text content from Cursor message
+ * Render a decoded Cursor event as streamed chat text
  */
-function extractText(msg: CursorAgentMessage): string | null {
-    if (msg.type === 'assistant' && msg.message?.content) {
-        return msg.message.content
-            .filter((c) => c.type === 'text' && c.text)
-            .map((c) => c.text)
-            .join('');
+function renderEvent(event: CursorStreamEvent): string | null {
+    switch (event.type) {
+        case 'text_delta':
+            return event.text;
+        case 'thinking':
+            return `💭 ${event.text}`;
+        case 'tool_start':
+            return `🔧 Calling: ${event.toolName}`;
+        default:
+            return null;
     }
-    if (msg.type === 'thinking' && msg.text) {
-        return `💭 ${msg.text}`;
-    }
-    if (msg.type === 'tool_call' && msg.subtype === 'started' && msg.tool_call?.name) {
-        return `🔧 Calling: ${msg.tool_call.name}`;
-    }
-    return null;
 }
 
 export const runtime = 'nodejs';
@@ -43,12 +53,13 @@ export const maxDuration = 300;
  * Request body:
  * - messages: array of messages (for AI SDK compatibility)
  * - mode: 'single' | 'auto' (default: 'single')
- * - workdir: working directory (required for 'auto' mode)
+ * - projectId: project for a new chat (defaults to the project containing workdir, then the default project)
+ * - workdir: working directory for a new chat, inside the project (defaults to the project root)
  * - sessionId: cursor session ID to resume
  */
 export async function POST(req: Request) {
     const body = await req.json();
-    const { messages, mode = 'single', workdir: requestWorkdir, sessionId, id: chatId } = body;
+    const { messages, mode = 'single', projectId: requestProjectId, workdir: requestWorkdir, sessionId, id: chatId } = body;
 
     // Get the last user message
     const lastMessage = messages[messages.length - 1];
@@ -58,18 +69,38 @@ export async function POST(req: Request) {
 
     const prompt = lastMessage.content;
 
+    const user = getRequestUser(req);
+    if (!user) return unauthorizedResponse();
+
     // Get session's workdir and cursorSessionId if available
-    let effectiveWorkdir = requestWorkdir;
     let effectiveSessionId = sessionId;
     const session = chatId ? db.getSessionMeta(chatId) : null;
-    
-    if (session?.workdir) {
-        effectiveWorkdir = session.workdir;
+    if (session && !canAccessSession(user, session)) {
+        return new Response('Session not found', { status: 404 });
     }
+    const backend: AgentBackendConfig | undefined = session?.backend;
+    
     if (session?.cursorSessionId && !effectiveSessionId) {
         effectiveSessionId = session.cursorSessionId; // Resume previous Cursor conversation
     }
 
+    // New chats go to a registered project; the agent may only run inside the chat's project
+    let effectiveWorkdir: string;
+    let projectId = session?.projectId;
+    let project: Project | null;
+    try {
+        if (session?.workdir) {
+            effectiveWorkdir = session.workdir;
+        } else {
+            const resolved = resolveProjectWorkdir({ projectId: session?.projectId || requestProjectId, workdir: requestWorkdir });
+            effectiveWorkdir = resolved.workdir;
+            projectId = resolved.project.id;
+        }
+        project = resolveAgentProject(effectiveWorkdir, session ? chatId : undefined);
+    } catch (error) {
+        return new Response(error instanceof Error ? error.message : String(error), { status: 400 });
+    }
+
     // Save user message to database if chatId is provided
     if (chatId) {
         // Check if session exists, if not create it
@@ -81,6 +112,14 @@ export async function POST(req: Request) {
                 messages: [],
                 createdAt: new Date(),
                 workdir: effectiveWorkdir,
+                projectId,
+                ownerId: sessionOwnerId(user),
+            });
+            audit('session_started', {
+                userId: sessionOwnerId(user),
+                sessionId: chatId,
+                projectId,
+                details: { source: 'web', workdir: effectiveWorkdir },
             });
         } else {
             db.updateSession({ id: chatId, status: 'running' });
@@ -99,15 +138,11 @@ export async function POST(req: Request) {
 
     // Auto-conversation mode
     if (mode === 'auto') {
-        if (!effectiveWorkdir) {
-            return new Response('workdir is required for auto mode', { status: 400 });
-        }
-
-        return handleAutoMode(prompt, effectiveWorkdir, effectiveSessionId);
+        return handleAutoMode(prompt, effectiveWorkdir, effectiveSessionId, chatId, backend);
     }
 
     // Single message mode (default) - direct Cursor interaction
-    return handleSingleMode(prompt, effectiveSessionId, chatId, effectiveWorkdir);
+    return handleSingleMode(prompt, effectiveSessionId, chatId, effectiveWorkdir, backend, project);
 }
 
 /**
@@ -120,80 +155,127 @@ export async function POST(req: Request) {
  * 同时会通过 cursor-executor 的全局 tracker 统计当前运行中的 Cursor 进程，
  * 这样右上角的 "X active" 能实时反映 New Chat 调用的 agent 进程数。
  */
-function handleSingleMode(prompt: string, sessionId?: string, chatId?: string, workdir?: string): Response {
+function handleSingleMode(
+    prompt: string,
+    sessionId?: string,
+    chatId?: string,
+    workdir?: string,
+    backend?: AgentBackendConfig,
+    project?: Project | null
+): Response {
     const encoder = new TextEncoder();
 
-    // Get model from settings
+    // Get model from the project or settings
     const settings = getSettings();
-    const model = settings.model || 'auto';
-
-    // Build command args
-    const args = ['-p', '--output-format=stream-json', '--force'];
-    if (sessionId) {
-        args.push('--resume', sessionId);
-    }
-    // Always add model parameter (even for 'auto' to let Cursor choose)
-    if (model) {
-        args.push('--model', model);
-    }
+    const model = project?.defaultModel || settings.model || 'auto';
+    const permissions = resolveAgentPermissions(project ?? null, chatId);
 
-    // Register this call for system-status tracking
     const effectiveWorkdir = workdir || process.cwd();
-    const callId = registerCursorCall(prompt, effectiveWorkdir, chatId, undefined);
-    console.log('[handleSingleMode] Registered cursor call', { callId, chatId, workdir: effectiveWorkdir, prompt: prompt.slice(0, 50) });
-
-    // Spawn cursor agent process with workdir as cwd
-    const agent = spawn('agent', args, {
-        stdio: ['pipe', 'pipe', 'pipe'],
-        cwd: effectiveWorkdir,
-    });
-
-    // Save process reference so it can be killed if needed
-    setCallProcess(callId, agent);
 
     const stream = new ReadableStream({
         async start(controller) {
-            let buffer = '';
-            let cursorSessionId: string | undefined;
-            let fullResponse = ''; // Accumulate full response for saving
-            let stderrBuffer = ''; // Capture stderr for error messages
+            // Stopping the chat terminates the process (or drops the queued call)
+            const abort = chatId ? acquireAbortSignal(chatId) : undefined;
+            const endCancelled = () => {
+                controller.enqueue(encoder.encode(`0:${JSON.stringify('\n\n⏹️ Cancelled')}\n`));
+                controller.enqueue(encoder.encode('d:{"finishReason":"stop"}\n'));
+                controller.close();
+                if (chatId) db.updateSession({ id: chatId, status: 'cancelled' });
+                abort?.release();
+            };
 
-            // Send prompt to stdin and close
-            agent.stdin.write(prompt);
-            agent.stdin.end();
+            // Interactive chats jump the queue, but still respect the concurrency limits
+            let slot: CursorSlot;
+            try {
+                slot = await acquireCursorSlot({
+                    task: prompt,
+                    workdir: effectiveWorkdir,
+                    chatId,
+                    priority: 'high',
+                    signal: abort?.signal,
+                    onQueued: (position) => {
+                        controller.enqueue(encoder.encode(`0:${JSON.stringify(`⏳ Waiting for a free agent slot (queue position ${position})...\n\n`)}\n`));
+                    },
+                });
+            } catch (error) {
+                if (abort?.signal.aborted) {
+                    endCancelled();
+                    return;
+                }
+                const errorMsg = `⚠️ ${error instanceof Error ? error.message : String(error)}`;
+                controller.enqueue(encoder.encode(`0:${JSON.stringify(errorMsg)}\n`));
+                controller.enqueue(encoder.encode('d:{"finishReason":"error"}\n'));
+                controller.close();
+                abort?.release();
+                return;
+            }
 
-            // Process stdout line by line
-            agent.stdout.on('data', (chunk: Buffer) => {
-                buffer += chunk.toString();
-                const lines = buffer.split('\n');
-                buffer = lines.pop() || '';
+            // Snapshot the workdir so the turn's changes can be reviewed and rolled back
+            const snapshot = chatId ? await takeSnapshot(effectiveWorkdir) : null;
+            if (abort?.signal.aborted) {
+                slot.release();
+                endCancelled();
+                return;
+            }
 
-                for (const line of lines) {
-                    if (!line.trim()) continue;
+            // Register this call for system-status tracking
+            const callId = registerCursorCall(prompt, effectiveWorkdir, chatId, undefined);
+            console.log('[handleSingleMode] Registered cursor call', { callId, chatId, workdir: effectiveWorkdir, prompt: prompt.slice(0, 50) });
 
-                    try {
-                        const msg: CursorAgentMessage = JSON.parse(line);
+            // Spawn agent process with workdir as cwd
+            let agent: ChildProcessWithoutNullStreams;
+            try {
+                agent = getAgentBackend(backend).spawn({
+                    workdir: effectiveWorkdir,
+                    resumeSessionId: sessionId,
+                    model,
+                    extraArgs: getAgentArgs(project ?? null),
+                    force: permissions.force,
+                    planOnly: permissions.planOnly,
+                });
+            } catch (error) {
+                // Misconfigured backend: nothing was started, so give the slot and the call back
+                const errorMsg = `⚠️ ${error instanceof Error ? error.message : String(error)}`;
+                controller.enqueue(encoder.encode(`0:${JSON.stringify(errorMsg)}\n`));
+                controller.enqueue(encoder.encode('d:{"finishReason":"error"}\n'));
+                completeCursorCall(callId, false);
+                slot.release();
+                abort?.release();
+                if (chatId) db.updateSession({ id: chatId, status: 'error' });
+                controller.close();
+                return;
+            }
 
-                        // Capture session ID (don't send as data part to avoid format issues)
-                        if (msg.session_id && !cursorSessionId) {
-                            cursorSessionId = msg.session_id;
-                        }
+            // Save process reference so it can be killed if needed
+            setCallProcess(callId, agent);
+            abort?.signal.addEventListener('abort', () => terminateProcess(agent), { once: true });
+            const watch = watchTimeouts(agent, settings.timeouts);
+            const policy = watchPolicy(agent, permissions, chatId);
+            audit('prompt_sent', { sessionId: chatId, details: { prompt, workdir: effectiveWorkdir, model } });
 
-                        const text = extractText(msg);
-                        if (text) {
-                            // Accumulate response (skip tool calls and thinking for saved message)
-                            if (msg.type === 'assistant') {
-                                fullResponse += text;
-                            }
-                            
-                            // Send as AI SDK compatible format (text part)
-                            const data = `0:${JSON.stringify(text)}\n`;
-                            controller.enqueue(encoder.encode(data));
-                        }
-                    } catch {
-                        // Ignore non-JSON lines
+            const decoder = new CursorStreamDecoder();
+            let stderrBuffer = ''; // Capture stderr for error messages
+
+            // Send prompt to stdin and close
+            agent.stdin.write(prompt);
+            agent.stdin.end();
+
+            const sendEvents = (events: CursorStreamEvent[]) => {
+                for (const event of events) {
+                    auditAgentEvent(chatId, event);
+                    policy.check(event);
+                    const text = renderEvent(event);
+                    if (text) {
+                        // Send as AI SDK compatible format (text part)
+                        controller.enqueue(encoder.encode(`0:${JSON.stringify(text)}\n`));
                     }
                 }
+            };
+
+            // Process stdout line by line
+            agent.stdout.on('data', (chunk: Buffer) => {
+                watch.touch();
+                sendEvents(decoder.push(chunk.toString()));
             });
 
             // Capture stderr for error messages
@@ -204,8 +286,19 @@ function handleSingleMode(prompt: string, sessionId?: string, chatId?: string, w
             });
 
             // Handle process completion
-            agent.on('close', (code) => {
-                if (code !== 0) {
+            agent.on('close', async (code) => {
+                sendEvents(decoder.flush());
+                const cancelled = abort?.signal.aborted ?? false;
+                abort?.release();
+                watch.clear();
+
+                if (cancelled) {
+                    controller.enqueue(encoder.encode(`0:${JSON.stringify('\n\n⏹️ Cancelled')}\n`));
+                } else if (policy.violation) {
+                    controller.enqueue(encoder.encode(`0:${JSON.stringify(`\n\n🛑 Stopped the agent: ${policy.violation}`)}\n`));
+                } else if (watch.timeout) {
+                    controller.enqueue(encoder.encode(`0:${JSON.stringify(`\n\n⏱️ ${watch.timeout.error}`)}\n`));
+                } else if (code !== 0) {
                     // Extract meaningful error message from stderr
                     let errorMsg = `⚠️ Agent exited with code ${code}`;
                     
@@ -236,22 +329,29 @@ function handleSingleMode(prompt: string, sessionId?: string, chatId?: string, w
                 // Mark call as completed / errored for system-status
                 console.log('[handleSingleMode] Completing cursor call', { callId, success: code === 0 });
                 completeCursorCall(callId, code === 0);
+                slot.release();
 
                 // Save assistant response and cursor session ID to database
-                if (chatId && fullResponse) {
+                if (chatId && decoder.content) {
                     const assistantMsg: Message = {
                         id: generateId(),
                         role: 'assistant',
-                        content: fullResponse,
+                        content: decoder.content,
                         timestamp: new Date(),
                         metadata: { source: 'cursor' },
                     };
+                    if (snapshot) {
+                        const changes = await diffSinceSnapshot(snapshot);
+                        recordTurn(chatId, assistantMsg, { changes, restorePoint: createRestorePoint(snapshot, changes) });
+                    }
                     db.addMessage(chatId, assistantMsg);
                     db.updateSession({ 
                         id: chatId, 
-                        status: 'completed',
-                        cursorSessionId: cursorSessionId, // Save for resuming conversation
+                        status: cancelled ? 'cancelled' : watch.timeout || policy.violation ? 'error' : 'completed',
+                        cursorSessionId: decoder.sessionId, // Save for resuming conversation
                     });
+                } else if (chatId && (cancelled || watch.timeout || policy.violation)) {
+                    db.updateSession({ id: chatId, status: cancelled ? 'cancelled' : 'error' });
                 }
                 
                 // Send finish message (d: done)
@@ -270,6 +370,9 @@ function handleSingleMode(prompt: string, sessionId?: string, chatId?: string, w
                 // Mark call as error
                 console.log('[handleSingleMode] Completing cursor call (error)', { callId });
                 completeCursorCall(callId, false);
+                slot.release();
+                abort?.release();
+                watch.clear();
 
                 if (chatId) {
                     db.updateSession({ id: chatId, status: 'error' });
@@ -289,13 +392,15 @@ function handleSingleMode(prompt: string, sessionId?: string, chatId?: string, w
 
 /**
  * Handle auto-conversation mode - AI manages the conversation until task complete
+ * Stopping the chat ends the loop (as cancelled); the chat's budget applies to its Agent Manager calls.
  */
-function handleAutoMode(task: string, workdir: string, sessionId?: string): Response {
+function handleAutoMode(task: string, workdir: string, sessionId?: string, chatId?: string, backend?: AgentBackendConfig): Response {
     const encoder = new TextEncoder();
 
     const stream = new ReadableStream({
         async start(controller) {
             const chatManager = new ChatManager();
+            const abort = chatId ? acquireAbortSignal(chatId) : undefined;
 
             try {
                 const result = await chatManager.runConversation(
@@ -306,9 +411,22 @@ function handleAutoMode(task: string, workdir: string, sessionId?: string): Resp
                         const eventData = JSON.stringify(event);
                         controller.enqueue(encoder.encode(`data: ${eventData}\n\n`));
                     },
-                    sessionId
+                    sessionId,
+                    undefined,
+                    { backend, chatId, signal: abort?.signal }
                 );
 
+                if (chatId) {
+                    db.updateSession({
+                        id: chatId,
+                        status: result.success ? 'completed'
+                            : result.cancelled ? 'cancelled'
+                            : result.rejected || result.budgetExceeded ? 'idle'
+                            : 'error',
+                        cursorSessionId: result.cursorSessionId,
+                    });
+                }
+
                 // Send final result
                 controller.enqueue(
                     encoder.encode(
@@ -318,10 +436,13 @@ function handleAutoMode(task: string, workdir: string, sessionId?: string): Resp
                             turns: result.turns,
                             cursorSessionId: result.cursorSessionId,
                             messageCount: result.messages.length,
+                            ...(result.cancelled && { cancelled: true }),
+                            ...(result.budgetExceeded && { budgetExceeded: true }),
                         })}\n\n`
                     )
                 );
             } catch (error) {
+                if (chatId) db.updateSession({ id: chatId, status: 'error' });
                 controller.enqueue(
                     encoder.encode(
                         `data: ${JSON.stringify({
@@ -331,6 +452,7 @@ function handleAutoMode(task: string, workdir: string, sessionId?: string): Resp
                     )
                 );
             } finally {
+                abort?.release();
                 controller.close();
             }
         },
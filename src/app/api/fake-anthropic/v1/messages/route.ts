@@ -0,0 +1,28 @@
+/**
+ * Fake Anthropic Messages Endpoint
+ * Scripted stand-in for POST /v1/messages, enabled only when FAKE_ANTHROPIC_SCRIPT is set.
+ * Point ANTHROPIC_BASE_URL at http://localhost:3000/api/fake-anthropic to use it.
+ */
+import { handleFakeMessagesRequest, loadFakeAnthropicScript } from '@/lib/testing/fake-anthropic';
+
+export const runtime = 'nodejs';
+
+export async function POST(req: Request) {
+    const scriptPath = process.env.FAKE_ANTHROPIC_SCRIPT;
+    if (!scriptPath) {
+        return new Response(
+            JSON.stringify({ error: 'Fake Anthropic endpoint is disabled (set FAKE_ANTHROPIC_SCRIPT)' }),
+            { status: 404, headers: { 'Content-Type': 'application/json' } }
+        );
+    }
+
+    try {
+        return await handleFakeMessagesRequest(loadFakeAnthropicScript(scriptPath), req);
+    } catch (error) {
+        console.error('[Fake Anthropic] Error:', error);
+        return new Response(
+            JSON.stringify({ error: error instanceof Error ? error.message : String(error) }),
+            { status: 500, headers: { 'Content-Type': 'application/json' } }
+        );
+    }
+}
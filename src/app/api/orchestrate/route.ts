@@ -2,8 +2,12 @@
  * Orchestrate API Route
  * Handles complex requests through Claude Agent orchestration
  */
-import { OrchestratorAgent } from '@/lib/agent/orchestrator';
+import { OrchestratorAgent, OrchestratorResult } from '@/lib/agent/orchestrator';
+import { audit } from '@/lib/audit';
 import * as db from '@/lib/db';
+import { canAccessSession, getOrchestratorSessionId, getRequestUser, sessionOwnerId, unauthorizedResponse } from '@/lib/auth';
+import { ProjectError, resolveProjectWorkdir } from '@/lib/projects';
+import { isWebOrchestratorSessionId } from '@/lib/utils/session';
 
 export const runtime = 'nodejs';
 export const maxDuration = 300; // 5 minutes
@@ -17,26 +21,53 @@ export async function POST(req: Request) {
     const encoder = new TextEncoder();
 
     try {
-        const { request, workdir, skillsPath, chatId, chatHistory } = await req.json();
+        const { request, projectId, workdir: requestWorkdir, skillsPath, chatId, chatHistory } = await req.json();
 
-        if (!request || !workdir) {
+        if (!request) {
             return new Response(
-                JSON.stringify({ error: 'Missing request or workdir' }),
+                JSON.stringify({ error: 'Missing request' }),
                 { status: 400, headers: { 'Content-Type': 'application/json' } }
             );
         }
 
+        const user = getRequestUser(req);
+        if (!user) return unauthorizedResponse();
+        const existingSession = chatId ? db.getSessionMeta(chatId) : null;
+        // Each user has their own orchestrator chat; admins may also use the shared one (Telegram's)
+        if (
+            (existingSession && !canAccessSession(user, existingSession)) ||
+            (!existingSession && isWebOrchestratorSessionId(chatId) && chatId !== getOrchestratorSessionId(user))
+        ) {
+            return new Response(
+                JSON.stringify({ error: 'Session not found' }),
+                { status: 404, headers: { 'Content-Type': 'application/json' } }
+            );
+        }
+
+        // Sub-tasks run in the project (default: the one containing workdir, then the default project)
+        let resolved;
+        try {
+            resolved = resolveProjectWorkdir({ projectId, workdir: requestWorkdir });
+        } catch (error) {
+            if (!(error instanceof ProjectError)) throw error;
+            return new Response(
+                JSON.stringify({ error: error.message }),
+                { status: error.status, headers: { 'Content-Type': 'application/json' } }
+            );
+        }
+        const { project, workdir } = resolved;
+
         // If chatId provided, update session status and save user message
         if (chatId) {
             console.log(`[orchestrate] Processing request for chatId=${chatId}`);
-            const session = db.getSessionMeta(chatId);
+            const session = existingSession;
             if (session) {
                 console.log(`[orchestrate] Session exists, updating status`);
                 db.updateSession({ id: chatId, status: 'running' });
             } else {
                 // Create session if it doesn't exist
                 // Check if this is the web orchestrator main session
-                const isWebOrchestratorMain = chatId === 'web_orchestrator_main';
+                const isWebOrchestratorMain = isWebOrchestratorSessionId(chatId);
                 console.log(`[orchestrate] Creating new session, isWebOrchestratorMain=${isWebOrchestratorMain}`);
                 db.createSession({
                     id: chatId,
@@ -45,8 +76,16 @@ export async function POST(req: Request) {
                     messages: [],
                     createdAt: new Date(),
                     workdir,
+                    projectId: isWebOrchestratorMain ? undefined : project.id, // The orchestrator chat spans projects
                     orchestrateTaskId: isWebOrchestratorMain ? undefined : chatId,
                     isOrchestratorManaged: isWebOrchestratorMain, // Hide from sidebar
+                    ownerId: sessionOwnerId(user),
+                });
+                audit('session_started', {
+                    userId: sessionOwnerId(user),
+                    sessionId: chatId,
+                    projectId: project.id,
+                    details: { source: 'orchestrator', workdir },
                 });
             }
             
@@ -64,7 +103,11 @@ export async function POST(req: Request) {
         // Create streaming response
         const stream = new ReadableStream({
             async start(controller) {
-                const agent = new OrchestratorAgent({ skillsPath });
+                const agent = new OrchestratorAgent({
+                    skillsPath: project.skillsPath || skillsPath,
+                    ownerId: sessionOwnerId(user),
+                    projectId: project.id,
+                });
                 let isClosed = false;
 
                 // Safe enqueue function that checks if controller is still open
@@ -79,6 +122,46 @@ export async function POST(req: Request) {
                     }
                 };
 
+                // Streamed text is saved as one message per text run (up to the next tool call)
+                let pendingText = '';
+                const flushText = () => {
+                    if (chatId && pendingText.trim()) {
+                        db.addMessage(chatId, {
+                            id: Date.now().toString(36) + Math.random().toString(36).substr(2),
+                            role: 'assistant',
+                            content: pendingText.trim(),
+                            timestamp: new Date(),
+                            metadata: { source: 'orchestrator' },
+                        });
+                    }
+                    pendingText = '';
+                };
+
+                // Update session status on completion and save result message
+                // (also for follow-up runs, which may end after this stream has closed)
+                const saveResult = (result: OrchestratorResult) => {
+                    flushText();
+                    if (chatId) {
+                        db.updateSession({ 
+                            id: chatId, 
+                            status: result.success ? 'idle' : result.cancelled ? 'cancelled' : 'error'  // Use 'idle' so panel can be used again
+                        });
+                        
+                        // Save result as system message
+                        db.addMessage(chatId, {
+                            id: Date.now().toString(36) + Math.random().toString(36).substr(2),
+                            role: 'system',
+                            content: result.success 
+                                ? `✅ Orchestration complete! (${result.tasks_executed} tasks)`
+                                : result.cancelled
+                                    ? '⏹️ Orchestration cancelled'
+                                    : `❌ Failed: ${result.error}`,
+                            timestamp: new Date(),
+                            metadata: { source: 'orchestrator' },
+                        });
+                    }
+                };
+
                 try {
                     // Build context from chat history if provided
                     const contextMessages: ChatHistoryMessage[] = chatHistory || [];
@@ -94,20 +177,36 @@ export async function POST(req: Request) {
                             // Save messages to database
                             if (chatId) {
                                 if (event.type === 'message' && event.content) {
-                                    // Assistant's text messages
+                                    // Assistant's text, arriving in deltas
+                                    pendingText += event.content;
+                                } else if (event.type === 'tool_start' && event.content) {
+                                    // Tool execution start
+                                    flushText();
+                                    db.addMessage(chatId, {
+                                        id: Date.now().toString(36) + Math.random().toString(36).substr(2),
+                                        role: 'system',
+                                        content: `🔧 Executing: ${event.content}`,
+                                        timestamp: new Date(),
+                                        metadata: { source: 'orchestrator' },
+                                    });
+                                } else if (event.type === 'follow_up' && event.content) {
+                                    // Dispatched chats finished, the orchestrator runs again
+                                    flushText();
+                                    db.updateSession({ id: chatId, status: 'running' });
                                     db.addMessage(chatId, {
                                         id: Date.now().toString(36) + Math.random().toString(36).substr(2),
-                                        role: 'assistant',
+                                        role: 'system',
                                         content: event.content,
                                         timestamp: new Date(),
                                         metadata: { source: 'orchestrator' },
                                     });
-                                } else if (event.type === 'tool_start' && event.content) {
-                                    // Tool execution start
+                                } else if (event.type === 'retry' && event.content) {
+                                    // Transient API failure being retried
+                                    flushText();
                                     db.addMessage(chatId, {
                                         id: Date.now().toString(36) + Math.random().toString(36).substr(2),
                                         role: 'system',
-                                        content: `🔧 Executing: ${event.content}`,
+                                        content: event.content,
                                         timestamp: new Date(),
                                         metadata: { source: 'orchestrator' },
                                     });
@@ -115,31 +214,16 @@ export async function POST(req: Request) {
                             }
                         },
                         chatId, // Pass chatId to orchestrator
-                        contextMessages // Pass chat history for context
+                        contextMessages, // Pass chat history for context
+                        { onFollowUp: saveResult }
                     );
 
-                    // Update session status on completion and save result message
-                    if (chatId) {
-                        db.updateSession({ 
-                            id: chatId, 
-                            status: result.success ? 'idle' : 'error'  // Use 'idle' so panel can be used again
-                        });
-                        
-                        // Save result as system message
-                        db.addMessage(chatId, {
-                            id: Date.now().toString(36) + Math.random().toString(36).substr(2),
-                            role: 'system',
-                            content: result.success 
-                                ? `✅ Orchestration complete! (${result.tasks_executed} tasks)`
-                                : `❌ Failed: ${result.error}`,
-                            timestamp: new Date(),
-                            metadata: { source: 'orchestrator' },
-                        });
-                    }
+                    saveResult(result);
 
                     // Send final result
                     safeEnqueue(`data: ${JSON.stringify({ type: 'result', ...result })}\n\n`);
                 } catch (error) {
+                    flushText();
                     if (chatId) {
                         db.updateSession({ id: chatId, status: 'error' });
                     }
@@ -0,0 +1,47 @@
+/**
+ * Task Plan Cancel API Route
+ */
+import * as db from '@/lib/db';
+import { canAccessPlan, getRequestUser, unauthorizedResponse } from '@/lib/auth';
+import { cancelPlan } from '@/lib/agent/task-graph';
+
+export const runtime = 'nodejs';
+
+// POST /api/plans/[id]/cancel - Cancel tasks not started yet and abort the running ones
+export async function POST(
+    req: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const user = getRequestUser(req);
+        if (!user) return unauthorizedResponse();
+        const { id } = await params;
+
+        const existing = db.getTaskPlan(id);
+        if (!existing || !canAccessPlan(user, existing)) {
+            return new Response(
+                JSON.stringify({ error: 'Plan not found' }),
+                { status: 404, headers: { 'Content-Type': 'application/json' } }
+            );
+        }
+        if (existing.status !== 'running') {
+            return new Response(
+                JSON.stringify({ error: `Plan is already ${existing.status}` }),
+                { status: 409, headers: { 'Content-Type': 'application/json' } }
+            );
+        }
+
+        const plan = await cancelPlan(id);
+
+        return new Response(
+            JSON.stringify({ success: true, plan }),
+            { headers: { 'Content-Type': 'application/json' } }
+        );
+    } catch (error) {
+        console.error('[Plans API] Error cancelling plan:', error);
+        return new Response(
+            JSON.stringify({ error: 'Failed to cancel plan' }),
+            { status: 500, headers: { 'Content-Type': 'application/json' } }
+        );
+    }
+}
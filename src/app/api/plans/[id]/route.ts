@@ -0,0 +1,38 @@
+/**
+ * Task Plan API Route - One plan's graph state
+ */
+import * as db from '@/lib/db';
+import { canAccessPlan, getRequestUser, unauthorizedResponse } from '@/lib/auth';
+
+export const runtime = 'nodejs';
+
+// GET /api/plans/[id] - The plan with the status, chat and result of each task
+export async function GET(
+    req: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const user = getRequestUser(req);
+        if (!user) return unauthorizedResponse();
+        const { id } = await params;
+
+        const plan = db.getTaskPlan(id);
+        if (!plan || !canAccessPlan(user, plan)) {
+            return new Response(
+                JSON.stringify({ error: 'Plan not found' }),
+                { status: 404, headers: { 'Content-Type': 'application/json' } }
+            );
+        }
+
+        return new Response(
+            JSON.stringify({ plan }),
+            { headers: { 'Content-Type': 'application/json' } }
+        );
+    } catch (error) {
+        console.error('[Plans API] Error:', error);
+        return new Response(
+            JSON.stringify({ error: 'Failed to get plan' }),
+            { status: 500, headers: { 'Content-Type': 'application/json' } }
+        );
+    }
+}
@@ -0,0 +1,35 @@
+/**
+ * Task Plans API Route
+ * Dependency graphs of sub-tasks submitted by the orchestrator
+ */
+import * as db from '@/lib/db';
+import { canAccessPlan, getRequestUser, unauthorizedResponse } from '@/lib/auth';
+
+export const runtime = 'nodejs';
+
+const DEFAULT_LIMIT = 10;
+
+// GET /api/plans?sessionId=...&limit=... - Newest plans first (optionally only one orchestrator chat's)
+export async function GET(req: Request) {
+    try {
+        const user = getRequestUser(req);
+        if (!user) return unauthorizedResponse();
+
+        const { searchParams } = new URL(req.url);
+        const sessionId = searchParams.get('sessionId') || undefined;
+        const limit = Math.min(Number(searchParams.get('limit')) || DEFAULT_LIMIT, 100);
+
+        const plans = db.getRecentTaskPlans(limit, sessionId).filter((plan) => canAccessPlan(user, plan));
+
+        return new Response(
+            JSON.stringify({ plans }),
+            { headers: { 'Content-Type': 'application/json' } }
+        );
+    } catch (error) {
+        console.error('[Plans API] Error:', error);
+        return new Response(
+            JSON.stringify({ error: 'Failed to get plans' }),
+            { status: 500, headers: { 'Content-Type': 'application/json' } }
+        );
+    }
+}
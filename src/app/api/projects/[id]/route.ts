@@ -0,0 +1,67 @@
+/**
+ * Project API Route (changes are admins only)
+ */
+import { checkAdmin } from '@/lib/auth';
+import { deleteProject, ProjectError, updateProject } from '@/lib/projects';
+
+export const runtime = 'nodejs';
+
+// PATCH /api/projects/[id] - Change a project's name, root, default model, skills path or agent flags
+export async function PATCH(
+    req: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const denied = checkAdmin(req);
+        if (denied) return denied;
+
+        const { id } = await params;
+        const project = updateProject(id, await req.json());
+        return new Response(
+            JSON.stringify({ project }),
+            { headers: { 'Content-Type': 'application/json' } }
+        );
+    } catch (error) {
+        if (error instanceof ProjectError) {
+            return new Response(
+                JSON.stringify({ error: error.message }),
+                { status: error.status, headers: { 'Content-Type': 'application/json' } }
+            );
+        }
+        console.error('[Projects API] Error updating project:', error);
+        return new Response(
+            JSON.stringify({ error: 'Failed to update project' }),
+            { status: 500, headers: { 'Content-Type': 'application/json' } }
+        );
+    }
+}
+
+// DELETE /api/projects/[id] - Unregister a project (its chats are kept, but can't run an agent until their folder is registered again)
+export async function DELETE(
+    req: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const denied = checkAdmin(req);
+        if (denied) return denied;
+
+        const { id } = await params;
+        if (!deleteProject(id)) {
+            return new Response(
+                JSON.stringify({ error: 'Project not found' }),
+                { status: 404, headers: { 'Content-Type': 'application/json' } }
+            );
+        }
+
+        return new Response(
+            JSON.stringify({ success: true, id }),
+            { headers: { 'Content-Type': 'application/json' } }
+        );
+    } catch (error) {
+        console.error('[Projects API] Error deleting project:', error);
+        return new Response(
+            JSON.stringify({ error: 'Failed to delete project' }),
+            { status: 500, headers: { 'Content-Type': 'application/json' } }
+        );
+    }
+}
@@ -0,0 +1,57 @@
+/**
+ * Projects API Route
+ * The registry of project roots chats (and their agents) run in
+ */
+import { existsSync } from 'fs';
+import { checkAdmin, getRequestUser, unauthorizedResponse } from '@/lib/auth';
+import { createProject, getDefaultProject, getProjects, ProjectError } from '@/lib/projects';
+
+export const runtime = 'nodejs';
+
+// GET /api/projects - List projects, flagging those whose root folder is gone
+export async function GET(req: Request) {
+    try {
+        if (!getRequestUser(req)) return unauthorizedResponse();
+
+        const projects = getProjects().map((project) => ({
+            ...project,
+            rootMissing: !existsSync(project.rootPath),
+        }));
+        return new Response(
+            JSON.stringify({ projects, defaultProjectId: getDefaultProject()?.id }),
+            { headers: { 'Content-Type': 'application/json' } }
+        );
+    } catch (error) {
+        console.error('[Projects API] Error listing projects:', error);
+        return new Response(
+            JSON.stringify({ error: 'Failed to list projects' }),
+            { status: 500, headers: { 'Content-Type': 'application/json' } }
+        );
+    }
+}
+
+// POST /api/projects - { name, rootPath, defaultModel?, skillsPath?, agentFlags? } register a project (admins only)
+export async function POST(req: Request) {
+    try {
+        const denied = checkAdmin(req);
+        if (denied) return denied;
+
+        const project = createProject(await req.json());
+        return new Response(
+            JSON.stringify({ project }),
+            { status: 201, headers: { 'Content-Type': 'application/json' } }
+        );
+    } catch (error) {
+        if (error instanceof ProjectError) {
+            return new Response(
+                JSON.stringify({ error: error.message }),
+                { status: error.status, headers: { 'Content-Type': 'application/json' } }
+            );
+        }
+        console.error('[Projects API] Error creating project:', error);
+        return new Response(
+            JSON.stringify({ error: 'Failed to create project' }),
+            { status: 500, headers: { 'Content-Type': 'application/json' } }
+        );
+    }
+}
@@ -0,0 +1,95 @@
+/**
+ * Search API Route
+ * Full-text search across the user's chats: titles, task.md and messages
+ */
+import { getRequestUser, unauthorizedResponse } from '@/lib/auth';
+import { searchChats } from '@/lib/search';
+import { ChatStatus, Message } from '@/lib/types';
+
+export const runtime = 'nodejs';
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+const STATUSES: ChatStatus[] = ['idle', 'running', 'waiting_response', 'paused', 'completed', 'error', 'cancelled'];
+const SOURCES = ['web', 'telegram'] as const;
+const ROLES: Array<Message['role']> = ['user', 'assistant', 'system'];
+
+function parsePositiveInt(value: string | null): number | undefined {
+    if (!value) return undefined;
+    const parsed = Number.parseInt(value, 10);
+    if (Number.isNaN(parsed) || parsed < 0) return undefined;
+    return parsed;
+}
+
+// ISO date or epoch milliseconds
+function parseTime(value: string | null): Date | null | undefined {
+    if (!value) return undefined;
+    const date = /^\d+$/.test(value) ? new Date(Number(value)) : new Date(value);
+    return Number.isNaN(date.getTime()) ? null : date;
+}
+
+// A value from a fixed list; null when given but not in it
+function parseOption<T extends string>(value: string | null, options: readonly T[]): T | null | undefined {
+    if (!value) return undefined;
+    return options.includes(value as T) ? value as T : null;
+}
+
+function badRequest(error: string): Response {
+    return new Response(
+        JSON.stringify({ error }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+}
+
+/**
+ * GET /api/search?q=&status=&source=&workdir=&projectId=&role=&from=&to=&limit=&offset=
+ * Best matches first; members only find their own chats
+ */
+export async function GET(req: Request) {
+    try {
+        const user = getRequestUser(req);
+        if (!user) return unauthorizedResponse();
+
+        const url = new URL(req.url);
+        const text = url.searchParams.get('q')?.trim();
+        if (!text) {
+            return badRequest('q is required');
+        }
+        const status = parseOption(url.searchParams.get('status'), STATUSES);
+        const source = parseOption(url.searchParams.get('source'), SOURCES);
+        const role = parseOption(url.searchParams.get('role'), ROLES);
+        if (status === null || source === null || role === null) {
+            return badRequest(`status must be one of ${STATUSES.join(', ')}; source web or telegram; role user, assistant or system`);
+        }
+        const from = parseTime(url.searchParams.get('from'));
+        const to = parseTime(url.searchParams.get('to'));
+        if (from === null || to === null) {
+            return badRequest('from and to must be ISO dates or epoch milliseconds');
+        }
+
+        const results = searchChats({
+            text,
+            status,
+            source,
+            role,
+            workdir: url.searchParams.get('workdir') || undefined,
+            projectId: url.searchParams.get('projectId') || undefined,
+            from,
+            to,
+            ownerId: user.role === 'admin' ? undefined : user.id,
+            limit: Math.min(parsePositiveInt(url.searchParams.get('limit')) ?? DEFAULT_LIMIT, MAX_LIMIT),
+            offset: parsePositiveInt(url.searchParams.get('offset')),
+        });
+
+        return new Response(JSON.stringify({ results }), {
+            headers: { 'Content-Type': 'application/json' },
+        });
+    } catch (error) {
+        console.error('[Search API] Error:', error);
+        return new Response(
+            JSON.stringify({ error: 'Failed to search chats' }),
+            { status: 500, headers: { 'Content-Type': 'application/json' } }
+        );
+    }
+}
@@ -0,0 +1,65 @@
+/**
+ * Session Approval API Route
+ * Answer an Agent Manager decision that is waiting for human approval
+ */
+import * as db from '@/lib/db';
+import { resolveApproval } from '@/lib/agent/approvals';
+import { ApprovalResponse } from '@/lib/types';
+import { checkSessionAccess } from '@/lib/auth';
+
+export const runtime = 'nodejs';
+
+// POST /api/sessions/[id]/approval - { action: 'approve' | 'edit' | 'reject', message? }
+export async function POST(
+    req: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { id } = await params;
+        const denied = checkSessionAccess(req, id);
+        if (denied) return denied;
+        const { action, message } = await req.json();
+
+        if (!db.sessionExists(id)) {
+            return new Response(
+                JSON.stringify({ error: 'Session not found' }),
+                { status: 404, headers: { 'Content-Type': 'application/json' } }
+            );
+        }
+
+        let response: ApprovalResponse;
+        if (action === 'approve') {
+            response = { action };
+        } else if (action === 'edit' && typeof message === 'string' && message.trim()) {
+            response = { action, message };
+        } else if (action === 'reject') {
+            response = { action, message: typeof message === 'string' ? message : undefined };
+        } else {
+            return new Response(
+                JSON.stringify({ error: "action must be 'approve', 'edit' (with message) or 'reject'" }),
+                { status: 400, headers: { 'Content-Type': 'application/json' } }
+            );
+        }
+
+        let result;
+        try {
+            result = resolveApproval(id, response);
+        } catch (error) {
+            return new Response(
+                JSON.stringify({ error: error instanceof Error ? error.message : String(error) }),
+                { status: 409, headers: { 'Content-Type': 'application/json' } }
+            );
+        }
+
+        return new Response(
+            JSON.stringify({ success: true, approval: result.approval, message: result.message }),
+            { headers: { 'Content-Type': 'application/json' } }
+        );
+    } catch (error) {
+        console.error('[Approval API] Error:', error);
+        return new Response(
+            JSON.stringify({ error: 'Failed to answer approval' }),
+            { status: 500, headers: { 'Content-Type': 'application/json' } }
+        );
+    }
+}
@@ -0,0 +1,43 @@
+/**
+ * Session Checkpoints API Route
+ * Workdir restore points taken before each Cursor turn of a session
+ */
+import * as db from '@/lib/db';
+import { checkSessionAccess } from '@/lib/auth';
+
+export const runtime = 'nodejs';
+
+// GET /api/sessions/[id]/checkpoints - Checkpoints by turn (restore data omitted)
+export async function GET(
+    req: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { id } = await params;
+        const denied = checkSessionAccess(req, id);
+        if (denied) return denied;
+
+        if (!db.sessionExists(id)) {
+            return new Response(
+                JSON.stringify({ error: 'Session not found' }),
+                { status: 404, headers: { 'Content-Type': 'application/json' } }
+            );
+        }
+
+        const checkpoints = db.getCheckpoints(id).map(({ restorePoint, ...checkpoint }) => ({
+            ...checkpoint,
+            mode: restorePoint.mode,
+        }));
+
+        return new Response(
+            JSON.stringify({ checkpoints }),
+            { headers: { 'Content-Type': 'application/json' } }
+        );
+    } catch (error) {
+        console.error('[Checkpoints API] Error:', error);
+        return new Response(
+            JSON.stringify({ error: 'Failed to get checkpoints' }),
+            { status: 500, headers: { 'Content-Type': 'application/json' } }
+        );
+    }
+}
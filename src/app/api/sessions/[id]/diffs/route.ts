@@ -0,0 +1,45 @@
+/**
+ * Session Diffs API Route
+ * Workdir changes recorded for each Cursor turn of a session
+ */
+import * as db from '@/lib/db';
+import { checkSessionAccess } from '@/lib/auth';
+
+export const runtime = 'nodejs';
+
+// GET /api/sessions/[id]/diffs - All turn diffs (oldest first)
+// Optional query: messageId=<assistant message id> to get the diff of one turn
+export async function GET(
+    req: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { id } = await params;
+        const denied = checkSessionAccess(req, id);
+        if (denied) return denied;
+        const messageId = new URL(req.url).searchParams.get('messageId');
+
+        if (!db.sessionExists(id)) {
+            return new Response(
+                JSON.stringify({ error: 'Session not found' }),
+                { status: 404, headers: { 'Content-Type': 'application/json' } }
+            );
+        }
+
+        let diffs = db.getTurnDiffs(id);
+        if (messageId) {
+            diffs = diffs.filter((d) => d.messageId === messageId);
+        }
+
+        return new Response(
+            JSON.stringify({ diffs }),
+            { headers: { 'Content-Type': 'application/json' } }
+        );
+    } catch (error) {
+        console.error('[Diffs API] Error:', error);
+        return new Response(
+            JSON.stringify({ error: 'Failed to get diffs' }),
+            { status: 500, headers: { 'Content-Type': 'application/json' } }
+        );
+    }
+}
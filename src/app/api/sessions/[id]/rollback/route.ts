@@ -0,0 +1,73 @@
+/**
+ * Session Rollback API Route
+ * Restore a session's workdir to its state before a given Cursor turn
+ */
+import * as db from '@/lib/db';
+import { rollbackToCheckpoint } from '@/lib/agent/turn-diffs';
+import { checkSessionAccess } from '@/lib/auth';
+
+export const runtime = 'nodejs';
+
+// POST /api/sessions/[id]/rollback - { checkpointId } or { turn }
+export async function POST(
+    req: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { id } = await params;
+        const denied = checkSessionAccess(req, id);
+        if (denied) return denied;
+        const { checkpointId, turn } = await req.json();
+
+        const session = db.getSessionMeta(id);
+        if (!session) {
+            return new Response(
+                JSON.stringify({ error: 'Session not found' }),
+                { status: 404, headers: { 'Content-Type': 'application/json' } }
+            );
+        }
+
+        // Rolling back under a running agent would mix its edits with the restored files
+        if (session.status === 'running' || session.status === 'waiting_response') {
+            return new Response(
+                JSON.stringify({ error: 'Session is still running' }),
+                { status: 409, headers: { 'Content-Type': 'application/json' } }
+            );
+        }
+
+        const targetId = checkpointId || db.getCheckpoints(id).find((c) => c.turn === Number(turn))?.id;
+        if (!targetId) {
+            return new Response(
+                JSON.stringify({ error: 'checkpointId or a valid turn is required' }),
+                { status: 400, headers: { 'Content-Type': 'application/json' } }
+            );
+        }
+
+        let result;
+        try {
+            result = await rollbackToCheckpoint(id, targetId);
+        } catch (error) {
+            return new Response(
+                JSON.stringify({ error: error instanceof Error ? error.message : String(error) }),
+                { status: 409, headers: { 'Content-Type': 'application/json' } }
+            );
+        }
+
+        return new Response(
+            JSON.stringify({
+                success: true,
+                turn: result.checkpoint.turn,
+                restored: result.restored,
+                skipped: result.skipped,
+                message: result.message,
+            }),
+            { headers: { 'Content-Type': 'application/json' } }
+        );
+    } catch (error) {
+        console.error('[Rollback API] Error:', error);
+        return new Response(
+            JSON.stringify({ error: 'Failed to roll back session' }),
+            { status: 500, headers: { 'Content-Type': 'application/json' } }
+        );
+    }
+}
@@ -3,6 +3,12 @@
  */
 import * as db from '@/lib/db';
 import { OrchestratorAgent } from '@/lib/agent/orchestrator';
+import { APPROVAL_POLICIES, cancelApproval } from '@/lib/agent/approvals';
+import { abortChat } from '@/lib/agent/abort-controller';
+import { parseSessionBackend } from '@/lib/agent/backends';
+import { cancelPause } from '@/lib/agent/pause';
+import { AgentBackendConfig, ApprovalPolicy, SessionBudget } from '@/lib/types';
+import { checkSessionAccess, getRequestUser } from '@/lib/auth';
 
 export const runtime = 'nodejs';
 
@@ -13,6 +19,8 @@ export async function DELETE(
 ) {
     try {
         const { id } = await params;
+        const denied = checkSessionAccess(req, id);
+        if (denied) return denied;
         
         if (!id) {
             return new Response(
@@ -34,9 +42,12 @@ export async function DELETE(
         }
 
         // If session is running, try to abort it first
-        if (session.status === 'running' || session.status === 'waiting_response') {
+        if (session.status === 'running' || session.status === 'waiting_response' || session.status === 'paused') {
             // Update status to idle to signal abort
             db.updateSession({ id, status: 'idle' });
+            abortChat(id);
+            cancelApproval(id);
+            cancelPause(id);
             console.log(`[Sessions API] Aborted running session ${id}`);
         }
 
@@ -66,6 +77,8 @@ export async function GET(
 ) {
     try {
         const { id } = await params;
+        const denied = checkSessionAccess(req, id);
+        if (denied) return denied;
         
         if (!id) {
             return new Response(
@@ -83,7 +96,7 @@ export async function GET(
         }
 
         return new Response(
-            JSON.stringify({ session }),
+            JSON.stringify({ session, usage: db.getUsageTotals({ sessionId: id }) }),
             { headers: { 'Content-Type': 'application/json' } }
         );
     } catch (error) {
@@ -95,13 +108,15 @@ export async function GET(
     }
 }
 
-// PATCH /api/sessions/[id] - Update session (e.g., taskMd)
+// PATCH /api/sessions/[id] - Update session (e.g., taskMd, backend, approvalPolicy, budget)
 export async function PATCH(
     req: Request,
     { params }: { params: Promise<{ id: string }> }
 ) {
     try {
         const { id } = await params;
+        const denied = checkSessionAccess(req, id);
+        if (denied) return denied;
         const body = await req.json();
         
         if (!id) {
@@ -120,7 +135,7 @@ export async function PATCH(
         }
 
         // Update allowed fields
-        const updates: { id: string; taskMd?: string; title?: string } = { id };
+        const updates: { id: string; taskMd?: string; title?: string; backend?: AgentBackendConfig; approvalPolicy?: ApprovalPolicy; budget?: SessionBudget } = { id };
         
         if (body.taskMd !== undefined) {
             updates.taskMd = body.taskMd;
@@ -128,6 +143,37 @@ export async function PATCH(
         if (body.title !== undefined) {
             updates.title = body.title;
         }
+        if (body.backend !== undefined) {
+            // null goes back to the backend from settings
+            try {
+                updates.backend = parseSessionBackend(body.backend, getRequestUser(req)?.role === 'admin');
+            } catch (error) {
+                return new Response(
+                    JSON.stringify({ error: error instanceof Error ? error.message : String(error) }),
+                    { status: 400, headers: { 'Content-Type': 'application/json' } }
+                );
+            }
+        }
+        if (body.approvalPolicy !== undefined) {
+            if (!APPROVAL_POLICIES.includes(body.approvalPolicy)) {
+                return new Response(
+                    JSON.stringify({ error: `approvalPolicy must be one of: ${APPROVAL_POLICIES.join(', ')}` }),
+                    { status: 400, headers: { 'Content-Type': 'application/json' } }
+                );
+            }
+            updates.approvalPolicy = body.approvalPolicy;
+        }
+        if (body.budget !== undefined) {
+            // null goes back to the default budget from settings
+            const budget = body.budget === null ? undefined : parseBudget(body.budget);
+            if (body.budget !== null && !budget) {
+                return new Response(
+                    JSON.stringify({ error: 'budget must be null or { maxCostUsd?, maxTokens? } with non-negative numbers' }),
+                    { status: 400, headers: { 'Content-Type': 'application/json' } }
+                );
+            }
+            updates.budget = budget;
+        }
 
         db.updateSession(updates);
 
@@ -146,3 +192,11 @@ export async function PATCH(
         );
     }
 }
+
+function parseBudget(value: unknown): SessionBudget | undefined {
+    if (!value || typeof value !== 'object') return undefined;
+    const { maxCostUsd, maxTokens } = value as Record<string, unknown>;
+    const isLimit = (v: unknown) => v === undefined || (typeof v === 'number' && Number.isFinite(v) && v >= 0);
+    if (!isLimit(maxCostUsd) || !isLimit(maxTokens)) return undefined;
+    return { maxCostUsd: maxCostUsd as number | undefined, maxTokens: maxTokens as number | undefined };
+}
@@ -0,0 +1,38 @@
+/**
+ * Session Policy Violations API Route
+ * Tool calls that stopped the session's agent because its permissions don't allow them
+ */
+import * as db from '@/lib/db';
+import { checkSessionAccess } from '@/lib/auth';
+
+export const runtime = 'nodejs';
+
+// GET /api/sessions/[id]/violations - Violations, oldest first
+export async function GET(
+    req: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { id } = await params;
+        const denied = checkSessionAccess(req, id);
+        if (denied) return denied;
+
+        if (!db.sessionExists(id)) {
+            return new Response(
+                JSON.stringify({ error: 'Session not found' }),
+                { status: 404, headers: { 'Content-Type': 'application/json' } }
+            );
+        }
+
+        return new Response(
+            JSON.stringify({ violations: db.getPolicyViolations(id) }),
+            { headers: { 'Content-Type': 'application/json' } }
+        );
+    } catch (error) {
+        console.error('[Violations API] Error:', error);
+        return new Response(
+            JSON.stringify({ error: 'Failed to get policy violations' }),
+            { status: 500, headers: { 'Content-Type': 'application/json' } }
+        );
+    }
+}
@@ -0,0 +1,110 @@
+/**
+ * Session Worktree API Route
+ * Inspect, merge or discard the isolated git worktree of an orchestrator sub-task
+ */
+import * as db from '@/lib/db';
+import { chatStore } from '@/lib/agent/chat-store';
+import { discardWorktree, getWorktreeStatus, mergeWorktree } from '@/lib/git/worktree';
+import { checkSessionAccess } from '@/lib/auth';
+
+export const runtime = 'nodejs';
+
+// GET /api/sessions/[id]/worktree - Worktree info plus pending changes
+export async function GET(
+    req: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { id } = await params;
+        const denied = checkSessionAccess(req, id);
+        if (denied) return denied;
+        const session = db.getSessionMeta(id);
+        if (!session?.worktree) {
+            return new Response(
+                JSON.stringify({ error: 'Session has no worktree' }),
+                { status: 404, headers: { 'Content-Type': 'application/json' } }
+            );
+        }
+
+        const changes = await getWorktreeStatus(session.worktree);
+
+        return new Response(
+            JSON.stringify({ worktree: session.worktree, ...changes }),
+            { headers: { 'Content-Type': 'application/json' } }
+        );
+    } catch (error) {
+        console.error('[Worktree API] Status error:', error);
+        return new Response(
+            JSON.stringify({ error: 'Failed to get worktree status' }),
+            { status: 500, headers: { 'Content-Type': 'application/json' } }
+        );
+    }
+}
+
+// POST /api/sessions/[id]/worktree - { action: 'merge' | 'discard' }
+export async function POST(
+    req: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { id } = await params;
+        const denied = checkSessionAccess(req, id);
+        if (denied) return denied;
+        const { action } = await req.json();
+
+        if (action !== 'merge' && action !== 'discard') {
+            return new Response(
+                JSON.stringify({ error: "action must be 'merge' or 'discard'" }),
+                { status: 400, headers: { 'Content-Type': 'application/json' } }
+            );
+        }
+
+        const session = db.getSessionMeta(id);
+        if (!session?.worktree) {
+            return new Response(
+                JSON.stringify({ error: 'Session has no worktree' }),
+                { status: 404, headers: { 'Content-Type': 'application/json' } }
+            );
+        }
+
+        if (session.status === 'running' || session.status === 'waiting_response') {
+            return new Response(
+                JSON.stringify({ error: 'Session is still running' }),
+                { status: 409, headers: { 'Content-Type': 'application/json' } }
+            );
+        }
+
+        let worktree;
+        try {
+            worktree = action === 'merge'
+                ? await mergeWorktree(session.worktree, session.title)
+                : await discardWorktree(session.worktree);
+        } catch (error) {
+            // Merge conflicts, wrong branch checked out, etc. - nothing was changed
+            return new Response(
+                JSON.stringify({ error: error instanceof Error ? error.message : String(error) }),
+                { status: 409, headers: { 'Content-Type': 'application/json' } }
+            );
+        }
+
+        // The worktree directory is gone; point the chat back at the original workdir
+        db.updateSession({ id, worktree, workdir: worktree.originalWorkdir });
+        const cached = chatStore.get(id);
+        if (cached) {
+            cached.worktree = worktree;
+            cached.workdir = worktree.originalWorkdir;
+        }
+        console.log(`[Worktree API] ${action} ${worktree.branch} for session ${id}`);
+
+        return new Response(
+            JSON.stringify({ success: true, worktree }),
+            { headers: { 'Content-Type': 'application/json' } }
+        );
+    } catch (error) {
+        console.error('[Worktree API] Action error:', error);
+        return new Response(
+            JSON.stringify({ error: 'Failed to update worktree' }),
+            { status: 500, headers: { 'Content-Type': 'application/json' } }
+        );
+    }
+}
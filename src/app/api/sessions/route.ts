@@ -2,10 +2,13 @@
  * Sessions API Route
  * Get all chat sessions from database
  */
-import { existsSync } from 'fs';
 import { OrchestratorAgent } from '@/lib/agent/orchestrator';
+import { parseSessionBackend } from '@/lib/agent/backends';
+import { audit } from '@/lib/audit';
 import * as db from '@/lib/db';
 import { ChatSession } from '@/lib/types';
+import { canAccessSession, getRequestUser, sessionOwnerId, unauthorizedResponse } from '@/lib/auth';
+import { ProjectError, resolveProjectWorkdir } from '@/lib/projects';
 
 export const runtime = 'nodejs';
 
@@ -29,11 +32,16 @@ function parseBoolean(value: string | null): boolean {
 
 /**
  * POST /api/sessions - Create a new session
+ * In `projectId` (default: the project containing `workdir`, then the default project), at
+ * `workdir` inside it (default: the project root)
  */
 export async function POST(req: Request) {
     try {
+        const user = getRequestUser(req);
+        if (!user) return unauthorizedResponse();
+
         const body = await req.json();
-        const { id, title, workdir } = body;
+        const { id, title, projectId, workdir, backend } = body;
         
         if (!id) {
             return new Response(
@@ -44,6 +52,12 @@ export async function POST(req: Request) {
         
         // Check if session already exists
         const existing = db.getSessionMeta(id);
+        if (existing && !canAccessSession(user, existing)) {
+            return new Response(
+                JSON.stringify({ error: 'Session ID is taken' }),
+                { status: 409, headers: { 'Content-Type': 'application/json' } }
+            );
+        }
         if (existing) {
             // Return existing session instead of error
             return new Response(
@@ -52,6 +66,27 @@ export async function POST(req: Request) {
             );
         }
         
+        let sessionBackend;
+        try {
+            sessionBackend = parseSessionBackend(backend, user.role === 'admin');
+        } catch (error) {
+            return new Response(
+                JSON.stringify({ error: error instanceof Error ? error.message : String(error) }),
+                { status: 400, headers: { 'Content-Type': 'application/json' } }
+            );
+        }
+
+        let resolved;
+        try {
+            resolved = resolveProjectWorkdir({ projectId, workdir });
+        } catch (error) {
+            if (!(error instanceof ProjectError)) throw error;
+            return new Response(
+                JSON.stringify({ error: error.message }),
+                { status: error.status, headers: { 'Content-Type': 'application/json' } }
+            );
+        }
+
         // Create new session
         const newSession: ChatSession = {
             id,
@@ -59,10 +94,19 @@ export async function POST(req: Request) {
             status: 'idle',
             messages: [],
             createdAt: new Date(),
-            workdir: workdir || undefined,
+            projectId: resolved.project.id,
+            workdir: resolved.workdir,
+            backend: sessionBackend,
+            ownerId: sessionOwnerId(user),
         };
         
         db.createSession(newSession);
+        audit('session_started', {
+            userId: newSession.ownerId,
+            sessionId: id,
+            projectId: newSession.projectId,
+            details: { source: 'web', workdir: newSession.workdir },
+        });
         console.log(`[Sessions API] Created new session: ${id}, title: ${title}`);
         
         return new Response(
@@ -80,6 +124,9 @@ export async function POST(req: Request) {
 
 export async function GET(req: Request) {
     try {
+        const user = getRequestUser(req);
+        if (!user) return unauthorizedResponse();
+
         const url = new URL(req.url);
         const includeMessages = parseBoolean(url.searchParams.get('includeMessages'));
         const messageLimitParam = parsePositiveInt(url.searchParams.get('messageLimit'));
@@ -90,7 +137,7 @@ export async function GET(req: Request) {
         );
 
         // Get all sessions from database (metadata only)
-        const sessionsWithoutMessages = db.getAllSessions();
+        const sessionsWithoutMessages = db.getAllSessions().filter((s) => canAccessSession(user, s));
         
         // Load recent messages for all sessions so manual chats restore correctly after refresh
         const sessions = sessionsWithoutMessages.map((s) => {
@@ -113,6 +160,7 @@ export async function GET(req: Request) {
         // Merge - prefer DB version (has messages), only add memory sessions if not in DB
         const sessionMap = new Map(sessions.map(s => [s.id, s]));
         for (const session of allSessions) {
+            if (!canAccessSession(user, session)) continue;
             if (!sessionMap.has(session.id)) {
                 sessionMap.set(session.id, session);
             } else {
@@ -127,12 +175,7 @@ export async function GET(req: Request) {
             }
         }
         
-        // Check if workdir exists for each session and mark if missing
         const result = Array.from(sessionMap.values())
-            .map(s => ({
-                ...s,
-                workdirMissing: s.workdir ? !existsSync(s.workdir) : false,
-            }))
             .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
 
         return new Response(JSON.stringify({ sessions: result }), {
@@ -7,6 +7,9 @@ export const runtime = 'nodejs';
 
 import { getSettings, saveSettings, AppSettings } from '@/lib/settings';
 import { startTelegramPolling, isTelegramPollingActive } from '@/lib/telegram/polling';
+import { checkAdmin, getRequestUser, sessionOwnerId } from '@/lib/auth';
+import { parseAgentPermissions } from '@/lib/agent/permissions';
+import { audit } from '@/lib/audit';
 
 // Re-export types for compatibility
 export type { AppSettings };
@@ -29,7 +32,7 @@ export async function GET() {
                 lastAttemptTime = now;
                 console.log('[Settings API] Auto-starting Telegram polling...');
                 // Don't await - let it start in background
-                startTelegramPolling(getSettings).catch((error) => {
+                startTelegramPolling().catch((error) => {
                     console.error('[Settings API] Failed to start polling:', error);
                     // Reset flag on error so we can retry later
                     telegramInitAttempted = false;
@@ -49,11 +52,36 @@ export async function GET() {
     }
 }
 
+// Settings apply to everyone, so only admins change them
 export async function POST(req: Request) {
     try {
+        const denied = checkAdmin(req);
+        if (denied) return denied;
+
         const settings = await req.json();
-        
+        try {
+            settings.agentPermissions = parseAgentPermissions(settings.agentPermissions);
+        } catch (error) {
+            return new Response(
+                JSON.stringify({ error: `Agent permissions: ${error instanceof Error ? error.message : String(error)}` }),
+                { status: 400, headers: { 'Content-Type': 'application/json' } }
+            );
+        }
+
+        // Record which settings changed, from what to what
+        const previous: Record<string, unknown> = { ...getSettings() };
+        const changes: Record<string, { from: unknown; to: unknown }> = {};
+        for (const key of new Set([...Object.keys(previous), ...Object.keys(settings)])) {
+            if (JSON.stringify(previous[key]) !== JSON.stringify(settings[key])) {
+                changes[key] = { from: previous[key], to: settings[key] };
+            }
+        }
+
         saveSettings(settings);
+        if (Object.keys(changes).length > 0) {
+            const user = getRequestUser(req);
+            audit('settings_changed', { userId: user ? sessionOwnerId(user) : undefined, details: { changes } });
+        }
         
         return new Response(JSON.stringify({ success: true, settings }), {
             headers: { 'Content-Type': 'application/json' },
@@ -4,14 +4,21 @@
  */
 import { OrchestratorAgent, chatStore } from '@/lib/agent/orchestrator';
 import { getActiveCursorCalls, activeCursorCalls } from '@/lib/agent/cursor-executor';
+import { isSessionJobActive } from '@/lib/agent/job-queue';
+import { getQueuedCursorCalls, getSchedulerLimits } from '@/lib/agent/scheduler';
+import { getSessionBudget } from '@/lib/agent/usage';
 import * as db from '@/lib/db';
+import { canAccessSession, checkAdmin, getRequestUser, unauthorizedResponse } from '@/lib/auth';
 
 export const runtime = 'nodejs';
 
-export async function GET() {
+export async function GET(req: Request) {
     try {
-        // Get sessions from database
-        const dbSessions = db.getAllSessions();
+        const user = getRequestUser(req);
+        if (!user) return unauthorizedResponse();
+
+        // Get sessions from database (members only see their own)
+        const dbSessions = db.getAllSessions().filter((s) => canAccessSession(user, s));
         
         // Get sessions from memory cache
         const memorySessions: Array<{
@@ -23,6 +30,7 @@ export async function GET() {
         }> = [];
         
         for (const [id, session] of chatStore.entries()) {
+            if (!canAccessSession(user, session)) continue;
             memorySessions.push({
                 id,
                 title: session.title,
@@ -91,12 +99,45 @@ export async function GET() {
             durationMs: Date.now() - call.startTime.getTime(),
         }));
 
+        // Calls waiting for a scheduler slot, in the order they will start
+        const queuedCalls = getQueuedCursorCalls().map(call => ({
+            ...call,
+            queuedAt: call.queuedAt.toISOString(),
+            waitMs: Date.now() - call.queuedAt.getTime(),
+        }));
+
+        // Persisted conversation jobs that haven't finished
+        const jobs = db.getJobsByStatus(['queued', 'running', 'paused']).map(job => ({
+            id: job.id,
+            sessionId: job.sessionId,
+            status: job.status,
+            currentTurn: job.currentTurn,
+            attempts: job.attempts,
+            updatedAt: job.updatedAt.toISOString(),
+        }));
+
+        // Anthropic API usage (orchestrator + Agent Manager calls)
+        const usage = {
+            totals: db.getUsageTotals(),
+            byModel: db.getUsageByModel(),
+            topSessions: db.getUsageBySession(10).filter(entry => dbSessions.some(s => s.id === entry.sessionId)).map(entry => ({
+                ...entry,
+                title: dbSessions.find(s => s.id === entry.sessionId)?.title,
+                budget: getSessionBudget(entry.sessionId),
+            })),
+        };
+
         return new Response(JSON.stringify({
             // Active Cursor calls - THE KEY METRIC
             activeCursorCalls: {
                 count: activeCalls.length,
                 calls: activeCalls,
             },
+            queue: {
+                count: queuedCalls.length,
+                calls: queuedCalls,
+                limits: getSchedulerLimits(),
+            },
             database: {
                 stats: dbStats,
                 running: runningInDb,
@@ -105,6 +146,8 @@ export async function GET() {
                 stats: memoryStats,
                 running: runningInMemory,
             },
+            jobs,
+            usage,
             discrepancies,
             timestamp: new Date().toISOString(),
         }, null, 2), {
@@ -128,6 +171,9 @@ export async function GET() {
  */
 export async function POST(req: Request) {
     try {
+        const denied = checkAdmin(req);
+        if (denied) return denied;
+
         const { action } = await req.json();
         
         if (action === 'sync') {
@@ -160,7 +206,7 @@ export async function POST(req: Request) {
                 if (session.status === 'running' || session.status === 'waiting_response') {
                     // Check if it's in memory cache and still active
                     const memSession = chatStore.get(session.id);
-                    if (!memSession) {
+                    if (!memSession && !isSessionJobActive(session.id)) {
                         // Not in memory, probably stale - mark as idle
                         db.updateSession({ id: session.id, status: 'idle' });
                         cleared++;
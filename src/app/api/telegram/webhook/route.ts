@@ -8,16 +8,13 @@
  * Long-polling is the default mode and doesn't require ngrok or public URL.
  */
 import { getTelegramBot, TelegramUpdate } from '@/lib/telegram/bot';
-import { handleTelegramUpdate, setSettingsGetter } from '@/lib/telegram/handler';
+import { handleTelegramUpdate, registerApprovalNotifications } from '@/lib/telegram/handler';
 import { startTelegramPolling, isTelegramPollingActive } from '@/lib/telegram/polling';
-import { getSettings } from '@/lib/settings';
+import { isAuthEnabled } from '@/lib/auth';
 
 export const runtime = 'nodejs';
 export const maxDuration = 60; // 1 minute timeout
 
-// Initialize settings getter for handler
-setSettingsGetter(getSettings);
-
 /**
  * POST handler for webhook mode
  * If you're using webhook mode with ngrok, Telegram sends updates here
@@ -29,6 +26,13 @@ export async function POST(req: Request) {
         return new Response('Bot not configured', { status: 500 });
     }
 
+    // The route skips sign-in, so updates must carry the secret given to setWebhook
+    const secret = process.env.TELEGRAM_WEBHOOK_SECRET;
+    if (secret ? req.headers.get('x-telegram-bot-api-secret-token') !== secret : isAuthEnabled()) {
+        console.warn('[Telegram Webhook] Rejected update without a valid secret token (set TELEGRAM_WEBHOOK_SECRET)');
+        return new Response('Unauthorized', { status: 401 });
+    }
+
     // If polling is active, we shouldn't receive webhook requests
     // This could happen if webhook wasn't deleted properly
     if (isTelegramPollingActive()) {
@@ -36,6 +40,8 @@ export async function POST(req: Request) {
         return new Response('Polling mode active', { status: 200 });
     }
 
+    registerApprovalNotifications(bot);
+
     try {
         const update: TelegramUpdate = await req.json();
         console.log('[Telegram Webhook] Received update:', JSON.stringify(update, null, 2));
@@ -0,0 +1,113 @@
+'use client';
+
+import { FormEvent, Suspense, useEffect, useState } from 'react';
+import { useSearchParams } from 'next/navigation';
+
+// Wrap the form to use Suspense for useSearchParams
+export default function LoginPage() {
+    return (
+        <Suspense fallback={null}>
+            <LoginForm />
+        </Suspense>
+    );
+}
+
+function LoginForm() {
+    const searchParams = useSearchParams();
+    const [setupRequired, setSetupRequired] = useState<boolean | null>(null);
+    const [username, setUsername] = useState('');
+    const [password, setPassword] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    // Only same-site paths, so the page can't be used to bounce users elsewhere
+    const next = searchParams.get('next');
+    const redirectTo = next?.startsWith('/') && !next.startsWith('//') ? next : '/';
+
+    useEffect(() => {
+        (async () => {
+            try {
+                const res = await fetch('/api/auth/status');
+                const data = await res.json();
+                if (!data.authEnabled) {
+                    window.location.href = redirectTo;
+                    return;
+                }
+                setSetupRequired(data.setupRequired);
+            } catch (e) {
+                console.error('Failed to load auth status:', e);
+                setSetupRequired(false);
+            }
+        })();
+    }, [redirectTo]);
+
+    const handleSubmit = async (e: FormEvent) => {
+        e.preventDefault();
+        setError(null);
+        setIsSubmitting(true);
+        try {
+            const res = await fetch(setupRequired ? '/api/auth/setup' : '/api/auth/login', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ username, password }),
+            });
+            if (!res.ok) {
+                const data = await res.json().catch(() => ({}));
+                setError(data.error || 'Sign-in failed');
+                return;
+            }
+            window.location.href = redirectTo;
+        } catch (e) {
+            console.error('Failed to sign in:', e);
+            setError('Sign-in failed');
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    if (setupRequired === null) return null;
+
+    return (
+        <div className="p-4 h-screen">
+            <div className="flex h-full items-center justify-center bg-[var(--bg-primary)] rounded-xl border border-[var(--border)] shadow-[var(--app-shadow)]">
+                <form onSubmit={handleSubmit} className="w-full max-w-sm space-y-4 p-6">
+                    <div>
+                        <h1 className="text-lg font-semibold text-[var(--text-primary)]">
+                            {setupRequired ? 'Create admin account' : 'Sign in'}
+                        </h1>
+                        {setupRequired && (
+                            <p className="text-xs text-[var(--text-muted)] mt-1">
+                                The first account is an admin and takes over the existing chats.
+                            </p>
+                        )}
+                    </div>
+                    <input
+                        type="text"
+                        value={username}
+                        onChange={(e) => setUsername(e.target.value)}
+                        placeholder="Username"
+                        autoComplete="username"
+                        autoFocus
+                        className="input w-full text-sm"
+                    />
+                    <input
+                        type="password"
+                        value={password}
+                        onChange={(e) => setPassword(e.target.value)}
+                        placeholder="Password"
+                        autoComplete={setupRequired ? 'new-password' : 'current-password'}
+                        className="input w-full text-sm"
+                    />
+                    {error && <p className="text-xs text-[var(--destructive)]">{error}</p>}
+                    <button
+                        type="submit"
+                        disabled={isSubmitting || !username || !password}
+                        className="btn btn-primary h-9 w-full text-sm"
+                    >
+                        {isSubmitting ? 'Please wait...' : setupRequired ? 'Create account' : 'Sign in'}
+                    </button>
+                </form>
+            </div>
+        </div>
+    );
+}
@@ -10,8 +10,12 @@ import { Sidebar } from '@/components/Sidebar';
 import { OrchestratePanel } from '@/components/OrchestratePanel';
 import { MentionInput } from '@/components/MentionInput';
 import { TaskEditor } from '@/components/TaskEditor';
+import { DiffViewer } from '@/components/DiffViewer';
 import { SettingsPanel, AppSettings, getStoredSettings, saveSettings } from '@/components/SettingsPanel';
-import { ChatSession, ChatStatus } from '@/lib/types';
+import { ApprovalBanner, APPROVAL_POLICY_OPTIONS } from '@/components/ApprovalBanner';
+import { ResumeBanner } from '@/components/ResumeBanner';
+import { UsageSummary, UsageSummaryData } from '@/components/UsageSummary';
+import { ApprovalPolicy, ChatSession, ChatStatus, Message, PendingApproval, Project, User } from '@/lib/types';
 import { generateId } from '@/lib/utils/id';
 import { isManualChat, isOrchestratorMain, isOrchestratorSubtask } from '@/lib/utils/session';
 
@@ -21,7 +25,7 @@ interface DisplayMessage {
     role: 'user' | 'assistant' | 'system';
     content: string;
     timestamp: Date;
-    metadata?: { source?: 'agent_manager' | 'orchestrator' | 'user' | 'cursor' | 'thinking' };
+    metadata?: { source?: 'agent_manager' | 'orchestrator' | 'user' | 'cursor' | 'thinking'; diffId?: string };
 }
 
 const SESSION_MESSAGE_LIMIT = 50;
@@ -72,8 +76,57 @@ function HomeContent() {
     // Settings state
     const [isSettingsOpen, setIsSettingsOpen] = useState(false);
     const [settings, setSettings] = useState<AppSettings>(() => getStoredSettings());
-    const workdir = settings.workdir;
     
+    // Registered projects; new chats go to the default one unless another is picked
+    const [projectList, setProjectList] = useState<{ projects: Project[]; defaultProjectId?: string }>({ projects: [] });
+    const projects = projectList.projects;
+    const defaultProject = useMemo(
+        () =>
+            projects.find((p) => p.id === settings.defaultProjectId) ||
+            projects.find((p) => p.id === projectList.defaultProjectId) ||
+            projects[0],
+        [projects, projectList.defaultProjectId, settings.defaultProjectId]
+    );
+
+    const loadProjects = useCallback(async () => {
+        try {
+            const res = await fetch('/api/projects');
+            if (res.ok) setProjectList(await res.json());
+        } catch (e) {
+            console.error('Failed to load projects:', e);
+        }
+    }, []);
+
+    useEffect(() => {
+        loadProjects();
+    }, [loadProjects]);
+    
+    // Signed-in user and their orchestrator chat (back to the sign-in page once the session is gone)
+    const [auth, setAuth] = useState<{ user: User; authEnabled: boolean; orchestratorChatId: string } | null>(null);
+    useEffect(() => {
+        (async () => {
+            try {
+                const res = await fetch('/api/auth/me');
+                if (res.status === 401) {
+                    window.location.href = `/login?next=${encodeURIComponent(window.location.pathname + window.location.search)}`;
+                    return;
+                }
+                if (res.ok) setAuth(await res.json());
+            } catch (e) {
+                console.error('Failed to load user:', e);
+            }
+        })();
+    }, []);
+
+    const handleSignOut = async () => {
+        try {
+            await fetch('/api/auth/logout', { method: 'POST' });
+        } catch (e) {
+            console.error('Failed to sign out:', e);
+        }
+        window.location.href = '/login';
+    };
+
     // Hydrate settings from server defaults (fills blanks / supports cross-device)
     useEffect(() => {
         const controller = new AbortController();
@@ -85,12 +138,42 @@ function HomeContent() {
                 
                 setSettings((prev) => {
                     const merged: AppSettings = {
-                        workdir: prev.workdir || serverSettings.workdir,
+                        // The default project is chosen on the server
+                        defaultProjectId: serverSettings.defaultProjectId,
                         skillsPath: prev.skillsPath || serverSettings.skillsPath,
                         model: prev.model || serverSettings.model,
+                        // Backend lives on the server (may come from AGENT_COMMAND)
+                        backend: serverSettings.backend || prev.backend,
+                        concurrency: serverSettings.concurrency || prev.concurrency,
+                        isolateSubtasks: serverSettings.isolateSubtasks ?? prev.isolateSubtasks,
+                        orchestratorFollowUp: serverSettings.orchestratorFollowUp ?? prev.orchestratorFollowUp,
+                        orchestratorHistoryTokens: serverSettings.orchestratorHistoryTokens ?? prev.orchestratorHistoryTokens,
+                        fileAccessRoots: serverSettings.fileAccessRoots ?? prev.fileAccessRoots,
+                        approvalPolicy: serverSettings.approvalPolicy ?? prev.approvalPolicy,
+                        budget: serverSettings.budget ?? prev.budget,
+                        modelPrices: serverSettings.modelPrices ?? prev.modelPrices,
+                        timeouts: serverSettings.timeouts ?? prev.timeouts,
+                        retry: serverSettings.retry ?? prev.retry,
+                        agentPermissions: serverSettings.agentPermissions ?? prev.agentPermissions,
                     };
                     
-                    if (merged.workdir === prev.workdir && merged.skillsPath === prev.skillsPath && merged.model === prev.model) {
+                    if (
+                        merged.defaultProjectId === prev.defaultProjectId &&
+                        merged.skillsPath === prev.skillsPath &&
+                        merged.model === prev.model &&
+                        JSON.stringify(merged.backend) === JSON.stringify(prev.backend) &&
+                        JSON.stringify(merged.concurrency) === JSON.stringify(prev.concurrency) &&
+                        merged.isolateSubtasks === prev.isolateSubtasks &&
+                        merged.orchestratorFollowUp === prev.orchestratorFollowUp &&
+                        merged.orchestratorHistoryTokens === prev.orchestratorHistoryTokens &&
+                        JSON.stringify(merged.fileAccessRoots) === JSON.stringify(prev.fileAccessRoots) &&
+                        merged.approvalPolicy === prev.approvalPolicy &&
+                        JSON.stringify(merged.budget) === JSON.stringify(prev.budget) &&
+                        JSON.stringify(merged.modelPrices) === JSON.stringify(prev.modelPrices) &&
+                        JSON.stringify(merged.timeouts) === JSON.stringify(prev.timeouts) &&
+                        JSON.stringify(merged.retry) === JSON.stringify(prev.retry) &&
+                        JSON.stringify(merged.agentPermissions) === JSON.stringify(prev.agentPermissions)
+                    ) {
                         return prev;
                     }
                     
@@ -118,6 +201,12 @@ function HomeContent() {
     // System status for monitoring active Cursor calls
     const [systemStatus, setSystemStatus] = useState<{
         activeCursorCalls: { count: number; calls: Array<{ id: string; chatTitle?: string; task: string; durationMs: number }> };
+        queue?: {
+            count: number;
+            calls: Array<{ id: string; chatTitle?: string; task: string; position: number; priority: string; waitMs: number; waitingForWorkdir: boolean }>;
+            limits: { maxConcurrent: number; maxPerWorkdir: number };
+        };
+        usage?: UsageSummaryData;
     } | null>(null);
     const [isStatusExpanded, setIsStatusExpanded] = useState(false);
 
@@ -127,8 +216,8 @@ function HomeContent() {
             api: '/api/chat',
             id: currentSessionId || undefined,
             body: {
-                // Pass workdir - backend will prefer session's workdir if set
-                workdir: currentSession?.workdir || workdir,
+                // Project for a chat not saved yet - backend uses the session's own project and workdir if set
+                projectId: currentSession?.projectId || defaultProject?.id,
             },
             onFinish: (message) => {
                 // Clear waiting state when response is received
@@ -162,7 +251,7 @@ function HomeContent() {
 
     type ChatUiMessage = (typeof messages)[number];
     type ChatUiMessageWithMetadata = ChatUiMessage & {
-        metadata?: { source?: 'agent_manager' | 'orchestrator' | 'user' | 'cursor' | 'thinking' };
+        metadata?: { source?: 'agent_manager' | 'orchestrator' | 'user' | 'cursor' | 'thinking'; diffId?: string };
     };
 
     // Handle stop/abort for current chat
@@ -170,8 +259,8 @@ function HomeContent() {
         // Stop the streaming response from useChat
         stop();
         
-        // If it's an orchestrator-managed session, also try to abort on server
-        if (currentSessionId && (isOrchestratorManaged || currentSession?.orchestrateTaskId)) {
+        // Abort on the server too: the stream closing doesn't stop the agent loop or the Cursor process
+        if (currentSessionId) {
             try {
                 await fetch('/api/chat/abort', {
                     method: 'POST',
@@ -182,14 +271,143 @@ function HomeContent() {
                 // Update session status
                 setSessions((prev) =>
                     prev.map((s) =>
-                        s.id === currentSessionId ? { ...s, status: 'idle' } : s
+                        s.id === currentSessionId ? { ...s, status: 'cancelled' } : s
                     )
                 );
             } catch (e) {
                 console.error('Failed to abort chat:', e);
             }
         }
-    }, [stop, currentSessionId, isOrchestratorManaged, currentSession?.orchestrateTaskId]);
+    }, [stop, currentSessionId]);
+
+    // Turn diff to open in the changes viewer (from a message's "View changes" link)
+    const [focusDiffId, setFocusDiffId] = useState<string | null>(null);
+    const clearFocusDiffId = useCallback(() => setFocusDiffId(null), []);
+
+    // Show the system message recorded by a workdir rollback
+    const handleRollback = useCallback((message: Message) => {
+        if (messages.length > 0) {
+            // useChat holds the visible history; the sync effect copies it into the session
+            setMessages((prev) => [...prev, { id: message.id, role: 'system', content: message.content, createdAt: message.timestamp }]);
+            return;
+        }
+        setSessions((prev) =>
+            prev.map((s) => (s.id === currentSessionId ? { ...s, messages: [...s.messages, message] } : s))
+        );
+    }, [messages.length, setMessages, currentSessionId]);
+
+    // Merge or discard the isolated worktree of a finished sub-task
+    const [worktreeBusy, setWorktreeBusy] = useState(false);
+    const [worktreeError, setWorktreeError] = useState<string | null>(null);
+    const handleWorktreeAction = useCallback(async (action: 'merge' | 'discard') => {
+        if (!currentSessionId) return;
+        if (action === 'discard' && !confirm('Discard all changes made by this task?')) return;
+
+        setWorktreeBusy(true);
+        setWorktreeError(null);
+        try {
+            const res = await fetch(`/api/sessions/${currentSessionId}/worktree`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ action }),
+            });
+            const data = await res.json();
+            if (!res.ok) {
+                setWorktreeError(data.error || `Failed to ${action} worktree`);
+                return;
+            }
+            setSessions((prev) =>
+                prev.map((s) =>
+                    s.id === currentSessionId
+                        ? { ...s, worktree: data.worktree, workdir: data.worktree.originalWorkdir }
+                        : s
+                )
+            );
+        } catch (e) {
+            console.error(`Failed to ${action} worktree:`, e);
+            setWorktreeError(`Failed to ${action} worktree`);
+        } finally {
+            setWorktreeBusy(false);
+        }
+    }, [currentSessionId]);
+
+    useEffect(() => {
+        setWorktreeError(null);
+    }, [currentSessionId]);
+
+    // The loop continues after an answer; its new messages arrive through the sub-task poll
+    const handleApprovalAnswered = useCallback(() => {
+        setSessions((prev) =>
+            prev.map((s) => (s.id === currentSessionId ? { ...s, status: 'running', pendingApproval: undefined } : s))
+        );
+    }, [currentSessionId]);
+
+    // Which decisions of this sub-task wait for the user (applies from the next decision)
+    const handleApprovalPolicyChange = useCallback(async (approvalPolicy: ApprovalPolicy) => {
+        if (!currentSessionId) return;
+        setSessions((prev) => prev.map((s) => (s.id === currentSessionId ? { ...s, approvalPolicy } : s)));
+        try {
+            await fetch(`/api/sessions/${currentSessionId}`, {
+                method: 'PATCH',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ approvalPolicy }),
+            });
+        } catch (e) {
+            console.error('Failed to update approval policy:', e);
+        }
+    }, [currentSessionId]);
+
+    // Pause requested; the loop pauses once the current turn is done
+    const [isPausing, setIsPausing] = useState(false);
+    useEffect(() => {
+        setIsPausing(false);
+    }, [currentSessionId, currentSession?.status]);
+
+    const handlePauseChat = useCallback(async () => {
+        if (!currentSessionId) return;
+        setIsPausing(true);
+        try {
+            const response = await fetch('/api/chat/pause', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ chatId: currentSessionId }),
+            });
+            if (!response.ok) {
+                const data = await response.json();
+                console.error('Failed to pause chat:', data.error);
+                setIsPausing(false);
+            }
+        } catch (e) {
+            console.error('Failed to pause chat:', e);
+            setIsPausing(false);
+        }
+    }, [currentSessionId]);
+
+    // The loop continues after a resume; its new messages arrive through the sub-task poll
+    const handleResumed = useCallback(() => {
+        setSessions((prev) =>
+            prev.map((s) => (s.id === currentSessionId ? { ...s, status: 'running' } : s))
+        );
+    }, [currentSessionId]);
+
+    const handleResumeChat = useCallback(async () => {
+        if (!currentSessionId) return;
+        try {
+            const response = await fetch('/api/chat/resume', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ chatId: currentSessionId }),
+            });
+            if (response.ok) {
+                handleResumed();
+            } else {
+                const data = await response.json();
+                console.error('Failed to resume chat:', data.error);
+            }
+        } catch (e) {
+            console.error('Failed to resume chat:', e);
+        }
+    }, [currentSessionId, handleResumed]);
 
     const messagesEndRef = useRef<HTMLDivElement>(null);
     const saveSessionsTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
@@ -607,29 +825,18 @@ function HomeContent() {
 
     // Create a new chat session (manual)
     const createNewSession = useCallback(
-        (workdirOrTitle?: string) => {
-            // If provided string looks like a path, use it as workdir; otherwise treat as title
-            const isPath = workdirOrTitle && (workdirOrTitle.startsWith('/') || workdirOrTitle.startsWith('~'));
-            const sessionWorkdir = isPath ? workdirOrTitle : workdir;
-            
-            // Extract folder name from path for title
-            let title = 'New Chat';
-            if (isPath && workdirOrTitle) {
-                // Remove trailing slashes and get the last part of the path
-                const cleanPath = workdirOrTitle.replace(/\/+$/, '');
-                const parts = cleanPath.split('/').filter(p => p.length > 0);
-                title = parts.length > 0 ? parts[parts.length - 1] : 'New Chat';
-            } else if (workdirOrTitle) {
-                title = workdirOrTitle;
-            }
+        (projectId?: string) => {
+            // A project picked in the sidebar (titled after it), else the default project
+            const project = (projectId && projects.find((p) => p.id === projectId)) || defaultProject;
             
             const newSession: ChatSession = {
                 id: generateId(),
-                title,
+                title: projectId && project ? project.name : 'New Chat',
                 createdAt: new Date(),
                 status: 'idle',
                 messages: [],
-                workdir: sessionWorkdir, // Store workdir for this session
+                projectId: project?.id,
+                workdir: project?.rootPath, // Agents run in the project root
                 // No orchestrateTaskId = manual chat
             };
             setSessions((prev) => [newSession, ...prev]);
@@ -645,7 +852,7 @@ function HomeContent() {
                 body: JSON.stringify({
                     id: newSession.id,
                     title: newSession.title,
-                    workdir: newSession.workdir,
+                    projectId: newSession.projectId,
                 }),
             }).catch((e) => {
                 console.error('Failed to save session to server:', e);
@@ -653,7 +860,7 @@ function HomeContent() {
             
             return newSession.id;
         },
-        [setMessages, router, workdir]
+        [setMessages, router, projects, defaultProject]
     );
 
     // Select a session
@@ -818,7 +1025,7 @@ function HomeContent() {
     // Handle chat created from orchestrate
     const handleChatCreated = useCallback(
         (chatId: string, title: string, task: string, taskMd?: string, chatWorkdir?: string) => {
-            console.log(`[handleChatCreated] Creating subtask session: chatId=${chatId}, title=${title}, workdir=${chatWorkdir || workdir}`);
+            console.log(`[handleChatCreated] Creating subtask session: chatId=${chatId}, title=${title}, workdir=${chatWorkdir}`);
             
             // Create new session marked as sub-task (orchestrateTaskId set, but NOT isOrchestratorManaged)
             const newSession: ChatSession = {
@@ -829,7 +1036,7 @@ function HomeContent() {
                 messages: [],
                 orchestrateTaskId: chatId, // Use chatId as orchestrateTaskId for consistency
                 taskMd, // Include task.md content
-                workdir: chatWorkdir || workdir, // Store workdir for this task
+                workdir: chatWorkdir, // Store workdir for this task
             };
             
             console.log(`[handleChatCreated] New session:`, { id: newSession.id, status: newSession.status, orchestrateTaskId: newSession.orchestrateTaskId, isOrchestratorManaged: newSession.isOrchestratorManaged });
@@ -1055,8 +1262,8 @@ function HomeContent() {
             return;
         }
         
-        // Only poll when status is 'running' or 'waiting_response'
-        const isActiveStatus = currentSession.status === 'running' || currentSession.status === 'waiting_response';
+        // Only poll when status is 'running', 'waiting_response' or 'paused' (may be resumed elsewhere)
+        const isActiveStatus = currentSession.status === 'running' || currentSession.status === 'waiting_response' || currentSession.status === 'paused';
         
         // Skip if status is 'idle', 'completed', or 'error' - no need to poll
         if (!isActiveStatus) {
@@ -1074,6 +1281,7 @@ function HomeContent() {
         let timeoutId: ReturnType<typeof setTimeout> | undefined;
         let lastKnownCount = lastMessageCounts.current.get(currentSessionId) ?? -1; // -1 means "never fetched"
         let lastKnownStatus: ChatStatus | undefined;
+        let lastKnownApprovalId = currentSession.pendingApproval?.id;
 
         const pollLoop = async () => {
             if (stopped) return;
@@ -1097,13 +1305,15 @@ function HomeContent() {
                     : lastKnownCount;
                 const nextStatus = data.status as ChatStatus | undefined;
                 const nextTaskMd = data.taskMd as string | undefined;
+                const nextApproval = data.pendingApproval as PendingApproval | undefined;
                 
                 // Detect changes - use lastKnownCount to handle first fetch correctly
                 const messagesChanged = lastKnownCount === -1
                     ? (data.messages?.length ?? 0) > 0
                     : nextCount !== lastKnownCount;
                 const statusChanged = nextStatus !== undefined && nextStatus !== lastKnownStatus;
-                const changed = messagesChanged || statusChanged;
+                const approvalChanged = nextApproval?.id !== lastKnownApprovalId;
+                const changed = messagesChanged || statusChanged || approvalChanged;
                 
                 console.log(`[Poll] Session ${currentSessionId}: messages=${nextCount} (changed=${messagesChanged}), status=${nextStatus} (changed=${statusChanged})`);
                 
@@ -1134,15 +1344,16 @@ function HomeContent() {
                     lastKnownCount = nextCount;
                 }
                 
-                // Update status and taskMd if changed
-                if (statusChanged || nextTaskMd !== undefined) {
+                // Update status, taskMd and pending approval if changed
+                if (statusChanged || approvalChanged || nextTaskMd !== undefined) {
                     setSessions((prev) => {
                         const currentSess = prev.find(s => s.id === currentSessionId);
                         if (!currentSess) return prev;
                         
                         const needsUpdate = 
                             (nextStatus && currentSess.status !== nextStatus) ||
-                            (nextTaskMd && currentSess.taskMd !== nextTaskMd);
+                            (nextTaskMd && currentSess.taskMd !== nextTaskMd) ||
+                            currentSess.pendingApproval?.id !== nextApproval?.id;
                         
                         if (needsUpdate) {
                             console.log(`[Poll] Updating session ${currentSessionId}: status=${nextStatus}, taskMd=${!!nextTaskMd}`);
@@ -1152,6 +1363,7 @@ function HomeContent() {
                                         ...s, 
                                         status: nextStatus || s.status,
                                         taskMd: nextTaskMd || s.taskMd,
+                                        pendingApproval: nextApproval,
                                     } 
                                     : s
                             );
@@ -1159,10 +1371,11 @@ function HomeContent() {
                         return prev;
                     });
                     lastKnownStatus = nextStatus;
+                    lastKnownApprovalId = nextApproval?.id;
                 }
                 
-                // Check if we should stop polling - status changed to completed/error
-                const isNowFinal = nextStatus === 'completed' || nextStatus === 'error';
+                // Check if we should stop polling - status changed to completed/error/cancelled
+                const isNowFinal = nextStatus === 'completed' || nextStatus === 'error' || nextStatus === 'cancelled';
                 if (isNowFinal) {
                     console.log(`[Poll] Session ${currentSessionId} status changed to ${nextStatus}, stopping poll`);
                     stopped = true;
@@ -1223,6 +1436,8 @@ function HomeContent() {
             if (!chatId) {
                 chatId = createNewSession();
             }
+            // Sub-tasks run in the current chat's project
+            const project = projects.find((p) => p.id === currentSession?.projectId) || defaultProject;
             
             // Add user message to display immediately
             const userMessage = {
@@ -1252,7 +1467,7 @@ function HomeContent() {
                     headers: { 'Content-Type': 'application/json' },
                     body: JSON.stringify({ 
                         request: cleanMessage, 
-                        workdir, 
+                        projectId: project?.id,
                         skillsPath: settings.skillsPath,
                         chatId, // Pass current chat ID
                         chatHistory, // Pass chat history for context
@@ -1265,13 +1480,16 @@ function HomeContent() {
                 if (!reader) throw new Error('No response body');
 
                 const decoder = new TextDecoder();
+                let buffered = '';
 
                 while (true) {
                     const { done, value } = await reader.read();
                     if (done) break;
 
-                    const chunk = decoder.decode(value, { stream: true });
-                    const lines = chunk.split('\n');
+                    // Text arrives in many small events; keep a line split across chunks for the next read
+                    buffered += decoder.decode(value, { stream: true });
+                    const lines = buffered.split('\n');
+                    buffered = lines.pop() || '';
 
                     for (const line of lines) {
                         if (line.startsWith('data: ')) {
@@ -1325,8 +1543,8 @@ function HomeContent() {
                                         }
                                         return prev;
                                     });
-                                } else if (eventData.type === 'cursor_progress' && eventData.content) {
-                                    // Cursor response - add to chat
+                                } else if ((eventData.type === 'cursor_progress' || eventData.type === 'retry') && eventData.content) {
+                                    // Cursor response, or an orchestrator call being retried - add to chat
                                     setMessages((prev) => [
                                         ...prev,
                                         {
@@ -1354,7 +1572,7 @@ function HomeContent() {
                                                 messages: [],
                                                 orchestrateTaskId: finalChatId,
                                                 taskMd,
-                                                workdir, // Store workdir for this task
+                                                workdir: project?.rootPath, // Store workdir for this task
                                             };
                                             
                                             setSessions((prev) => {
@@ -1487,7 +1705,7 @@ function HomeContent() {
         }
         
         setChatInput('');
-    }, [workdir, currentSessionId, append, createNewSession, messages, setMessages, settings.skillsPath, setSessions, setPendingManualMessage, setChatInput]);
+    }, [projects, defaultProject, currentSession?.projectId, currentSessionId, append, createNewSession, messages, setMessages, settings.skillsPath, setSessions, setPendingManualMessage, setChatInput]);
 
     // Filter sessions for sidebar:
     // - Show sub-tasks (orchestrateTaskId set but NOT isOrchestratorManaged)
@@ -1527,7 +1745,8 @@ function HomeContent() {
                 onSelect={selectSession}
                 onNew={createNewSession}
                 onDelete={deleteSession}
-                defaultWorkdir={workdir}
+                projects={projects}
+                defaultProjectId={defaultProject?.id}
             />
 
             <main className="flex-1 flex flex-col relative">
@@ -1552,7 +1771,9 @@ function HomeContent() {
                                             ? `Error: ${currentSession.errorMessage}` 
                                             : undefined}
                                     >
-                                        {currentSession.status === 'running' || currentSession.status === 'waiting_response' ? (
+                                        {currentSession.status === 'waiting_response' && currentSession.pendingApproval ? (
+                                            'Needs approval'
+                                        ) : currentSession.status === 'running' || currentSession.status === 'waiting_response' ? (
                                             <span className="flex items-center gap-1">
                                                 <span className="w-1.5 h-1.5 bg-current rounded-full animate-pulse" />
                                                 Running
@@ -1577,6 +1798,51 @@ function HomeContent() {
                                         compact={true}
                                     />
                                 )}
+                                {currentSessionId && !isOrchestratorManaged && (
+                                    <DiffViewer
+                                        sessionId={currentSessionId}
+                                        refreshKey={`${currentSession.status}:${displayMessages.length}`}
+                                        focusDiffId={focusDiffId}
+                                        onFocusHandled={clearFocusDiffId}
+                                        canRollback={currentSession.status !== 'running' && currentSession.status !== 'waiting_response' && !isLoading}
+                                        onRollback={handleRollback}
+                                    />
+                                )}
+                                {currentSessionId && isOrchestratorSubtask(currentSession) && (
+                                    <select
+                                        value={currentSession.approvalPolicy || settings.approvalPolicy || 'auto'}
+                                        onChange={(e) => handleApprovalPolicyChange(e.target.value as ApprovalPolicy)}
+                                        className="input h-6 py-0 px-2 text-xs w-auto"
+                                        title="When the Agent Manager waits for your approval"
+                                    >
+                                        {APPROVAL_POLICY_OPTIONS.map((option) => (
+                                            <option key={option.id} value={option.id}>
+                                                {option.name}
+                                            </option>
+                                        ))}
+                                    </select>
+                                )}
+                                {currentSessionId && isOrchestratorSubtask(currentSession) && (
+                                    currentSession.status === 'running' || currentSession.status === 'waiting_response'
+                                ) && (
+                                    <button
+                                        onClick={handlePauseChat}
+                                        disabled={isPausing}
+                                        className="btn btn-ghost h-6 px-2 text-xs"
+                                        title="Pause after the current turn"
+                                    >
+                                        {isPausing ? 'Pausing…' : 'Pause'}
+                                    </button>
+                                )}
+                                {currentSessionId && currentSession.status === 'paused' && (
+                                    <button
+                                        onClick={handleResumeChat}
+                                        className="btn btn-ghost h-6 px-2 text-xs"
+                                        title="Continue with the Agent Manager's next message"
+                                    >
+                                        Resume
+                                    </button>
+                                )}
                             </div>
                         )}
                     </div>
@@ -1601,14 +1867,20 @@ function HomeContent() {
                                 }`} />
                                 <span className="ml-1.5">
                                     {systemStatus?.activeCursorCalls?.count ?? 0} active
+                                    {systemStatus?.queue?.count ? ` · ${systemStatus.queue.count} queued` : ''}
                                 </span>
                             </button>
                             
                             {/* Expanded Status Panel */}
                             {isStatusExpanded && (
                                 <div className="absolute right-0 top-full mt-2 w-80 card p-4 z-50">
-                                    <div className="text-xs font-medium text-[var(--text-primary)] mb-3 pb-2 border-b">
-                                        Agent Status
+                                    <div className="text-xs font-medium text-[var(--text-primary)] mb-3 pb-2 border-b flex justify-between">
+                                        <span>Agent Status</span>
+                                        {systemStatus?.queue?.limits && (
+                                            <span className="text-[var(--text-muted)] font-normal">
+                                                max {systemStatus.queue.limits.maxConcurrent} · {systemStatus.queue.limits.maxPerWorkdir}/workdir
+                                            </span>
+                                        )}
                                     </div>
                                     {systemStatus?.activeCursorCalls?.count && systemStatus.activeCursorCalls.count > 0 ? (
                                         <div className="space-y-2">
@@ -1634,16 +1906,55 @@ function HomeContent() {
                                                 </div>
                                             ))}
                                         </div>
-                                    ) : (
+                                    ) : !systemStatus?.queue?.count && (
                                         <div className="text-xs text-[var(--success)] flex items-center gap-1.5">
                                             <span className="w-1.5 h-1.5 bg-[var(--success)] rounded-full" />
                                             System idle
                                         </div>
                                     )}
+                                    {systemStatus?.queue?.count ? (
+                                        <div className="space-y-2 mt-2">
+                                            {systemStatus.queue.calls.map((call) => (
+                                                <div key={call.id} className="text-xs p-2 bg-[var(--bg-secondary)] rounded-md">
+                                                    <div className="flex justify-between items-center mb-1">
+                                                        <span className="text-[var(--text-secondary)] font-medium">
+                                                            #{call.position} Queued{call.priority !== 'normal' ? ` (${call.priority})` : ''}
+                                                        </span>
+                                                        <span className="text-[var(--text-muted)]">
+                                                            {Math.round(call.waitMs / 1000)}s
+                                                        </span>
+                                                    </div>
+                                                    {call.chatTitle && (
+                                                        <div className="text-[var(--text-secondary)] truncate">
+                                                            {call.chatTitle}
+                                                        </div>
+                                                    )}
+                                                    <div className="text-[var(--text-muted)] truncate mt-1">
+                                                        {call.waitingForWorkdir ? 'Waiting for workdir · ' : ''}{call.task.slice(0, 100)}...
+                                                    </div>
+                                                </div>
+                                            ))}
+                                        </div>
+                                    ) : null}
+                                    {systemStatus?.usage && (
+                                        <div className="mt-3 pt-3 border-t">
+                                            <UsageSummary usage={systemStatus.usage} />
+                                        </div>
+                                    )}
                                 </div>
                             )}
                         </div>
 
+                        {/* Signed-in user */}
+                        {auth?.authEnabled && (
+                            <div className="flex items-center gap-1 text-xs text-[var(--text-muted)]">
+                                <span title={auth.user.role === 'admin' ? 'Admin' : 'Member'}>{auth.user.username}</span>
+                                <button onClick={handleSignOut} className="btn btn-ghost h-8 px-2 text-xs">
+                                    Sign out
+                                </button>
+                            </div>
+                        )}
+
                         {/* Settings Button */}
                         <button
                             onClick={() => setIsSettingsOpen(true)}
@@ -1674,6 +1985,56 @@ function HomeContent() {
                     </div>
                 </header>
 
+                {/* Isolated worktree actions (orchestrator sub-tasks) */}
+                {currentSession?.worktree?.status === 'active' &&
+                    currentSession.status !== 'running' &&
+                    currentSession.status !== 'waiting_response' && (
+                    <div className="flex items-center justify-between gap-4 px-6 py-2 border-b bg-[var(--bg-secondary)] text-xs">
+                        <div className="min-w-0 text-[var(--text-secondary)]">
+                            Changes are on branch{' '}
+                            <code className="text-[var(--text-primary)]">{currentSession.worktree.branch}</code>
+                            {' '}(from {currentSession.worktree.baseBranch})
+                            {worktreeError && (
+                                <span className="ml-2 text-[var(--destructive)]">{worktreeError}</span>
+                            )}
+                        </div>
+                        <div className="flex items-center gap-2 shrink-0">
+                            <button
+                                onClick={() => handleWorktreeAction('merge')}
+                                disabled={worktreeBusy}
+                                className="btn btn-primary h-7 px-3 text-xs"
+                            >
+                                Merge
+                            </button>
+                            <button
+                                onClick={() => handleWorktreeAction('discard')}
+                                disabled={worktreeBusy}
+                                className="btn btn-ghost h-7 px-3 text-xs"
+                            >
+                                Discard
+                            </button>
+                        </div>
+                    </div>
+                )}
+
+                {/* Agent Manager decision waiting for the user */}
+                {currentSessionId && currentSession?.pendingApproval && currentSession.status === 'waiting_response' && (
+                    <ApprovalBanner
+                        sessionId={currentSessionId}
+                        approval={currentSession.pendingApproval}
+                        onAnswered={handleApprovalAnswered}
+                    />
+                )}
+
+                {/* Paused auto-conversation */}
+                {currentSessionId && currentSession?.status === 'paused' && (
+                    <ResumeBanner
+                        sessionId={currentSessionId}
+                        onResumed={handleResumed}
+                        onStop={handleStopChat}
+                    />
+                )}
+
                 {/* Messages */}
                 <div className="flex-1 overflow-y-auto px-6 py-6">
                     {displayMessages.length === 0 && (
@@ -1776,6 +2137,14 @@ function HomeContent() {
                                             <span className="text-xs text-[var(--text-muted)]">
                                                 {msg.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
                                             </span>
+                                            {msg.metadata?.diffId && (
+                                                <button
+                                                    onClick={() => setFocusDiffId(msg.metadata!.diffId!)}
+                                                    className="text-xs text-[var(--text-muted)] underline underline-offset-2 hover:text-[var(--text-primary)]"
+                                                >
+                                                    View changes
+                                                </button>
+                                            )}
                                         </div>
                                         <div className="prose prose-sm max-w-none">
                                             <StreamdownDisplay
@@ -1856,6 +2225,7 @@ function HomeContent() {
             </main>
 
             {/* Global Orchestrate Panel */}
+            {auth && (
             <OrchestratePanel
                 isOpen={isOrchestrateOpen}
                 onClose={(lastCreatedChatId) => {
@@ -1868,12 +2238,14 @@ function HomeContent() {
                         }
                     }
                 }}
-                workdir={workdir}
+                project={defaultProject}
                 onChatCreated={handleChatCreated}
                 onChatUpdate={handleChatUpdate}
+                sessionId={auth.orchestratorChatId}
                 skillsPath={settings.skillsPath}
                 onOpenSettings={() => setIsSettingsOpen(true)}
             />
+            )}
 
             {/* Settings Panel */}
             <SettingsPanel
@@ -1881,6 +2253,9 @@ function HomeContent() {
                 onClose={() => setIsSettingsOpen(false)}
                 settings={settings}
                 onSettingsChange={setSettings}
+                projects={projects}
+                onProjectsChange={loadProjects}
+                user={auth?.authEnabled ? auth.user : undefined}
             />
         </div>
         </div>
@@ -0,0 +1,233 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { AgentPermissions, ApiToken, User, UserRole } from '@/lib/types';
+import { AgentPermissionsFields } from './AgentPermissionsFields';
+
+interface AccountSettingsProps {
+    user: User;
+}
+
+/**
+ * The signed-in user's API tokens, plus account management for admins
+ */
+export function AccountSettings({ user }: AccountSettingsProps) {
+    const [tokens, setTokens] = useState<ApiToken[]>([]);
+    const [tokenName, setTokenName] = useState('');
+    const [newToken, setNewToken] = useState<string | null>(null); // Shown once, right after creating it
+    const [users, setUsers] = useState<User[]>([]);
+    const [newUser, setNewUser] = useState<{ username: string; password: string; role: UserRole }>({
+        username: '',
+        password: '',
+        role: 'member',
+    });
+    // Agent permissions of the user being edited
+    const [editing, setEditing] = useState<{ id: string; permissions?: AgentPermissions } | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const isAdmin = user.role === 'admin';
+
+    const loadTokens = async () => {
+        try {
+            const response = await fetch('/api/auth/tokens');
+            if (response.ok) setTokens((await response.json()).tokens);
+        } catch (e) {
+            console.error('Error loading tokens:', e);
+        }
+    };
+
+    const loadUsers = async () => {
+        try {
+            const response = await fetch('/api/auth/users');
+            if (response.ok) setUsers((await response.json()).users);
+        } catch (e) {
+            console.error('Error loading users:', e);
+        }
+    };
+
+    useEffect(() => {
+        loadTokens();
+        if (isAdmin) loadUsers();
+    }, [isAdmin]);
+
+    // POST/DELETE helper: shows the API's error message, returns the parsed body on success
+    const send = async (url: string, method: 'POST' | 'PATCH' | 'DELETE', body?: unknown) => {
+        setError(null);
+        try {
+            const response = await fetch(url, {
+                method,
+                headers: body ? { 'Content-Type': 'application/json' } : undefined,
+                body: body ? JSON.stringify(body) : undefined,
+            });
+            const data = await response.json();
+            if (!response.ok) {
+                setError(data.error || 'Request failed');
+                return null;
+            }
+            return data;
+        } catch (e) {
+            console.error(`Error calling ${url}:`, e);
+            setError('Request failed');
+            return null;
+        }
+    };
+
+    const createToken = async () => {
+        const data = await send('/api/auth/tokens', 'POST', { name: tokenName });
+        if (!data) return;
+        setNewToken(data.token);
+        setTokenName('');
+        loadTokens();
+    };
+
+    const revokeToken = async (id: string) => {
+        if (await send(`/api/auth/tokens/${id}`, 'DELETE')) loadTokens();
+    };
+
+    const createUser = async () => {
+        if (!(await send('/api/auth/users', 'POST', newUser))) return;
+        setNewUser({ username: '', password: '', role: 'member' });
+        loadUsers();
+    };
+
+    const savePermissions = async () => {
+        if (!editing) return;
+        if (!(await send(`/api/auth/users/${editing.id}`, 'PATCH', { agentPermissions: editing.permissions ?? null }))) return;
+        setEditing(null);
+        loadUsers();
+    };
+
+    const deleteUser = async (target: User) => {
+        if (!confirm(`Delete ${target.username}? Their chats stay, visible to admins only.`)) return;
+        if (await send(`/api/auth/users/${target.id}`, 'DELETE')) loadUsers();
+    };
+
+    return (
+        <div className="pt-5 border-t space-y-5">
+            {/* API tokens */}
+            <div>
+                <label className="block text-sm font-medium text-[var(--text-primary)] mb-2">
+                    API Tokens
+                </label>
+                <div className="flex gap-2">
+                    <input
+                        type="text"
+                        value={tokenName}
+                        onChange={(e) => setTokenName(e.target.value)}
+                        placeholder="Token name (e.g. ci-script)"
+                        className="input text-sm"
+                    />
+                    <button onClick={createToken} className="btn btn-secondary h-9 px-3 text-xs shrink-0">
+                        Create
+                    </button>
+                </div>
+                {newToken && (
+                    <div className="mt-2 p-2 rounded-md bg-[var(--bg-tertiary)] text-xs">
+                        <div className="text-[var(--text-muted)] mb-1">Copy it now, it won&apos;t be shown again:</div>
+                        <code className="font-mono break-all text-[var(--text-primary)]">{newToken}</code>
+                    </div>
+                )}
+                {tokens.length > 0 && (
+                    <div className="mt-2 space-y-1">
+                        {tokens.map((token) => (
+                            <div key={token.id} className="flex items-center justify-between text-xs">
+                                <span className="text-[var(--text-primary)] truncate">{token.name}</span>
+                                <span className="flex items-center gap-2 shrink-0">
+                                    <span className="text-[var(--text-muted)]">
+                                        {token.lastUsedAt ? `used ${new Date(token.lastUsedAt).toLocaleDateString()}` : 'never used'}
+                                    </span>
+                                    <button onClick={() => revokeToken(token.id)} className="btn btn-ghost h-6 px-2 text-xs">
+                                        Revoke
+                                    </button>
+                                </span>
+                            </div>
+                        ))}
+                    </div>
+                )}
+                <p className="text-xs text-[var(--text-muted)] mt-1.5">
+                    For scripts: send <code className="font-mono">Authorization: Bearer &lt;token&gt;</code> with each API request.
+                </p>
+            </div>
+
+            {/* Users (admins only) */}
+            {isAdmin && (
+                <div>
+                    <label className="block text-sm font-medium text-[var(--text-primary)] mb-2">
+                        Users
+                    </label>
+                    <div className="space-y-1 mb-2">
+                        {users.map((account) => (
+                            <div key={account.id}>
+                                <div className="flex items-center justify-between text-xs">
+                                    <span className="text-[var(--text-primary)]">
+                                        {account.username}
+                                        <span className="text-[var(--text-muted)]"> · {account.role}</span>
+                                    </span>
+                                    <span className="flex items-center gap-1 shrink-0">
+                                        <button
+                                            onClick={() => setEditing(editing?.id === account.id ? null : { id: account.id, permissions: account.agentPermissions })}
+                                            className="btn btn-ghost h-6 px-2 text-xs"
+                                        >
+                                            Permissions
+                                        </button>
+                                        {account.id !== user.id && (
+                                            <button onClick={() => deleteUser(account)} className="btn btn-ghost h-6 px-2 text-xs">
+                                                Delete
+                                            </button>
+                                        )}
+                                    </span>
+                                </div>
+                                {editing?.id === account.id && (
+                                    <div className="mt-1 mb-2 space-y-2">
+                                        <AgentPermissionsFields
+                                            value={editing.permissions}
+                                            onChange={(permissions) => setEditing({ ...editing, permissions })}
+                                            inherit
+                                            restrictOnly
+                                        />
+                                        <div className="flex justify-end">
+                                            <button onClick={savePermissions} className="btn btn-secondary h-7 px-3 text-xs">
+                                                Save Permissions
+                                            </button>
+                                        </div>
+                                    </div>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                    <div className="flex gap-2">
+                        <input
+                            type="text"
+                            value={newUser.username}
+                            onChange={(e) => setNewUser({ ...newUser, username: e.target.value })}
+                            placeholder="Username"
+                            className="input text-sm"
+                        />
+                        <input
+                            type="password"
+                            value={newUser.password}
+                            onChange={(e) => setNewUser({ ...newUser, password: e.target.value })}
+                            placeholder="Password"
+                            className="input text-sm"
+                        />
+                        <select
+                            value={newUser.role}
+                            onChange={(e) => setNewUser({ ...newUser, role: e.target.value as UserRole })}
+                            className="input text-sm w-28 shrink-0"
+                        >
+                            <option value="member">Member</option>
+                            <option value="admin">Admin</option>
+                        </select>
+                        <button onClick={createUser} className="btn btn-secondary h-9 px-3 text-xs shrink-0">
+                            Add
+                        </button>
+                    </div>
+                    <p className="text-xs text-[var(--text-muted)] mt-1.5">
+                        Members only see their own chats. Admins see every chat and can change server settings. A user&apos;s agent permissions only ever restrict those of the project.
+                    </p>
+                </div>
+            )}
+
+            {error && <p className="text-xs text-[var(--destructive)]">{error}</p>}
+        </div>
+    );
+}
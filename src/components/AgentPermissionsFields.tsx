@@ -0,0 +1,67 @@
+'use client';
+
+import { AgentPermissions } from '@/lib/types';
+
+interface AgentPermissionsFieldsProps {
+    value?: AgentPermissions;
+    onChange: (value: AgentPermissions | undefined) => void;
+    inherit?: boolean; // Unset fields fall back to the default (project and user forms)
+    restrictOnly?: boolean; // Can only take --force away (user form)
+}
+
+/**
+ * --force, plan-only and allowed tool types for the settings default, a project or a user
+ */
+export function AgentPermissionsFields({ value, onChange, inherit, restrictOnly }: AgentPermissionsFieldsProps) {
+    const update = (patch: Partial<AgentPermissions>) => {
+        const next: AgentPermissions = { ...value, ...patch };
+        for (const key of Object.keys(next) as Array<keyof AgentPermissions>) {
+            if (next[key] === undefined) delete next[key];
+        }
+        onChange(Object.keys(next).length > 0 ? next : undefined);
+    };
+
+    const forceValue = value?.force === undefined ? '' : value.force ? 'on' : 'off';
+
+    return (
+        <div className="space-y-2">
+            <div className="flex items-center gap-4">
+                {inherit ? (
+                    <select
+                        value={forceValue}
+                        onChange={(e) => update({ force: e.target.value ? e.target.value === 'on' : undefined })}
+                        className="input text-sm w-48 shrink-0"
+                    >
+                        <option value="">--force: default</option>
+                        {!restrictOnly && <option value="on">--force: always</option>}
+                        <option value="off">--force: never</option>
+                    </select>
+                ) : (
+                    <label className="flex items-center gap-2 text-xs text-[var(--text-primary)]">
+                        <input
+                            type="checkbox"
+                            checked={value?.force !== false}
+                            onChange={(e) => update({ force: e.target.checked })}
+                        />
+                        Auto-approve tool calls (--force)
+                    </label>
+                )}
+                <label className="flex items-center gap-2 text-xs text-[var(--text-primary)]">
+                    <input
+                        type="checkbox"
+                        checked={!!value?.planOnly}
+                        onChange={(e) => update({ planOnly: e.target.checked || (inherit ? undefined : false) })}
+                    />
+                    Plan only (read-only)
+                </label>
+            </div>
+            <input
+                type="text"
+                value={(value?.allowedTools ?? []).join(',')}
+                onChange={(e) => update({ allowedTools: e.target.value.trim() ? e.target.value.split(',') : undefined })}
+                placeholder={inherit ? 'Allowed tools (default: settings)' : 'Allowed tools, e.g. read, write, edit, grep (empty: all)'}
+                className="input font-mono text-sm"
+            />
+        </div>
+    );
+}
@@ -0,0 +1,137 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { ApprovalPolicy, Message, PendingApproval } from '@/lib/types';
+
+export const APPROVAL_POLICY_OPTIONS: { id: ApprovalPolicy; name: string; description: string }[] = [
+    { id: 'auto', name: 'Automatic', description: 'The Agent Manager decides on its own' },
+    { id: 'approve_each_task', name: 'Approve each task', description: 'Wait for you whenever Cursor finishes a task' },
+    { id: 'approve_on_asking', name: 'Approve questions', description: 'Wait for you when Cursor asks a question' },
+    { id: 'approve_on_blocked', name: 'Approve when blocked', description: 'Wait for you when Cursor is stuck' },
+];
+
+interface ApprovalBannerProps {
+    sessionId: string;
+    approval: PendingApproval;
+    onAnswered?: (message: Message) => void; // Called with the recorded answer
+}
+
+/**
+ * Agent Manager decision waiting for the user: approve it, send an edited message instead, or stop
+ */
+export function ApprovalBanner({ sessionId, approval, onAnswered }: ApprovalBannerProps) {
+    const [isEditing, setIsEditing] = useState(false);
+    const [draft, setDraft] = useState(approval.proposedMessage);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        setIsEditing(false);
+        setDraft(approval.proposedMessage);
+        setError(null);
+    }, [approval.id, approval.proposedMessage]);
+
+    const answer = async (action: 'approve' | 'edit' | 'reject') => {
+        if (action === 'reject' && !confirm('Reject this decision and stop the conversation?')) return;
+
+        setIsSubmitting(true);
+        setError(null);
+        try {
+            const response = await fetch(`/api/sessions/${sessionId}/approval`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(action === 'edit' ? { action, message: draft } : { action }),
+            });
+            const data = await response.json();
+            if (!response.ok) {
+                setError(data.error || 'Failed to answer');
+                return;
+            }
+            onAnswered?.({ ...data.message, timestamp: new Date(data.message.timestamp) });
+        } catch (e) {
+            console.error('Error answering approval:', e);
+            setError('Failed to answer');
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <div className="px-6 py-3 border-b bg-[var(--bg-secondary)] text-xs space-y-2">
+            <div className="flex items-center justify-between gap-4">
+                <span className="font-medium text-[var(--warning)]">
+                    Waiting for your approval · Turn {approval.turn} · {approval.state}
+                </span>
+                {error && <span className="text-[var(--destructive)]">{error}</span>}
+            </div>
+
+            <details>
+                <summary className="cursor-pointer select-none text-[var(--text-muted)]">Cursor&apos;s last response</summary>
+                <pre className="mt-1 max-h-40 overflow-y-auto whitespace-pre-wrap text-[var(--text-secondary)]">{approval.cursorExcerpt}</pre>
+            </details>
+
+            {isEditing ? (
+                <textarea
+                    value={draft}
+                    onChange={(e) => setDraft(e.target.value)}
+                    className="input w-full h-24 text-sm resize-y"
+                    placeholder="Message to send to Cursor instead"
+                    autoFocus
+                />
+            ) : (
+                <div className="text-[var(--text-primary)] whitespace-pre-wrap">
+                    <span className="text-[var(--text-muted)]">Agent Manager proposes: </span>
+                    {approval.isComplete ? 'Mark the task as complete' : approval.proposedMessage || '(no message)'}
+                </div>
+            )}
+            {approval.reasoning && !isEditing && (
+                <div className="text-[var(--text-muted)] whitespace-pre-wrap">{approval.reasoning}</div>
+            )}
+
+            <div className="flex items-center gap-2">
+                {isEditing ? (
+                    <>
+                        <button
+                            onClick={() => answer('edit')}
+                            disabled={isSubmitting || !draft.trim()}
+                            className="btn btn-primary h-7 px-3 text-xs"
+                        >
+                            Send
+                        </button>
+                        <button
+                            onClick={() => setIsEditing(false)}
+                            disabled={isSubmitting}
+                            className="btn btn-ghost h-7 px-3 text-xs"
+                        >
+                            Cancel
+                        </button>
+                    </>
+                ) : (
+                    <>
+                        <button
+                            onClick={() => answer('approve')}
+                            disabled={isSubmitting}
+                            className="btn btn-primary h-7 px-3 text-xs"
+                        >
+                            Approve
+                        </button>
+                        <button
+                            onClick={() => setIsEditing(true)}
+                            disabled={isSubmitting}
+                            className="btn btn-secondary h-7 px-3 text-xs"
+                        >
+                            Edit
+                        </button>
+                        <button
+                            onClick={() => answer('reject')}
+                            disabled={isSubmitting}
+                            className="btn btn-ghost h-7 px-3 text-xs"
+                        >
+                            Reject
+                        </button>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+}
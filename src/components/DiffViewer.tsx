@@ -0,0 +1,273 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Message, TurnDiff } from '@/lib/types';
+
+interface DiffViewerProps {
+    sessionId: string;
+    refreshKey?: string | number; // Refetch when this changes (e.g. status / message count)
+    focusDiffId?: string | null; // Open the viewer on this diff
+    onFocusHandled?: () => void;
+    canRollback?: boolean; // False while the session is running
+    onRollback?: (message: Message) => void; // Called with the rollback's system message
+}
+
+// Checkpoint as listed by /api/sessions/[id]/checkpoints
+interface CheckpointSummary {
+    id: string;
+    messageId?: string;
+    turn: number;
+    rolledBack?: boolean;
+    createdAt: string;
+}
+
+interface TurnEntry {
+    key: string;
+    turn?: number;
+    createdAt: string | Date;
+    diff?: TurnDiff;
+    checkpoint?: CheckpointSummary;
+}
+
+const STATUS_LABEL: Record<string, string> = { added: 'A', modified: 'M', deleted: 'D' };
+
+function lineClass(line: string): string {
+    if (line.startsWith('+++') || line.startsWith('---') || line.startsWith('diff --git')) {
+        return 'text-[var(--text-muted)] font-medium';
+    }
+    if (line.startsWith('@@')) return 'text-[var(--text-muted)] bg-[var(--bg-tertiary)]';
+    if (line.startsWith('+')) return 'text-[var(--success)] bg-[var(--success)]/10';
+    if (line.startsWith('-')) return 'text-[var(--destructive)] bg-[var(--destructive)]/10';
+    return 'text-[var(--text-secondary)]';
+}
+
+function TurnEntryView({
+    entry,
+    defaultOpen,
+    rollbackDisabled,
+    onRollback,
+}: {
+    entry: TurnEntry;
+    defaultOpen: boolean;
+    rollbackDisabled: boolean;
+    onRollback: (checkpoint: CheckpointSummary) => void;
+}) {
+    const { diff, checkpoint } = entry;
+    const files = diff?.files ?? [];
+    const additions = files.reduce((sum, f) => sum + f.additions, 0);
+    const deletions = files.reduce((sum, f) => sum + f.deletions, 0);
+
+    return (
+        <details id={diff ? `diff-${diff.id}` : undefined} className={`border rounded-lg overflow-hidden ${checkpoint?.rolledBack ? 'opacity-60' : ''}`} open={defaultOpen && !!diff}>
+            <summary className="flex items-center justify-between gap-3 px-3 py-2 cursor-pointer select-none bg-[var(--bg-secondary)] hover:bg-[var(--bg-muted)]">
+                <span className="text-sm font-medium text-[var(--text-primary)]">
+                    {entry.turn ? `Turn ${entry.turn}` : 'Response'}
+                    <span className="ml-2 text-xs font-normal text-[var(--text-muted)]">
+                        {new Date(entry.createdAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                    </span>
+                    {checkpoint?.rolledBack && (
+                        <span className="ml-2 text-xs font-normal text-[var(--text-muted)]">rolled back</span>
+                    )}
+                </span>
+                <span className="flex items-center gap-3 text-xs text-[var(--text-muted)]">
+                    {diff ? (
+                        <span>
+                            {files.length} file{files.length === 1 ? '' : 's'}
+                            <span className="ml-2 text-[var(--success)]">+{additions}</span>
+                            <span className="ml-1 text-[var(--destructive)]">-{deletions}</span>
+                        </span>
+                    ) : (
+                        <span>No file changes</span>
+                    )}
+                    {checkpoint && !checkpoint.rolledBack && (
+                        <button
+                            onClick={(e) => {
+                                e.preventDefault();
+                                onRollback(checkpoint);
+                            }}
+                            disabled={rollbackDisabled}
+                            className="btn btn-secondary h-6 px-2 text-xs"
+                            title={`Restore the workdir to its state before turn ${checkpoint.turn}`}
+                        >
+                            Revert to before
+                        </button>
+                    )}
+                </span>
+            </summary>
+            {diff && (
+                <div className="border-t">
+                    <ul className="px-3 py-2 space-y-0.5 text-xs font-mono border-b">
+                        {files.map((file) => (
+                            <li key={file.path} className="flex items-center gap-2">
+                                <span className="w-3 text-[var(--text-muted)]">{STATUS_LABEL[file.status]}</span>
+                                <span className="flex-1 truncate text-[var(--text-primary)]">{file.path}</span>
+                                {file.binary ? (
+                                    <span className="text-[var(--text-muted)]">binary</span>
+                                ) : (
+                                    <span>
+                                        <span className="text-[var(--success)]">+{file.additions}</span>{' '}
+                                        <span className="text-[var(--destructive)]">-{file.deletions}</span>
+                                    </span>
+                                )}
+                            </li>
+                        ))}
+                    </ul>
+                    <pre className="text-xs font-mono overflow-x-auto max-h-[50vh]">
+                        {diff.patch.split('\n').map((line, i) => (
+                            <div key={i} className={`px-3 whitespace-pre ${lineClass(line)}`}>{line || ' '}</div>
+                        ))}
+                    </pre>
+                    {diff.truncated && (
+                        <p className="px-3 py-2 text-xs text-[var(--text-muted)] border-t">Diff truncated (too large to show in full)</p>
+                    )}
+                </div>
+            )}
+        </details>
+    );
+}
+
+export function DiffViewer({ sessionId, refreshKey, focusDiffId, onFocusHandled, canRollback = true, onRollback }: DiffViewerProps) {
+    const [diffs, setDiffs] = useState<TurnDiff[]>([]);
+    const [checkpoints, setCheckpoints] = useState<CheckpointSummary[]>([]);
+    const [isOpen, setIsOpen] = useState(false);
+    const [openDiffId, setOpenDiffId] = useState<string | null>(null);
+    const [isRollingBack, setIsRollingBack] = useState(false);
+    const [rollbackError, setRollbackError] = useState<string | null>(null);
+
+    const loadDiffs = useCallback(async () => {
+        try {
+            const [diffsResponse, checkpointsResponse] = await Promise.all([
+                fetch(`/api/sessions/${sessionId}/diffs`),
+                fetch(`/api/sessions/${sessionId}/checkpoints`),
+            ]);
+            if (diffsResponse.ok) {
+                const data = await diffsResponse.json();
+                setDiffs(data.diffs || []);
+            }
+            if (checkpointsResponse.ok) {
+                const data = await checkpointsResponse.json();
+                setCheckpoints(data.checkpoints || []);
+            }
+        } catch (error) {
+            console.error('Error loading diffs:', error);
+        }
+    }, [sessionId]);
+
+    const handleRollback = useCallback(async (checkpoint: CheckpointSummary) => {
+        if (!confirm(`Restore the working directory to its state before turn ${checkpoint.turn}? Changes made since will be lost.`)) return;
+
+        setIsRollingBack(true);
+        setRollbackError(null);
+        try {
+            const response = await fetch(`/api/sessions/${sessionId}/rollback`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ checkpointId: checkpoint.id }),
+            });
+            const data = await response.json();
+            if (!response.ok) {
+                setRollbackError(data.error || 'Rollback failed');
+                return;
+            }
+            onRollback?.({ ...data.message, timestamp: new Date(data.message.timestamp) });
+            await loadDiffs();
+        } catch (error) {
+            console.error('Error rolling back:', error);
+            setRollbackError('Rollback failed');
+        } finally {
+            setIsRollingBack(false);
+        }
+    }, [sessionId, onRollback, loadDiffs]);
+
+    // One entry per Cursor turn: its checkpoint and (if files changed) its diff
+    const entries: TurnEntry[] = [
+        ...checkpoints.map((checkpoint) => ({
+            key: checkpoint.id,
+            turn: checkpoint.turn,
+            createdAt: checkpoint.createdAt,
+            checkpoint,
+            diff: diffs.find((d) => d.messageId && d.messageId === checkpoint.messageId),
+        })),
+        // Diffs recorded without a checkpoint
+        ...diffs
+            .filter((d) => !checkpoints.some((c) => c.messageId && c.messageId === d.messageId))
+            .map((diff) => ({ key: diff.id, turn: diff.turn, createdAt: diff.createdAt, diff })),
+    ].sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+
+    useEffect(() => {
+        loadDiffs();
+    }, [loadDiffs, refreshKey]);
+
+    // Open on a specific turn when requested from a message
+    useEffect(() => {
+        if (!focusDiffId) return;
+        setOpenDiffId(focusDiffId);
+        setIsOpen(true);
+        loadDiffs().then(() => {
+            document.getElementById(`diff-${focusDiffId}`)?.scrollIntoView({ block: 'start' });
+        });
+        onFocusHandled?.();
+    }, [focusDiffId, loadDiffs, onFocusHandled]);
+
+    if (entries.length === 0) {
+        return null;
+    }
+
+    return (
+        <>
+            <button
+                onClick={() => {
+                    setOpenDiffId(null);
+                    setIsOpen(true);
+                }}
+                className="btn btn-ghost h-6 px-2 text-xs gap-1"
+                title="View changes made by the agent and roll them back"
+            >
+                <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M7 21h10a2 2 0 002-2V9.414a1 1 0 00-.293-.707l-5.414-5.414A1 1 0 0012.586 3H7a2 2 0 00-2 2v14a2 2 0 002 2zM9 13h6m-3-3v6" />
+                </svg>
+                Changes{diffs.length > 0 ? ` (${diffs.length})` : ''}
+            </button>
+
+            {isOpen && (
+                <div
+                    className="fixed inset-0 overlay z-50 flex items-center justify-center p-4"
+                    onClick={() => setIsOpen(false)}
+                >
+                    <div
+                        className="bg-[var(--bg-primary)] border rounded-xl w-full max-w-4xl max-h-[85vh] overflow-hidden flex flex-col shadow-xl"
+                        onClick={(e) => e.stopPropagation()}
+                    >
+                        {/* Header */}
+                        <div className="flex items-center justify-between px-5 py-4 border-b">
+                            <h2 className="font-semibold text-[var(--text-primary)]">Changes by Turn</h2>
+                            <button
+                                onClick={() => setIsOpen(false)}
+                                className="btn btn-secondary h-8 w-8 p-0 flex items-center justify-center text-sm"
+                                title="Close"
+                            >
+                                ×
+                            </button>
+                        </div>
+
+                        {/* Content */}
+                        <div className="p-5 overflow-y-auto flex-1 space-y-3">
+                            {rollbackError && (
+                                <p className="text-sm text-[var(--destructive)]">{rollbackError}</p>
+                            )}
+                            {entries.map((entry) => (
+                                <TurnEntryView
+                                    key={entry.key}
+                                    entry={entry}
+                                    defaultOpen={openDiffId ? entry.diff?.id === openDiffId : entry.diff === diffs[diffs.length - 1]}
+                                    rollbackDisabled={!canRollback || isRollingBack}
+                                    onRollback={handleRollback}
+                                />
+                            ))}
+                        </div>
+                    </div>
+                </div>
+            )}
+        </>
+    );
+}
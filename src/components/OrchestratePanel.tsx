@@ -2,11 +2,11 @@
 
 import { useState, useRef, useEffect } from 'react';
 import ReactMarkdown from 'react-markdown';
-import { OrchestrateMessage, LogEntry, ChatStatus } from '@/lib/types';
+import { OrchestrateMessage, LogEntry, ChatStatus, Project, TaskPlan } from '@/lib/types';
 import { generateId } from '@/lib/utils/id';
+import { TaskGraphView } from './TaskGraphView';
 
 // Fixed session ID for the web orchestrator panel
-const ORCHESTRATOR_SESSION_ID = 'web_orchestrator_main';
 const MAX_HISTORY_MESSAGES = 20;
 
 interface OrchestrateEvent {
@@ -20,6 +20,8 @@ interface OrchestrateEvent {
     | 'chat_created'
     | 'chat_update'
     | 'chat_complete'
+    | 'retry'
+    | 'plan_update'
     | 'result'
     | 'error';
     content?: string;
@@ -33,7 +35,8 @@ interface OrchestrateEvent {
 interface OrchestratePanelProps {
     isOpen: boolean;
     onClose: (lastCreatedChatId?: string) => void; // Pass last created chat ID when closing
-    workdir: string;
+    sessionId: string; // The user's orchestrator chat
+    project?: Project; // Where sub-tasks run (the default project)
     onChatCreated: (chatId: string, title: string, task: string, taskMd?: string, chatWorkdir?: string) => void;
     onChatUpdate: (chatId: string, status: ChatStatus, messageContent?: string, messageType?: 'cursor_response' | 'ai_followup', errorMessage?: string) => void;
     skillsPath?: string;
@@ -43,7 +46,8 @@ interface OrchestratePanelProps {
 export function OrchestratePanel({
     isOpen,
     onClose,
-    workdir,
+    sessionId,
+    project,
     onChatCreated,
     onChatUpdate,
     skillsPath,
@@ -64,14 +68,19 @@ export function OrchestratePanel({
     // Track last known message count for polling
     const lastMessageCount = useRef<number>(0);
 
+    // Latest task plan of the orchestrator session, shown as a graph
+    const [plan, setPlan] = useState<TaskPlan | null>(null);
+    // Plan chats the parent already knows about (null until the first plan load)
+    const knownPlanChatIds = useRef<Set<string> | null>(null);
+
     // Load orchestrator messages history from server
     const loadHistory = async (isPolling = false) => {
         try {
             // Load from the dedicated orchestrator session
             if (!isPolling) {
-                console.log(`[OrchestratePanel] Loading history for chatId=${ORCHESTRATOR_SESSION_ID}`);
+                console.log(`[OrchestratePanel] Loading history for chatId=${sessionId}`);
             }
-            const params = new URLSearchParams({ chatId: ORCHESTRATOR_SESSION_ID });
+            const params = new URLSearchParams({ chatId: sessionId });
             if (isPolling) {
                 params.set('after', String(Math.max(lastMessageCount.current, 0)));
                 params.set('limit', String(MAX_HISTORY_MESSAGES));
@@ -148,6 +157,50 @@ export function OrchestratePanel({
         return () => clearInterval(pollInterval);
     }, [isOpen, isRunning]);
 
+    // Plan tasks start as their dependencies complete, often after the orchestrator has answered;
+    // announce chats the stream didn't report so they show up in the sidebar
+    const applyPlan = (next: TaskPlan) => {
+        setPlan(next);
+        const isFirstLoad = knownPlanChatIds.current === null;
+        const known = knownPlanChatIds.current ?? new Set<string>();
+        knownPlanChatIds.current = known;
+        for (const node of next.nodes) {
+            if (!node.chatId || known.has(node.chatId)) continue;
+            known.add(node.chatId);
+            if (!isFirstLoad && !createdChatIds.current.has(node.chatId)) {
+                onChatCreated(node.chatId, node.title, node.task, undefined, next.workdir);
+            }
+        }
+    };
+
+    const loadPlan = async () => {
+        try {
+            const params = new URLSearchParams({ sessionId, limit: '1' });
+            const response = await fetch(`/api/plans?${params.toString()}`);
+            if (!response.ok) return;
+            const data = await response.json();
+            if (data.plans?.[0]) {
+                applyPlan(data.plans[0]);
+            } else if (knownPlanChatIds.current === null) {
+                knownPlanChatIds.current = new Set();
+            }
+        } catch (e) {
+            console.error('[OrchestratePanel] Failed to load plan:', e);
+        }
+    };
+
+    // Load the latest plan when the panel opens, and follow it while it runs
+    const isPlanRunning = plan?.status === 'running';
+    useEffect(() => {
+        if (!isOpen) return;
+        if (!isPlanRunning) {
+            loadPlan();
+            return;
+        }
+        const pollInterval = setInterval(loadPlan, 3000);
+        return () => clearInterval(pollInterval);
+    }, [isOpen, isPlanRunning]);
+
     // Scroll to bottom when panel opens or messages change
     useEffect(() => {
         if (isOpen) {
@@ -197,9 +250,9 @@ export function OrchestratePanel({
                 headers: { 'Content-Type': 'application/json' },
                 body: JSON.stringify({ 
                     request: userMessage, 
-                    workdir, 
+                    projectId: project?.id,
                     skillsPath,
-                    chatId: ORCHESTRATOR_SESSION_ID, // Save to dedicated session
+                    chatId: sessionId, // Save to dedicated session
                 }),
                 signal: controller.signal,
             });
@@ -210,13 +263,16 @@ export function OrchestratePanel({
             if (!reader) throw new Error('No response body');
 
             const decoder = new TextDecoder();
+            let buffered = ''; // Incomplete last line of the previous chunk
 
             while (true) {
                 const { done, value } = await reader.read();
                 if (done) break;
 
-                const text = decoder.decode(value);
-                const lines = text.split('\n').filter((line) => line.startsWith('data: '));
+                buffered += decoder.decode(value, { stream: true });
+                const allLines = buffered.split('\n');
+                buffered = allLines.pop() || '';
+                const lines = allLines.filter((line) => line.startsWith('data: '));
 
                 for (const line of lines) {
                     try {
@@ -266,6 +322,27 @@ export function OrchestratePanel({
                         } else if (event.type === 'tool_end') {
                             // Reset assistant message tracking when a tool ends
                             currentAssistantMsgId = null;
+                        } else if (event.type === 'retry') {
+                            // Transient API failure, the call is tried again
+                            currentAssistantMsgId = null;
+
+                            setMessages((prev) => [
+                                ...prev,
+                                {
+                                    id: generateId(),
+                                    role: 'status' as const,
+                                    content: event.content || '',
+                                    timestamp: new Date(),
+                                    subContent: [],
+                                },
+                            ]);
+                        } else if (event.type === 'plan_update') {
+                            // Task plan state changed (a task started or finished)
+                            try {
+                                applyPlan(JSON.parse(event.content || '{}'));
+                            } catch (e) {
+                                console.error('Parse error', e);
+                            }
                         } else if (event.type === 'chat_created') {
                             // Only handle chat_created, ignore dispatch_order to avoid duplicates
                             try {
@@ -273,6 +350,7 @@ export function OrchestratePanel({
 
                                 // Use chatId from content (same as event.chatId)
                                 const finalChatId = chatId || event.chatId;
+                                if (finalChatId) knownPlanChatIds.current?.add(finalChatId);
 
                                 // Check if we've already created this chat
                                 if (finalChatId && !createdChatIds.current.has(finalChatId)) {
@@ -291,7 +369,7 @@ export function OrchestratePanel({
                                     ]);
 
                                     // Notify parent to create chat with taskMd and workdir
-                                    onChatCreated(finalChatId, title, task, taskMd, workdir);
+                                    onChatCreated(finalChatId, title, task, taskMd, project?.rootPath);
                                 }
                             } catch (e) {
                                 console.error('Parse error', e);
@@ -317,7 +395,7 @@ export function OrchestratePanel({
                                         },
                                     ]);
 
-                                    onChatCreated(chatId, title, task, undefined, workdir);
+                                    onChatCreated(chatId, title, task, undefined, project?.rootPath);
                                 }
                             } catch (e) {
                                 console.error('Parse error', e);
@@ -496,13 +574,13 @@ export function OrchestratePanel({
                         </div>
                     </div>
                     <div className="flex items-center gap-3">
-                        {/* Show current workdir - clickable to open settings */}
+                        {/* Show current project - clickable to open settings */}
                         <button
                             onClick={onOpenSettings}
                             className="text-xs text-[var(--text-muted)] font-mono bg-[var(--bg-secondary)] px-2 py-1 rounded hover:bg-[var(--bg-tertiary)] hover:text-[var(--text-secondary)] transition-colors cursor-pointer"
-                            title="Click to change working directory"
+                            title={project ? `${project.rootPath} (click to change the default project)` : 'Click to register a project'}
                         >
-                            {workdir}
+                            {project?.name ?? 'No project'}
                         </button>
                         <button
                             onClick={() => onClose(lastCreatedChatId.current || undefined)}
@@ -514,6 +592,15 @@ export function OrchestratePanel({
                     </div>
                 </div>
 
+                {/* Task plan graph */}
+                {plan && (
+                    <TaskGraphView
+                        plan={plan}
+                        onPlanChange={applyPlan}
+                        onOpenChat={(chatId) => onClose(chatId)}
+                    />
+                )}
+
                 {/* Messages */}
                 <div className="flex-1 overflow-y-auto p-5 space-y-3">
                     {messages.length === 0 && (
@@ -636,6 +723,12 @@ export function OrchestratePanel({
                             <button
                                 onClick={() => {
                                     abortControllerRef.current?.abort();
+                                    // Closing the stream doesn't stop the run on the server
+                                    fetch('/api/chat/abort', {
+                                        method: 'POST',
+                                        headers: { 'Content-Type': 'application/json' },
+                                        body: JSON.stringify({ chatId: sessionId }),
+                                    }).catch((e) => console.error('Failed to abort orchestration:', e));
                                 }}
                                 className="btn btn-destructive h-11 px-4"
                             >
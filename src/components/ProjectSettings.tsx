@@ -0,0 +1,174 @@
+'use client';
+
+import { useState } from 'react';
+import { AgentPermissions, Project } from '@/lib/types';
+import { AgentPermissionsFields } from './AgentPermissionsFields';
+
+interface ProjectSettingsProps {
+    projects: Project[];
+    onProjectsChange: () => void; // Reload the list after a change
+}
+
+interface ProjectForm {
+    id?: string; // Set while editing an existing project
+    name: string;
+    rootPath: string;
+    defaultModel: string;
+    skillsPath: string;
+    agentFlags: string; // One flag per line
+    permissions?: AgentPermissions;
+}
+
+const EMPTY_FORM: ProjectForm = { name: '', rootPath: '', defaultModel: '', skillsPath: '', agentFlags: '' };
+
+/**
+ * Register, edit and remove projects (admins only)
+ */
+export function ProjectSettings({ projects, onProjectsChange }: ProjectSettingsProps) {
+    const [form, setForm] = useState<ProjectForm>(EMPTY_FORM);
+    const [error, setError] = useState<string | null>(null);
+
+    const editProject = (project: Project) => {
+        setError(null);
+        setForm({
+            id: project.id,
+            name: project.name,
+            rootPath: project.rootPath,
+            defaultModel: project.defaultModel || '',
+            skillsPath: project.skillsPath || '',
+            agentFlags: project.agentFlags.join('\n'),
+            permissions: project.permissions,
+        });
+    };
+
+    const saveProject = async () => {
+        setError(null);
+        try {
+            const response = await fetch(form.id ? `/api/projects/${form.id}` : '/api/projects', {
+                method: form.id ? 'PATCH' : 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    name: form.name,
+                    rootPath: form.rootPath,
+                    defaultModel: form.defaultModel,
+                    skillsPath: form.skillsPath,
+                    agentFlags: form.agentFlags.split('\n'),
+                    permissions: form.permissions ?? null,
+                }),
+            });
+            if (!response.ok) {
+                setError((await response.json()).error || 'Failed to save project');
+                return;
+            }
+            setForm(EMPTY_FORM);
+            onProjectsChange();
+        } catch (e) {
+            console.error('Error saving project:', e);
+            setError('Failed to save project');
+        }
+    };
+
+    const removeProject = async (project: Project) => {
+        if (!confirm(`Remove ${project.name}? Its chats stay, but can't run an agent until the folder is registered again.`)) return;
+        setError(null);
+        try {
+            const response = await fetch(`/api/projects/${project.id}`, { method: 'DELETE' });
+            if (!response.ok) {
+                setError((await response.json()).error || 'Failed to remove project');
+                return;
+            }
+            if (form.id === project.id) setForm(EMPTY_FORM);
+            onProjectsChange();
+        } catch (e) {
+            console.error('Error removing project:', e);
+            setError('Failed to remove project');
+        }
+    };
+
+    return (
+        <div>
+            <label className="block text-sm font-medium text-[var(--text-primary)] mb-2">
+                Projects
+            </label>
+            <div className="space-y-1 mb-2">
+                {projects.map((project) => (
+                    <div key={project.id} className="flex items-center justify-between gap-2 text-xs">
+                        <span className="min-w-0 truncate" title={project.rootPath}>
+                            <span className={project.rootMissing ? 'text-[var(--destructive)] line-through' : 'text-[var(--text-primary)]'}>
+                                {project.name}
+                            </span>
+                            <span className="text-[var(--text-muted)] font-mono"> · {project.rootPath}</span>
+                        </span>
+                        <span className="flex items-center gap-1 shrink-0">
+                            <button onClick={() => editProject(project)} className="btn btn-ghost h-6 px-2 text-xs">
+                                Edit
+                            </button>
+                            <button onClick={() => removeProject(project)} className="btn btn-ghost h-6 px-2 text-xs">
+                                Remove
+                            </button>
+                        </span>
+                    </div>
+                ))}
+            </div>
+            <div className="space-y-2">
+                <div className="flex gap-2">
+                    <input
+                        type="text"
+                        value={form.name}
+                        onChange={(e) => setForm({ ...form, name: e.target.value })}
+                        placeholder="Name"
+                        className="input text-sm w-36 shrink-0"
+                    />
+                    <input
+                        type="text"
+                        value={form.rootPath}
+                        onChange={(e) => setForm({ ...form, rootPath: e.target.value })}
+                        placeholder="/path/to/project"
+                        className="input font-mono text-sm"
+                    />
+                </div>
+                <div className="flex gap-2">
+                    <input
+                        type="text"
+                        value={form.defaultModel}
+                        onChange={(e) => setForm({ ...form, defaultModel: e.target.value })}
+                        placeholder="Model (default: settings)"
+                        className="input text-sm w-36 shrink-0"
+                    />
+                    <input
+                        type="text"
+                        value={form.skillsPath}
+                        onChange={(e) => setForm({ ...form, skillsPath: e.target.value })}
+                        placeholder="Skills directory (default: settings)"
+                        className="input font-mono text-sm"
+                    />
+                </div>
+                <textarea
+                    value={form.agentFlags}
+                    onChange={(e) => setForm({ ...form, agentFlags: e.target.value })}
+                    placeholder={'Extra agent flags, one per line\n--sandbox enabled'}
+                    className="input w-full h-16 font-mono text-sm resize-y"
+                />
+                <AgentPermissionsFields
+                    value={form.permissions}
+                    onChange={(permissions) => setForm({ ...form, permissions })}
+                    inherit
+                />
+                <div className="flex justify-end gap-2">
+                    {form.id && (
+                        <button onClick={() => setForm(EMPTY_FORM)} className="btn btn-ghost h-8 px-3 text-xs">
+                            Cancel
+                        </button>
+                    )}
+                    <button onClick={saveProject} className="btn btn-secondary h-8 px-3 text-xs">
+                        {form.id ? 'Save Project' : 'Add Project'}
+                    </button>
+                </div>
+            </div>
+            <p className="text-xs text-[var(--text-muted)] mt-1.5">
+                Cursor only runs inside a registered project. Chats pick their project when created.
+            </p>
+            {error && <p className="text-xs text-[var(--destructive)] mt-1.5">{error}</p>}
+        </div>
+    );
+}
@@ -0,0 +1,80 @@
+'use client';
+
+import { useState } from 'react';
+import { Message } from '@/lib/types';
+
+interface ResumeBannerProps {
+    sessionId: string;
+    onResumed?: (message: Message) => void; // Called with the recorded resume
+    onStop?: () => void;
+}
+
+/**
+ * Paused auto-conversation: resume it as planned, or with an instruction for Cursor instead
+ */
+export function ResumeBanner({ sessionId, onResumed, onStop }: ResumeBannerProps) {
+    const [instruction, setInstruction] = useState('');
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const resume = async () => {
+        setIsSubmitting(true);
+        setError(null);
+        try {
+            const response = await fetch('/api/chat/resume', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ chatId: sessionId, message: instruction.trim() || undefined }),
+            });
+            const data = await response.json();
+            if (!response.ok) {
+                setError(data.error || 'Failed to resume');
+                return;
+            }
+            setInstruction('');
+            onResumed?.({ ...data.message, timestamp: new Date(data.message.timestamp) });
+        } catch (e) {
+            console.error('Error resuming chat:', e);
+            setError('Failed to resume');
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <div className="px-6 py-3 border-b bg-[var(--bg-secondary)] text-xs space-y-2">
+            <div className="flex items-center justify-between gap-4">
+                <span className="font-medium text-[var(--warning)]">
+                    Paused · the Agent Manager&apos;s next message is sent on resume unless you give an instruction
+                </span>
+                {error && <span className="text-[var(--destructive)]">{error}</span>}
+            </div>
+
+            <textarea
+                value={instruction}
+                onChange={(e) => setInstruction(e.target.value)}
+                className="input w-full h-16 text-sm resize-y"
+                placeholder="Instruction for Cursor (optional)"
+            />
+
+            <div className="flex items-center gap-2">
+                <button
+                    onClick={resume}
+                    disabled={isSubmitting}
+                    className="btn btn-primary h-7 px-3 text-xs"
+                >
+                    {instruction.trim() ? 'Resume with instruction' : 'Resume'}
+                </button>
+                {onStop && (
+                    <button
+                        onClick={onStop}
+                        disabled={isSubmitting}
+                        className="btn btn-ghost h-7 px-3 text-xs"
+                    >
+                        Stop
+                    </button>
+                )}
+            </div>
+        </div>
+    );
+}
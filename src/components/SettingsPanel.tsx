@@ -1,11 +1,28 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import { AgentBackendConfig, AgentPermissions, AgentTimeouts, ApprovalPolicy, ModelPrice, Project, RetryPolicy, SessionBudget, User } from '@/lib/types';
+import { APPROVAL_POLICY_OPTIONS } from './ApprovalBanner';
+import { AccountSettings } from './AccountSettings';
+import { AgentPermissionsFields } from './AgentPermissionsFields';
+import { ProjectSettings } from './ProjectSettings';
 
 export interface AppSettings {
-    workdir: string;
+    defaultProjectId?: string;
     skillsPath: string;
     model: string;
+    backend: AgentBackendConfig;
+    concurrency: { maxConcurrent: number; maxPerWorkdir: number };
+    isolateSubtasks?: boolean;
+    orchestratorFollowUp?: boolean;
+    orchestratorHistoryTokens?: number;
+    fileAccessRoots?: string[];
+    approvalPolicy?: ApprovalPolicy;
+    budget?: SessionBudget;
+    modelPrices?: Record<string, ModelPrice>; // Edited in the settings file
+    timeouts?: AgentTimeouts;
+    retry?: RetryPolicy;
+    agentPermissions?: AgentPermissions;
 }
 
 // Available Cursor Agent models
@@ -25,11 +42,27 @@ export const AVAILABLE_MODELS = [
 ];
 
 const DEFAULT_SETTINGS: AppSettings = {
-    workdir: '',
     skillsPath: '',
     model: 'auto',
+    backend: { type: 'cursor' },
+    concurrency: { maxConcurrent: 4, maxPerWorkdir: 1 },
+    isolateSubtasks: false,
+    orchestratorFollowUp: false,
+    orchestratorHistoryTokens: 50000,
+    fileAccessRoots: [],
+    approvalPolicy: 'auto',
+    budget: {},
+    timeouts: {},
+    retry: { maxAttempts: 3, baseDelayMs: 2000, maxDelayMs: 60000 },
+    agentPermissions: { force: true },
 };
 
+// Space-separated args <-> array (no quoting support, keep it simple)
+function splitArgs(value: string): string[] | undefined {
+    const args = value.split(' ').filter(Boolean);
+    return args.length > 0 ? args : undefined;
+}
+
 const SETTINGS_KEY = 'cursor-pilot-settings';
 
 interface SettingsPanelProps {
@@ -37,6 +70,9 @@ interface SettingsPanelProps {
     onClose: () => void;
     settings: AppSettings;
     onSettingsChange: (settings: AppSettings) => void;
+    user?: User; // Signed-in user when auth is enabled
+    projects: Project[];
+    onProjectsChange: () => void;
 }
 
 export function getStoredSettings(): AppSettings {
@@ -61,7 +97,7 @@ export function saveSettings(settings: AppSettings): void {
     }
 }
 
-export function SettingsPanel({ isOpen, onClose, settings, onSettingsChange }: SettingsPanelProps) {
+export function SettingsPanel({ isOpen, onClose, settings, onSettingsChange, user, projects, onProjectsChange }: SettingsPanelProps) {
     const [localSettings, setLocalSettings] = useState<AppSettings>(settings);
     const [isSaving, setIsSaving] = useState(false);
 
@@ -130,23 +166,33 @@ export function SettingsPanel({ isOpen, onClose, settings, onSettingsChange }: S
 
                 {/* Content */}
                 <div className="p-5 space-y-5">
-                    {/* Working Directory */}
+                    {/* Default Project */}
                     <div>
                         <label className="block text-sm font-medium text-[var(--text-primary)] mb-2">
-                            Default Working Directory
+                            Default Project
                         </label>
-                        <input
-                            type="text"
-                            value={localSettings.workdir}
-                            onChange={(e) => setLocalSettings({ ...localSettings, workdir: e.target.value })}
-                            className="input font-mono text-sm"
-                            placeholder="/path/to/your/projects"
-                        />
+                        <select
+                            value={localSettings.defaultProjectId || ''}
+                            onChange={(e) => setLocalSettings({ ...localSettings, defaultProjectId: e.target.value || undefined })}
+                            className="input text-sm"
+                        >
+                            <option value="">The one containing DEFAULT_WORKDIR</option>
+                            {projects.map((project) => (
+                                <option key={project.id} value={project.id}>
+                                    {project.name}
+                                </option>
+                            ))}
+                        </select>
                         <p className="text-xs text-[var(--text-muted)] mt-1.5">
-                            The default directory where Cursor will execute tasks
+                            Where the orchestrator and Telegram run tasks, and preselected for new chats
                         </p>
                     </div>
 
+                    {/* Project registry (admins) */}
+                    {(!user || user.role === 'admin') && (
+                        <ProjectSettings projects={projects} onProjectsChange={onProjectsChange} />
+                    )}
+
                     {/* Skills Path */}
                     <div>
                         <label className="block text-sm font-medium text-[var(--text-primary)] mb-2">
@@ -184,6 +230,364 @@ export function SettingsPanel({ isOpen, onClose, settings, onSettingsChange }: S
                             {AVAILABLE_MODELS.find(m => m.id === (localSettings.model || 'auto'))?.description || 'Select a model for Cursor Agent'}
                         </p>
                     </div>
+
+                    {/* Agent Backend */}
+                    <div>
+                        <label className="block text-sm font-medium text-[var(--text-primary)] mb-2">
+                            Agent Backend
+                        </label>
+                        <select
+                            value={localSettings.backend?.type || 'cursor'}
+                            onChange={(e) => setLocalSettings({
+                                ...localSettings,
+                                backend: { ...localSettings.backend, type: e.target.value as AgentBackendConfig['type'] },
+                            })}
+                            className="input text-sm"
+                        >
+                            <option value="cursor">Cursor Agent CLI</option>
+                            <option value="command">Custom command (stream-json)</option>
+                            <option value="fake">Fake agent (recorded transcripts)</option>
+                        </select>
+                        {localSettings.backend?.type === 'command' && (
+                            <div className="space-y-2 mt-2">
+                                <input
+                                    type="text"
+                                    value={localSettings.backend.command || ''}
+                                    onChange={(e) => setLocalSettings({
+                                        ...localSettings,
+                                        backend: { ...localSettings.backend, command: e.target.value },
+                                    })}
+                                    className="input font-mono text-sm"
+                                    placeholder="Command, e.g. /usr/local/bin/my-agent"
+                                />
+                                <input
+                                    type="text"
+                                    value={(localSettings.backend.args || []).join(' ')}
+                                    onChange={(e) => setLocalSettings({
+                                        ...localSettings,
+                                        backend: { ...localSettings.backend, args: splitArgs(e.target.value) },
+                                    })}
+                                    className="input font-mono text-sm"
+                                    placeholder="Arguments, e.g. --json"
+                                />
+                                <input
+                                    type="text"
+                                    value={(localSettings.backend.resumeArgs || []).join(' ')}
+                                    onChange={(e) => setLocalSettings({
+                                        ...localSettings,
+                                        backend: { ...localSettings.backend, resumeArgs: splitArgs(e.target.value) },
+                                    })}
+                                    className="input font-mono text-sm"
+                                    placeholder="Resume arguments, e.g. --resume {sessionId}"
+                                />
+                                <input
+                                    type="text"
+                                    value={(localSettings.backend.forceArgs || []).join(' ')}
+                                    onChange={(e) => setLocalSettings({
+                                        ...localSettings,
+                                        backend: { ...localSettings.backend, forceArgs: splitArgs(e.target.value) },
+                                    })}
+                                    className="input font-mono text-sm"
+                                    placeholder="Auto-approve arguments, e.g. --yes (unset: can't run without --force)"
+                                />
+                                <input
+                                    type="text"
+                                    value={(localSettings.backend.planArgs || []).join(' ')}
+                                    onChange={(e) => setLocalSettings({
+                                        ...localSettings,
+                                        backend: { ...localSettings.backend, planArgs: splitArgs(e.target.value) },
+                                    })}
+                                    className="input font-mono text-sm"
+                                    placeholder="Plan-only arguments, e.g. --read-only (unset: can't run plan-only)"
+                                />
+                            </div>
+                        )}
+                        {localSettings.backend?.type === 'fake' && (
+                            <input
+                                type="text"
+                                value={localSettings.backend.transcripts || ''}
+                                onChange={(e) => setLocalSettings({
+                                    ...localSettings,
+                                    backend: { ...localSettings.backend, transcripts: e.target.value },
+                                })}
+                                className="input font-mono text-sm mt-2"
+                                placeholder="Transcripts directory, e.g. scripts/fixtures/offline/agent"
+                            />
+                        )}
+                        <p className="text-xs text-[var(--text-muted)] mt-1.5">
+                            {localSettings.backend?.type === 'command'
+                                ? 'Reads the prompt on stdin and must print Cursor stream-json lines on stdout'
+                                : localSettings.backend?.type === 'fake'
+                                    ? 'Replays turn-N.jsonl transcripts, one per turn; for offline testing'
+                                    : 'Uses the Cursor `agent` command'}
+                        </p>
+                    </div>
+
+                    {/* Concurrency */}
+                    <div>
+                        <label className="block text-sm font-medium text-[var(--text-primary)] mb-2">
+                            Concurrency
+                        </label>
+                        <div className="flex gap-2">
+                            <input
+                                type="number"
+                                min={1}
+                                value={localSettings.concurrency?.maxConcurrent ?? 4}
+                                onChange={(e) => setLocalSettings({
+                                    ...localSettings,
+                                    concurrency: { ...localSettings.concurrency, maxConcurrent: Math.max(1, Number(e.target.value) || 1) },
+                                })}
+                                className="input text-sm"
+                                title="Max agents running at once"
+                            />
+                            <input
+                                type="number"
+                                min={1}
+                                value={localSettings.concurrency?.maxPerWorkdir ?? 1}
+                                onChange={(e) => setLocalSettings({
+                                    ...localSettings,
+                                    concurrency: { ...localSettings.concurrency, maxPerWorkdir: Math.max(1, Number(e.target.value) || 1) },
+                                })}
+                                className="input text-sm"
+                                title="Max agents per working directory"
+                            />
+                        </div>
+                        <p className="text-xs text-[var(--text-muted)] mt-1.5">
+                            Max agents in total / per working directory. Extra requests wait in a queue.
+                        </p>
+                    </div>
+
+                    {/* Worktree isolation */}
+                    <div>
+                        <label className="flex items-center gap-2 text-sm font-medium text-[var(--text-primary)]">
+                            <input
+                                type="checkbox"
+                                checked={!!localSettings.isolateSubtasks}
+                                onChange={(e) => setLocalSettings({ ...localSettings, isolateSubtasks: e.target.checked })}
+                            />
+                            Isolate sub-tasks in git worktrees
+                        </label>
+                        <p className="text-xs text-[var(--text-muted)] mt-1.5">
+                            Each orchestrator sub-task runs on its own branch; merge or discard it when done.
+                        </p>
+                    </div>
+
+                    {/* Orchestrator follow-up */}
+                    <div>
+                        <label className="flex items-center gap-2 text-sm font-medium text-[var(--text-primary)]">
+                            <input
+                                type="checkbox"
+                                checked={!!localSettings.orchestratorFollowUp}
+                                onChange={(e) => setLocalSettings({ ...localSettings, orchestratorFollowUp: e.target.checked })}
+                            />
+                            Review sub-task results
+                        </label>
+                        <p className="text-xs text-[var(--text-muted)] mt-1.5">
+                            When the orchestrator&apos;s sub-tasks finish, it reviews their results and dispatches fix-ups or reports back.
+                        </p>
+                    </div>
+
+                    {/* Orchestrator history budget */}
+                    <div>
+                        <label className="block text-sm font-medium text-[var(--text-primary)] mb-2">
+                            Orchestrator Memory (tokens)
+                        </label>
+                        <input
+                            type="number"
+                            min={1000}
+                            step={1000}
+                            value={localSettings.orchestratorHistoryTokens ?? DEFAULT_SETTINGS.orchestratorHistoryTokens}
+                            onChange={(e) => setLocalSettings({
+                                ...localSettings,
+                                orchestratorHistoryTokens: Math.max(1000, Number(e.target.value) || 1000),
+                            })}
+                            className="input text-sm"
+                        />
+                        <p className="text-xs text-[var(--text-muted)] mt-1.5">
+                            Past this size, older orchestrator requests are summarized; the newest are kept word for word.
+                        </p>
+                    </div>
+
+                    {/* Extra roots for the orchestrator's file tools */}
+                    <div>
+                        <label className="block text-sm font-medium text-[var(--text-primary)] mb-2">
+                            Orchestrator Readable Directories
+                        </label>
+                        <textarea
+                            value={(localSettings.fileAccessRoots ?? []).join('\n')}
+                            onChange={(e) => setLocalSettings({
+                                ...localSettings,
+                                fileAccessRoots: e.target.value.split('\n'), // Blank lines are ignored by the server
+                            })}
+                            placeholder="/path/to/shared/docs"
+                            rows={2}
+                            className="input text-sm font-mono"
+                        />
+                        <p className="text-xs text-[var(--text-muted)] mt-1.5">
+                            One per line. The orchestrator can always read the working directory; these are allowed besides it.
+                        </p>
+                    </div>
+
+                    {/* Approval policy */}
+                    <div>
+                        <label className="block text-sm font-medium text-[var(--text-primary)] mb-2">
+                            Sub-task Approvals
+                        </label>
+                        <select
+                            value={localSettings.approvalPolicy || 'auto'}
+                            onChange={(e) => setLocalSettings({ ...localSettings, approvalPolicy: e.target.value as ApprovalPolicy })}
+                            className="input text-sm"
+                        >
+                            {APPROVAL_POLICY_OPTIONS.map((option) => (
+                                <option key={option.id} value={option.id}>
+                                    {option.name}
+                                </option>
+                            ))}
+                        </select>
+                        <p className="text-xs text-[var(--text-muted)] mt-1.5">
+                            {APPROVAL_POLICY_OPTIONS.find((o) => o.id === (localSettings.approvalPolicy || 'auto'))?.description}. Chats can override this.
+                        </p>
+                    </div>
+
+                    {/* Agent permissions */}
+                    <div>
+                        <label className="block text-sm font-medium text-[var(--text-primary)] mb-2">
+                            Agent Permissions
+                        </label>
+                        <AgentPermissionsFields
+                            value={localSettings.agentPermissions}
+                            onChange={(agentPermissions) => setLocalSettings({ ...localSettings, agentPermissions })}
+                        />
+                        <p className="text-xs text-[var(--text-muted)] mt-1.5">
+                            Default for projects without their own. A tool call outside these stops the turn and is recorded on the chat.
+                        </p>
+                    </div>
+
+                    {/* Session budget */}
+                    <div>
+                        <label className="block text-sm font-medium text-[var(--text-primary)] mb-2">
+                            Session Budget
+                        </label>
+                        <div className="flex gap-2">
+                            <input
+                                type="number"
+                                min={0}
+                                step={0.5}
+                                value={localSettings.budget?.maxCostUsd ?? ''}
+                                onChange={(e) => setLocalSettings({
+                                    ...localSettings,
+                                    budget: { ...localSettings.budget, maxCostUsd: Number(e.target.value) || undefined },
+                                })}
+                                className="input text-sm"
+                                placeholder="Max USD"
+                                title="Max estimated cost per session (USD)"
+                            />
+                            <input
+                                type="number"
+                                min={0}
+                                step={10000}
+                                value={localSettings.budget?.maxTokens ?? ''}
+                                onChange={(e) => setLocalSettings({
+                                    ...localSettings,
+                                    budget: { ...localSettings.budget, maxTokens: Number(e.target.value) || undefined },
+                                })}
+                                className="input text-sm"
+                                placeholder="Max tokens"
+                                title="Max input + output tokens per session"
+                            />
+                        </div>
+                        <p className="text-xs text-[var(--text-muted)] mt-1.5">
+                            Orchestrator and Agent Manager loops stop once a chat has spent this much. Leave empty for no limit.
+                        </p>
+                    </div>
+
+                    {/* Cursor timeouts */}
+                    <div>
+                        <label className="block text-sm font-medium text-[var(--text-primary)] mb-2">
+                            Agent Timeouts
+                        </label>
+                        <div className="flex gap-2">
+                            <input
+                                type="number"
+                                min={0}
+                                step={60}
+                                value={localSettings.timeouts?.inactivitySec ?? ''}
+                                onChange={(e) => setLocalSettings({
+                                    ...localSettings,
+                                    timeouts: { ...localSettings.timeouts, inactivitySec: Number(e.target.value) || undefined },
+                                })}
+                                className="input text-sm"
+                                placeholder="Silent (s)"
+                                title="Stop Cursor after this many seconds without output"
+                            />
+                            <input
+                                type="number"
+                                min={0}
+                                step={60}
+                                value={localSettings.timeouts?.turnSec ?? ''}
+                                onChange={(e) => setLocalSettings({
+                                    ...localSettings,
+                                    timeouts: { ...localSettings.timeouts, turnSec: Number(e.target.value) || undefined },
+                                })}
+                                className="input text-sm"
+                                placeholder="Turn (s)"
+                                title="Max seconds for one Cursor turn"
+                            />
+                            <input
+                                type="number"
+                                min={0}
+                                step={600}
+                                value={localSettings.timeouts?.taskSec ?? ''}
+                                onChange={(e) => setLocalSettings({
+                                    ...localSettings,
+                                    timeouts: { ...localSettings.timeouts, taskSec: Number(e.target.value) || undefined },
+                                })}
+                                className="input text-sm"
+                                placeholder="Task (s)"
+                                title="Max seconds for a whole auto-conversation"
+                            />
+                        </div>
+                        <p className="text-xs text-[var(--text-muted)] mt-1.5">
+                            Cursor is stopped when it goes silent or runs past a limit; the Agent Manager decides whether to retry. Leave empty for no limit.
+                        </p>
+                    </div>
+
+                    {/* Retries of transient failures */}
+                    <div>
+                        <label className="block text-sm font-medium text-[var(--text-primary)] mb-2">
+                            Retries
+                        </label>
+                        <div className="flex gap-2">
+                            <input
+                                type="number"
+                                min={1}
+                                value={localSettings.retry?.maxAttempts ?? DEFAULT_SETTINGS.retry!.maxAttempts}
+                                onChange={(e) => setLocalSettings({
+                                    ...localSettings,
+                                    retry: { ...DEFAULT_SETTINGS.retry!, ...localSettings.retry, maxAttempts: Math.max(1, Number(e.target.value) || 1) },
+                                })}
+                                className="input text-sm"
+                                title="Attempts per Cursor turn or Anthropic call, including the first"
+                            />
+                            <input
+                                type="number"
+                                min={0}
+                                step={1}
+                                value={(localSettings.retry?.baseDelayMs ?? DEFAULT_SETTINGS.retry!.baseDelayMs) / 1000}
+                                onChange={(e) => setLocalSettings({
+                                    ...localSettings,
+                                    retry: { ...DEFAULT_SETTINGS.retry!, ...localSettings.retry, baseDelayMs: Math.max(0, Number(e.target.value) || 0) * 1000 },
+                                })}
+                                className="input text-sm"
+                                title="Seconds before the first retry, doubled for each one after"
+                            />
+                        </div>
+                        <p className="text-xs text-[var(--text-muted)] mt-1.5">
+                            Attempts and first delay (s) for rate limits, overloaded API, dropped connections and crashed agent runs. 1 disables retries.
+                        </p>
+                    </div>
+
+                    {user && <AccountSettings user={user} />}
                 </div>
 
                 {/* Footer */}
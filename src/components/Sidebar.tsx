@@ -1,16 +1,20 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { ThemeToggle } from '@/components/ThemeToggle';
-import { ChatSession, ChatStatus } from '@/lib/types';
+import { ChatSession, ChatStatus, Project, SearchResult } from '@/lib/types';
+
+// Wait this long after the last keystroke before searching
+const SEARCH_DEBOUNCE_MS = 300;
 
 interface SidebarProps {
     sessions: ChatSession[];
     currentId: string | null;
     onSelect: (id: string) => void;
-    onNew: (workdir: string) => void;
+    onNew: (projectId: string) => void;
     onDelete: (id: string) => void;
-    defaultWorkdir: string;
+    projects: Project[];
+    defaultProjectId?: string;
 }
 
 function getStatusIcon(status: ChatStatus): React.ReactNode {
@@ -49,6 +53,22 @@ function getStatusIcon(status: ChatStatus): React.ReactNode {
                     title={`Status: ${status}`} 
                 />
             );
+        case 'paused':
+            return (
+                <span 
+                    className="w-2 h-2 rounded-full" 
+                    style={{ backgroundColor: '#f59e0b' }}
+                    title={`Status: ${status}`} 
+                />
+            );
+        case 'cancelled':
+            return (
+                <span 
+                    className="w-2 h-2 rounded-sm" 
+                    style={{ backgroundColor: '#a1a1aa' }}
+                    title={`Status: ${status}`} 
+                />
+            );
         default:
             return (
                 <span 
@@ -60,9 +80,64 @@ function getStatusIcon(status: ChatStatus): React.ReactNode {
     }
 }
 
-export function Sidebar({ sessions, currentId, onSelect, onNew, onDelete, defaultWorkdir }: SidebarProps) {
+// Search snippet with the matched terms marked
+function renderSnippet(result: SearchResult): React.ReactNode {
+    const parts: React.ReactNode[] = [];
+    let position = 0;
+    for (const [start, end] of result.highlights) {
+        parts.push(result.snippet.slice(position, start));
+        parts.push(
+            <mark key={start} className="bg-[var(--accent)]/20 text-[var(--text-primary)] rounded-sm">
+                {result.snippet.slice(start, end)}
+            </mark>
+        );
+        position = end;
+    }
+    parts.push(result.snippet.slice(position));
+    return parts;
+}
+
+function getMatchLabel(result: SearchResult): string {
+    if (result.kind === 'title') return 'Title';
+    if (result.kind === 'task_md') return 'task.md';
+    return result.role === 'user' ? 'User' : result.role === 'system' ? 'System' : 'Assistant';
+}
+
+// Why a chat can't run its agent anymore, if it can't
+function getProjectProblem(session: ChatSession, projects: Project[]): string | null {
+    if (!session.projectId || projects.length === 0) return null; // Not loaded yet
+    const project = projects.find((p) => p.id === session.projectId);
+    if (!project) return 'Project removed';
+    return project.rootMissing ? 'Project folder deleted' : null;
+}
+
+export function Sidebar({ sessions, currentId, onSelect, onNew, onDelete, projects, defaultProjectId }: SidebarProps) {
     const [showNewChatModal, setShowNewChatModal] = useState(false);
-    const [newChatWorkdir, setNewChatWorkdir] = useState(defaultWorkdir);
+    const [newChatProjectId, setNewChatProjectId] = useState('');
+    const newChatProject = projects.find((p) => p.id === newChatProjectId);
+    const [searchText, setSearchText] = useState('');
+    const [searchResults, setSearchResults] = useState<SearchResult[] | null>(null); // null: not searching
+
+    useEffect(() => {
+        const text = searchText.trim();
+        if (!text) {
+            setSearchResults(null);
+            return;
+        }
+        const controller = new AbortController();
+        const timer = setTimeout(async () => {
+            try {
+                const response = await fetch(`/api/search?q=${encodeURIComponent(text)}&limit=30`, { signal: controller.signal });
+                if (response.ok) setSearchResults((await response.json()).results);
+            } catch (e) {
+                if (!controller.signal.aborted) console.error('Error searching chats:', e);
+            }
+        }, SEARCH_DEBOUNCE_MS);
+        return () => {
+            clearTimeout(timer);
+            controller.abort();
+        };
+    }, [searchText]);
 
     const handleDelete = (e: React.MouseEvent, id: string) => {
         e.stopPropagation(); // Prevent selecting the session
@@ -72,13 +147,13 @@ export function Sidebar({ sessions, currentId, onSelect, onNew, onDelete, defaul
     };
 
     const handleNewChat = () => {
-        setNewChatWorkdir(defaultWorkdir);
+        setNewChatProjectId(defaultProjectId || projects[0]?.id || '');
         setShowNewChatModal(true);
     };
 
     const handleCreateChat = () => {
-        if (newChatWorkdir.trim()) {
-            onNew(newChatWorkdir.trim());
+        if (newChatProject) {
+            onNew(newChatProject.id);
             setShowNewChatModal(false);
         }
     };
@@ -102,26 +177,41 @@ export function Sidebar({ sessions, currentId, onSelect, onNew, onDelete, defaul
                     </div>
                     <div className="p-5">
                         <label className="block text-sm font-medium text-[var(--text-secondary)] mb-2">
-                            Project Directory
+                            Project
                         </label>
-                        <input
-                            type="text"
-                            value={newChatWorkdir}
-                            onChange={(e) => setNewChatWorkdir(e.target.value)}
-                            placeholder="/path/to/your/project"
-                            className="input w-full font-mono text-sm"
-                            autoFocus
-                            onKeyDown={(e) => {
-                                if (e.key === 'Enter') {
-                                    handleCreateChat();
-                                } else if (e.key === 'Escape') {
-                                    setShowNewChatModal(false);
-                                }
-                            }}
-                        />
-                        <p className="text-xs text-[var(--text-muted)] mt-2">
-                            Enter the path to your project folder. Cursor Agent will work in this directory.
-                        </p>
+                        {projects.length === 0 ? (
+                            <p className="text-xs text-[var(--text-muted)]">
+                                No project registered yet. Add one in Settings.
+                            </p>
+                        ) : (
+                            <>
+                                <select
+                                    value={newChatProjectId}
+                                    onChange={(e) => setNewChatProjectId(e.target.value)}
+                                    className="input w-full text-sm"
+                                    autoFocus
+                                    onKeyDown={(e) => {
+                                        if (e.key === 'Enter') {
+                                            handleCreateChat();
+                                        } else if (e.key === 'Escape') {
+                                            setShowNewChatModal(false);
+                                        }
+                                    }}
+                                >
+                                    {projects.map((project) => (
+                                        <option key={project.id} value={project.id} disabled={project.rootMissing}>
+                                            {project.name}{project.rootMissing ? ' (folder deleted)' : ''}
+                                        </option>
+                                    ))}
+                                </select>
+                                <p className="text-xs text-[var(--text-muted)] mt-2 font-mono truncate" title={newChatProject?.rootPath}>
+                                    {newChatProject?.rootPath}
+                                </p>
+                                <p className="text-xs text-[var(--text-muted)] mt-1">
+                                    Cursor Agent will work in this project&apos;s folder.
+                                </p>
+                            </>
+                        )}
                     </div>
                     <div className="flex justify-end gap-2 px-5 py-4 border-t bg-[var(--bg-secondary)]">
                         <button
@@ -132,7 +222,7 @@ export function Sidebar({ sessions, currentId, onSelect, onNew, onDelete, defaul
                         </button>
                         <button
                             onClick={handleCreateChat}
-                            disabled={!newChatWorkdir.trim()}
+                            disabled={!newChatProject || newChatProject.rootMissing}
                             className="btn btn-primary"
                         >
                             Create Chat
@@ -167,9 +257,53 @@ export function Sidebar({ sessions, currentId, onSelect, onNew, onDelete, defaul
                 </button>
             </div>
 
+            {/* Search */}
+            <div className="px-3">
+                <input
+                    type="search"
+                    value={searchText}
+                    onChange={(e) => setSearchText(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Escape' && setSearchText('')}
+                    placeholder="Search chats..."
+                    className="input h-8 w-full text-sm"
+                />
+            </div>
+
             {/* Chat List */}
             <div className="flex-1 overflow-y-auto px-2 pt-3 pb-3">
-                {sessions.length === 0 ? (
+                {searchText.trim() ? (
+                    searchResults === null ? (
+                        <p className="text-xs text-[var(--text-muted)] px-3 py-2">Searching...</p>
+                    ) : searchResults.length === 0 ? (
+                        <p className="text-xs text-[var(--text-muted)] px-3 py-2">No matches</p>
+                    ) : (
+                        <div className="space-y-0.5">
+                            {searchResults.map((result, index) => (
+                                <div
+                                    key={`${result.sessionId}-${result.messageId ?? result.kind}-${index}`}
+                                    onClick={() => onSelect(result.sessionId)}
+                                    className={`px-3 py-2 rounded-lg text-sm cursor-pointer ${result.sessionId === currentId
+                                            ? 'bg-[var(--bg-tertiary)]'
+                                            : 'hover:bg-[var(--bg-tertiary)]/50'
+                                        }`}
+                                >
+                                    <div className="flex items-center gap-2.5">
+                                        <span className="shrink-0 inline-flex items-center justify-center w-3 h-3">
+                                            {getStatusIcon(result.status)}
+                                        </span>
+                                        <span className="truncate flex-1 text-[var(--text-primary)]">
+                                            {result.sessionTitle || 'New Chat'}
+                                        </span>
+                                    </div>
+                                    <div className="text-[11px] mt-1 ml-[22px] text-[var(--text-secondary)] line-clamp-3 break-words">
+                                        <span className="text-[var(--text-muted)]">{getMatchLabel(result)}: </span>
+                                        {renderSnippet(result)}
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    )
+                ) : sessions.length === 0 ? (
                     <div className="flex flex-col items-center justify-center py-8 text-center">
                         <div className="w-10 h-10 rounded-full bg-[var(--bg-tertiary)] flex items-center justify-center mb-3">
                             <svg className="w-5 h-5 text-[var(--text-muted)]" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -181,58 +315,61 @@ export function Sidebar({ sessions, currentId, onSelect, onNew, onDelete, defaul
                     </div>
                 ) : (
                     <div className="space-y-0.5">
-                        {sessions.map((session) => (
-                            <div
-                                key={session.id}
-                                onClick={() => onSelect(session.id)}
-                                className={`w-full text-left px-3 py-2.5 rounded-lg text-sm transition-all group cursor-pointer ${
-                                    session.workdirMissing
-                                        ? 'border border-[var(--destructive)]/30 bg-[var(--destructive)]/5'
-                                        : ''
-                                } ${session.id === currentId
-                                        ? 'bg-[var(--bg-tertiary)]'
-                                        : 'hover:bg-[var(--bg-tertiary)]/50'
-                                    }`}
-                            >
-                                <div className="flex items-center gap-2.5">
-                                    <span
-                                        className="shrink-0 inline-flex items-center justify-center w-3 h-3"
-                                        title={session.status === 'error' && session.errorMessage 
-                                            ? `Error: ${session.errorMessage}` 
-                                            : session.status}
-                                    >
-                                        {session.workdirMissing ? (
-                                            <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: '#ef4444' }} />
-                                        ) : (
-                                            getStatusIcon(session.status)
-                                        )}
-                                    </span>
-                                    <span className={`truncate flex-1 text-[var(--text-primary)] ${session.workdirMissing ? 'line-through opacity-50' : ''}`}>
-                                        {session.title || 'New Chat'}
-                                    </span>
-                                    {/* Delete button - visible on hover */}
-                                    <button
-                                        onClick={(e) => handleDelete(e, session.id)}
-                                        className="opacity-0 group-hover:opacity-100 p-1 rounded-md hover:bg-[var(--bg-primary)] transition-all text-[var(--text-muted)] hover:text-[var(--destructive)]"
-                                        title="Delete chat"
-                                    >
-                                        <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                                        </svg>
-                                    </button>
-                                </div>
-                                {session.workdirMissing && (
-                                    <div className="text-[10px] mt-1 text-[var(--destructive)] ml-[18px]">
-                                        Project folder deleted
+                        {sessions.map((session) => {
+                            const projectProblem = getProjectProblem(session, projects);
+                            return (
+                                <div
+                                    key={session.id}
+                                    onClick={() => onSelect(session.id)}
+                                    className={`w-full text-left px-3 py-2.5 rounded-lg text-sm transition-all group cursor-pointer ${
+                                        projectProblem
+                                            ? 'border border-[var(--destructive)]/30 bg-[var(--destructive)]/5'
+                                            : ''
+                                    } ${session.id === currentId
+                                            ? 'bg-[var(--bg-tertiary)]'
+                                            : 'hover:bg-[var(--bg-tertiary)]/50'
+                                        }`}
+                                >
+                                    <div className="flex items-center gap-2.5">
+                                        <span
+                                            className="shrink-0 inline-flex items-center justify-center w-3 h-3"
+                                            title={session.status === 'error' && session.errorMessage 
+                                                ? `Error: ${session.errorMessage}` 
+                                                : session.status}
+                                        >
+                                            {projectProblem ? (
+                                                <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: '#ef4444' }} />
+                                            ) : (
+                                                getStatusIcon(session.status)
+                                            )}
+                                        </span>
+                                        <span className={`truncate flex-1 text-[var(--text-primary)] ${projectProblem ? 'line-through opacity-50' : ''}`}>
+                                            {session.title || 'New Chat'}
+                                        </span>
+                                        {/* Delete button - visible on hover */}
+                                        <button
+                                            onClick={(e) => handleDelete(e, session.id)}
+                                            className="opacity-0 group-hover:opacity-100 p-1 rounded-md hover:bg-[var(--bg-primary)] transition-all text-[var(--text-muted)] hover:text-[var(--destructive)]"
+                                            title="Delete chat"
+                                        >
+                                            <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                                            </svg>
+                                        </button>
                                     </div>
-                                )}
-                                {!session.workdirMissing && session.orchestrateTaskId && (
-                                    <div className="text-[10px] mt-0.5 text-[var(--text-muted)] ml-[18px]">
-                                        via Orchestrator
-                                    </div>
-                                )}
-                            </div>
-                        ))}
+                                    {projectProblem && (
+                                        <div className="text-[10px] mt-1 text-[var(--destructive)] ml-[18px]">
+                                            {projectProblem}
+                                        </div>
+                                    )}
+                                    {!projectProblem && session.orchestrateTaskId && (
+                                        <div className="text-[10px] mt-0.5 text-[var(--text-muted)] ml-[18px]">
+                                            via Orchestrator
+                                        </div>
+                                    )}
+                                </div>
+                            );
+                        })}
                     </div>
                 )}
             </div>
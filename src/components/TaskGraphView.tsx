@@ -0,0 +1,131 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { PlanNode, PlanNodeStatus, TaskPlan } from '@/lib/types';
+
+interface TaskGraphViewProps {
+    plan: TaskPlan;
+    onPlanChange?: (plan: TaskPlan) => void; // Called with the plan after cancelling it
+    onOpenChat?: (chatId: string) => void;
+}
+
+const NODE_STATUS_STYLES: Record<PlanNodeStatus, { color: string; label: string }> = {
+    pending: { color: 'var(--text-muted)', label: 'Pending' },
+    running: { color: 'var(--warning)', label: 'Running' },
+    completed: { color: 'var(--success)', label: 'Done' },
+    failed: { color: 'var(--destructive)', label: 'Failed' },
+    skipped: { color: 'var(--text-muted)', label: 'Skipped' },
+    cancelled: { color: 'var(--text-muted)', label: 'Cancelled' },
+};
+
+/**
+ * Group nodes into columns by dependency depth (roots first)
+ */
+function layoutColumns(nodes: PlanNode[]): PlanNode[][] {
+    const byId = new Map(nodes.map((node) => [node.id, node]));
+    const depths = new Map<string, number>();
+
+    const depthOf = (node: PlanNode, seen: Set<string>): number => {
+        const known = depths.get(node.id);
+        if (known !== undefined) return known;
+        if (seen.has(node.id)) return 0; // Plans are validated acyclic; guard anyway
+        seen.add(node.id);
+        let depth = 0;
+        for (const dep of node.dependsOn) {
+            const upstream = byId.get(dep);
+            if (upstream) depth = Math.max(depth, depthOf(upstream, seen) + 1);
+        }
+        depths.set(node.id, depth);
+        return depth;
+    };
+
+    const columns: PlanNode[][] = [];
+    for (const node of nodes) {
+        const depth = depthOf(node, new Set());
+        (columns[depth] ??= []).push(node);
+    }
+    return columns.filter(Boolean);
+}
+
+/**
+ * A task plan's dependency graph: one column per dependency level, with each task's status
+ */
+export function TaskGraphView({ plan, onPlanChange, onOpenChat }: TaskGraphViewProps) {
+    const [isCancelling, setIsCancelling] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const columns = useMemo(() => layoutColumns(plan.nodes), [plan.nodes]);
+    const titles = useMemo(() => new Map(plan.nodes.map((node) => [node.id, node.title])), [plan.nodes]);
+    const completed = plan.nodes.filter((node) => node.status === 'completed').length;
+
+    const cancel = async () => {
+        setIsCancelling(true);
+        setError(null);
+        try {
+            const response = await fetch(`/api/plans/${plan.id}/cancel`, { method: 'POST' });
+            const data = await response.json();
+            if (!response.ok) {
+                setError(data.error || 'Failed to cancel plan');
+                return;
+            }
+            onPlanChange?.(data.plan);
+        } catch (e) {
+            console.error('Error cancelling plan:', e);
+            setError('Failed to cancel plan');
+        } finally {
+            setIsCancelling(false);
+        }
+    };
+
+    return (
+        <div className="px-5 py-3 border-b bg-[var(--bg-secondary)] text-xs space-y-2">
+            <div className="flex items-center justify-between gap-4">
+                <div className="flex items-center gap-2 min-w-0">
+                    <span className="font-medium text-[var(--text-primary)] truncate">{plan.title}</span>
+                    <span className="text-[var(--text-muted)] shrink-0">
+                        {completed}/{plan.nodes.length} done · {plan.status}
+                    </span>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                    {error && <span className="text-[var(--destructive)]">{error}</span>}
+                    {plan.status === 'running' && (
+                        <button
+                            onClick={cancel}
+                            disabled={isCancelling}
+                            className="btn btn-ghost h-6 px-2 text-xs"
+                        >
+                            Cancel plan
+                        </button>
+                    )}
+                </div>
+            </div>
+
+            <div className="flex gap-3 overflow-x-auto pb-1">
+                {columns.map((column, depth) => (
+                    <div key={depth} className="flex flex-col gap-2 min-w-[160px] max-w-[200px]">
+                        {column.map((node) => {
+                            const style = NODE_STATUS_STYLES[node.status];
+                            return (
+                                <button
+                                    key={node.id}
+                                    onClick={() => node.chatId && onOpenChat?.(node.chatId)}
+                                    disabled={!node.chatId || !onOpenChat}
+                                    title={node.error || node.task}
+                                    className="text-left rounded-md border bg-[var(--bg-primary)] px-2 py-1.5 disabled:cursor-default"
+                                    style={{ borderLeft: `3px solid ${style.color}` }}
+                                >
+                                    <div className="font-medium text-[var(--text-primary)] truncate">{node.title}</div>
+                                    <div style={{ color: style.color }}>{style.label}</div>
+                                    {node.dependsOn.length > 0 && (
+                                        <div className="text-[var(--text-muted)] truncate">
+                                            after: {node.dependsOn.map((dep) => titles.get(dep) ?? dep).join(', ')}
+                                        </div>
+                                    )}
+                                </button>
+                            );
+                        })}
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,77 @@
+'use client';
+
+import { SessionBudget, UsageTotals } from '@/lib/types';
+
+// `usage` section of /api/system-status
+export interface UsageSummaryData {
+    totals: UsageTotals;
+    byModel: Array<UsageTotals & { model: string }>;
+    topSessions: Array<UsageTotals & { sessionId: string; title?: string; budget: SessionBudget }>;
+}
+
+function formatUsd(value: number): string {
+    return value > 0 && value < 0.01 ? '<$0.01' : `$${value.toFixed(2)}`;
+}
+
+function formatTokens(value: number): string {
+    if (value >= 1_000_000) return `${(value / 1_000_000).toFixed(1)}M`;
+    if (value >= 1_000) return `${(value / 1_000).toFixed(1)}k`;
+    return String(value);
+}
+
+function budgetLabel(entry: UsageSummaryData['topSessions'][number]): string | null {
+    const { maxCostUsd, maxTokens } = entry.budget;
+    if (maxCostUsd) return `${Math.min(100, Math.round((entry.costUsd / maxCostUsd) * 100))}% of ${formatUsd(maxCostUsd)}`;
+    if (maxTokens) return `${Math.min(100, Math.round(((entry.inputTokens + entry.outputTokens) / maxTokens) * 100))}% of ${formatTokens(maxTokens)}`;
+    return null;
+}
+
+/**
+ * Anthropic API spend of the orchestrator and Agent Manager, for the status panel
+ */
+export function UsageSummary({ usage }: { usage: UsageSummaryData }) {
+    const { totals } = usage;
+
+    return (
+        <div className="text-xs space-y-2">
+            <div className="flex justify-between font-medium text-[var(--text-primary)]">
+                <span>API Usage</span>
+                <span>{formatUsd(totals.costUsd)}</span>
+            </div>
+            <div className="text-[var(--text-muted)]">
+                {totals.calls} calls · {formatTokens(totals.inputTokens)} in · {formatTokens(totals.outputTokens)} out
+                {totals.unpricedCalls > 0 && ` · ${totals.unpricedCalls} unpriced`}
+            </div>
+
+            {usage.byModel.length > 0 && (
+                <div className="space-y-0.5">
+                    {usage.byModel.map((entry) => (
+                        <div key={entry.model} className="flex justify-between text-[var(--text-secondary)]">
+                            <span className="truncate mr-2">{entry.model}</span>
+                            <span className="shrink-0">
+                                {formatTokens(entry.inputTokens + entry.outputTokens)} · {entry.unpricedCalls === entry.calls ? '—' : formatUsd(entry.costUsd)}
+                            </span>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {usage.topSessions.length > 0 && (
+                <div className="space-y-0.5 pt-1 border-t">
+                    {usage.topSessions.map((entry) => {
+                        const budget = budgetLabel(entry);
+                        return (
+                            <div key={entry.sessionId} className="flex justify-between text-[var(--text-secondary)]">
+                                <span className="truncate mr-2">{entry.title || entry.sessionId}</span>
+                                <span className="shrink-0">
+                                    {formatUsd(entry.costUsd)}
+                                    {budget && <span className="text-[var(--text-muted)]"> · {budget}</span>}
+                                </span>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,16 @@
+/**
+ * Next.js Instrumentation
+ * Runs once when the server starts
+ */
+
+export async function register() {
+    if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+
+    // Pick up task plans first so the jobs resumed below report back to them
+    const { recoverPlans } = await import('./lib/agent/task-graph');
+    recoverPlans();
+
+    // Resume sub-task conversations interrupted by the last shutdown
+    const { recoverJobs } = await import('./lib/agent/job-queue');
+    recoverJobs();
+}
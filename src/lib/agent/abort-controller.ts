@@ -1,16 +1,35 @@
 /**
  * Abort Controller Registry
- * Manages abort controllers for active chat sessions
+ * One AbortController per chat session, shared by everything running in it (orchestrator
+ * run, Agent Manager loop, Cursor process). Aborting the chat cancels all of them; the next
+ * run in the chat gets a fresh controller.
  */
+import Anthropic from '@anthropic-ai/sdk';
+import { CursorCallCancelledError } from './scheduler';
 
-// Store active abort controllers by chatId
-const abortControllers = new Map<string, AbortController>();
+interface AbortEntry {
+    controller: AbortController;
+    holders: number; // Runs using the controller; it's dropped when the last one releases it
+}
+
+export interface AbortHandle {
+    signal: AbortSignal;
+    release(): void;
+}
+
+// Use globalThis for persistence across hot reloads
+const globalForAbort = globalThis as unknown as {
+    abortControllers: Map<string, AbortEntry> | undefined;
+};
+
+const abortControllers = globalForAbort.abortControllers ?? new Map<string, AbortEntry>();
+globalForAbort.abortControllers = abortControllers;
 
 /**
  * Register an abort controller for a chat session
  */
 export function registerAbortController(chatId: string, controller: AbortController): void {
-    abortControllers.set(chatId, controller);
+    abortControllers.set(chatId, { controller, holders: 1 });
 }
 
 /**
@@ -20,11 +39,38 @@ export function unregisterAbortController(chatId: string): void {
     abortControllers.delete(chatId);
 }
 
+/**
+ * Join the chat's abort controller, creating it if nothing is running in the chat
+ * Call release() when the run ends.
+ */
+export function acquireAbortSignal(chatId: string): AbortHandle {
+    let entry = abortControllers.get(chatId);
+    if (!entry || entry.controller.signal.aborted) {
+        entry = { controller: new AbortController(), holders: 0 };
+        abortControllers.set(chatId, entry);
+    }
+    entry.holders++;
+
+    const held = entry;
+    let released = false;
+    return {
+        signal: held.controller.signal,
+        release: () => {
+            if (released) return;
+            released = true;
+            held.holders--;
+            if (held.holders <= 0 && abortControllers.get(chatId) === held) {
+                abortControllers.delete(chatId);
+            }
+        },
+    };
+}
+
 /**
  * Get abort signal for a chat session
  */
 export function getAbortSignal(chatId: string): AbortSignal | undefined {
-    return abortControllers.get(chatId)?.signal;
+    return abortControllers.get(chatId)?.controller.signal;
 }
 
 /**
@@ -32,9 +78,9 @@ export function getAbortSignal(chatId: string): AbortSignal | undefined {
  * @returns true if there was an active controller that was aborted
  */
 export function abortChat(chatId: string): boolean {
-    const controller = abortControllers.get(chatId);
-    if (controller) {
-        controller.abort();
+    const entry = abortControllers.get(chatId);
+    if (entry) {
+        entry.controller.abort();
         abortControllers.delete(chatId);
         return true;
     }
@@ -47,3 +93,12 @@ export function abortChat(chatId: string): boolean {
 export function hasActiveController(chatId: string): boolean {
     return abortControllers.has(chatId);
 }
+
+/**
+ * Whether an error only means the operation was cancelled
+ */
+export function isAbortError(error: unknown): boolean {
+    return error instanceof Anthropic.APIUserAbortError
+        || error instanceof CursorCallCancelledError
+        || (error instanceof Error && error.name === 'AbortError');
+}
@@ -0,0 +1,33 @@
+/**
+ * Anthropic Client Factory
+ * Single place where orchestrator and Agent Manager clients are built
+ */
+import Anthropic from '@anthropic-ai/sdk';
+import { createFakeAnthropicFetch, loadFakeAnthropicScript } from '../testing/fake-anthropic';
+
+export interface AnthropicClientConfig {
+    apiKey?: string;
+    baseUrl?: string;
+}
+
+/**
+ * Create a client from config/env.
+ * With FAKE_ANTHROPIC_SCRIPT set, requests are answered by the scripted fake instead of the network.
+ */
+export function createAnthropicClient(config: AnthropicClientConfig = {}): Anthropic {
+    const fakeScript = process.env.FAKE_ANTHROPIC_SCRIPT;
+    if (fakeScript) {
+        return new Anthropic({
+            apiKey: 'fake',
+            baseURL: 'http://fake-anthropic.local',
+            fetch: createFakeAnthropicFetch(loadFakeAnthropicScript(fakeScript)),
+            maxRetries: 0,
+        });
+    }
+
+    return new Anthropic({
+        apiKey: config.apiKey || process.env.ANTHROPIC_API_KEY,
+        baseURL: config.baseUrl || process.env.ANTHROPIC_BASE_URL || process.env.ANTHROPIC_API_BASE,
+        maxRetries: 0, // Callers retry through withApiRetry (retry setting, shown in the chat)
+    });
+}
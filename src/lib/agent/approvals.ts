@@ -0,0 +1,142 @@
+/**
+ * Approval Gates
+ * Under a session's approval policy the Agent Manager loop stops before acting on some
+ * decisions and waits here until a human approves, edits or rejects them (web UI / Telegram).
+ * The pending decision is stored on the session, so after a restart the resumed job waits again.
+ */
+import { chatStore } from './chat-store';
+import type { AgentManagerDecision } from './chat-manager';
+import { ApprovalPolicy, ApprovalResponse, Message, PendingApproval } from '../types';
+import * as db from '../db';
+import { generateId } from '../utils/id';
+
+export const APPROVAL_POLICIES: ApprovalPolicy[] = ['auto', 'approve_each_task', 'approve_on_asking', 'approve_on_blocked'];
+
+// Told about every new pending decision (e.g. Telegram)
+export type ApprovalNotifier = (sessionId: string, approval: PendingApproval) => void;
+
+interface ApprovalWaiter {
+    approval: PendingApproval;
+    resolve: (response: ApprovalResponse) => void;
+}
+
+const globalForApprovals = globalThis as unknown as {
+    approvalWaiters: Map<string, ApprovalWaiter> | undefined;
+    approvalNotifier: ApprovalNotifier | undefined;
+};
+
+// Loops waiting for a human, by session ID
+const waiters = globalForApprovals.approvalWaiters ?? new Map<string, ApprovalWaiter>();
+globalForApprovals.approvalWaiters = waiters;
+
+/**
+ * Whether the policy requires a human to look at this decision first
+ */
+export function needsApproval(policy: ApprovalPolicy | undefined, decision: AgentManagerDecision): boolean {
+    switch (policy) {
+        case 'approve_each_task':
+            return decision.state === 'COMPLETED' || decision.isComplete;
+        case 'approve_on_asking':
+            return decision.state === 'ASKING';
+        case 'approve_on_blocked':
+            return decision.state === 'BLOCKED';
+        default:
+            return false;
+    }
+}
+
+export function setApprovalNotifier(notifier: ApprovalNotifier | undefined): void {
+    globalForApprovals.approvalNotifier = notifier;
+}
+
+/**
+ * Store a pending decision on the session and wait for a human to answer it
+ */
+export function waitForApproval(sessionId: string, approval: PendingApproval): Promise<ApprovalResponse> {
+    db.updateSession({ id: sessionId, status: 'waiting_response', pendingApproval: approval });
+    const cached = chatStore.get(sessionId);
+    if (cached) {
+        cached.status = 'waiting_response';
+        cached.pendingApproval = approval;
+    }
+    console.log(`[Approvals] Session ${sessionId}: waiting for approval of turn ${approval.turn} (${approval.state})`);
+
+    const promise = new Promise<ApprovalResponse>((resolve) => {
+        waiters.set(sessionId, { approval, resolve });
+    });
+
+    try {
+        globalForApprovals.approvalNotifier?.(sessionId, approval);
+    } catch (error) {
+        console.error('[Approvals] Notifier failed:', error);
+    }
+
+    return promise;
+}
+
+/**
+ * Answer a session's pending decision and let its loop continue
+ * The answer is recorded in the chat as a user message.
+ * @throws if nothing is waiting for approval in this session
+ */
+export function resolveApproval(sessionId: string, response: ApprovalResponse): { approval: PendingApproval; message: Message } {
+    const waiter = waiters.get(sessionId);
+    if (!waiter) {
+        throw new Error('No decision is waiting for approval');
+    }
+    if (response.action === 'edit' && !response.message.trim()) {
+        throw new Error('An edited message cannot be empty');
+    }
+
+    waiters.delete(sessionId);
+    db.updateSession({ id: sessionId, status: 'running', pendingApproval: undefined });
+
+    const content = response.action === 'approve'
+        ? '✅ Approved'
+        : response.action === 'edit'
+            ? `✏️ ${response.message.trim()}`
+            : `🛑 Rejected${response.message?.trim() ? `: ${response.message.trim()}` : ''}`;
+    const message: Message = {
+        id: generateId(),
+        role: 'user',
+        content,
+        timestamp: new Date(),
+        metadata: { source: 'user' },
+    };
+    db.addMessage(sessionId, message);
+
+    const cached = chatStore.get(sessionId);
+    if (cached) {
+        cached.status = 'running';
+        cached.pendingApproval = undefined;
+        cached.messages.push(message);
+    }
+
+    console.log(`[Approvals] Session ${sessionId}: turn ${waiter.approval.turn} ${response.action}`);
+    waiter.resolve(response.action === 'edit' ? { action: 'edit', message: response.message.trim() } : response);
+    return { approval: waiter.approval, message };
+}
+
+/**
+ * Stop waiting without an answer (the session was aborted); the loop ends as rejected
+ * @returns true if something was waiting
+ */
+export function cancelApproval(sessionId: string): boolean {
+    const waiter = waiters.get(sessionId);
+    if (!waiter) return false;
+
+    waiters.delete(sessionId);
+    db.updateSession({ id: sessionId, pendingApproval: undefined });
+    const cached = chatStore.get(sessionId);
+    if (cached) cached.pendingApproval = undefined;
+
+    waiter.resolve({ action: 'reject', message: 'Aborted' });
+    return true;
+}
+
+/**
+ * Whether a loop in this process is waiting for the session's approval
+ */
+export function isAwaitingApproval(sessionId: string): boolean {
+    return waiters.has(sessionId);
+}
@@ -0,0 +1,53 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { CommandBackend, FakeAgentBackend } from './backends';
+
+const WORKDIR = process.cwd();
+
+test('command backend refuses plan-only mode without plan arguments', () => {
+    const backend = new CommandBackend({ type: 'command', command: 'my-agent', forceArgs: ['--yes'] });
+    assert.throws(() => backend.buildArgs({ workdir: WORKDIR, force: true, planOnly: true }), /plan-only/);
+});
+
+test('command backend refuses to run without --force unless it has auto-approve arguments', () => {
+    const backend = new CommandBackend({ type: 'command', command: 'my-agent' });
+    assert.throws(() => backend.buildArgs({ workdir: WORKDIR, force: false }), /without --force/);
+    assert.deepEqual(backend.buildArgs({ workdir: WORKDIR, force: true }), []);
+});
+
+test('command backend adds auto-approve and plan-only arguments when asked', () => {
+    const backend = new CommandBackend({ type: 'command', command: 'my-agent', args: ['--json'], forceArgs: ['--yes'], planArgs: ['--read-only'] });
+    assert.deepEqual(backend.buildArgs({ workdir: WORKDIR, force: true }), ['--json', '--yes']);
+    assert.deepEqual(backend.buildArgs({ workdir: WORKDIR, force: false, planOnly: true }), ['--json', '--read-only']);
+});
+
+// Output of the fake agent replaying a turn with a read and a write tool call
+async function runFakeAgent(options: { force?: boolean; planOnly?: boolean }): Promise<string> {
+    const transcripts = mkdtempSync(join(tmpdir(), 'cursor-pilot-backends-'));
+    writeFileSync(join(transcripts, 'turn-1.jsonl'), [
+        { type: 'tool_call', subtype: 'started', call_id: 'r', tool_call: { readToolCall: { args: { path: 'a.txt' } } } },
+        { type: 'tool_call', subtype: 'started', call_id: 'w', tool_call: { writeToolCall: { args: { path: 'b.txt' } } } },
+        { type: 'result', subtype: 'success', duration_ms: 1 },
+    ].map((line) => JSON.stringify(line)).join('\n'));
+
+    const child = new FakeAgentBackend({ type: 'fake', transcripts }).spawn({ workdir: WORKDIR, ...options });
+    child.stdin.end('prompt');
+    let output = '';
+    child.stdout.on('data', (chunk: Buffer) => (output += chunk.toString()));
+    await new Promise((resolve) => child.on('close', resolve));
+    return output;
+}
+
+test('fake agent skips write tool calls without --force and in plan mode', async () => {
+    const forced = await runFakeAgent({ force: true });
+    assert.match(forced, /writeToolCall/);
+
+    for (const options of [{ force: false }, { force: true, planOnly: true }]) {
+        const output = await runFakeAgent(options);
+        assert.match(output, /readToolCall/);
+        assert.doesNotMatch(output, /writeToolCall/);
+    }
+});
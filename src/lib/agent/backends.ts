@@ -0,0 +1,231 @@
+/**
+ * Coding Agent Backends
+ * Abstracts how an agent CLI process is spawned so the executor, sessions and
+ * /api/chat are not tied to Cursor's `agent` binary and flags
+ */
+import { spawn, ChildProcessWithoutNullStreams } from 'child_process';
+import { join } from 'path';
+import { AgentBackendConfig, AgentBackendType } from '../types';
+import { getSettings } from '../settings';
+
+export interface AgentSpawnOptions {
+    workdir: string;
+    resumeSessionId?: string;
+    model?: string;
+    // Ask for incremental assistant deltas when the backend supports it
+    partialOutput?: boolean;
+    // Extra CLI arguments (the project's agent flags)
+    extraArgs?: string[];
+    // Auto-approve every tool call (Cursor's --force)
+    force?: boolean;
+    // Read-only planning (Cursor's plan mode)
+    planOnly?: boolean;
+}
+
+/**
+ * A backend spawns a process that takes the prompt on stdin and
+ * writes stream-json (CursorAgentMessage) lines to stdout
+ */
+export interface AgentBackend {
+    readonly type: AgentBackendConfig['type'];
+    readonly displayName: string;
+    spawn(options: AgentSpawnOptions): ChildProcessWithoutNullStreams;
+}
+
+/**
+ * Cursor `agent` CLI
+ */
+export class CursorCliBackend implements AgentBackend {
+    readonly type = 'cursor' as const;
+    readonly displayName = 'Cursor Agent';
+
+    buildArgs(options: AgentSpawnOptions): string[] {
+        const args = ['-p', '--output-format=stream-json'];
+        if (options.partialOutput) {
+            args.push('--stream-partial-output');
+        }
+        if (options.force) {
+            args.push('--force');
+        }
+        if (options.planOnly) {
+            args.push('--mode=plan');
+        }
+        if (options.resumeSessionId) {
+            args.push('--resume', options.resumeSessionId);
+        }
+        // Always add model parameter (even for 'auto' to let Cursor choose)
+        if (options.model) {
+            args.push('--model', options.model);
+        }
+        args.push(...(options.extraArgs || []));
+        return args;
+    }
+
+    spawn(options: AgentSpawnOptions): ChildProcessWithoutNullStreams {
+        return spawn('agent', this.buildArgs(options), {
+            cwd: options.workdir, // stdio defaults to pipes
+        });
+    }
+}
+
+/**
+ * Any command that speaks stream-json on stdout
+ */
+export class CommandBackend implements AgentBackend {
+    readonly type = 'command' as const;
+    readonly displayName: string;
+    private config: AgentBackendConfig;
+
+    constructor(config: AgentBackendConfig) {
+        if (!config.command) {
+            throw new Error('Command backend requires a command');
+        }
+        this.config = config;
+        this.displayName = config.command;
+    }
+
+    buildArgs(options: AgentSpawnOptions): string[] {
+        const args = [...(this.config.args || [])];
+        if (options.resumeSessionId && this.config.resumeArgs) {
+            args.push(...this.config.resumeArgs.map((a) => a.replace('{sessionId}', options.resumeSessionId!)));
+        }
+        if (options.model && this.config.modelArgs) {
+            args.push(...this.config.modelArgs.map((a) => a.replace('{model}', options.model!)));
+        }
+        // Refuse rather than run with more access than the agent permissions give
+        if (options.planOnly) {
+            if (!this.config.planArgs) {
+                throw new Error(`${this.displayName} has no plan-only arguments set, so it can't run in plan-only mode`);
+            }
+            args.push(...this.config.planArgs);
+        }
+        if (options.force) {
+            args.push(...(this.config.forceArgs || []));
+        } else if (!this.config.forceArgs) {
+            throw new Error(`${this.displayName} has no --force arguments set, so it can't run without --force`);
+        }
+        args.push(...(options.extraArgs || []));
+        return args;
+    }
+
+    spawn(options: AgentSpawnOptions): ChildProcessWithoutNullStreams {
+        return spawn(this.config.command!, this.buildArgs(options), {
+            cwd: options.workdir, // stdio defaults to pipes
+        });
+    }
+}
+
+/**
+ * Scripted fake agent replaying JSONL transcripts (see scripts/fake-cursor-agent.mjs)
+ */
+export class FakeAgentBackend implements AgentBackend {
+    readonly type = 'fake' as const;
+    readonly displayName = 'Fake Agent';
+    private transcripts: string;
+
+    constructor(config: AgentBackendConfig) {
+        const transcripts = config.transcripts || process.env.FAKE_AGENT_TRANSCRIPTS;
+        if (!transcripts) {
+            throw new Error('Fake backend requires a transcripts directory');
+        }
+        this.transcripts = transcripts;
+    }
+
+    buildArgs(options: AgentSpawnOptions): string[] {
+        const script = process.env.FAKE_AGENT_SCRIPT || join(process.cwd(), 'scripts', 'fake-cursor-agent.mjs');
+        const args = [script, '--transcripts', this.transcripts];
+        if (options.resumeSessionId) {
+            args.push('--resume', options.resumeSessionId);
+        }
+        if (options.model) {
+            args.push('--model', options.model);
+        }
+        // Like Cursor, the fake agent skips tool calls these don't allow
+        if (options.force) {
+            args.push('--force');
+        }
+        if (options.planOnly) {
+            args.push('--mode=plan');
+        }
+        args.push(...(options.extraArgs || []));
+        return args;
+    }
+
+    spawn(options: AgentSpawnOptions): ChildProcessWithoutNullStreams {
+        return spawn(process.execPath, this.buildArgs(options), {
+            cwd: options.workdir, // stdio defaults to pipes
+        });
+    }
+}
+
+const BACKEND_TYPES: AgentBackendType[] = ['cursor', 'command', 'fake'];
+
+function isStringList(value: unknown): value is string[] {
+    return Array.isArray(value) && value.every((item) => typeof item === 'string');
+}
+
+/**
+ * Check a per-chat backend from a request body. Command and fake backends run an arbitrary
+ * program in the project, so only admins may pick one freely; others may only pick the
+ * backend configured in settings.
+ * @returns undefined for null (back to the settings backend)
+ * @throws Error describing why the backend isn't allowed
+ */
+export function parseSessionBackend(input: unknown, isAdmin: boolean): AgentBackendConfig | undefined {
+    if (input === undefined || input === null) return undefined;
+    if (typeof input !== 'object' || Array.isArray(input)) {
+        throw new Error('backend must be an object');
+    }
+    const { type, command, args, resumeArgs, modelArgs, forceArgs, planArgs, transcripts } = input as Record<string, unknown>;
+    if (!BACKEND_TYPES.includes(type as AgentBackendType)) {
+        throw new Error(`backend type must be one of: ${BACKEND_TYPES.join(', ')}`);
+    }
+    if (type === 'cursor') {
+        return { type: 'cursor' };
+    }
+
+    if (command !== undefined && typeof command !== 'string') throw new Error('backend command must be a string');
+    if (transcripts !== undefined && typeof transcripts !== 'string') throw new Error('backend transcripts must be a string');
+    for (const [name, list] of Object.entries({ args, resumeArgs, modelArgs, forceArgs, planArgs })) {
+        if (list !== undefined && !isStringList(list)) throw new Error(`backend ${name} must be a list of strings`);
+    }
+
+    const backend: AgentBackendConfig = type === 'command'
+        ? {
+            type,
+            command: command as string | undefined,
+            args: args as string[] | undefined,
+            resumeArgs: resumeArgs as string[] | undefined,
+            modelArgs: modelArgs as string[] | undefined,
+            forceArgs: forceArgs as string[] | undefined,
+            planArgs: planArgs as string[] | undefined,
+        }
+        : { type: 'fake', transcripts: transcripts as string | undefined };
+    if (!isAdmin && !sameBackend(backend, getSettings().backend)) {
+        throw new Error(`Only admins can choose a ${type} backend other than the one in settings`);
+    }
+    return backend;
+}
+
+function sameBackend(a: AgentBackendConfig, b: AgentBackendConfig | undefined): boolean {
+    if (!b || a.type !== b.type) return false;
+    const fields = (config: AgentBackendConfig) => JSON.stringify([
+        config.command, config.args ?? [], config.resumeArgs ?? [], config.modelArgs ?? [],
+        config.forceArgs, config.planArgs, config.transcripts,
+    ]);
+    return fields(a) === fields(b);
+}
+
+/**
+ * Resolve a backend from an explicit config, falling back to settings
+ */
+export function getAgentBackend(config?: AgentBackendConfig): AgentBackend {
+    const effective = config || getSettings().backend;
+    if (effective?.type === 'command') {
+        return new CommandBackend(effective);
+    }
+    if (effective?.type === 'fake') {
+        return new FakeAgentBackend(effective);
+    }
+    return new CursorCliBackend();
+}
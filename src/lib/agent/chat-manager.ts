@@ -4,21 +4,81 @@
  * Uses Agent Manager prompt for intelligent conversation flow
  */
 import Anthropic from '@anthropic-ai/sdk';
-import { executeCursorTask } from './cursor-executor';
-import { Message, ChatStatus, CursorTaskResult } from '../types';
+import { createAnthropicClient } from './anthropic-client';
+import { executeCursorTask, TaskProgress } from './cursor-executor';
+import { CursorCallPriority } from './scheduler';
+import { AGENT_MANAGER_DECISION_TOOL, AgentManagerDecisionInput } from './tools';
+import { needsApproval } from './approvals';
+import { checkBudget, recordUsage } from './usage';
+import { isAbortError } from './abort-controller';
+import { classifyCursorFailure, formatRetry, retryDelay, sleep, withApiRetry } from './retry';
+import { AgentBackendConfig, AgentTimeouts, ApprovalPolicy, ApprovalResponse, Message, ChatStatus, CursorTaskResult, PendingApproval, RestorePoint, ResumeRequest, RetryPolicy, WorkdirChanges } from '../types';
+import { audit } from '../audit';
 import { buildAgentManagerPrompt } from '../prompts';
+import { getSettings } from '../settings';
+import { createRestorePoint, diffSinceSnapshot, takeSnapshot } from '../git/snapshot';
 import { generateId } from '../utils/id';
 
+const AGENT_STATES: AgentState[] = ['WORKING', 'BLOCKED', 'ASKING', 'COMPLETED', 'PARTIAL'];
+
+// Timed-out Cursor turns in a row before the loop gives up on its own
+const MAX_CONSECUTIVE_TIMEOUTS = 2;
+
 /**
- * Extract task.md content from Agent Manager response
- * Simply looks for ```task.md ... ``` block - Agent Manager handles the formatting
+ * Normalize the submit_decision tool input
+ * Models occasionally send out-of-range or missing fields; never let that turn into a completion
  */
-function extractTaskMd(response: string): string | null {
-    const match = response.match(/```task\.md\s*([\s\S]*?)```/);
-    if (match && match[1].trim()) {
-        return match[1].trim();
+function parseDecision(input: Partial<AgentManagerDecisionInput>): AgentManagerDecision {
+    const state = AGENT_STATES.includes(input.state as AgentState) ? (input.state as AgentState) : 'UNKNOWN';
+    const confidence = typeof input.confidence === 'number' && !Number.isNaN(input.confidence)
+        ? Math.min(1, Math.max(0, input.confidence))
+        : 0;
+    const taskMd = typeof input.task_md === 'string' ? input.task_md.trim() : '';
+    const reasoning = typeof input.reasoning === 'string' ? input.reasoning.trim() : '';
+
+    return {
+        state,
+        nextMessage: typeof input.next_message === 'string' ? input.next_message.trim() : '',
+        taskMd: taskMd || undefined,
+        isComplete: input.is_complete === true,
+        confidence,
+        reasoning: reasoning || undefined,
+    };
+}
+
+// Cursor context shown with a pending approval
+const APPROVAL_EXCERPT_CHARS = 1500;
+
+function toPendingApproval(turn: number, decision: AgentManagerDecision, cursorContent: string): PendingApproval {
+    return {
+        id: generateId(),
+        turn,
+        state: decision.state,
+        proposedMessage: decision.nextMessage,
+        isComplete: decision.isComplete,
+        reasoning: decision.reasoning,
+        cursorExcerpt: cursorContent.length > APPROVAL_EXCERPT_CHARS
+            ? `…${cursorContent.slice(-APPROVAL_EXCERPT_CHARS)}`
+            : cursorContent,
+        createdAt: new Date().toISOString(),
+    };
+}
+
+/**
+ * Map Cursor executor progress onto chat progress events
+ */
+function forwardCursorProgress(progress: TaskProgress, onProgress?: ChatProgressCallback): void {
+    if (progress.type === 'thinking') {
+        onProgress?.({ type: 'thinking', content: progress.content });
+    } else if (progress.type === 'tool_call') {
+        onProgress?.({ type: 'tool_call', content: progress.content });
+    } else if (progress.type === 'tool_result') {
+        onProgress?.({ type: 'tool_result', content: progress.content });
+    } else if (progress.type === 'model_info') {
+        onProgress?.({ type: 'model_info', content: progress.content, model: progress.model });
+    } else if (progress.type === 'status' && progress.queuePosition) {
+        onProgress?.({ type: 'queued', content: progress.content, queuePosition: progress.queuePosition });
     }
-    return null;
 }
 
 export interface ChatManagerConfig {
@@ -29,21 +89,71 @@ export interface ChatManagerConfig {
 }
 
 export interface ChatProgressEvent {
-    type: 'cursor_response' | 'ai_followup' | 'thinking' | 'tool_call' | 'tool_result' | 'model_info' | 'status_change' | 'complete' | 'state_detected' | 'task_md_update';
+    type: 'cursor_response' | 'ai_followup' | 'thinking' | 'tool_call' | 'tool_result' | 'model_info' | 'status_change' | 'complete' | 'state_detected' | 'task_md_update' | 'queued' | 'approval_required' | 'budget_exceeded' | 'paused' | 'timeout' | 'retry';
     content?: string;
     status?: ChatStatus;
     isTaskComplete?: boolean;
     turn?: number;
     state?: AgentState;
+    confidence?: number; // Agent Manager's confidence in the detected state (0-1)
     taskMd?: string; // Updated task.md content
     model?: string; // The model being used by Cursor
+    queuePosition?: number; // Waiting for a scheduler slot at this position
+    changes?: WorkdirChanges; // Workdir changes made during the turn (cursor_response)
+    restorePoint?: RestorePoint; // Workdir state before the turn (cursor_response)
+    approval?: PendingApproval; // Decision waiting for a human (approval_required)
 }
 
 export type ChatProgressCallback = (event: ChatProgressEvent) => void;
 
+// Persisted after every Agent Manager decision so an interrupted loop can be resumed
+export interface ConversationCheckpoint {
+    turn: number;
+    cursorSessionId?: string;
+    nextMessage: string; // Agent Manager's message that will be sent to Cursor next
+    taskMd: string;
+    isComplete: boolean;
+}
+
+export interface RunConversationOptions {
+    backend?: AgentBackendConfig; // Agent backend for this chat (defaults to settings)
+    chatId?: string; // Session the Cursor calls belong to (tracking, abort, queue position)
+    chatTitle?: string;
+    priority?: CursorCallPriority;
+    // Continue an interrupted loop instead of sending the initial task
+    resumeFrom?: {
+        turn: number; // Last completed turn
+        message: string; // Message to send to Cursor first
+        history: Message[]; // Earlier Cursor / Agent Manager messages, for Agent Manager context
+        pendingApproval?: PendingApproval; // Decision that was waiting for approval (asked again before anything else)
+    };
+    onCheckpoint?: (checkpoint: ConversationCheckpoint) => void;
+    // Which decisions wait for a human (default: none); read at every decision so changes apply mid-run
+    getApprovalPolicy?: () => ApprovalPolicy | undefined;
+    // Resolves with the human's answer; required for the approval policy to take effect
+    requestApproval?: (approval: PendingApproval) => Promise<ApprovalResponse>;
+    signal?: AbortSignal; // Stops the loop, the in-flight Agent Manager call and the Cursor process
+    // Checked between turns; when it returns true the loop waits on waitForResume
+    isPauseRequested?: () => boolean;
+    // Resolves once the chat is resumed; required for pausing to take effect
+    waitForResume?: (turn: number) => Promise<ResumeRequest>;
+    timeouts?: AgentTimeouts; // Defaults to the timeouts setting
+    retry?: RetryPolicy; // Defaults to the retry setting
+}
+
 // Agent states based on the Agent Manager prompt
 export type AgentState = 'WORKING' | 'BLOCKED' | 'ASKING' | 'COMPLETED' | 'PARTIAL' | 'UNKNOWN';
 
+// Typed result of one Agent Manager turn (from the submit_decision tool)
+export interface AgentManagerDecision {
+    state: AgentState;
+    nextMessage: string;
+    taskMd?: string;
+    isComplete: boolean;
+    confidence: number;
+    reasoning?: string;
+}
+
 /**
  * Manages a chat session with intelligent conversation flow
  */
@@ -53,10 +163,7 @@ export class ChatManager {
     private maxTurns: number;
 
     constructor(config: ChatManagerConfig = {}) {
-        this.client = new Anthropic({
-            apiKey: config.apiKey || process.env.ANTHROPIC_API_KEY,
-            baseURL: config.baseUrl || process.env.ANTHROPIC_BASE_URL || process.env.ANTHROPIC_API_BASE,
-        });
+        this.client = createAnthropicClient(config);
         this.model = config.model || process.env.ANTHROPIC_MODEL || 'claude-sonnet-4-20250514';
         this.maxTurns = config.maxTurns || 10;
     }
@@ -76,19 +183,46 @@ export class ChatManager {
         workdir: string,
         onProgress?: ChatProgressCallback,
         existingSessionId?: string,
-        taskMd?: string // Task description for completion checking
+        taskMd?: string, // Task description for completion checking
+        options: RunConversationOptions = {}
     ): Promise<{
         success: boolean;
         messages: Message[];
         cursorSessionId?: string;
         turns: number;
         finalTaskMd?: string; // Final task.md content with progress
+        rejected?: boolean; // A human rejected a decision and stopped the loop
+        budgetExceeded?: boolean; // The session's budget ran out
+        cancelled?: boolean; // Stopped through options.signal
+        timedOut?: boolean; // The task's time limit, or too many turn timeouts in a row, ended the loop
+        error?: string; // Why the loop failed
     }> {
         const messages: Message[] = [];
         let cursorSessionId = existingSessionId;
-        let turn = 0;
+        let turn = options.resumeFrom?.turn ?? 0;
         let isTaskComplete = false;
+        let stopped = false; // Ended by a decision before the loop started
         let currentTaskMd = taskMd || ''; // Track task.md content
+        const { signal } = options;
+
+        // The whole task's time limit (time spent paused doesn't count)
+        const timeouts = options.timeouts ?? getSettings().timeouts;
+        const retryPolicy = options.retry ?? getSettings().retry;
+        let deadline = timeouts.taskSec ? Date.now() + timeouts.taskSec * 1000 : undefined;
+        let consecutiveTimeouts = 0;
+
+        const timedOut = (error: string) => {
+            console.warn(`[ChatManager] Turn ${turn}: ${error}, stopping`);
+            onProgress?.({ type: 'timeout', content: `⏱️ ${error}`, turn });
+            onProgress?.({ type: 'complete', isTaskComplete: false, turn, status: 'error', taskMd: currentTaskMd });
+            return { success: false, timedOut: true, error, messages, cursorSessionId, turns: turn, finalTaskMd: currentTaskMd };
+        };
+
+        const cancel = () => {
+            console.log(`[ChatManager] Turn ${turn}: cancelled`);
+            onProgress?.({ type: 'complete', isTaskComplete: false, turn, status: 'cancelled', taskMd: currentTaskMd });
+            return { success: false, cancelled: true, messages, cursorSessionId, turns: turn, finalTaskMd: currentTaskMd };
+        };
 
         // Build initial task with working rules
         const workingRules = `
@@ -115,50 +249,203 @@ ${initialTask}`;
             timestamp: new Date(),
         });
 
-        onProgress?.({ type: 'status_change', status: 'running' });
+        // When resuming, the Agent Manager still needs to see the earlier turns
+        let messageToSend = workingRules;
+        if (options.resumeFrom) {
+            messages.push(...options.resumeFrom.history);
+            messageToSend = options.resumeFrom.message;
+        }
 
-        console.log(`[ChatManager] Starting conversation loop, maxTurns=${this.maxTurns}`);
-        
-        while (turn < this.maxTurns && !isTaskComplete) {
-            turn++;
-            console.log(`[ChatManager] Turn ${turn}: Starting, isTaskComplete=${isTaskComplete}`);
-            onProgress?.({ type: 'status_change', status: 'running', turn });
+        /**
+         * Act on an Agent Manager decision (after approval, if it needed one)
+         * @param editedMessage - a human's replacement for the decision's next message
+         * @returns false when the loop should stop
+         */
+        const actOnDecision = (decision: AgentManagerDecision, editedMessage?: string): boolean => {
+            if (editedMessage) {
+                messages.push({
+                    id: generateId(),
+                    role: 'user',
+                    content: editedMessage,
+                    timestamp: new Date(),
+                });
+                messageToSend = editedMessage;
+                return true;
+            }
 
-            // Get the last message to send to Cursor
-            const lastMessage = messages[messages.length - 1];
-            
-            // CRITICAL: If last message contains "Mission Complete", stop immediately
-            // This prevents sending completion messages to Cursor
-            if (lastMessage.content.toLowerCase().includes('mission complete')) {
-                console.log('[ChatManager] Detected Mission Complete in last message, stopping loop');
+            // Check if task is complete - STOP THE LOOP
+            if (decision.isComplete) {
+                console.log(`[ChatManager] Turn ${turn}: Agent Manager says complete (confidence=${decision.confidence}), breaking loop`);
                 isTaskComplete = true;
-                break;
+                
+                // Build completion message with reasoning if available
+                let completionContent = '✅ Mission Complete';
+                if (decision.reasoning) {
+                    completionContent = `${decision.reasoning}\n\n✅ Mission Complete`;
+                }
+                
+                onProgress?.({ type: 'ai_followup', content: completionContent });
+                messages.push({
+                    id: generateId(),
+                    role: 'system',
+                    content: completionContent,
+                    timestamp: new Date(),
+                });
+                return false;
             }
             
-            // For system messages (from Agent Manager), extract the actual content without the emoji prefix
-            let messageToSend = lastMessage.content;
-            if (lastMessage.role === 'system' && messageToSend.startsWith('🤖 ')) {
-                messageToSend = messageToSend.slice(3); // Remove "🤖 " prefix
+            // If Agent Manager gave no instruction, don't send an empty message to Cursor
+            if (decision.nextMessage.length < 3) {
+                console.warn(`[ChatManager] Warning: Agent Manager returned empty/minimal next_message on turn ${turn}, not sending to Cursor`);
+                
+                // Notify UI about the empty response
+                onProgress?.({ 
+                    type: 'ai_followup', 
+                    content: '[Agent Manager 没有返回有效的后续指令，对话暂停]' 
+                });
+                
+                // The user can review the state and continue manually if needed
+                return false;
+            }
+            
+            // Add AI's follow-up as system message (Agent Manager speaking)
+            onProgress?.({ type: 'ai_followup', content: decision.nextMessage });
+
+            messages.push({
+                id: generateId(),
+                role: 'system', // Mark as system message (Agent Manager)
+                content: `🤖 ${decision.nextMessage}`,
+                timestamp: new Date(),
+            });
+            messageToSend = decision.nextMessage;
+            return true;
+        };
+
+        // Wait for a human to approve, edit or reject a held decision
+        const awaitApproval = async (approval: PendingApproval): Promise<ApprovalResponse> => {
+            onProgress?.({
+                type: 'approval_required',
+                status: 'waiting_response',
+                turn: approval.turn,
+                approval,
+                content: `⏸️ Waiting for approval (${approval.state}): ${approval.isComplete ? 'finish the task' : approval.proposedMessage}`,
+            });
+            const response = await options.requestApproval!(approval);
+            if (signal?.aborted) return response; // The caller reports the cancellation
+
+            if (response.action === 'reject') {
+                console.log(`[ChatManager] Turn ${approval.turn}: decision rejected, stopping`);
+                onProgress?.({ type: 'complete', isTaskComplete: false, turn, status: 'idle', taskMd: currentTaskMd });
+            } else {
+                onProgress?.({ type: 'status_change', status: 'running', turn: approval.turn });
+            }
+            return response;
+        };
+
+        onProgress?.({ type: 'status_change', status: 'running' });
+
+        // Interrupted while a decision was waiting for approval: ask again before the next turn
+        const resumedApproval = options.resumeFrom?.pendingApproval;
+        if (resumedApproval && options.requestApproval) {
+            const response = await awaitApproval(resumedApproval);
+            if (signal?.aborted) return cancel();
+            if (response.action === 'reject') {
+                return { success: false, rejected: true, messages, cursorSessionId, turns: turn, finalTaskMd: currentTaskMd };
+            }
+            const decision: AgentManagerDecision = {
+                state: resumedApproval.state as AgentState,
+                nextMessage: resumedApproval.proposedMessage,
+                isComplete: resumedApproval.isComplete,
+                confidence: 1,
+                reasoning: resumedApproval.reasoning,
+            };
+            stopped = !actOnDecision(decision, response.action === 'edit' ? response.message : undefined);
+        }
+
+        console.log(`[ChatManager] Starting conversation loop at turn ${turn}, maxTurns=${this.maxTurns}`);
+        
+        while (turn < this.maxTurns && !isTaskComplete && !stopped) {
+            if (signal?.aborted) return cancel();
+
+            // Paused between turns: the last decision is checkpointed, so just wait for a resume
+            if (options.waitForResume && options.isPauseRequested?.()) {
+                onProgress?.({ type: 'paused', status: 'paused', turn, content: `⏸️ Paused after turn ${turn}` });
+                const pausedAt = Date.now();
+                const resume = await options.waitForResume(turn);
+                if (deadline) deadline += Date.now() - pausedAt;
+                if (signal?.aborted) return cancel();
+
+                // A human instruction replaces the Agent Manager's next message
+                if (resume.message) {
+                    messages.push({
+                        id: generateId(),
+                        role: 'user',
+                        content: resume.message,
+                        timestamp: new Date(),
+                    });
+                    messageToSend = resume.message;
+                    options.onCheckpoint?.({
+                        turn,
+                        cursorSessionId,
+                        nextMessage: resume.message,
+                        taskMd: currentTaskMd,
+                        isComplete: false,
+                    });
+                }
+                onProgress?.({ type: 'status_change', status: 'running', turn });
             }
-            if (lastMessage.role === 'system' && messageToSend.startsWith('✅ ')) {
-                messageToSend = messageToSend.slice(3); // Remove "✅ " prefix
+
+            if (deadline && Date.now() >= deadline) {
+                return timedOut(`Timeout: the task ran longer than ${timeouts.taskSec}s`);
+            }
+
+            // Don't start another turn once the session's budget is spent
+            const overBudget = options.chatId ? checkBudget(options.chatId) : undefined;
+            if (overBudget) {
+                console.warn(`[ChatManager] ${overBudget}, stopping before turn ${turn + 1}`);
+                onProgress?.({ type: 'budget_exceeded', content: `💸 ${overBudget}`, turn });
+                onProgress?.({ type: 'complete', isTaskComplete: false, turn, status: 'idle', taskMd: currentTaskMd });
+                return { success: false, budgetExceeded: true, messages, cursorSessionId, turns: turn, finalTaskMd: currentTaskMd };
             }
 
-            // Send to Cursor Agent
-            const cursorResult = await executeCursorTask(messageToSend, workdir, {
+            turn++;
+            console.log(`[ChatManager] Turn ${turn}: Starting, isTaskComplete=${isTaskComplete}`);
+            onProgress?.({ type: 'status_change', status: 'running', turn });
+
+            // Send to Cursor Agent, recording what it changes in the workdir
+            const snapshot = await takeSnapshot(workdir);
+            const runCursor = () => executeCursorTask(messageToSend, workdir, {
                 sessionId: cursorSessionId,
-                onProgress: (progress) => {
-                    if (progress.type === 'thinking') {
-                        onProgress?.({ type: 'thinking', content: progress.content });
-                    } else if (progress.type === 'tool_call') {
-                        onProgress?.({ type: 'tool_call', content: progress.content });
-                    } else if (progress.type === 'tool_result') {
-                        onProgress?.({ type: 'tool_result', content: progress.content });
-                    } else if (progress.type === 'model_info') {
-                        onProgress?.({ type: 'model_info', content: progress.content, model: progress.model });
-                    }
-                },
+                backend: options.backend,
+                chatId: options.chatId,
+                chatTitle: options.chatTitle,
+                priority: options.priority,
+                signal,
+                timeouts,
+                deadline,
+                onProgress: (progress) => forwardCursorProgress(progress, onProgress),
             });
+            let cursorResult = await runCursor();
+
+            // Transient failures: resume the same Cursor session and send the message again
+            for (let attempt = 2; !cursorResult.success && attempt <= retryPolicy.maxAttempts; attempt++) {
+                const classification = classifyCursorFailure(cursorResult);
+                if (!classification.retryable || signal?.aborted) break;
+
+                cursorSessionId ??= cursorResult.sessionId;
+                const delayMs = retryDelay(attempt, retryPolicy, classification.retryAfterMs);
+                console.warn(`[ChatManager] Turn ${turn}: Cursor failed (${classification.reason}), retrying in ${delayMs}ms (attempt ${attempt}/${retryPolicy.maxAttempts})`);
+                onProgress?.({
+                    type: 'retry',
+                    content: formatRetry('Cursor', { attempt, maxAttempts: retryPolicy.maxAttempts, delayMs, reason: classification.reason }),
+                    turn,
+                });
+                await sleep(delayMs, signal);
+                if (signal?.aborted) break;
+                cursorResult = await runCursor();
+            }
+            const changes = snapshot ? await diffSinceSnapshot(snapshot) : null;
+            const restorePoint = snapshot ? createRestorePoint(snapshot, changes) : undefined;
 
             // Update session ID if first turn
             if (!cursorSessionId && cursorResult.sessionId) {
@@ -181,32 +468,77 @@ ${initialTask}`;
                 content: cursorResult.content,
                 isTaskComplete: false,
                 turn,
+                changes: changes ?? undefined,
+                restorePoint,
             });
 
-            // If Cursor failed, stop
-            if (!cursorResult.success) {
+            if (cursorResult.cancelled || signal?.aborted) return cancel();
+
+            if (cursorResult.timeout === 'task') return timedOut(cursorResult.error || 'Timeout');
+            if (cursorResult.timeout) {
+                // Tell the Agent Manager, which can retry (e.g. with a smaller step) or give up
+                consecutiveTimeouts++;
+                const error = cursorResult.error || 'Timeout';
+                if (consecutiveTimeouts > MAX_CONSECUTIVE_TIMEOUTS) {
+                    return timedOut(`${error} (${consecutiveTimeouts} turns in a row)`);
+                }
+                onProgress?.({ type: 'timeout', content: `⏱️ ${error}`, turn });
+                messages.push({
+                    id: generateId(),
+                    role: 'system',
+                    content: `[TIMEOUT] ${error}. Cursor's process was stopped, so this turn may be incomplete.`,
+                    timestamp: new Date(),
+                });
+            } else if (!cursorResult.success) {
+                // If Cursor failed, stop
                 onProgress?.({ type: 'status_change', status: 'error' });
                 return {
                     success: false,
+                    error: cursorResult.error,
                     messages,
                     cursorSessionId,
                     turns: turn,
                     finalTaskMd: currentTaskMd,
                 };
+            } else {
+                consecutiveTimeouts = 0;
             }
 
             // Use Agent Manager to analyze response and decide next action
-            const { nextAction, state, isComplete, newTaskMd } = await this.analyzeAndDecide(
-                initialTask,
-                messages,
-                currentTaskMd,
-                turn // Pass turn number to help Agent Manager know context
-            );
+            let decision: AgentManagerDecision;
+            try {
+                decision = await withApiRetry(() => this.analyzeAndDecide(
+                    initialTask,
+                    messages,
+                    currentTaskMd,
+                    turn, // Pass turn number to help Agent Manager know context
+                    options.chatId,
+                    signal
+                ), {
+                    policy: retryPolicy,
+                    signal,
+                    onRetry: (retry) => onProgress?.({ type: 'retry', content: formatRetry('Agent Manager call', retry), turn }),
+                });
+            } catch (error) {
+                if (isAbortError(error) || signal?.aborted) return cancel();
+                throw error;
+            }
+            audit('agent_decision', {
+                sessionId: options.chatId,
+                details: {
+                    turn,
+                    state: decision.state,
+                    confidence: decision.confidence,
+                    isComplete: decision.isComplete,
+                    reasoning: decision.reasoning,
+                    nextMessage: decision.nextMessage,
+                },
+            });
 
             // Handle task.md updates from Agent Manager
             // Agent Manager is responsible for extracting and formatting the TODO list
-            if (newTaskMd) {
-                currentTaskMd = newTaskMd;
+            if (decision.taskMd) {
+                currentTaskMd = decision.taskMd;
                 onProgress?.({
                     type: 'task_md_update',
                     taskMd: currentTaskMd,
@@ -214,103 +546,49 @@ ${initialTask}`;
                 });
             }
 
+            options.onCheckpoint?.({
+                turn,
+                cursorSessionId,
+                nextMessage: decision.nextMessage,
+                taskMd: currentTaskMd,
+                isComplete: decision.isComplete,
+            });
+
             // Report detected state
             onProgress?.({
                 type: 'state_detected',
-                state,
-                content: `State: ${state}`,
+                state: decision.state,
+                confidence: decision.confidence,
+                content: `State: ${decision.state}`,
             });
 
-            // Clean the nextAction - remove task.md block and UPDATE_TASK commands
-            let cleanedAction = nextAction;
-            
-            // Extract and emit thinking block if present
-            const thinkMatch = cleanedAction.match(/<think>([\s\S]*?)<\/think>/);
-            let thinkContent: string | undefined;
-            if (thinkMatch) {
-                thinkContent = thinkMatch[1].trim();
-                if (thinkContent) {
-                    onProgress?.({ type: 'thinking', content: thinkContent });
-                }
-                // Remove thinking block from the action
-                cleanedAction = cleanedAction.replace(/<think>[\s\S]*?<\/think>/, '').trim();
+            if (decision.reasoning) {
+                onProgress?.({ type: 'thinking', content: decision.reasoning });
             }
-            
-            cleanedAction = cleanedAction.replace(/```task\.md[\s\S]*?```/g, '').trim();
-            cleanedAction = cleanedAction.replace(/\[UPDATE_TASK:[^\]]+\]/g, '').trim();
-            
-            // Check if original response contained "mission complete" before cleaning it
-            const hadMissionComplete = /mission\s*complete/gi.test(cleanedAction);
-            cleanedAction = cleanedAction.replace(/mission\s*complete/gi, '').trim();
 
-            // Check if task is complete - STOP THE LOOP
-            // Trust Agent Manager's judgment (isComplete from prompt response)
-            if (isComplete) {
-                console.log(`[ChatManager] Turn ${turn}: Agent Manager says complete, breaking loop`);
-                isTaskComplete = true;
-                
-                // Build completion message with thinking if available
-                let completionContent = '✅ Mission Complete';
-                if (thinkContent) {
-                    completionContent = `${thinkContent}\n\n✅ Mission Complete`;
+            // Hold the decision for a human when the approval policy asks for it
+            let editedMessage: string | undefined;
+            if (options.requestApproval && needsApproval(options.getApprovalPolicy?.(), decision)) {
+                const response = await awaitApproval(toPendingApproval(turn, decision, cursorResult.content));
+                if (signal?.aborted) return cancel();
+                if (response.action === 'reject') {
+                    return { success: false, rejected: true, messages, cursorSessionId, turns: turn, finalTaskMd: currentTaskMd };
                 }
-                
-                onProgress?.({ type: 'ai_followup', content: completionContent });
-                messages.push({
-                    id: generateId(),
-                    role: 'system',
-                    content: completionContent,
-                    timestamp: new Date(),
-                });
-                break;
-            }
-            
-            // If Agent Manager gave an empty response after cleaning
-            if (!cleanedAction || cleanedAction.length < 3) {
-                // If the original response had "Mission Complete", treat as completed
-                if (hadMissionComplete) {
-                    console.log(`[ChatManager] Turn ${turn}: Agent Manager said Mission Complete (detected in cleaned response)`);
-                    isTaskComplete = true;
-                    
-                    // Build completion message with thinking if available
-                    let completionContent = '✅ Mission Complete';
-                    if (thinkContent) {
-                        completionContent = `${thinkContent}\n\n✅ Mission Complete`;
-                    }
-                    
-                    onProgress?.({ type: 'ai_followup', content: completionContent });
-                    messages.push({
-                        id: generateId(),
-                        role: 'system',
-                        content: completionContent,
-                        timestamp: new Date(),
+                if (response.action === 'edit') {
+                    editedMessage = response.message;
+                    options.onCheckpoint?.({
+                        turn,
+                        cursorSessionId,
+                        nextMessage: editedMessage,
+                        taskMd: currentTaskMd,
+                        isComplete: false,
                     });
-                    break;
                 }
-                
-                console.log(`[ChatManager] Turn ${turn}: Agent Manager returned empty response after cleaning, not sending to Cursor`);
-                console.warn(`[ChatManager] Warning: Agent Manager returned empty/minimal response. Original: "${nextAction}"`);
-                
-                // Notify UI about the empty response
-                onProgress?.({ 
-                    type: 'ai_followup', 
-                    content: '[Agent Manager 没有返回有效的后续指令，对话暂停]' 
-                });
-                
-                // Break the loop - we shouldn't send empty messages to Cursor
-                // The user can review the state and continue manually if needed
-                break;
             }
-            
-            // Add AI's follow-up as system message (Agent Manager speaking)
-            onProgress?.({ type: 'ai_followup', content: cleanedAction });
 
-            messages.push({
-                id: generateId(),
-                role: 'system', // Mark as system message (Agent Manager)
-                content: `🤖 ${cleanedAction}`,
-                timestamp: new Date(),
-            });
+            if (!actOnDecision(decision, editedMessage)) {
+                break;
+            }
         }
 
         onProgress?.({
@@ -332,18 +610,16 @@ ${initialTask}`;
 
     /**
      * Analyze Cursor's response and decide next action using Agent Manager prompt
+     * The Agent Manager must answer through the submit_decision tool, so the result is typed
      */
     private async analyzeAndDecide(
         originalTask: string,
         messages: Message[],
         taskMd?: string,
-        turn?: number
-    ): Promise<{
-        nextAction: string;
-        state: AgentState;
-        isComplete: boolean;
-        newTaskMd?: string; // Newly extracted task.md from first response
-    }> {
+        turn?: number,
+        chatId?: string, // Session the usage is charged to
+        signal?: AbortSignal
+    ): Promise<AgentManagerDecision> {
         // Build conversation context
         const conversationContext = messages
             .map((m) => `[${m.role.toUpperCase()}]: ${m.content}`)
@@ -360,113 +636,41 @@ ${initialTask}`;
 
         const response = await this.client.messages.create({
             model: this.model,
-            max_tokens: 1024, // Increased to accommodate task.md output
+            max_tokens: 1024, // Room for the full task_md
             system: systemPrompt,
+            tools: [AGENT_MANAGER_DECISION_TOOL],
+            tool_choice: { type: 'tool', name: AGENT_MANAGER_DECISION_TOOL.name },
             messages: [
                 {
                     role: 'user',
-                    content: `Conversation history:\n\n${conversationContext}${taskMdSection}\n\n---\n\nAnalyze the AI's latest response and provide your decision.${isFirstResponse ? ' If TODO list is present, extract it.' : ''} Be concise.`,
+                    content: `Conversation history:\n\n${conversationContext}${taskMdSection}\n\n---\n\nAnalyze the AI's latest response and submit your decision.${isFirstResponse ? ' If TODO list is present, extract it.' : ''} Be concise.`,
                 },
             ],
-        });
-
-        const textBlock = response.content.find((block) => block.type === 'text');
-        const responseText = textBlock?.text?.trim() || '';
-        
-        // Debug: log Agent Manager's raw response
-        console.log(`[ChatManager] Agent Manager raw response (turn ${turn}): "${responseText.substring(0, 200)}${responseText.length > 200 ? '...' : ''}"`);
-        
-        // Warn if response is unexpectedly empty or minimal
-        if (!responseText || responseText.length < 5) {
-            console.warn(`[ChatManager] Warning: Agent Manager returned very short/empty response. Full response:`, response.content);
-        }
-        
-        // Extract task.md if Agent Manager provided one
-        const extractedTaskMd = extractTaskMd(responseText);
-        
-        // Debug: log task.md extraction result
-        if (extractedTaskMd) {
-            console.log(`[ChatManager] Extracted task.md (turn ${turn}):\n${extractedTaskMd}`);
-        } else {
-            // Check if response contains TODO-like patterns but wasn't extracted
-            const hasTodoPattern = responseText.includes('- [ ]') || responseText.includes('- [x]') || /\d+\.\s/.test(responseText);
-            if (hasTodoPattern) {
-                console.log(`[ChatManager] Response contains TODO pattern but no \`\`\`task.md\`\`\` block found (turn ${turn})`);
-            }
-        }
-
-        // Check for completion signal - trust Agent Manager's judgment
-        const isComplete = responseText.toLowerCase().includes('mission complete');
-
-        // Detect state from response
-        const state = this.detectState(responseText, messages);
-
-        return {
-            nextAction: responseText, // Keep full response including thinking
-            state,
-            isComplete,
-            newTaskMd: extractedTaskMd || undefined,
-        };
-    }
-
-    /**
-     * Detect the agent's state based on response analysis
-     */
-    private detectState(aiResponse: string, messages: Message[]): AgentState {
-        const lastCursorResponse = messages
-            .filter((m) => m.role === 'assistant')
-            .pop()?.content?.toLowerCase() || '';
-
-        // If AI Manager says Mission Complete
-        if (aiResponse.toLowerCase().includes('mission complete')) {
-            return 'COMPLETED';
+        }, { signal });
+        recordUsage({ sessionId: chatId, source: 'agent_manager', model: this.model, usage: response.usage });
+
+        const toolUse = response.content.find(
+            (block): block is Anthropic.ToolUseBlock =>
+                block.type === 'tool_use' && block.name === AGENT_MANAGER_DECISION_TOOL.name
+        );
+
+        if (!toolUse) {
+            // Models that ignore tool_choice: use the text as the next instruction, never as a completion signal
+            const textBlock = response.content.find((block) => block.type === 'text');
+            const text = textBlock?.type === 'text' ? textBlock.text.trim() : '';
+            console.warn(`[ChatManager] Agent Manager did not call ${AGENT_MANAGER_DECISION_TOOL.name} (turn ${turn}), using text response`);
+            return { state: 'UNKNOWN', nextMessage: text, isComplete: false, confidence: 0 };
         }
 
-        // Check for blocked signals
-        if (
-            lastCursorResponse.includes('error') ||
-            lastCursorResponse.includes('failed') ||
-            lastCursorResponse.includes('cannot') ||
-            lastCursorResponse.includes('unable') ||
-            lastCursorResponse.includes('错误')
-        ) {
-            return 'BLOCKED';
-        }
+        const decision = parseDecision(toolUse.input as Partial<AgentManagerDecisionInput>);
 
-        // Check for asking signals - Cursor is asking a question or presenting options
-        if (
-            lastCursorResponse.includes('?') ||
-            lastCursorResponse.includes('请确认') ||
-            lastCursorResponse.includes('是否') ||
-            lastCursorResponse.includes('选择') ||
-            /[①②③④⑤]|[1-5]\.|option|choose/i.test(lastCursorResponse)
-        ) {
-            return 'ASKING';
+        // Debug: log Agent Manager's decision
+        console.log(`[ChatManager] Agent Manager decision (turn ${turn}): state=${decision.state}, complete=${decision.isComplete}, confidence=${decision.confidence}, next="${decision.nextMessage.substring(0, 200)}"`);
+        if (decision.taskMd) {
+            console.log(`[ChatManager] task.md (turn ${turn}):\n${decision.taskMd}`);
         }
 
-        // Check for completion signals from Cursor
-        if (
-            lastCursorResponse.includes('已完成') ||
-            lastCursorResponse.includes('完成了') ||
-            lastCursorResponse.includes('已创建') ||
-            lastCursorResponse.includes('successfully') ||
-            (lastCursorResponse.includes('completed') && !lastCursorResponse.includes('not completed'))
-        ) {
-            return 'COMPLETED';
-        }
-
-        // Check for partial completion
-        if (
-            lastCursorResponse.includes('first') ||
-            lastCursorResponse.includes('next step') ||
-            lastCursorResponse.includes('接下来') ||
-            lastCursorResponse.includes('remaining')
-        ) {
-            return 'PARTIAL';
-        }
-
-        // Default to working
-        return 'WORKING';
+        return decision;
     }
 
     /**
@@ -476,30 +680,31 @@ ${initialTask}`;
         message: string,
         workdir: string,
         sessionId?: string,
-        onProgress?: ChatProgressCallback
-    ): Promise<CursorTaskResult> {
+        onProgress?: ChatProgressCallback,
+        backend?: AgentBackendConfig,
+        signal?: AbortSignal, // Terminates the Cursor process when aborted
+        chatId?: string // Chat the message belongs to (its project, owner permissions and audit trail)
+    ): Promise<CursorTaskResult & { changes?: WorkdirChanges; restorePoint?: RestorePoint }> {
         onProgress?.({ type: 'status_change', status: 'running' });
 
+        const snapshot = await takeSnapshot(workdir);
         const result = await executeCursorTask(message, workdir, {
             sessionId,
-            onProgress: (progress) => {
-                if (progress.type === 'thinking') {
-                    onProgress?.({ type: 'thinking', content: progress.content });
-                } else if (progress.type === 'tool_call') {
-                    onProgress?.({ type: 'tool_call', content: progress.content });
-                } else if (progress.type === 'tool_result') {
-                    onProgress?.({ type: 'tool_result', content: progress.content });
-                } else if (progress.type === 'model_info') {
-                    onProgress?.({ type: 'model_info', content: progress.content, model: progress.model });
-                }
-            },
+            chatId,
+            backend,
+            signal,
+            onProgress: (progress) => forwardCursorProgress(progress, onProgress),
         });
+        const changes = (snapshot && await diffSinceSnapshot(snapshot)) ?? undefined;
+        const restorePoint = snapshot ? createRestorePoint(snapshot, changes ?? null) : undefined;
 
         onProgress?.({
             type: 'cursor_response',
             content: result.content,
+            changes,
+            restorePoint,
         });
 
-        return result;
+        return { ...result, changes, restorePoint };
     }
 }
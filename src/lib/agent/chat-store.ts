@@ -0,0 +1,15 @@
+/**
+ * Chat Store
+ * In-memory cache for active sessions (for faster access during execution)
+ * SQLite is used for persistence
+ */
+import { ChatSession } from '../types';
+
+const globalForChatStore = globalThis as unknown as {
+    chatStore: Map<string, ChatSession> | undefined;
+};
+
+export const chatStore = globalForChatStore.chatStore ?? new Map<string, ChatSession>();
+if (process.env.NODE_ENV !== 'production') {
+    globalForChatStore.chatStore = chatStore;
+}
@@ -3,10 +3,16 @@
  * Manages subprocess communication with cursor-agent CLI
  * Supports persistent sessions and bidirectional conversation
  */
-import { spawn, ChildProcess } from 'child_process';
+import { ChildProcess, ChildProcessWithoutNullStreams } from 'child_process';
 import { EventEmitter } from 'events';
-import { CursorAgentMessage, CursorTaskResult, ChatStreamEvent, ToolCallResult } from '../types';
+import { audit, auditAgentEvent } from '../audit';
+import { AgentBackendConfig, AgentTimeouts, CursorAgentMessage, CursorTaskResult, CursorTimeoutKind, ChatStreamEvent, Project } from '../types';
 import { getSettings } from '../settings';
+import { getAgentArgs, resolveAgentProject } from '../projects';
+import { CursorStreamDecoder, CursorStreamEvent, formatToolResult } from './stream-decoder';
+import { getAgentBackend } from './backends';
+import { checkToolCall, EffectiveAgentPermissions, recordPolicyViolation, resolveAgentPermissions } from './permissions';
+import { acquireCursorSlot, CursorCallPriority, CursorSlot } from './scheduler';
 
 export interface TaskProgress {
     type: 'thinking' | 'assistant' | 'tool_call' | 'tool_result' | 'status' | 'model_info';
@@ -22,6 +28,8 @@ export interface TaskProgress {
     };
     // Model info for system init
     model?: string;
+    // Scheduler queue position while waiting for a slot
+    queuePosition?: number;
 }
 
 /**
@@ -50,6 +58,9 @@ if (process.env.NODE_ENV !== 'production') {
     globalForCursorTracker.activeCursorCalls = activeCursorCalls;
 }
 
+// How long a process gets to exit after SIGTERM before it is SIGKILLed
+const KILL_GRACE_MS = Number(process.env.AGENT_KILL_GRACE_MS) || 5000;
+
 function generateCallId(): string {
     return `call_${Date.now().toString(36)}_${Math.random().toString(36).substr(2, 6)}`;
 }
@@ -97,15 +108,112 @@ export function getActiveCursorCalls(): ActiveCursorCall[] {
 }
 
 /**
- * Kill all Cursor processes associated with a chatId
- * @returns number of processes killed
+ * Ask a process to exit with SIGTERM, then SIGKILL it if it is still alive after the grace period
+ */
+export function terminateProcess(child: ChildProcess): void {
+    if (child.exitCode !== null || child.signalCode !== null) return;
+
+    const timer = setTimeout(() => {
+        if (child.exitCode === null && child.signalCode === null) child.kill('SIGKILL');
+    }, KILL_GRACE_MS);
+    timer.unref?.();
+    child.once('exit', () => clearTimeout(timer));
+    child.kill('SIGTERM');
+}
+
+export interface TimeoutWatch {
+    touch(): void; // The process produced output
+    clear(): void; // The process exited
+    readonly timeout?: { kind: CursorTimeoutKind; error: string };
+}
+
+/**
+ * Terminate an agent process that goes quiet or runs past its time limits
+ * @param deadline - epoch ms the whole task must end by (its taskSec limit)
+ */
+export function watchTimeouts(child: ChildProcess, timeouts: AgentTimeouts, deadline?: number): TimeoutWatch {
+    let timeout: TimeoutWatch['timeout'];
+    let inactivityTimer: ReturnType<typeof setTimeout> | undefined;
+    let wallTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const stop = (kind: CursorTimeoutKind, error: string) => {
+        if (timeout) return;
+        timeout = { kind, error };
+        console.warn(`[CursorExecutor] ${error}, terminating pid=${child.pid}`);
+        terminateProcess(child);
+    };
+
+    // One wall-clock timer for whichever of the turn and task limits comes first
+    const turnMs = timeouts.turnSec ? timeouts.turnSec * 1000 : Infinity;
+    const taskMs = deadline !== undefined ? Math.max(0, deadline - Date.now()) : Infinity;
+    if (Number.isFinite(Math.min(turnMs, taskMs))) {
+        wallTimer = setTimeout(() => {
+            if (taskMs < turnMs) stop('task', "Timeout: the task's time limit was reached");
+            else stop('turn', `Timeout: the turn ran longer than ${timeouts.turnSec}s`);
+        }, Math.min(turnMs, taskMs));
+    }
+
+    const touch = () => {
+        if (!timeouts.inactivitySec || timeout) return;
+        clearTimeout(inactivityTimer);
+        inactivityTimer = setTimeout(
+            () => stop('inactivity', `Timeout: no output from the agent for ${timeouts.inactivitySec}s`),
+            timeouts.inactivitySec * 1000
+        );
+    };
+    touch();
+
+    return {
+        touch,
+        clear: () => {
+            clearTimeout(inactivityTimer);
+            clearTimeout(wallTimer);
+        },
+        get timeout() {
+            return timeout;
+        },
+    };
+}
+
+export interface PolicyWatch {
+    check(event: CursorStreamEvent): void; // Called with every decoded event
+    readonly violation?: string; // Why the process was stopped
+}
+
+/**
+ * Terminate an agent process as soon as it calls a tool its permissions don't allow,
+ * recording the violation on the chat
+ */
+export function watchPolicy(child: ChildProcess, permissions: EffectiveAgentPermissions, chatId?: string): PolicyWatch {
+    let violation: string | undefined;
+
+    return {
+        check: (event) => {
+            if (violation) return;
+            const toolName = event.type === 'tool_start' ? event.toolName : event.type === 'tool_complete' ? event.result.toolName : undefined;
+            const reason = toolName ? checkToolCall(permissions, toolName) : null;
+            if (!toolName || !reason) return;
+
+            violation = reason;
+            recordPolicyViolation(chatId, toolName, reason);
+            terminateProcess(child);
+        },
+        get violation() {
+            return violation;
+        },
+    };
+}
+
+/**
+ * Terminate all Cursor processes associated with a chatId
+ * @returns number of processes terminated
  */
 export function killCursorProcessesByChatId(chatId: string): number {
     let killed = 0;
     for (const [id, call] of activeCursorCalls.entries()) {
         if (call.chatId === chatId && call.status === 'running' && call.process) {
             try {
-                call.process.kill('SIGKILL'); // Use SIGKILL for immediate termination
+                terminateProcess(call.process);
                 call.status = 'error';
                 call.process = undefined;
                 killed++;
@@ -126,21 +234,24 @@ export class CursorAgentSession extends EventEmitter {
     private process: ChildProcess | null = null;
     private sessionId?: string;
     private modelName?: string;
-    private buffer: string = '';
     private isRunning: boolean = false;
     private responseResolve: ((result: CursorTaskResult) => void) | null = null;
-    private currentContent: string = '';
-    private currentToolCalls: string[] = [];
-    private currentToolCallResults: ToolCallResult[] = [];
+    private decoder = new CursorStreamDecoder();
     private workdir: string;
     private resumeSessionId?: string;
     private configuredModel?: string;
+    private backend?: AgentBackendConfig;
+    private slot?: CursorSlot;
+    private policy?: PolicyWatch;
+    private chatId?: string; // Chat the session belongs to (its project, permissions and audit trail)
 
-    constructor(workdir: string, resumeSessionId?: string, model?: string) {
+    constructor(workdir: string, resumeSessionId?: string, model?: string, backend?: AgentBackendConfig, chatId?: string) {
         super();
         this.workdir = workdir;
         this.resumeSessionId = resumeSessionId;
         this.configuredModel = model;
+        this.backend = backend;
+        this.chatId = chatId;
     }
 
     get cursorSessionId(): string | undefined {
@@ -157,30 +268,39 @@ export class CursorAgentSession extends EventEmitter {
 
     /**
      * Start a new cursor agent process
+     * Waits for a scheduler slot first
      */
     async start(): Promise<void> {
-        if (this.process) {
+        if (this.process || this.slot) {
             throw new Error('Session already started');
         }
 
-        // Get model from config or settings
-        const settings = getSettings();
-        const model = this.configuredModel || settings.model || 'auto';
+        // Only inside a registered project
+        const project = resolveAgentProject(this.workdir, this.chatId);
+        this.slot = await acquireCursorSlot({ task: 'Interactive session', workdir: this.workdir, chatId: this.chatId, priority: 'high' });
 
-        // Build command args - use print mode for interactive with streaming partial output
-        const args = ['-p', '--output-format=stream-json', '--stream-partial-output', '--force'];
-        if (this.resumeSessionId) {
-            args.push('--resume', this.resumeSessionId);
-        }
-        // Always add model parameter (even for 'auto' to let Cursor choose)
-        if (model) {
-            args.push('--model', model);
+        // Get model from config, the project or settings
+        const settings = getSettings();
+        const model = this.configuredModel || project?.defaultModel || settings.model || 'auto';
+        const permissions = resolveAgentPermissions(project, this.chatId);
+
+        // Use print mode for interactive with streaming partial output
+        try {
+            this.process = getAgentBackend(this.backend).spawn({
+                workdir: this.workdir,
+                resumeSessionId: this.resumeSessionId,
+                model,
+                partialOutput: true,
+                extraArgs: getAgentArgs(project),
+                force: permissions.force,
+                planOnly: permissions.planOnly,
+            });
+        } catch (error) {
+            this.slot.release();
+            this.slot = undefined;
+            throw error;
         }
-
-        this.process = spawn('agent', args, {
-            cwd: this.workdir,
-            stdio: ['pipe', 'pipe', 'pipe'],
-        });
+        this.policy = watchPolicy(this.process, permissions, this.chatId);
 
         this.isRunning = true;
         this.setupProcessHandlers();
@@ -194,12 +314,11 @@ export class CursorAgentSession extends EventEmitter {
             throw new Error('Session not started or already closed');
         }
 
-        this.currentContent = '';
-        this.currentToolCalls = [];
-        this.currentToolCallResults = [];
+        this.decoder = new CursorStreamDecoder();
 
         return new Promise((resolve) => {
             this.responseResolve = resolve;
+            audit('prompt_sent', { sessionId: this.chatId, details: { prompt: message, workdir: this.workdir } });
 
             // Send message to stdin
             this.process!.stdin?.write(message + '\n');
@@ -223,8 +342,7 @@ export class CursorAgentSession extends EventEmitter {
 
         // Process stdout
         this.process.stdout?.on('data', (chunk: Buffer) => {
-            this.buffer += chunk.toString();
-            this.processBuffer();
+            this.processEvents(this.decoder.push(chunk.toString()));
         });
 
         // Process stderr
@@ -235,15 +353,19 @@ export class CursorAgentSession extends EventEmitter {
         // Handle close
         this.process.on('close', (code) => {
             this.isRunning = false;
+            this.slot?.release();
+            this.processEvents(this.decoder.flush());
 
+            const violation = this.policy?.violation;
             const result: CursorTaskResult = {
-                success: code === 0,
-                content: this.currentContent,
+                success: code === 0 && !violation,
+                content: this.decoder.content,
                 sessionId: this.sessionId,
                 model: this.modelName,
-                toolCalls: this.currentToolCalls,
-                toolCallResults: this.currentToolCallResults,
-                error: code !== 0 ? `Agent exited with code ${code}` : undefined,
+                toolCalls: this.decoder.toolCalls,
+                toolCallResults: this.decoder.toolCallResults,
+                policyViolation: violation,
+                error: violation ? `Policy violation: ${violation}` : code !== 0 ? `Agent exited with code ${code}` : undefined,
             };
 
             if (this.responseResolve) {
@@ -257,14 +379,15 @@ export class CursorAgentSession extends EventEmitter {
         // Handle error
         this.process.on('error', (err) => {
             this.isRunning = false;
+            this.slot?.release();
 
             const result: CursorTaskResult = {
                 success: false,
-                content: this.currentContent,
+                content: this.decoder.content,
                 sessionId: this.sessionId,
                 model: this.modelName,
-                toolCalls: this.currentToolCalls,
-                toolCallResults: this.currentToolCallResults,
+                toolCalls: this.decoder.toolCalls,
+                toolCallResults: this.decoder.toolCallResults,
                 error: err.message,
             };
 
@@ -277,143 +400,61 @@ export class CursorAgentSession extends EventEmitter {
         });
     }
 
-    private processBuffer(): void {
-        const lines = this.buffer.split('\n');
-        this.buffer = lines.pop() || '';
-
-        for (const line of lines) {
-            if (!line.trim()) continue;
-
-            try {
-                const msg: CursorAgentMessage = JSON.parse(line);
-                this.handleMessage(msg);
-            } catch {
-                // Ignore non-JSON lines
-            }
+    private processEvents(events: CursorStreamEvent[]): void {
+        for (const event of events) {
+            auditAgentEvent(this.chatId, event);
+            this.policy?.check(event);
+            this.handleEvent(event);
         }
     }
 
-    private handleMessage(msg: CursorAgentMessage): void {
-        // Extract session ID
-        if (msg.session_id && !this.sessionId) {
-            this.sessionId = msg.session_id;
-            this.emit('session', this.sessionId);
-        }
-
-        switch (msg.type) {
-            case 'system':
-                // Handle system init message to get model info
-                if (msg.subtype === 'init' && msg.model) {
-                    this.modelName = msg.model;
-                    this.emit('model', { type: 'status', content: `Model: ${msg.model}` } as ChatStreamEvent);
+    private handleEvent(event: CursorStreamEvent): void {
+        switch (event.type) {
+            case 'session':
+                if (!this.sessionId) {
+                    this.sessionId = event.sessionId;
+                    this.emit('session', this.sessionId);
                 }
                 break;
 
-            case 'assistant':
-                if (msg.message?.content) {
-                    const text = msg.message.content
-                        .filter((c) => c.type === 'text' && c.text)
-                        .map((c) => c.text)
-                        .join('');
-                    this.currentContent += text;
-                    this.emit('content', { type: 'content', content: text } as ChatStreamEvent);
-                }
+            case 'model':
+                this.modelName = event.model;
+                this.emit('model', { type: 'status', content: `Model: ${event.model}` } as ChatStreamEvent);
+                break;
+
+            case 'text_delta':
+                this.emit('content', { type: 'content', content: event.text } as ChatStreamEvent);
                 break;
 
             case 'thinking':
-                if (msg.text) {
-                    this.emit('thinking', { type: 'thinking', content: msg.text } as ChatStreamEvent);
-                }
+                this.emit('thinking', { type: 'thinking', content: event.text } as ChatStreamEvent);
                 break;
 
-            case 'tool_call':
-                if (msg.subtype === 'started' && msg.tool_call?.name) {
-                    this.currentToolCalls.push(msg.tool_call.name);
-                    this.emit('tool_call', {
-                        type: 'tool_call',
-                        toolName: msg.tool_call.name,
-                    } as ChatStreamEvent);
-                } else if (msg.subtype === 'completed' && msg.tool_call) {
-                    // Handle completed tool calls with results
-                    const toolResult = this.extractToolResult(msg);
-                    if (toolResult) {
-                        this.currentToolCallResults.push(toolResult);
-                        this.emit('tool_result', {
-                            type: 'status',
-                            content: this.formatToolResult(toolResult),
-                        } as ChatStreamEvent);
-                    }
-                }
+            case 'tool_start':
+                this.emit('tool_call', {
+                    type: 'tool_call',
+                    toolName: event.toolName,
+                } as ChatStreamEvent);
+                break;
+
+            case 'tool_complete':
+                this.emit('tool_result', {
+                    type: 'status',
+                    content: formatToolResult(event.result),
+                } as ChatStreamEvent);
                 break;
 
             case 'result':
                 // Final result with duration
-                if (msg.duration_ms) {
+                if (event.durationMs) {
                     this.emit('complete', {
                         type: 'complete',
-                        content: `Completed in ${msg.duration_ms}ms`,
+                        content: `Completed in ${event.durationMs}ms`,
                     } as ChatStreamEvent);
                 }
                 break;
         }
     }
-
-    /**
-     * Extract tool result from completed tool call message
-     */
-    private extractToolResult(msg: CursorAgentMessage): ToolCallResult | null {
-        const toolCall = msg.tool_call;
-        if (!toolCall) return null;
-
-        // Handle write tool calls
-        if (toolCall.writeToolCall) {
-            const write = toolCall.writeToolCall;
-            return {
-                toolName: 'write',
-                path: write.args?.path,
-                success: !!write.result?.success,
-                linesCreated: write.result?.success?.linesCreated,
-                fileSize: write.result?.success?.fileSize,
-            };
-        }
-
-        // Handle read tool calls
-        if (toolCall.readToolCall) {
-            const read = toolCall.readToolCall;
-            return {
-                toolName: 'read',
-                path: read.args?.path,
-                success: !!read.result?.success,
-                linesRead: read.result?.success?.totalLines,
-            };
-        }
-
-        // Generic tool call
-        if (toolCall.name) {
-            return {
-                toolName: toolCall.name,
-                success: true,
-            };
-        }
-
-        return null;
-    }
-
-    /**
-     * Format tool result for display
-     */
-    private formatToolResult(result: ToolCallResult): string {
-        const status = result.success ? '✅' : '❌';
-        const path = result.path ? ` ${result.path}` : '';
-        
-        if (result.toolName === 'write' && result.linesCreated !== undefined) {
-            return `${status} Created${path} (${result.linesCreated} lines, ${result.fileSize} bytes)`;
-        }
-        if (result.toolName === 'read' && result.linesRead !== undefined) {
-            return `${status} Read${path} (${result.linesRead} lines)`;
-        }
-        return `${status} ${result.toolName}${path}`;
-    }
 }
 
 /**
@@ -428,194 +469,142 @@ export async function executeCursorTask(
         chatId?: string;
         chatTitle?: string;
         model?: string;
+        backend?: AgentBackendConfig;
+        priority?: CursorCallPriority;
+        signal?: AbortSignal; // Terminates the process (or leaves the queue) when aborted
+        timeouts?: AgentTimeouts; // Defaults to the timeouts setting
+        deadline?: number; // Epoch ms the whole task must end by
     }
 ): Promise<CursorTaskResult> {
+    const cancelledResult = (): CursorTaskResult => ({ success: false, cancelled: true, content: '', toolCalls: [], error: 'Cancelled' });
+
+    // Only inside the chat's project (its model and agent flags apply)
+    let project: Project | null;
+    try {
+        project = resolveAgentProject(workdir, options?.chatId);
+    } catch (error) {
+        return { success: false, content: '', toolCalls: [], error: error instanceof Error ? error.message : String(error) };
+    }
+
+    // Wait for the scheduler before spawning anything
+    let slot: CursorSlot;
+    try {
+        slot = await acquireCursorSlot({
+            task,
+            workdir,
+            chatId: options?.chatId,
+            chatTitle: options?.chatTitle,
+            priority: options?.priority,
+            signal: options?.signal,
+            onQueued: (position) => options?.onProgress?.({
+                type: 'status',
+                content: `⏳ Waiting for a free agent slot (queue position ${position})`,
+                queuePosition: position,
+            }),
+        });
+    } catch (error) {
+        if (options?.signal?.aborted) return cancelledResult();
+        return { success: false, content: '', toolCalls: [], error: error instanceof Error ? error.message : String(error) };
+    }
+    if (options?.signal?.aborted) {
+        slot.release();
+        return cancelledResult();
+    }
+
     // Register this call for tracking
     const callId = registerCursorCall(task, workdir, options?.chatId, options?.chatTitle);
     
-    // Get model from options or settings
+    // Get model from options, the project or settings
     const settings = getSettings();
-    const model = options?.model || settings.model || 'auto';
+    const model = options?.model || project?.defaultModel || settings.model || 'auto';
+    const permissions = resolveAgentPermissions(project, options?.chatId);
     
-    return new Promise((resolve) => {
-        // Build command args with stream-partial-output for real-time progress
-        const args = ['-p', '--output-format=stream-json', '--stream-partial-output', '--force'];
-        if (options?.sessionId) {
-            args.push('--resume', options.sessionId);
-        }
-        // Always add model parameter (even for 'auto' to let Cursor choose)
-        if (model) {
-            args.push('--model', model);
-        }
-
-        // Spawn agent process
-        const agent = spawn('agent', args, {
-            cwd: workdir,
-            stdio: ['pipe', 'pipe', 'pipe'],
+    // Spawn agent process with stream-partial-output for real-time progress
+    let agent: ChildProcessWithoutNullStreams;
+    try {
+        agent = getAgentBackend(options?.backend).spawn({
+            workdir,
+            resumeSessionId: options?.sessionId,
+            model,
+            partialOutput: true,
+            extraArgs: getAgentArgs(project),
+            force: permissions.force,
+            planOnly: permissions.planOnly,
         });
+    } catch (error) {
+        // Misconfigured backend: nothing was started, so give the slot and the call back
+        completeCursorCall(callId, false);
+        slot.release();
+        return { success: false, content: '', toolCalls: [], error: error instanceof Error ? error.message : String(error) };
+    }
 
+    return new Promise((resolve) => {
         // Save process reference for killing
         setCallProcess(callId, agent);
 
-        // State
-        let sessionId: string | undefined;
-        let modelName: string | undefined;
-        let content = '';
-        const toolCalls: string[] = [];
-        const toolCallResults: ToolCallResult[] = [];
-        let buffer = '';
-        let durationMs: number | undefined;
+        const onAbort = () => terminateProcess(agent);
+        options?.signal?.addEventListener('abort', onAbort, { once: true });
+
+        const watch = watchTimeouts(agent, options?.timeouts ?? settings.timeouts, options?.deadline);
+        const policy = watchPolicy(agent, permissions, options?.chatId);
+
+        const decoder = new CursorStreamDecoder();
 
         // Send task to stdin
+        audit('prompt_sent', { sessionId: options?.chatId, details: { prompt: task, workdir, model } });
         agent.stdin.write(task);
         agent.stdin.end();
 
-        // Helper to extract tool result
-        const extractToolResult = (msg: CursorAgentMessage): ToolCallResult | null => {
-            const toolCall = msg.tool_call;
-            if (!toolCall) return null;
-
-            if (toolCall.writeToolCall) {
-                const write = toolCall.writeToolCall;
-                return {
-                    toolName: 'write',
-                    path: write.args?.path,
-                    success: !!write.result?.success,
-                    linesCreated: write.result?.success?.linesCreated,
-                    fileSize: write.result?.success?.fileSize,
-                };
-            }
-
-            if (toolCall.readToolCall) {
-                const read = toolCall.readToolCall;
-                return {
-                    toolName: 'read',
-                    path: read.args?.path,
-                    success: !!read.result?.success,
-                    linesRead: read.result?.success?.totalLines,
-                };
-            }
-
-            if (toolCall.name) {
-                return {
-                    toolName: toolCall.name,
-                    success: true,
-                };
-            }
-
-            return null;
-        };
-
-        // Helper to format tool result
-        const formatToolResult = (result: ToolCallResult): string => {
-            const status = result.success ? '✅' : '❌';
-            const path = result.path ? ` ${result.path}` : '';
-            
-            if (result.toolName === 'write' && result.linesCreated !== undefined) {
-                return `${status} Created${path} (${result.linesCreated} lines, ${result.fileSize} bytes)`;
-            }
-            if (result.toolName === 'read' && result.linesRead !== undefined) {
-                return `${status} Read${path} (${result.linesRead} lines)`;
+        const handleEvents = (events: CursorStreamEvent[]) => {
+            for (const event of events) {
+                auditAgentEvent(options?.chatId, event);
+                policy.check(event);
+                switch (event.type) {
+                    case 'model':
+                        options?.onProgress?.({
+                            type: 'model_info',
+                            content: `🤖 Using model: ${event.model}`,
+                            model: event.model,
+                        });
+                        break;
+
+                    case 'text_delta':
+                        options?.onProgress?.({ type: 'assistant', content: event.text });
+                        break;
+
+                    case 'thinking':
+                        options?.onProgress?.({ type: 'thinking', content: event.text });
+                        break;
+
+                    case 'tool_start':
+                        options?.onProgress?.({ type: 'tool_call', content: event.toolName });
+                        break;
+
+                    case 'tool_complete':
+                        options?.onProgress?.({
+                            type: 'tool_result',
+                            content: formatToolResult(event.result),
+                            toolResult: event.result,
+                        });
+                        break;
+
+                    case 'result':
+                        // Final result with duration
+                        if (event.durationMs) {
+                            options?.onProgress?.({
+                                type: 'status',
+                                content: `⏱️ Completed in ${event.durationMs}ms`,
+                            });
+                        }
+                        break;
+                }
             }
-            return `${status} ${result.toolName}${path}`;
         };
 
         // Process stdout line by line
         agent.stdout.on('data', (chunk: Buffer) => {
-            buffer += chunk.toString();
-            const lines = buffer.split('\n');
-            buffer = lines.pop() || '';
-
-            for (const line of lines) {
-                if (!line.trim()) continue;
-
-                try {
-                    const msg: CursorAgentMessage = JSON.parse(line);
-
-                    // Extract session_id
-                    if (msg.session_id && !sessionId) {
-                        sessionId = msg.session_id;
-                    }
-
-                    // Handle different message types
-                    switch (msg.type) {
-                        case 'system':
-                            // Handle system init message to get model info
-                            if (msg.subtype === 'init' && msg.model) {
-                                modelName = msg.model;
-                                options?.onProgress?.({
-                                    type: 'model_info',
-                                    content: `🤖 Using model: ${msg.model}`,
-                                    model: msg.model,
-                                });
-                            }
-                            break;
-
-                        case 'assistant':
-                            if (msg.message?.content) {
-                                const text = msg.message.content
-                                    .filter((c) => c.type === 'text' && c.text)
-                                    .map((c) => c.text)
-                                    .join('');
-                                // Only add if this text is not already at the end of content
-                                // This handles cases where Cursor sends cumulative content
-                                if (text && !content.endsWith(text)) {
-                                    // Check if this is a cumulative update (contains existing content)
-                                    if (text.length > content.length && text.startsWith(content)) {
-                                        // This is a cumulative update - replace content
-                                        content = text;
-                                    } else if (!content.includes(text)) {
-                                        // This is new incremental content - append
-                                        content += text;
-                                    }
-                                    // else: duplicate content, skip
-                                }
-                                options?.onProgress?.({ type: 'assistant', content: text });
-                            }
-                            break;
-
-                        case 'thinking':
-                            if (msg.text) {
-                                options?.onProgress?.({ type: 'thinking', content: msg.text });
-                            }
-                            break;
-
-                        case 'tool_call':
-                            if (msg.subtype === 'started' && msg.tool_call?.name) {
-                                toolCalls.push(msg.tool_call.name);
-                                options?.onProgress?.({
-                                    type: 'tool_call',
-                                    content: msg.tool_call.name,
-                                });
-                            } else if (msg.subtype === 'completed' && msg.tool_call) {
-                                // Handle completed tool calls with results
-                                const toolResult = extractToolResult(msg);
-                                if (toolResult) {
-                                    toolCallResults.push(toolResult);
-                                    options?.onProgress?.({
-                                        type: 'tool_result',
-                                        content: formatToolResult(toolResult),
-                                        toolResult,
-                                    });
-                                }
-                            }
-                            break;
-
-                        case 'result':
-                            // Final result with duration
-                            if (msg.duration_ms) {
-                                durationMs = msg.duration_ms;
-                                options?.onProgress?.({
-                                    type: 'status',
-                                    content: `⏱️ Completed in ${msg.duration_ms}ms`,
-                                });
-                            }
-                            break;
-                    }
-                } catch {
-                    // Ignore non-JSON lines
-                }
-            }
+            watch.touch();
+            handleEvents(decoder.push(chunk.toString()));
         });
 
         // Capture stderr
@@ -626,29 +615,70 @@ export async function executeCursorTask(
 
         // Handle process exit
         agent.on('close', (code) => {
+            handleEvents(decoder.flush());
+
             // Mark call as completed
             completeCursorCall(callId, code === 0);
+            slot.release();
+            options?.signal?.removeEventListener('abort', onAbort);
+            watch.clear();
 
-            if (code === 0) {
+            if (options?.signal?.aborted) {
+                resolve({
+                    success: false,
+                    cancelled: true,
+                    content: decoder.content,
+                    sessionId: decoder.sessionId,
+                    model: decoder.model,
+                    toolCalls: decoder.toolCalls,
+                    toolCallResults: decoder.toolCallResults,
+                    error: 'Cancelled',
+                    durationMs: decoder.durationMs,
+                });
+            } else if (policy.violation) {
+                resolve({
+                    success: false,
+                    policyViolation: policy.violation,
+                    content: decoder.content,
+                    sessionId: decoder.sessionId,
+                    model: decoder.model,
+                    toolCalls: decoder.toolCalls,
+                    toolCallResults: decoder.toolCallResults,
+                    error: `Policy violation: ${policy.violation}`,
+                    durationMs: decoder.durationMs,
+                });
+            } else if (watch.timeout) {
+                resolve({
+                    success: false,
+                    timeout: watch.timeout.kind,
+                    content: decoder.content,
+                    sessionId: decoder.sessionId,
+                    model: decoder.model,
+                    toolCalls: decoder.toolCalls,
+                    toolCallResults: decoder.toolCallResults,
+                    error: watch.timeout.error,
+                    durationMs: decoder.durationMs,
+                });
+            } else if (code === 0) {
                 resolve({
                     success: true,
-                    content,
-                    sessionId,
-                    model: modelName,
-                    toolCalls,
-                    toolCallResults,
-                    durationMs,
+                    content: decoder.content,
+                    sessionId: decoder.sessionId,
+                    model: decoder.model,
+                    toolCalls: decoder.toolCalls,
+                    toolCallResults: decoder.toolCallResults,
+                    durationMs: decoder.durationMs,
                 });
             } else {
                 resolve({
                     success: false,
-                    content,
-                    sessionId,
-                    model: modelName,
-                    toolCalls,
-                    toolCallResults,
+                    content: decoder.content,
+                    sessionId: decoder.sessionId,
+                    model: decoder.model,
+                    toolCalls: decoder.toolCalls,
+                    toolCallResults: decoder.toolCallResults,
                     error: stderr || `Agent exited with code ${code}`,
-                    durationMs,
+                    durationMs: decoder.durationMs,
                 });
             }
         });
@@ -656,14 +686,17 @@ export async function executeCursorTask(
         agent.on('error', (err) => {
             // Mark call as error
             completeCursorCall(callId, false);
-            
+            slot.release();
+            options?.signal?.removeEventListener('abort', onAbort);
+            watch.clear();
+
             resolve({
                 success: false,
-                content,
-                sessionId,
-                model: modelName,
-                toolCalls,
-                toolCallResults,
+                content: decoder.content,
+                sessionId: decoder.sessionId,
+                model: decoder.model,
+                toolCalls: decoder.toolCalls,
+                toolCallResults: decoder.toolCallResults,
                 error: err.message,
             });
         });
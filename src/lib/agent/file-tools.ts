@@ -0,0 +1,363 @@
+/**
+ * Orchestrator File Tools
+ * Read-only file access for the orchestrator, confined to the session workdir and the
+ * configured extra roots. Paths are resolved through symlinks before the check, reads are
+ * size- and line-limited, binary files are refused and recursive listings follow .gitignore.
+ */
+import { existsSync, readdirSync, readFileSync, realpathSync, statSync, Dirent } from 'fs';
+import { basename, isAbsolute, join, relative, resolve, sep } from 'path';
+import { getRepoRoot, git } from '../git/worktree';
+
+const MAX_FILE_BYTES = 2 * 1024 * 1024; // Larger files are refused by read_file
+const MAX_READ_LINES = 500; // Per read_file call without an explicit range
+const MAX_READ_CHARS = 60_000;
+const MAX_SEARCH_FILE_BYTES = 1024 * 1024; // Larger files are skipped by search_files
+const MAX_SEARCH_FILES = 5000;
+const MAX_SEARCH_RESULTS = 200;
+const MAX_MATCH_CHARS = 200;
+const MAX_LIST_ENTRIES = 1000;
+const MAX_TREE_LINES = 400;
+const BINARY_SNIFF_BYTES = 8000;
+
+// Skipped by recursive listings outside a git repo (inside one, .gitignore decides)
+const IGNORED_DIRS = new Set(['.git', 'node_modules', '.next', 'dist', 'build', 'coverage', '.data', '__pycache__', '.venv']);
+
+export class FileAccessError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'FileAccessError';
+    }
+}
+
+export interface FileSandbox {
+    workdir: string; // Real path; relative paths are resolved against it
+    roots: string[]; // Real paths the tools may read under (workdir first)
+}
+
+export interface ListedFile {
+    name: string;
+    type: 'file' | 'directory' | 'symlink';
+    size: number;
+}
+
+export interface SearchMatch {
+    path: string;
+    line: number;
+    text: string;
+}
+
+export interface SearchFilesOptions {
+    path?: string;
+    glob?: string;
+    caseInsensitive?: boolean;
+    maxResults?: number;
+}
+
+/**
+ * Sandbox for a session's workdir plus extra allowlisted roots (missing roots are ignored)
+ */
+export function createFileSandbox(workdir: string, extraRoots: string[] = []): FileSandbox {
+    const roots: string[] = [];
+    for (const root of [workdir, ...extraRoots.map((extra) => extra.trim()).filter(Boolean)]) {
+        try {
+            const real = realpathSync(resolve(root));
+            if (!roots.includes(real)) roots.push(real);
+        } catch {
+            console.warn(`[FileTools] Ignoring missing file root: ${root}`);
+        }
+    }
+    if (roots.length === 0) {
+        throw new FileAccessError(`Working directory does not exist: ${workdir}`);
+    }
+    return { workdir: roots[0], roots };
+}
+
+function isInside(root: string, path: string): boolean {
+    return path === root || path.startsWith(root.endsWith(sep) ? root : root + sep);
+}
+
+/**
+ * Resolve a tool-supplied path (relative to the workdir) to a real path inside the sandbox
+ * Symlinks are followed first, so a link pointing outside the roots is refused.
+ */
+export function resolveSandboxPath(sandbox: FileSandbox, path: string | undefined): string {
+    const requested = path?.trim() || '.';
+    const absolute = isAbsolute(requested) ? resolve(requested) : resolve(sandbox.workdir, requested);
+    if (!existsSync(absolute)) {
+        throw new FileAccessError(`No such file or directory: ${requested}`);
+    }
+    const real = realpathSync(absolute);
+    if (!sandbox.roots.some((root) => isInside(root, real))) {
+        throw new FileAccessError(`${requested} is outside the allowed directories (${sandbox.roots.join(', ')})`);
+    }
+    return real;
+}
+
+// Workdir-relative for paths inside the workdir, absolute otherwise
+function displayPath(sandbox: FileSandbox, realPath: string): string {
+    return isInside(sandbox.workdir, realPath) ? relative(sandbox.workdir, realPath) || '.' : realPath;
+}
+
+function isBinary(buffer: Buffer): boolean {
+    return buffer.subarray(0, BINARY_SNIFF_BYTES).includes(0);
+}
+
+/**
+ * Files under a directory, relative to it, honouring .gitignore when it's inside a git repo
+ * @returns at most `limit` paths, sorted
+ */
+async function listProjectFiles(dir: string, limit: number): Promise<{ files: string[]; truncated: boolean }> {
+    let files: string[] | undefined;
+    if (await getRepoRoot(dir)) {
+        try {
+            // Tracked + untracked-but-not-ignored; paths come back relative to dir
+            const output = await git(dir, ['ls-files', '--cached', '--others', '--exclude-standard', '-z']);
+            files = [...new Set(output.split('\0').filter(Boolean))]
+                .filter((file) => existsSync(join(dir, file))) // Deleted but still in the index
+                .sort();
+        } catch (error) {
+            console.warn('[FileTools] git ls-files failed, walking the directory instead:', error);
+        }
+    }
+
+    if (!files) {
+        files = [];
+        const walk = (current: string) => {
+            let entries: Dirent[];
+            try {
+                entries = readdirSync(join(dir, current), { withFileTypes: true });
+            } catch {
+                return; // Unreadable directory
+            }
+            entries.sort((a, b) => a.name.localeCompare(b.name));
+            for (const entry of entries) {
+                if (files!.length > limit) return;
+                const path = current ? `${current}/${entry.name}` : entry.name;
+                // Symlinked directories are not followed (isDirectory is false for links)
+                if (entry.isDirectory()) {
+                    if (!IGNORED_DIRS.has(entry.name)) walk(path);
+                } else {
+                    files!.push(path);
+                }
+            }
+        };
+        walk('');
+    }
+
+    return { files: files.slice(0, limit), truncated: files.length > limit };
+}
+
+/**
+ * List a directory, or every file under it (recursive, .gitignore-aware)
+ */
+export async function listFiles(
+    sandbox: FileSandbox,
+    path: string | undefined,
+    recursive = false
+): Promise<{ path: string; entries?: ListedFile[]; files?: string[]; truncated: boolean }> {
+    const dir = resolveSandboxPath(sandbox, path);
+    if (!statSync(dir).isDirectory()) {
+        throw new FileAccessError(`Not a directory: ${path}`);
+    }
+
+    if (recursive) {
+        const { files, truncated } = await listProjectFiles(dir, MAX_LIST_ENTRIES);
+        return { path: displayPath(sandbox, dir), files, truncated };
+    }
+
+    const dirents = readdirSync(dir, { withFileTypes: true }).sort((a, b) => a.name.localeCompare(b.name));
+    const entries = dirents.slice(0, MAX_LIST_ENTRIES).map((entry): ListedFile => {
+        if (entry.isSymbolicLink()) return { name: entry.name, type: 'symlink', size: 0 };
+        let size = 0;
+        try {
+            size = entry.isDirectory() ? 0 : statSync(join(dir, entry.name)).size;
+        } catch {
+            // Vanished or unreadable
+        }
+        return { name: entry.name, type: entry.isDirectory() ? 'directory' : 'file', size };
+    });
+    return { path: displayPath(sandbox, dir), entries, truncated: dirents.length > MAX_LIST_ENTRIES };
+}
+
+/**
+ * Read a text file, or a 1-based inclusive line range of it
+ * Without a range, the first MAX_READ_LINES lines are returned with a note on how to continue.
+ */
+export function readFile(sandbox: FileSandbox, path: string, startLine?: number, endLine?: number): string {
+    const file = resolveSandboxPath(sandbox, path);
+    const stat = statSync(file);
+    if (stat.isDirectory()) {
+        throw new FileAccessError(`${path} is a directory; use list_files or file_tree`);
+    }
+    if (stat.size > MAX_FILE_BYTES) {
+        throw new FileAccessError(
+            `${path} is too large (${(stat.size / 1024 / 1024).toFixed(1)} MB); use search_files to find the relevant lines`
+        );
+    }
+
+    const buffer = readFileSync(file);
+    if (isBinary(buffer)) {
+        throw new FileAccessError(`${path} is a binary file`);
+    }
+
+    const text = buffer.toString('utf-8');
+    const lines = (text.endsWith('\n') ? text.slice(0, -1) : text).split('\n');
+    const total = lines.length;
+    const start = Math.min(Math.max(Math.floor(Number(startLine)) || 1, 1), total);
+    let end = Math.min(Math.max(Math.floor(Number(endLine)) || start + MAX_READ_LINES - 1, start), total);
+
+    let content = lines.slice(start - 1, end).join('\n');
+    if (content.length > MAX_READ_CHARS) {
+        // Cut at a line boundary so the next range starts cleanly
+        const cut = content.lastIndexOf('\n', MAX_READ_CHARS);
+        content = cut > 0 ? content.substring(0, cut) : content.substring(0, MAX_READ_CHARS);
+        end = start + content.split('\n').length - 1;
+    }
+
+    const header = start === 1 && end === total
+        ? `${displayPath(sandbox, file)} (${total} lines)`
+        : `${displayPath(sandbox, file)} (lines ${start}-${end} of ${total})`;
+    const more = end < total ? `\n[${total - end} more lines; read again with start_line=${end + 1}]` : '';
+    return `${header}\n${content}${more}`;
+}
+
+// Glob to RegExp: ** crosses directories, * and ? don't
+function globToRegExp(glob: string): RegExp {
+    let pattern = '';
+    for (let i = 0; i < glob.length; i++) {
+        const char = glob[i];
+        if (char === '*' && glob[i + 1] === '*') {
+            pattern += glob[i + 2] === '/' ? '(?:.*/)?' : '.*';
+            i += glob[i + 2] === '/' ? 2 : 1;
+        } else if (char === '*') {
+            pattern += '[^/]*';
+        } else if (char === '?') {
+            pattern += '[^/]';
+        } else {
+            pattern += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+        }
+    }
+    return new RegExp(`^${pattern}$`);
+}
+
+/**
+ * Regex search over the text files under a directory (.gitignore-aware)
+ * `glob` filters files by relative path, or by name when it has no slash.
+ */
+export async function searchFiles(
+    sandbox: FileSandbox,
+    pattern: string,
+    options: SearchFilesOptions = {}
+): Promise<{ matches: SearchMatch[]; filesSearched: number; truncated: boolean }> {
+    let regex: RegExp;
+    try {
+        regex = new RegExp(pattern, options.caseInsensitive ? 'i' : '');
+    } catch (error) {
+        throw new FileAccessError(`Invalid regex: ${(error as Error).message}`);
+    }
+    const maxResults = Math.min(Math.max(Math.floor(Number(options.maxResults)) || 50, 1), MAX_SEARCH_RESULTS);
+    const globRegex = options.glob ? globToRegExp(options.glob) : undefined;
+
+    const target = resolveSandboxPath(sandbox, options.path);
+    let dir = target;
+    let candidates: string[];
+    if (statSync(target).isDirectory()) {
+        candidates = (await listProjectFiles(target, MAX_SEARCH_FILES)).files;
+    } else {
+        dir = resolve(target, '..');
+        candidates = [basename(target)];
+    }
+
+    const matches: SearchMatch[] = [];
+    let filesSearched = 0;
+    for (const candidate of candidates) {
+        if (globRegex && !globRegex.test(options.glob!.includes('/') ? candidate : basename(candidate))) continue;
+
+        let file: string;
+        try {
+            file = resolveSandboxPath(sandbox, join(dir, candidate)); // Skips links out of the sandbox
+            const stat = statSync(file);
+            if (!stat.isFile() || stat.size > MAX_SEARCH_FILE_BYTES) continue;
+        } catch {
+            continue;
+        }
+        const buffer = readFileSync(file);
+        if (isBinary(buffer)) continue;
+
+        filesSearched++;
+        const lines = buffer.toString('utf-8').split('\n');
+        for (let i = 0; i < lines.length; i++) {
+            if (!regex.test(lines[i])) continue;
+            if (matches.length === maxResults) {
+                return { matches, filesSearched, truncated: true };
+            }
+            const text = lines[i].trim();
+            matches.push({
+                path: displayPath(sandbox, file),
+                line: i + 1,
+                text: text.length > MAX_MATCH_CHARS ? `${text.substring(0, MAX_MATCH_CHARS)}...` : text,
+            });
+        }
+    }
+    return { matches, filesSearched, truncated: false };
+}
+
+function formatFileCount(count: number): string {
+    return `${count} file${count === 1 ? '' : 's'}`;
+}
+
+interface TreeNode {
+    children: Map<string, TreeNode>;
+    fileCount: number; // Files anywhere below
+}
+
+/**
+ * Indented tree of the files under a directory (.gitignore-aware)
+ * Directories deeper than maxDepth are collapsed into a file count.
+ */
+export async function fileTree(sandbox: FileSandbox, path: string | undefined, maxDepth = 3): Promise<string> {
+    const dir = resolveSandboxPath(sandbox, path);
+    if (!statSync(dir).isDirectory()) {
+        throw new FileAccessError(`Not a directory: ${path}`);
+    }
+    const depthLimit = Math.min(Math.max(Math.floor(Number(maxDepth)) || 3, 1), 10);
+    const { files, truncated } = await listProjectFiles(dir, MAX_SEARCH_FILES);
+
+    const root: TreeNode = { children: new Map(), fileCount: 0 };
+    for (const file of files) {
+        let node = root;
+        node.fileCount++;
+        for (const part of file.split('/')) {
+            let child = node.children.get(part);
+            if (!child) {
+                child = { children: new Map(), fileCount: 0 };
+                node.children.set(part, child);
+            }
+            child.fileCount++;
+            node = child;
+        }
+    }
+
+    const lines = [`${displayPath(sandbox, dir)}/ (${formatFileCount(files.length)}${truncated ? ', truncated' : ''})`];
+    const render = (node: TreeNode, depth: number) => {
+        // Directories first, then files, each alphabetical
+        const entries = [...node.children.entries()].sort(([a, x], [b, y]) =>
+            (y.children.size > 0 ? 1 : 0) - (x.children.size > 0 ? 1 : 0) || a.localeCompare(b)
+        );
+        for (const [name, child] of entries) {
+            if (lines.length >= MAX_TREE_LINES) return;
+            const indent = '  '.repeat(depth);
+            if (child.children.size === 0) {
+                lines.push(`${indent}${name}`);
+            } else if (depth + 1 >= depthLimit) {
+                lines.push(`${indent}${name}/ (${formatFileCount(child.fileCount)})`);
+            } else {
+                lines.push(`${indent}${name}/`);
+                render(child, depth + 1);
+            }
+        }
+    };
+    render(root, 0);
+    if (lines.length >= MAX_TREE_LINES) lines.push('... (tree truncated; list a subdirectory for more)');
+    return lines.join('\n');
+}
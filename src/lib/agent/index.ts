@@ -3,7 +3,10 @@
  */
 
 // Core executors
-export { executeCursorTask, CursorTaskRunner, CursorAgentSession } from './cursor-executor';
+export { executeCursorTask, CursorTaskRunner, CursorAgentSession, terminateProcess, watchTimeouts } from './cursor-executor';
+export { CursorCliBackend, CommandBackend, FakeAgentBackend, getAgentBackend } from './backends';
+export { createAnthropicClient } from './anthropic-client';
+export { CursorStreamDecoder, extractToolResult, formatToolResult } from './stream-decoder';
 
 // Chat management
 export { ChatManager } from './chat-manager';
@@ -11,13 +14,66 @@ export { ChatManager } from './chat-manager';
 // Orchestrator
 export { OrchestratorAgent, chatStore } from './orchestrator';
 
+// Orchestrator history
+export { compactHistory, closeDanglingToolUses, estimateHistoryTokens } from './orchestrator-history';
+export {
+    createFileSandbox,
+    resolveSandboxPath,
+    listFiles,
+    readFile,
+    searchFiles,
+    fileTree,
+    FileAccessError,
+} from './file-tools';
+
+// Scheduling
+export { acquireCursorSlot, cancelQueuedCursorCalls, getQueuedCursorCalls, getQueuePosition, CursorCallCancelledError } from './scheduler';
+
+// Change tracking
+export { recordTurn, rollbackToCheckpoint } from './turn-diffs';
+
+// Approval gates
+export { needsApproval, waitForApproval, resolveApproval, cancelApproval, isAwaitingApproval, setApprovalNotifier, APPROVAL_POLICIES } from './approvals';
+
+// Cancellation
+export { acquireAbortSignal, abortChat, isAbortError } from './abort-controller';
+
+// Pause & resume
+export { requestPause, isPauseRequested, waitForResume, resumeSession, cancelPause, isPaused } from './pause';
+
+// Retries
+export { classifyCursorFailure, classifyApiError, retryDelay, withApiRetry } from './retry';
+
+// Usage & budgets
+export { recordUsage, checkBudget, getSessionBudget, getModelPrice, estimateCost, DEFAULT_MODEL_PRICES } from './usage';
+
+// Background jobs
+export { enqueueConversationJob, recoverJobs, isSessionJobActive, getSessionJobResult, resumeConversation, cancelPausedJobs, setJobCompletionNotifier } from './job-queue';
+
+// Task plans
+export { submitPlan, cancelPlan, recoverPlans, validatePlan } from './task-graph';
+export { createSubtaskChat, generateTaskMd, summarizeSubtask, getSubtaskReport } from './subtasks';
+
 // Tools
-export { TOOLS, LEGACY_TOOLS } from './tools';
+export { TOOLS, LEGACY_TOOLS, AGENT_MANAGER_DECISION_TOOL } from './tools';
 
 // Types
-export type { TaskProgress, CursorAgentMessage } from './cursor-executor';
-export type { ChatProgressEvent, ChatProgressCallback, ChatManagerConfig, AgentState } from './chat-manager';
-export type { OrchestratorResult, OrchestratorConfig, ProgressCallback } from './orchestrator';
+export type { TaskProgress, CursorAgentMessage, TimeoutWatch } from './cursor-executor';
+export type { CursorStreamEvent } from './stream-decoder';
+export type { AgentBackend, AgentSpawnOptions } from './backends';
+export type { AnthropicClientConfig } from './anthropic-client';
+export type { ChatProgressEvent, ChatProgressCallback, ChatManagerConfig, RunConversationOptions, ConversationCheckpoint, AgentState, AgentManagerDecision } from './chat-manager';
+export type { CursorCallPriority, CursorSlot, CursorSlotRequest, QueuedCursorCall } from './scheduler';
+export type { TurnRecord, RollbackResult } from './turn-diffs';
+export type { ApprovalNotifier } from './approvals';
+export type { AbortHandle } from './abort-controller';
+export type { RetryClassification, RetryAttempt } from './retry';
+export type { ConversationJobInput, ConversationJobResult, ConversationJobListener, JobCompletionNotifier } from './job-queue';
+export type { PlanTaskInput, TaskPlanInput, PlanListener } from './task-graph';
+export type { SubtaskChatInput, SubtaskChat } from './subtasks';
+export type { OrchestratorResult, OrchestratorConfig, OrchestratorRunOptions, ProgressCallback } from './orchestrator';
+export type { CompactedHistory, CompactHistoryOptions } from './orchestrator-history';
+export type { FileSandbox, ListedFile, SearchMatch, SearchFilesOptions } from './file-tools';
 export type {
     CreateChatInput,
     CheckChatStatusInput,
@@ -25,5 +81,8 @@ export type {
     DispatchTaskInput,
     ListFilesInput,
     ReadFileInput,
+    AgentManagerDecisionInput,
+    SubmitPlanInput,
+    WaitForChatsInput,
     ToolName,
 } from './tools';
@@ -0,0 +1,381 @@
+/**
+ * Conversation Job Queue
+ * Sub-task conversation loops are persisted as jobs in SQLite so they survive server restarts.
+ * Every Agent Manager decision checkpoints the job; on startup, interrupted jobs resume from
+ * their last completed turn using `--resume` on the saved Cursor session. Paused jobs wait
+ * for a resume instead of being recovered.
+ */
+import { ChatManager, ChatProgressEvent } from './chat-manager';
+import { chatStore } from './chat-store';
+import { recordTurn } from './turn-diffs';
+import { waitForApproval } from './approvals';
+import { acquireAbortSignal } from './abort-controller';
+import { cancelPause, isPaused, isPauseRequested, recordResume, resumeSession, waitForResume } from './pause';
+import { AgentBackendConfig, ChatSession, ConversationJob, Message, ResumeRequest } from '../types';
+import * as db from '../db';
+import { getSettings } from '../settings';
+import { generateId } from '../utils/id';
+
+// Give up on a job that keeps dying mid-run (e.g. it crashes the server)
+const MAX_JOB_ATTEMPTS = 3;
+
+// Loop events shown in the chat as a system line (their content)
+const SYSTEM_NOTICE_EVENTS: ChatProgressEvent['type'][] = ['approval_required', 'budget_exceeded', 'paused', 'timeout', 'retry'];
+
+export interface ConversationJobInput {
+    sessionId: string;
+    task: string;
+    workdir: string;
+    taskMd?: string;
+    backend?: AgentBackendConfig;
+}
+
+export interface ConversationJobResult {
+    success: boolean;
+    turns: number;
+    error?: string;
+    rejected?: boolean; // Stopped by a human rejecting a decision
+    budgetExceeded?: boolean; // Stopped because the session's budget ran out
+    cancelled?: boolean; // Stopped through the chat's abort signal
+    timedOut?: boolean; // Stopped by the task's time limit or repeated turn timeouts
+}
+
+// Live observers of a job (e.g. the orchestrator stream that dispatched it)
+export interface ConversationJobListener {
+    onEvent?: (event: ChatProgressEvent) => void;
+    onComplete?: (result: ConversationJobResult) => void;
+}
+
+// Told about every job that ends, including recovered ones (e.g. the task graph scheduler)
+export type JobCompletionNotifier = (job: ConversationJob, result: ConversationJobResult) => void;
+
+const globalForJobs = globalThis as unknown as {
+    runningJobs: Map<string, Promise<ConversationJobResult>> | undefined;
+    jobsRecovered: boolean | undefined;
+    jobCompletionNotifier: JobCompletionNotifier | undefined;
+};
+
+const runningJobs = globalForJobs.runningJobs ?? new Map<string, Promise<ConversationJobResult>>();
+globalForJobs.runningJobs = runningJobs;
+
+let defaultChatManager: ChatManager | undefined;
+
+export function setJobCompletionNotifier(notifier: JobCompletionNotifier | undefined): void {
+    globalForJobs.jobCompletionNotifier = notifier;
+}
+
+function notifyJobFinished(job: ConversationJob, result: ConversationJobResult): void {
+    try {
+        globalForJobs.jobCompletionNotifier?.(job, result);
+    } catch (error) {
+        console.error(`[JobQueue] Completion notifier failed for job ${job.id}:`, error);
+    }
+}
+
+/**
+ * Persist a new conversation job and start it
+ */
+export function enqueueConversationJob(
+    input: ConversationJobInput,
+    listener?: ConversationJobListener,
+    chatManager?: ChatManager
+): Promise<ConversationJobResult> {
+    const now = new Date();
+    const job: ConversationJob = {
+        id: generateId(),
+        sessionId: input.sessionId,
+        status: 'queued',
+        task: input.task,
+        workdir: input.workdir,
+        taskMd: input.taskMd,
+        backend: input.backend,
+        currentTurn: 0,
+        attempts: 0,
+        createdAt: now,
+        updatedAt: now,
+    };
+    db.createJob(job);
+    console.log(`[JobQueue] Enqueued job ${job.id} for session ${job.sessionId}`);
+
+    return startJob(job, listener, chatManager);
+}
+
+/**
+ * Whether a job for this session is running (or paused) in this process
+ */
+export function isSessionJobActive(sessionId: string): boolean {
+    return getSessionJobResult(sessionId) !== undefined;
+}
+
+/**
+ * The result of the session's job running (or paused) in this process
+ * @returns undefined if no job is active for the session
+ */
+export function getSessionJobResult(sessionId: string): Promise<ConversationJobResult> | undefined {
+    for (const job of db.getJobsByStatus(['queued', 'running', 'paused'])) {
+        const promise = job.sessionId === sessionId ? runningJobs.get(job.id) : undefined;
+        if (promise) return promise;
+    }
+    return undefined;
+}
+
+/**
+ * Resume a paused conversation, optionally replacing the Agent Manager's next message
+ * A loop paused in this process continues where it is; a job left paused by a restart is
+ * started again from its checkpoint.
+ * @returns the resume, as recorded in the chat
+ * @throws if nothing is paused in the session
+ */
+export function resumeConversation(sessionId: string, request: ResumeRequest): Message {
+    if (isPaused(sessionId)) {
+        return resumeSession(sessionId, request);
+    }
+
+    const job = db.getJobsByStatus(['paused']).find((j) => j.sessionId === sessionId);
+    if (!job) {
+        throw new Error('Chat is not paused');
+    }
+
+    const instruction = request.message?.trim();
+    if (instruction) {
+        db.updateJob({ id: job.id, lastManagerMessage: instruction });
+    }
+    const message = recordResume(sessionId, request);
+    console.log(`[JobQueue] Restarting paused job ${job.id} (session ${sessionId})`);
+    void startJob({ ...job, lastManagerMessage: instruction || job.lastManagerMessage });
+    return message;
+}
+
+/**
+ * Cancel jobs left paused by a restart (nothing in this process is waiting on them)
+ * @returns number of jobs cancelled
+ */
+export function cancelPausedJobs(sessionId: string): number {
+    const paused = db.getJobsByStatus(['paused']).filter((j) => j.sessionId === sessionId && !runningJobs.has(j.id));
+    for (const job of paused) {
+        db.updateJob({ id: job.id, status: 'cancelled', error: 'Cancelled' });
+        notifyJobFinished(job, { success: false, turns: job.currentTurn, cancelled: true, error: 'Cancelled' });
+    }
+    return paused.length;
+}
+
+function startJob(
+    job: ConversationJob,
+    listener?: ConversationJobListener,
+    chatManager?: ChatManager
+): Promise<ConversationJobResult> {
+    const existing = runningJobs.get(job.id);
+    if (existing) return existing;
+
+    const promise = runJob(job, listener, chatManager ?? (defaultChatManager ??= new ChatManager()))
+        .finally(() => runningJobs.delete(job.id))
+        .then((result) => {
+            notifyJobFinished(job, result);
+            return result;
+        });
+    runningJobs.set(job.id, promise);
+    return promise;
+}
+
+/**
+ * Store a conversation event on the session (memory cache + SQLite)
+ */
+function recordEvent(session: ChatSession, event: ChatProgressEvent): void {
+    if (event.status) {
+        session.status = event.status;
+        db.updateSession({ id: session.id, status: event.status });
+    }
+
+    if (event.type === 'task_md_update' && event.taskMd) {
+        session.taskMd = event.taskMd;
+        db.updateSession({ id: session.id, taskMd: event.taskMd });
+    }
+
+    let msg: Message | undefined;
+    if (event.type === 'cursor_response' && event.content) {
+        msg = { id: generateId(), role: 'assistant', content: event.content, timestamp: new Date(), metadata: { source: 'cursor' } };
+        recordTurn(session.id, msg, { changes: event.changes, restorePoint: event.restorePoint, turn: event.turn });
+    } else if (event.type === 'thinking' && event.content) {
+        // Agent Manager's thinking - use 'system' role with thinking source
+        msg = { id: generateId(), role: 'system', content: event.content, timestamp: new Date(), metadata: { source: 'thinking' } };
+    } else if (event.type === 'ai_followup' && event.content) {
+        // Agent Manager's response - use 'system' role for UI display
+        msg = { id: generateId(), role: 'system', content: event.content, timestamp: new Date(), metadata: { source: 'agent_manager' } };
+    } else if (SYSTEM_NOTICE_EVENTS.includes(event.type) && event.content) {
+        msg = { id: generateId(), role: 'system', content: event.content, timestamp: new Date(), metadata: { source: 'system' } };
+    }
+    if (msg) {
+        session.messages.push(msg);
+        db.addMessage(session.id, msg);
+    }
+}
+
+async function runJob(
+    job: ConversationJob,
+    listener: ConversationJobListener | undefined,
+    chatManager: ChatManager
+): Promise<ConversationJobResult> {
+    const session = chatStore.get(job.sessionId) || db.getSessionMeta(job.sessionId);
+    if (!session) {
+        db.updateJob({ id: job.id, status: 'failed', error: 'Session not found' });
+        const result = { success: false, turns: job.currentTurn, error: 'Session not found' };
+        listener?.onComplete?.(result);
+        return result;
+    }
+
+    // A decision left waiting for approval is asked again; waiting on a human (or a resumed pause) doesn't count as a crash
+    const pendingApproval = db.getSessionMeta(job.sessionId)?.pendingApproval;
+    const attempts = pendingApproval || job.status === 'paused' ? job.attempts : job.attempts + 1;
+    db.updateJob({ id: job.id, status: 'running', attempts });
+
+    // Resume after the last completed turn when a checkpoint exists
+    const resuming = job.currentTurn > 0 && ((!!job.lastManagerMessage && !!job.cursorSessionId) || !!pendingApproval);
+    if (resuming) {
+        console.log(`[JobQueue] Resuming job ${job.id} at turn ${job.currentTurn} (attempt ${attempts})`);
+    }
+
+    // Aborting the chat (stop button, orchestrator cancel) stops the loop and its Cursor process
+    const abort = acquireAbortSignal(job.sessionId);
+    try {
+        const result = await chatManager.runConversation(
+            job.task,
+            job.workdir,
+            (event) => {
+                recordEvent(session, event);
+                listener?.onEvent?.(event);
+            },
+            resuming ? job.cursorSessionId : undefined,
+            job.taskMd || session.taskMd,
+            {
+                backend: job.backend ?? session.backend,
+                chatId: job.sessionId,
+                chatTitle: session.title,
+                signal: abort.signal,
+                resumeFrom: resuming
+                    ? {
+                        turn: job.currentTurn,
+                        message: job.lastManagerMessage || '',
+                        history: db.getMessages(job.sessionId).filter(
+                            (m) => m.metadata?.source === 'cursor' || m.metadata?.source === 'agent_manager'
+                        ),
+                        pendingApproval,
+                    }
+                    : undefined,
+                getApprovalPolicy: () => db.getSessionMeta(job.sessionId)?.approvalPolicy ?? getSettings().approvalPolicy,
+                requestApproval: (approval) => waitForApproval(job.sessionId, approval),
+                isPauseRequested: () => isPauseRequested(job.sessionId),
+                waitForResume: async (turn) => {
+                    db.updateJob({ id: job.id, status: 'paused' });
+                    const request = await waitForResume(job.sessionId, turn);
+                    db.updateJob({ id: job.id, status: 'running' });
+                    return request;
+                },
+                onCheckpoint: (checkpoint) => {
+                    db.updateJob({
+                        id: job.id,
+                        currentTurn: checkpoint.turn,
+                        cursorSessionId: checkpoint.cursorSessionId,
+                        lastManagerMessage: checkpoint.nextMessage,
+                        taskMd: checkpoint.taskMd || undefined,
+                    });
+                    db.updateSession({
+                        id: job.sessionId,
+                        cursorSessionId: checkpoint.cursorSessionId,
+                        taskMd: checkpoint.taskMd || undefined,
+                    });
+                },
+            }
+        );
+
+        // A rejected decision or a spent budget leaves the chat idle so the user can take over
+        session.status = result.success ? 'completed'
+            : result.cancelled ? 'cancelled'
+            : result.rejected || result.budgetExceeded ? 'idle'
+            : 'error';
+        session.cursorSessionId = result.cursorSessionId;
+        if (result.finalTaskMd) {
+            session.taskMd = result.finalTaskMd;
+        }
+        db.updateSession({
+            id: job.sessionId,
+            status: session.status,
+            cursorSessionId: result.cursorSessionId,
+            taskMd: session.taskMd,
+        });
+        db.updateJob({
+            id: job.id,
+            status: result.success || result.rejected ? 'done' : result.cancelled ? 'cancelled' : 'failed',
+            currentTurn: result.turns,
+            error: result.budgetExceeded ? 'Budget exceeded' : result.error,
+        });
+
+        console.log(`[JobQueue] Job ${job.id} finished: success=${result.success}, turns=${result.turns}${result.rejected ? ', rejected' : ''}${result.budgetExceeded ? ', budget exceeded' : ''}${result.cancelled ? ', cancelled' : ''}${result.timedOut ? ', timed out' : ''}`);
+        const jobResult: ConversationJobResult = {
+            success: result.success,
+            turns: result.turns,
+            ...(result.rejected && { rejected: true }),
+            ...(result.budgetExceeded && { budgetExceeded: true, error: 'Budget exceeded' }),
+            ...(result.cancelled && { cancelled: true, error: 'Cancelled' }),
+            ...(result.timedOut && { timedOut: true, error: result.error }),
+        };
+        listener?.onComplete?.(jobResult);
+        return jobResult;
+    } catch (error) {
+        session.status = 'error';
+        db.updateSession({ id: job.sessionId, status: 'error' });
+        db.updateJob({ id: job.id, status: 'failed', error: String(error) });
+
+        console.error(`[JobQueue] Job ${job.id} failed:`, error);
+        const jobResult = { success: false, turns: job.currentTurn, error: String(error) };
+        listener?.onComplete?.(jobResult);
+        return jobResult;
+    } finally {
+        cancelPause(job.sessionId); // A pause requested as the loop ended would hit the next run
+        abort.release();
+    }
+}
+
+/**
+ * Startup reconciliation
+ * - `running` jobs were interrupted by a restart: resume them (up to MAX_JOB_ATTEMPTS)
+ * - `queued` jobs never started: start them
+ * - sessions left `running` without a job (e.g. direct chats) are marked as errored
+ */
+export function recoverJobs(): void {
+    if (globalForJobs.jobsRecovered) return;
+    globalForJobs.jobsRecovered = true;
+
+    const pending = db.getJobsByStatus(['queued', 'running']);
+    const resumedSessions = new Set<string>();
+
+    for (const job of pending) {
+        if (job.status === 'running' && job.attempts >= MAX_JOB_ATTEMPTS) {
+            const error = `Interrupted ${job.attempts} times, giving up`;
+            db.updateJob({ id: job.id, status: 'failed', error });
+            db.updateSession({ id: job.sessionId, status: 'error' });
+            console.warn(`[JobQueue] Job ${job.id}: ${error}`);
+            notifyJobFinished(job, { success: false, turns: job.currentTurn, error });
+            continue;
+        }
+
+        resumedSessions.add(job.sessionId);
+        console.log(`[JobQueue] Recovering ${job.status} job ${job.id} (session ${job.sessionId}, turn ${job.currentTurn})`);
+        startJob(job);
+    }
+
+    for (const session of db.getAllSessions()) {
+        if ((session.status === 'running' || session.status === 'waiting_response') && !resumedSessions.has(session.id)) {
+            db.updateSession({ id: session.id, status: 'error', pendingApproval: undefined });
+            db.addMessage(session.id, {
+                id: generateId(),
+                role: 'system',
+                content: '⚠️ Interrupted by a server restart. Send a message to continue.',
+                timestamp: new Date(),
+                metadata: { source: 'system' },
+            });
+            console.log(`[JobQueue] Marked orphaned session ${session.id} as error`);
+        }
+    }
+
+    console.log(`[JobQueue] Recovery done: ${resumedSessions.size} job(s) resumed`);
+}
@@ -0,0 +1,134 @@
+/**
+ * Orchestrator History
+ * An orchestrator chat's full Anthropic conversation (tool calls and results included) is saved
+ * after every request and reloaded by the next one. When it outgrows the token budget, the
+ * older requests are summarized and only the recent ones are kept verbatim.
+ */
+import Anthropic from '@anthropic-ai/sdk';
+import { withApiRetry } from './retry';
+import { ORCHESTRATOR_COMPACTION_PROMPT } from '../prompts';
+
+const CHARS_PER_TOKEN = 4; // Rough estimate, good enough to decide when to compact
+const KEEP_RATIO = 0.5; // Share of the budget kept verbatim after a compaction
+const TRANSCRIPT_TEXT_CHARS = 4000; // Per text block in the transcript sent for summarizing
+const TRANSCRIPT_TOOL_CHARS = 1000; // Per tool input / result
+
+export interface CompactedHistory {
+    messages: Anthropic.MessageParam[];
+    summary: string;
+}
+
+export interface CompactHistoryOptions {
+    client: Anthropic;
+    model: string;
+    budgetTokens: number;
+    signal?: AbortSignal;
+    onUsage?: (usage: Anthropic.Usage) => void;
+}
+
+function truncate(text: string, max: number): string {
+    return text.length > max ? `${text.substring(0, max)}...` : text;
+}
+
+/**
+ * Rough token count of a history and its summary
+ */
+export function estimateHistoryTokens(messages: Anthropic.MessageParam[], summary?: string): number {
+    return Math.ceil((JSON.stringify(messages).length + (summary?.length ?? 0)) / CHARS_PER_TOKEN);
+}
+
+/**
+ * Answer tool calls left without results (a cancelled or failed run), so the history stays valid
+ */
+export function closeDanglingToolUses(messages: Anthropic.MessageParam[], reason: string): void {
+    const last = messages[messages.length - 1];
+    if (last?.role !== 'assistant' || typeof last.content === 'string') return;
+
+    const toolUses = last.content.filter((block): block is Anthropic.ToolUseBlockParam => block.type === 'tool_use');
+    if (toolUses.length === 0) return;
+    messages.push({
+        role: 'user',
+        content: toolUses.map((block) => ({ type: 'tool_result', tool_use_id: block.id, content: reason, is_error: true })),
+    });
+}
+
+// A request from the user (or a follow-up), as opposed to tool results: the history can be cut before one
+function isRequest(message: Anthropic.MessageParam): boolean {
+    return message.role === 'user' && (
+        typeof message.content === 'string' || message.content.every((block) => block.type !== 'tool_result')
+    );
+}
+
+function renderTranscript(messages: Anthropic.MessageParam[]): string {
+    return messages.map((message) => {
+        const role = message.role === 'user' ? 'User' : 'Orchestrator';
+        if (typeof message.content === 'string') {
+            return `${role}: ${truncate(message.content, TRANSCRIPT_TEXT_CHARS)}`;
+        }
+        const parts = message.content.map((block) => {
+            if (block.type === 'text') return truncate(block.text, TRANSCRIPT_TEXT_CHARS);
+            if (block.type === 'tool_use') return `[called ${block.name} ${truncate(JSON.stringify(block.input), TRANSCRIPT_TOOL_CHARS)}]`;
+            if (block.type === 'tool_result') {
+                const content = typeof block.content === 'string'
+                    ? block.content
+                    : (block.content ?? []).map((part) => (part.type === 'text' ? part.text : `[${part.type}]`)).join('\n');
+                return `[result${block.is_error ? ' (error)' : ''}: ${truncate(content, TRANSCRIPT_TOOL_CHARS)}]`;
+            }
+            return `[${block.type}]`;
+        });
+        return `${role}: ${parts.join('\n')}`;
+    }).join('\n\n');
+}
+
+/**
+ * Summarize the older requests of a history that exceeds the budget
+ * The cut is made before a request so tool calls stay with their results; the newest request
+ * is always kept. If summarizing fails, the older requests are dropped with a note instead.
+ * @returns undefined if the history is within the budget (or can't be cut)
+ */
+export async function compactHistory(
+    messages: Anthropic.MessageParam[],
+    summary: string | undefined,
+    options: CompactHistoryOptions
+): Promise<CompactedHistory | undefined> {
+    if (estimateHistoryTokens(messages, summary) <= options.budgetTokens) return undefined;
+
+    // Keep the newest requests that fit in KEEP_RATIO of the budget (at least the last one)
+    const keepTokens = options.budgetTokens * KEEP_RATIO;
+    let cut = -1;
+    for (let i = messages.length - 1; i > 0; i--) {
+        if (!isRequest(messages[i])) continue;
+        if (cut !== -1 && estimateHistoryTokens(messages.slice(i)) > keepTokens) break;
+        cut = i;
+    }
+    if (cut <= 0) return undefined;
+
+    const older = messages.slice(0, cut);
+    const transcript = `${summary ? `PREVIOUS SUMMARY:\n${summary}\n\n` : ''}TRANSCRIPT:\n${renderTranscript(older)}`;
+    try {
+        const response = await withApiRetry(
+            () => options.client.messages.create({
+                model: options.model,
+                max_tokens: 1024,
+                system: ORCHESTRATOR_COMPACTION_PROMPT,
+                messages: [{ role: 'user', content: transcript }],
+            }, { signal: options.signal }),
+            { signal: options.signal }
+        );
+        options.onUsage?.(response.usage);
+        const text = response.content
+            .filter((block): block is Anthropic.TextBlock => block.type === 'text')
+            .map((block) => block.text)
+            .join('\n')
+            .trim();
+        if (!text) throw new Error('Empty summary');
+
+        console.log(`[OrchestratorHistory] Compacted ${older.length} messages into a summary (${text.length} chars)`);
+        return { messages: messages.slice(cut), summary: text };
+    } catch (error) {
+        if (options.signal?.aborted) throw error;
+        console.warn('[OrchestratorHistory] Summarizing failed, dropping the older messages:', error);
+        const note = `(${older.length} earlier messages were dropped without a summary.)`;
+        return { messages: messages.slice(cut), summary: summary ? `${summary}\n\n${note}` : note };
+    }
+}
@@ -0,0 +1,46 @@
+import { TEST_DATA_DIR } from '../testing/temp-data';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { join } from 'path';
+import { OrchestratorAgent } from './orchestrator';
+import { chatStore } from './chat-store';
+import { ChatSession } from '../types';
+import * as db from '../db';
+
+test('create_chat continues the current chat in its own worktree', async () => {
+    const projectRoot = join(TEST_DATA_DIR, 'repo');
+    const worktreeWorkdir = join(TEST_DATA_DIR, 'worktrees', 'repo', 'chat-1', 'packages', 'web');
+    const session: ChatSession = {
+        id: 'chat-1',
+        title: 'Fix the header',
+        createdAt: new Date(),
+        status: 'completed',
+        messages: [],
+        workdir: worktreeWorkdir,
+    };
+    db.createSession(session);
+    chatStore.set(session.id, session);
+
+    const agent = new OrchestratorAgent({ apiKey: 'test' });
+    const workdirs: string[] = [];
+    const internals = agent as unknown as {
+        currentChatId?: string;
+        activeTasks: Promise<void>[];
+        chatManager: { runConversation: (task: string, workdir: string) => Promise<unknown> };
+        executeTool(name: string, input: Record<string, unknown>, defaultWorkdir: string): Promise<string>;
+    };
+    internals.currentChatId = session.id;
+    internals.chatManager = {
+        runConversation: async (_task, workdir) => {
+            workdirs.push(workdir);
+            return { success: true, messages: [], turns: 1 };
+        },
+    };
+
+    // The orchestrator's request workdir is the project root (the web UI only sends the project)
+    const result = JSON.parse(await internals.executeTool('create_chat', { task: 'Now fix the footer', title: 'Footer' }, projectRoot));
+    await Promise.all(internals.activeTasks);
+
+    assert.equal(result.chatId, session.id);
+    assert.deepEqual(workdirs, [worktreeWorkdir]);
+});
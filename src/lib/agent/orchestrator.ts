@@ -3,28 +3,72 @@
  * Manages complex tasks by creating and monitoring chat sessions with Cursor Agent
  */
 import Anthropic from '@anthropic-ai/sdk';
-import { readdirSync, readFileSync, statSync } from 'fs';
+import { createAnthropicClient } from './anthropic-client';
 import { homedir } from 'os';
 import { join } from 'path';
 import { ChatManager } from './chat-manager';
+import { chatStore } from './chat-store';
+import { enqueueConversationJob, getSessionJobResult, ConversationJobListener } from './job-queue';
+import { recordTurn } from './turn-diffs';
+import { checkBudget, recordUsage } from './usage';
+import { acquireAbortSignal, isAbortError } from './abort-controller';
+import { formatRetry, sleep, withApiRetry } from './retry';
+import { closeDanglingToolUses, compactHistory } from './orchestrator-history';
+import { createFileSandbox, fileTree, listFiles, readFile, searchFiles } from './file-tools';
+import { createSubtaskChat, getSubtaskReport } from './subtasks';
+import { submitPlan, PlanListener } from './task-graph';
 import {
     TOOLS,
     CreateChatInput,
+    SubmitPlanInput,
     CheckChatStatusInput,
+    WaitForChatsInput,
     SendMessageToChatInput,
     ListFilesInput,
     ReadFileInput,
+    SearchFilesInput,
+    FileTreeInput,
 } from './tools';
-import { ChatSession, ChatStatus, Message } from '../types';
-import { buildOrchestratorPrompt } from '../prompts';
+import { ChatSession, ChatStatus, Message, SubtaskReport, TaskPlan, UsageTotals } from '../types';
+import { buildFollowUpRequest, buildOrchestratorPrompt } from '../prompts';
+import { getSettings } from '../settings';
+import { canAccessSession } from '../auth';
 import * as db from '../db';
 import { generateId } from '../utils/id';
+import { isWebOrchestratorSessionId } from '../utils/session';
+
+const MAX_TOKENS = 4096;
+const MAX_TOKENS_LIMIT = 16384; // Ceiling when retrying a truncated tool call
+const MAX_CONTINUATIONS = 3; // Follow-up requests for one response cut off at max_tokens
+const DEFAULT_WAIT_SEC = 600; // wait_for_chats timeout
+const MAX_WAIT_SEC = 3600;
+const MAX_FOLLOW_UP_ROUNDS = 3; // Result reviews in a row (each may dispatch fix-ups)
+
+const globalForOrchestrator = globalThis as unknown as {
+    orchestratorRunLocks: Map<string, Promise<void>> | undefined;
+};
+
+// Serializes runs in a chat: each reads the chat's saved history and writes it back when done
+const runLocks = globalForOrchestrator.orchestratorRunLocks ?? new Map<string, Promise<void>>();
+globalForOrchestrator.orchestratorRunLocks = runLocks;
+
+function withRunLock<T>(chatId: string, fn: () => Promise<T>): Promise<T> {
+    const run = (runLocks.get(chatId) ?? Promise.resolve()).then(fn);
+    const tail = run.then(() => undefined, () => undefined);
+    runLocks.set(chatId, tail);
+    void tail.then(() => {
+        if (runLocks.get(chatId) === tail) runLocks.delete(chatId);
+    });
+    return run;
+}
 
 export interface OrchestratorConfig {
     apiKey?: string;
     baseUrl?: string;
     model?: string;
     skillsPath?: string;
+    ownerId?: string; // User the chats it creates belong to
+    projectId?: string; // Project the chats it creates belong to
 }
 
 export interface OrchestratorResult {
@@ -33,6 +77,15 @@ export interface OrchestratorResult {
     tasks_executed: number;
     chats_created: string[];
     error?: string;
+    usage?: UsageTotals; // Anthropic usage of this run
+    budgetExceeded?: boolean;
+    cancelled?: boolean; // The chat was aborted mid-run
+}
+
+export interface OrchestratorRunOptions {
+    followUp?: boolean; // Run again with the results once this run's background chats finish (defaults to the orchestratorFollowUp setting)
+    onFollowUp?: (result: OrchestratorResult) => void; // Told when each follow-up run ends
+    followUpRound?: number; // Set on follow-up runs
 }
 
 export interface ProgressCallback {
@@ -46,44 +99,43 @@ export interface ProgressCallback {
         | 'dispatch_order'
         | 'chat_created'
         | 'chat_update'
-        | 'chat_complete';
+        | 'chat_complete'
+        | 'plan_update'
+        | 'follow_up'
+        | 'retry';
         content: string;
         chatId?: string;
         chatStatus?: ChatStatus;
     }): void;
 }
 
-// In-memory cache for active sessions (for faster access during execution)
-// SQLite is used for persistence
-const globalForChatStore = globalThis as unknown as {
-    chatStore: Map<string, ChatSession> | undefined;
-};
-
-const chatStore = globalForChatStore.chatStore ?? new Map<string, ChatSession>();
-if (process.env.NODE_ENV !== 'production') {
-    globalForChatStore.chatStore = chatStore;
-}
-
 export class OrchestratorAgent {
     private client: Anthropic;
     private model: string;
     private conversationHistory: Anthropic.MessageParam[] = [];
+    private historySummary?: string; // Compacted summary of the history before conversationHistory
+    private historyCompactions = 0;
     private chatManager: ChatManager;
     private createdChats: string[] = [];
     private skillsPath: string;
     private currentChatId?: string; // Current chat ID when continuing in existing chat
+    private signal?: AbortSignal; // Current run's abort signal (from the chat's abort controller)
+    private ownerId?: string;
+    private projectId?: string;
 
     constructor(config: OrchestratorConfig = {}) {
-        this.client = new Anthropic({
-            apiKey: config.apiKey || process.env.ANTHROPIC_API_KEY,
-            baseURL: config.baseUrl || process.env.ANTHROPIC_BASE_URL || process.env.ANTHROPIC_API_BASE,
-        });
+        this.client = createAnthropicClient(config);
         this.model = config.model || process.env.ANTHROPIC_MODEL || 'claude-sonnet-4-20250514';
         this.chatManager = new ChatManager(config);
         this.skillsPath = config.skillsPath || process.env.SKILLS_PATH || join(homedir(), '.cursor', 'skills');
+        this.ownerId = config.ownerId;
+        this.projectId = config.projectId;
     }
 
     private activeTasks: Promise<void>[] = [];
+    private dispatchedChats: string[] = []; // Background chats started by the current run
+    private submittedPlans: Promise<TaskPlan>[] = []; // Settle when each plan of the current run ends
+    private awaitedChats = new Set<string>(); // Results the current run already saw (wait_for_chats)
 
     /**
      * Run the orchestrator with a user request
@@ -92,22 +144,68 @@ export class OrchestratorAgent {
      * @param onProgress - Progress callback
      * @param chatId - Optional existing chat ID to continue in
      * @param chatHistory - Optional chat history for context
+     * @param options - Follow-up behaviour once the dispatched chats finish
+     * Runs in the same chat (other requests, follow-ups) wait for each other.
      */
     async run(
         request: string,
         workdir: string,
         onProgress?: ProgressCallback,
         chatId?: string,
-        chatHistory?: Array<{ role: string; content: string }>
+        chatHistory?: Array<{ role: string; content: string }>,
+        options: OrchestratorRunOptions = {}
+    ): Promise<OrchestratorResult> {
+        const run = () => this.runExclusive(request, workdir, onProgress, chatId, chatHistory, options);
+        return chatId ? withRunLock(chatId, run) : run();
+    }
+
+    private async runExclusive(
+        request: string,
+        workdir: string,
+        onProgress: ProgressCallback | undefined,
+        chatId: string | undefined,
+        chatHistory: Array<{ role: string; content: string }> | undefined,
+        options: OrchestratorRunOptions
     ): Promise<OrchestratorResult> {
         let tasksExecuted = 0;
         let finalContent = '';
         this.activeTasks = []; // Reset active tasks for this run
+        this.dispatchedChats = [];
+        this.submittedPlans = [];
+        this.awaitedChats = new Set();
         this.currentChatId = chatId; // Save current chat ID for tool execution
+        const runId = generateId(); // Groups this run's API usage
+        const abort = chatId ? acquireAbortSignal(chatId) : undefined;
+        this.signal = abort?.signal;
+        const cancelled = (): OrchestratorResult => {
+            console.log(`[Orchestrator] Run cancelled (chat ${chatId})`);
+            return {
+                success: false,
+                content: finalContent,
+                tasks_executed: tasksExecuted,
+                chats_created: this.createdChats,
+                error: 'Cancelled',
+                usage: db.getUsageTotals({ runId }),
+                cancelled: true,
+            };
+        };
+
+        // Continue the chat's saved conversation, tool calls included (read again on every run:
+        // another request in the chat may have added to it since this instance's last run)
+        if (chatId) {
+            const saved = db.getOrchestratorHistory(chatId);
+            if (saved) {
+                this.conversationHistory = saved.messages;
+                this.historySummary = saved.summary;
+                this.historyCompactions = saved.compactions;
+                console.log(`[Orchestrator] Loaded ${saved.messages.length} history messages for chat ${chatId}`);
+            }
+        }
+        const hasHistory = this.conversationHistory.length > 0 || !!this.historySummary;
 
-        // Build context from chat history if provided
+        // Build context from chat history if provided (only when there's no saved conversation)
         let contextSection = '';
-        if (chatHistory && chatHistory.length > 0) {
+        if (!hasHistory && chatHistory && chatHistory.length > 0) {
             contextSection = '\n\n## Previous Conversation Context:\n';
             for (const msg of chatHistory.slice(-10)) { // Last 10 messages for context
                 const roleLabel = msg.role === 'user' ? 'User' : msg.role === 'assistant' ? 'Assistant' : 'System';
@@ -119,7 +217,7 @@ export class OrchestratorAgent {
         const existingSession = chatId ? (chatStore.get(chatId) || db.getSessionMeta(chatId)) : undefined;
         const shouldContinueInChat = Boolean(
             chatId &&
-            chatId !== 'web_orchestrator_main' &&
+            !isWebOrchestratorSessionId(chatId) &&
             existingSession &&
             !existingSession.isOrchestratorManaged
         );
@@ -127,95 +225,83 @@ export class OrchestratorAgent {
             ? '\n\nIMPORTANT: You are continuing in an existing chat session. Do NOT create a new chat - execute the task directly in the current conversation using the Cursor Agent.'
             : '';
 
-        // Add user message with context
-        this.conversationHistory.push({
-            role: 'user',
-            content: `Working directory: ${workdir}${contextSection}${chatInstruction}\n\nCurrent Request: ${request}`,
-        });
-
         try {
+            // Keep the saved conversation within the history budget
+            await this.compactIfNeeded(runId, chatId);
+
+            // Add user message with context
+            this.conversationHistory.push({
+                role: 'user',
+                content: `Working directory: ${workdir}${contextSection}${chatInstruction}\n\nCurrent Request: ${request}`,
+            });
+
             // Agentic loop
             while (true) {
-                const response = await this.client.messages.create({
-                    model: this.model,
-                    max_tokens: 4096,
-                    system: buildOrchestratorPrompt(this.skillsPath),
-                    tools: TOOLS,
-                    messages: this.conversationHistory,
-                });
-
-                // Process response content
-                const assistantContent: Anthropic.ContentBlock[] = [];
+                if (this.signal?.aborted) return cancelled();
+
+                // Stop before another call once the chat's budget is spent
+                const overBudget = chatId ? checkBudget(chatId) : undefined;
+                if (overBudget) {
+                    console.warn(`[Orchestrator] ${overBudget} (chat ${chatId}), stopping`);
+                    onProgress?.({ type: 'message', content: `\n\n💸 ${overBudget}` });
+                    return {
+                        success: false,
+                        content: finalContent,
+                        tasks_executed: tasksExecuted,
+                        chats_created: this.createdChats,
+                        error: overBudget,
+                        usage: db.getUsageTotals({ runId }),
+                        budgetExceeded: true,
+                    };
+                }
 
-                for (const block of response.content) {
+                // Text reaches onProgress as it streams in
+                const response = await this.streamResponse(runId, chatId, onProgress);
+                const assistantContent = response.content;
+                for (const block of assistantContent) {
                     if (block.type === 'text') {
-                        assistantContent.push(block);
                         finalContent += block.text;
-                        onProgress?.({ type: 'message', content: block.text });
-                    } else if (block.type === 'tool_use') {
-                        assistantContent.push(block);
-                        onProgress?.({ type: 'tool_start', content: block.name });
-
-                        // Execute tool
-                        const toolResult = await this.executeTool(
-                            block.name,
-                            block.input as Record<string, unknown>,
-                            workdir,
-                            onProgress
-                        );
-
-                        if (block.name === 'create_chat' || block.name === 'dispatch_task') {
-                            tasksExecuted++;
-                        }
-
-                        onProgress?.({
-                            type: 'tool_end',
-                            content: `${block.name}: ${toolResult.substring(0, 200)}...`,
-                        });
-
-                        // Add assistant message and tool result
-                        this.conversationHistory.push({
-                            role: 'assistant',
-                            content: assistantContent,
-                        });
-
-                        this.conversationHistory.push({
-                            role: 'user',
-                            content: [
-                                {
-                                    type: 'tool_result',
-                                    tool_use_id: block.id,
-                                    content: toolResult,
-                                },
-                            ],
-                        });
-
-                        // Continue the loop for next response
-                        break;
                     }
                 }
+                if (assistantContent.length > 0) {
+                    this.conversationHistory.push({ role: 'assistant', content: assistantContent });
+                }
 
-                // Check if we should stop
-                if (response.stop_reason === 'end_turn') {
-                    // Add final assistant message if not already added
-                    if (
-                        assistantContent.length > 0 &&
-                        !this.conversationHistory.some(
-                            (m) => m.role === 'assistant' && m.content === assistantContent
-                        )
-                    ) {
-                        this.conversationHistory.push({
-                            role: 'assistant',
-                            content: assistantContent,
-                        });
+                // Run every tool call in the response, then answer them together
+                const toolUses = assistantContent.filter(
+                    (block): block is Anthropic.ToolUseBlock => block.type === 'tool_use'
+                );
+                if (toolUses.length === 0) {
+                    if (response.stopReason === 'max_tokens') {
+                        console.warn('[Orchestrator] Response still truncated after continuations, stopping');
                     }
                     break;
                 }
 
-                // Continue if there are tool uses
-                if (response.stop_reason !== 'tool_use') {
-                    break;
+                const toolResults: Anthropic.ToolResultBlockParam[] = [];
+                for (const block of toolUses) {
+                    if (this.signal?.aborted) return cancelled();
+                    onProgress?.({ type: 'tool_start', content: block.name });
+
+                    const toolResult = await this.executeTool(
+                        block.name,
+                        block.input as Record<string, unknown>,
+                        workdir,
+                        onProgress
+                    );
+
+                    if (block.name === 'create_chat' || block.name === 'dispatch_task' || block.name === 'submit_plan') {
+                        tasksExecuted++;
+                    }
+
+                    onProgress?.({
+                        type: 'tool_end',
+                        content: `${block.name}: ${toolResult.substring(0, 200)}...`,
+                    });
+                    toolResults.push({ type: 'tool_result', tool_use_id: block.id, content: toolResult });
                 }
+
+                this.conversationHistory.push({ role: 'user', content: toolResults });
             }
 
             // Tasks are running in background - don't wait for completion
@@ -223,49 +309,143 @@ export class OrchestratorAgent {
             if (this.activeTasks.length > 0) {
                 onProgress?.({
                     type: 'message',
-                    content: `${this.activeTasks.length} task(s) dispatched and running in background.`,
+                    content: `\n\n${this.activeTasks.length} task(s) dispatched and running in background.`,
                 });
             }
 
+            const round = options.followUpRound ?? 0;
+            if ((options.followUp ?? getSettings().orchestratorFollowUp) && round < MAX_FOLLOW_UP_ROUNDS) {
+                this.scheduleFollowUp(workdir, onProgress, chatId, { ...options, followUpRound: round + 1 });
+            }
+
             return {
                 success: true,
                 content: finalContent,
                 tasks_executed: tasksExecuted,
                 chats_created: this.createdChats,
+                usage: db.getUsageTotals({ runId }),
             };
         } catch (error) {
+            if (isAbortError(error) || this.signal?.aborted) return cancelled();
             return {
                 success: false,
                 content: finalContent,
                 tasks_executed: tasksExecuted,
                 chats_created: this.createdChats,
                 error: error instanceof Error ? error.message : String(error),
+                usage: db.getUsageTotals({ runId }),
             };
+        } finally {
+            abort?.release();
+            if (chatId) this.saveHistory(chatId);
         }
     }
 
     /**
-     * Generate task.md content for a sub-task
+     * Summarize the older part of the conversation once it outgrows the history budget
      */
-    private generateTaskMd(title: string, task: string, workdir: string): string {
-        const now = new Date().toISOString();
-        return `# Task: ${title}
+    private async compactIfNeeded(runId: string, chatId: string | undefined): Promise<void> {
+        const compacted = await compactHistory(this.conversationHistory, this.historySummary, {
+            client: this.client,
+            model: this.model,
+            budgetTokens: getSettings().orchestratorHistoryTokens,
+            signal: this.signal,
+            onUsage: (usage) => recordUsage({ sessionId: chatId, runId, source: 'orchestrator', model: this.model, usage }),
+        });
+        if (!compacted) return;
 
-## Description
-${task}
+        this.conversationHistory = compacted.messages;
+        this.historySummary = compacted.summary;
+        this.historyCompactions++;
+    }
 
-## Context
-- **Working Directory**: \`${workdir}\`
-- **Created**: ${now}
+    /**
+     * Save the conversation for the chat's next request
+     */
+    private saveHistory(chatId: string): void {
+        closeDanglingToolUses(this.conversationHistory, 'Not run: the request ended first');
+        try {
+            db.saveOrchestratorHistory({
+                sessionId: chatId,
+                messages: this.conversationHistory,
+                summary: this.historySummary,
+                compactions: this.historyCompactions,
+            });
+        } catch (error) {
+            console.error(`[Orchestrator] Failed to save history for chat ${chatId}:`, error);
+        }
+    }
+
+    /**
+     * Stream one model response, sending text deltas to onProgress as they arrive
+     * A response cut off at max_tokens is continued from where it stopped; a tool call cut
+     * off mid-input is dropped and asked for again with more room.
+     */
+    private async streamResponse(
+        runId: string,
+        chatId: string | undefined,
+        onProgress?: ProgressCallback
+    ): Promise<{ content: Anthropic.ContentBlock[]; stopReason: Anthropic.StopReason | null }> {
+        const content: Anthropic.ContentBlock[] = [];
+        let maxTokens = MAX_TOKENS;
+
+        for (let continuation = 0; ; continuation++) {
+            // Continue the cut-off text as an assistant prefill (which must not end in whitespace)
+            const prefillContent = content
+                .map((block) => (block.type === 'text' ? { ...block, text: block.text.trimEnd() } : block))
+                .filter((block) => block.type !== 'text' || block.text);
+            const prefill: Anthropic.MessageParam[] = prefillContent.length > 0
+                ? [{ role: 'assistant', content: prefillContent }]
+                : [];
+
+            // Text already sent to the client can't be taken back, so a stream that fails after
+            // emitting some isn't retried (the retry would send it again)
+            let streamed = false;
+            const message = await withApiRetry(() => {
+                const stream = this.client.messages.stream({
+                    model: this.model,
+                    max_tokens: maxTokens,
+                    system: buildOrchestratorPrompt(this.skillsPath, this.historySummary),
+                    tools: TOOLS,
+                    messages: [...this.conversationHistory, ...prefill],
+                }, { signal: this.signal });
+                stream.on('text', (delta) => {
+                    streamed = true;
+                    onProgress?.({ type: 'message', content: delta });
+                });
+                return stream.finalMessage();
+            }, {
+                signal: this.signal,
+                onRetry: (retry) => onProgress?.({ type: 'retry', content: formatRetry('Orchestrator call', retry) }),
+                canRetry: () => !streamed,
+            });
+            recordUsage({ sessionId: chatId, runId, source: 'orchestrator', model: this.model, usage: message.usage });
+
+            // The continuation's first text block carries on the cut-off one
+            const [first, ...rest] = message.content;
+            const last = content[content.length - 1];
+            if (first?.type === 'text' && last?.type === 'text') {
+                content[content.length - 1] = { ...last, text: last.text.trimEnd() + first.text };
+                content.push(...rest);
+            } else {
+                content.push(...message.content);
+            }
 
-## Acceptance Criteria
-- [ ] Task completed as described
-- [ ] No errors or issues reported
-- [ ] Code follows project conventions
+            if (message.stop_reason !== 'max_tokens' || continuation >= MAX_CONTINUATIONS) {
+                return { content, stopReason: message.stop_reason };
+            }
 
-## Notes
-_Add any additional notes or requirements here_
-`;
+            // Incomplete tool input can't be used; ask for the call again with more room
+            if (content[content.length - 1]?.type === 'tool_use') {
+                content.pop();
+                maxTokens = Math.min(maxTokens * 2, MAX_TOKENS_LIMIT);
+            }
+            // Complete tool calls can't be prefilled without their results: run them instead
+            if (content.some((block) => block.type === 'tool_use')) {
+                return { content, stopReason: 'tool_use' };
+            }
+            console.log(`[Orchestrator] Response hit max_tokens, continuing (${continuation + 1}/${MAX_CONTINUATIONS})`);
+        }
     }
 
     /**
@@ -279,11 +459,11 @@ _Add any additional notes or requirements here_
     ): Promise<string> {
         switch (name) {
             case 'create_chat': {
-                const { task, title } = input as unknown as CreateChatInput;
+                const { task, title, isolated } = input as unknown as CreateChatInput;
                 
                 // If we have a current chat ID, check if we should execute in that chat
                 // EXCEPT: Don't reuse the web orchestrator's own session or orchestrator-managed sessions
-                if (this.currentChatId && this.currentChatId !== 'web_orchestrator_main') {
+                if (this.currentChatId && !isWebOrchestratorSessionId(this.currentChatId)) {
                     const existingSession = chatStore.get(this.currentChatId) || db.getSessionMeta(this.currentChatId);
                     
                     // Only reuse if session exists and is NOT orchestrator-managed (i.e., it's a regular chat)
@@ -301,15 +481,16 @@ _Add any additional notes or requirements here_
                             chatStatus: 'running',
                         });
                         
-                        // Run conversation in current chat
+                        // Run conversation in current chat (in its own workdir: a subfolder or worktree)
                         const taskPromise = this.runChatWithProgress(
                             this.currentChatId, 
                             task, 
-                            defaultWorkdir, 
+                            existingSession.workdir ?? defaultWorkdir, 
                             onProgress,
                             existingSession.taskMd
                         );
                         this.activeTasks.push(taskPromise);
+                        this.dispatchedChats.push(this.currentChatId);
                         
                         return JSON.stringify({
                             success: true,
@@ -321,36 +502,16 @@ _Add any additional notes or requirements here_
                 }
                 
                 // Create new chat: no current chat, or current chat is orchestrator's own session
-                const chatId = generateId();
-
-                // Generate task.md content
-                const taskMd = this.generateTaskMd(title, task, defaultWorkdir);
-
-                // Create chat session for sub-task
-                // Note: Sub-tasks are NOT marked as isOrchestratorManaged
-                // They appear in the left sidebar Chat list
-                // Create initial user message (the task being sent to Cursor)
-                const initialMessage: Message = {
-                    id: generateId(),
-                    role: 'user',
-                    content: task,
-                    timestamp: new Date(),
-                    metadata: { source: 'orchestrator' },
-                };
-
-                // Only the main Orchestrator conversation (Telegram sessions) are marked as isOrchestratorManaged
-                const session: ChatSession = {
-                    id: chatId,
+                const { session, initialMessage, worktree, isolationNote } = await createSubtaskChat({
                     title,
-                    createdAt: new Date(),
-                    status: 'running',
-                    messages: [initialMessage], // Include initial message
-                    orchestrateTaskId: chatId, // Mark that this was created by orchestrator
-                    workdir: defaultWorkdir, // Save the working directory context
-                    taskMd, // Store task description
-                };
-                chatStore.set(chatId, session);
-                db.createSession(session); // Save to SQLite (this will also save the message)
+                    task,
+                    workdir: defaultWorkdir,
+                    isolated,
+                    ownerId: this.ownerId,
+                    projectId: this.projectId,
+                });
+                const chatId = session.id;
+                const taskMd = session.taskMd;
                 this.createdChats.push(chatId);
 
                 // Notify about chat creation with initial message
@@ -362,17 +523,60 @@ _Add any additional notes or requirements here_
 
                 // Start conversation in background - Orchestrator returns immediately
                 // Progress is streamed via onProgress callback
-                const taskPromise = this.runChatWithProgress(chatId, task, defaultWorkdir, onProgress, taskMd);
+                const taskPromise = this.runChatWithProgress(chatId, task, session.workdir!, onProgress, taskMd);
                 this.activeTasks.push(taskPromise);
+                this.dispatchedChats.push(chatId);
 
                 return JSON.stringify({
                     success: true,
                     chatId,
                     status: 'running',
                     message: 'Chat session created and task dispatched.',
+                    ...(worktree && { worktree: { branch: worktree.branch, path: worktree.path } }),
+                    ...(isolationNote && { note: isolationNote }),
                 });
             }
 
+            case 'submit_plan': {
+                const { title, tasks } = input as unknown as SubmitPlanInput;
+                let settle!: (plan: TaskPlan) => void;
+                const settled = new Promise<TaskPlan>((resolve) => { settle = resolve; });
+                try {
+                    const plan = await submitPlan(
+                        {
+                            title,
+                            workdir: defaultWorkdir,
+                            sessionId: this.currentChatId,
+                            tasks: (tasks ?? []).map((t) => ({
+                                id: t.id,
+                                title: t.title,
+                                task: t.task,
+                                dependsOn: t.depends_on,
+                                isolated: t.isolated,
+                            })),
+                        },
+                        { listener: this.planListener(onProgress, settle), chatManager: this.chatManager }
+                    );
+                    this.submittedPlans.push(settled);
+
+                    return JSON.stringify({
+                        success: true,
+                        planId: plan.id,
+                        status: plan.status,
+                        tasks: plan.nodes.map((node) => ({
+                            id: node.id,
+                            status: node.status,
+                            ...(node.chatId && { chatId: node.chatId }),
+                            ...(node.dependsOn.length > 0 && { dependsOn: node.dependsOn }),
+                            ...(node.error && { error: node.error }),
+                        })),
+                        message: 'Plan submitted. Tasks start as their dependencies complete.',
+                    });
+                } catch (error) {
+                    return JSON.stringify({ error: error instanceof Error ? error.message : String(error) });
+                }
+            }
+
             case 'dispatch_task': {
                 // Legacy support - maps to create_chat with wait_for_completion=true
                 const { task, title } = input as { task: string; title: string };
@@ -392,7 +596,7 @@ _Add any additional notes or requirements here_
                     session = db.getSessionMeta(chat_id) || undefined;
                 }
 
-                if (!session) {
+                if (!session || !this.canAccessChat(session)) {
                     return JSON.stringify({ error: 'Chat not found', chatId: chat_id });
                 }
 
@@ -405,6 +609,40 @@ _Add any additional notes or requirements here_
                     status: session.status,
                     messageCount,
                     lastMessage: lastMessage?.content?.substring(0, 200),
+                    ...(session.pendingApproval && {
+                        waitingForApproval: {
+                            state: session.pendingApproval.state,
+                            proposedMessage: session.pendingApproval.proposedMessage.substring(0, 200),
+                        },
+                    }),
+                });
+            }
+
+            case 'wait_for_chats': {
+                const { chat_ids, timeout_seconds } = input as unknown as WaitForChatsInput;
+                const chatIds = [...new Set(chat_ids ?? [])];
+                if (chatIds.length === 0) {
+                    return JSON.stringify({ error: 'chat_ids is empty' });
+                }
+                const timeoutSec = Math.min(Math.max(Number(timeout_seconds) || DEFAULT_WAIT_SEC, 1), MAX_WAIT_SEC);
+                const visible = new Set(chatIds.filter((id) => {
+                    const session = chatStore.get(id) ?? db.getSessionMeta(id);
+                    return session && this.canAccessChat(session);
+                }));
+
+                await this.waitForChats([...visible], timeoutSec * 1000);
+
+                const chats: Array<SubtaskReport | { chatId: string; error: string }> = chatIds.map((id) => {
+                    if (!visible.has(id)) return { chatId: id, error: 'Chat not found' };
+                    const report = getSubtaskReport(id, !getSessionJobResult(id));
+                    if (report?.finished) this.awaitedChats.add(id);
+                    return report ?? { chatId: id, error: 'Chat not found' };
+                });
+                return JSON.stringify({
+                    chats,
+                    ...(chats.some((chat) => 'finished' in chat && !chat.finished) && {
+                        note: `Some chats were still running after ${timeoutSec}s.`,
+                    }),
                 });
             }
 
@@ -412,9 +650,16 @@ _Add any additional notes or requirements here_
                 const { chat_id, message } = input as unknown as SendMessageToChatInput;
                 const session = chatStore.get(chat_id);
 
-                if (!session) {
+                if (!session || !this.canAccessChat(session)) {
                     return JSON.stringify({ error: 'Chat not found', chatId: chat_id });
                 }
+                // Only the human the decision is waiting on can unblock it
+                if (session.pendingApproval) {
+                    return JSON.stringify({ error: 'Chat is waiting for human approval', chatId: chat_id });
+                }
+                if (session.status === 'paused') {
+                    return JSON.stringify({ error: 'Chat is paused by a human', chatId: chat_id });
+                }
 
                 // Add user message
                 const userMsg: Message = {
@@ -427,12 +672,22 @@ _Add any additional notes or requirements here_
                 session.messages.push(userMsg);
                 db.addMessage(chat_id, userMsg); // Persist to database
 
-                // Send to Cursor
-                const result = await this.chatManager.sendSingleMessage(
-                    message,
-                    defaultWorkdir,
-                    session.cursorSessionId
-                );
+                // Send to Cursor; stopped by aborting either this run or the target chat
+                const targetAbort = acquireAbortSignal(chat_id);
+                let result: Awaited<ReturnType<ChatManager['sendSingleMessage']>>;
+                try {
+                    result = await this.chatManager.sendSingleMessage(
+                        message,
+                        session.workdir ?? defaultWorkdir,
+                        session.cursorSessionId,
+                        undefined,
+                        session.backend,
+                        this.signal ? AbortSignal.any([this.signal, targetAbort.signal]) : targetAbort.signal,
+                        chat_id
+                    );
+                } finally {
+                    targetAbort.release();
+                }
 
                 // Add response
                 const assistantMsg: Message = {
@@ -442,6 +697,7 @@ _Add any additional notes or requirements here_
                     timestamp: new Date(),
                     metadata: { source: 'cursor' },
                 };
+                recordTurn(chat_id, assistantMsg, result);
                 session.messages.push(assistantMsg);
                 db.addMessage(chat_id, assistantMsg); // Persist to database
 
@@ -459,34 +715,53 @@ _Add any additional notes or requirements here_
                     success: result.success,
                     response: result.content,
                     status: session.status,
+                    ...(result.cancelled && { cancelled: true }),
                 });
             }
 
             case 'list_files': {
-                const { path } = input as unknown as ListFilesInput;
+                const { path, recursive } = input as unknown as ListFilesInput;
                 try {
-                    const files = readdirSync(path).map((name) => {
-                        const fullPath = join(path, name);
-                        const stat = statSync(fullPath);
-                        return {
-                            name,
-                            type: stat.isDirectory() ? 'directory' : 'file',
-                            size: stat.size,
-                        };
-                    });
-                    return JSON.stringify(files, null, 2);
+                    const sandbox = createFileSandbox(defaultWorkdir, getSettings().fileAccessRoots);
+                    return JSON.stringify(await listFiles(sandbox, path, recursive === true), null, 2);
                 } catch (error) {
-                    return JSON.stringify({ error: String(error) });
+                    return JSON.stringify({ error: error instanceof Error ? error.message : String(error) });
                 }
             }
 
             case 'read_file': {
-                const { path } = input as unknown as ReadFileInput;
+                const { path, start_line, end_line } = input as unknown as ReadFileInput;
+                try {
+                    const sandbox = createFileSandbox(defaultWorkdir, getSettings().fileAccessRoots);
+                    return readFile(sandbox, path, start_line, end_line);
+                } catch (error) {
+                    return JSON.stringify({ error: error instanceof Error ? error.message : String(error) });
+                }
+            }
+
+            case 'search_files': {
+                const { pattern, path, glob, case_insensitive, max_results } = input as unknown as SearchFilesInput;
+                try {
+                    const sandbox = createFileSandbox(defaultWorkdir, getSettings().fileAccessRoots);
+                    const result = await searchFiles(sandbox, pattern, {
+                        path,
+                        glob,
+                        caseInsensitive: case_insensitive === true,
+                        maxResults: max_results,
+                    });
+                    return JSON.stringify(result, null, 2);
+                } catch (error) {
+                    return JSON.stringify({ error: error instanceof Error ? error.message : String(error) });
+                }
+            }
+
+            case 'file_tree': {
+                const { path, max_depth } = input as unknown as FileTreeInput;
                 try {
-                    const content = readFileSync(path, 'utf-8');
-                    return content;
+                    const sandbox = createFileSandbox(defaultWorkdir, getSettings().fileAccessRoots);
+                    return await fileTree(sandbox, path, max_depth);
                 } catch (error) {
-                    return JSON.stringify({ error: String(error) });
+                    return JSON.stringify({ error: error instanceof Error ? error.message : String(error) });
                 }
             }
 
@@ -495,9 +770,91 @@ _Add any additional notes or requirements here_
         }
     }
 
+    // Chats of other users are off limits unless the orchestrator's owner is an admin
+    private canAccessChat(session: Pick<ChatSession, 'ownerId'>): boolean {
+        if (!this.ownerId) return true; // Local user (auth disabled)
+        const owner = db.getUser(this.ownerId);
+        return Boolean(owner && canAccessSession(owner, session));
+    }
+
+    /**
+     * Wait until the chats' conversation jobs have ended, the timeout expires or the run is aborted
+     */
+    private async waitForChats(chatIds: string[], timeoutMs: number): Promise<void> {
+        const jobs = chatIds.map((id) => getSessionJobResult(id)).filter((job) => job !== undefined);
+        if (jobs.length === 0) return;
+
+        const timer = new AbortController();
+        try {
+            await Promise.race([
+                Promise.all(jobs),
+                sleep(timeoutMs, this.signal ? AbortSignal.any([this.signal, timer.signal]) : timer.signal),
+            ]);
+        } finally {
+            timer.abort(); // Stop the timeout when the jobs won
+        }
+    }
+
+    /**
+     * Once the run's background chats and plans have all ended, run again with their results so the
+     * orchestrator can dispatch fix-ups or report a consolidated result
+     * Waiting holds the chat's abort signal, so stopping the orchestrator chat also drops the follow-up.
+     */
+    private scheduleFollowUp(
+        workdir: string,
+        onProgress: ProgressCallback | undefined,
+        chatId: string | undefined,
+        options: OrchestratorRunOptions
+    ): void {
+        const pending = [...this.activeTasks, ...this.submittedPlans];
+        const awaited = this.awaitedChats;
+        const chatIds = this.dispatchedChats.filter((id) => !awaited.has(id));
+        const plans = this.submittedPlans;
+        if (pending.length === 0 || (chatIds.length === 0 && plans.length === 0)) return;
+
+        void (async () => {
+            const abort = chatId ? acquireAbortSignal(chatId) : undefined;
+            try {
+                await Promise.race([
+                    Promise.all(pending),
+                    new Promise((resolve) => abort?.signal.addEventListener('abort', resolve, { once: true })),
+                ]);
+            } finally {
+                abort?.release();
+            }
+            if (abort?.signal.aborted) {
+                console.log(`[Orchestrator] Follow-up dropped, chat ${chatId} was stopped`);
+                return;
+            }
+
+            // Plan tasks the run didn't wait for itself
+            for (const plan of await Promise.all(plans)) {
+                for (const node of plan.nodes) {
+                    if (node.chatId && !awaited.has(node.chatId)) chatIds.push(node.chatId);
+                }
+            }
+            const reports = chatIds
+                .map((id) => getSubtaskReport(id, true))
+                .filter((report) => report !== undefined);
+            if (reports.length === 0) return;
+
+            const round = options.followUpRound ?? 1;
+            console.log(`[Orchestrator] ${reports.length} chat(s) finished, follow-up ${round}/${MAX_FOLLOW_UP_ROUNDS}`);
+            onProgress?.({
+                type: 'follow_up',
+                content: `🔎 ${reports.length} sub-task(s) finished, reviewing the results (${round}/${MAX_FOLLOW_UP_ROUNDS})`,
+                chatId,
+            });
+
+            const request = buildFollowUpRequest(reports, round >= MAX_FOLLOW_UP_ROUNDS);
+            const result = await this.run(request, workdir, onProgress, chatId, undefined, options);
+            options.onFollowUp?.(result);
+        })().catch((error) => console.error('[Orchestrator] Follow-up failed:', error));
+    }
+
     /**
      * Run chat conversation with progress streaming
-     * This runs asynchronously but streams progress via onProgress callback
+     * The loop runs as a persisted job (survives restarts); progress is streamed via onProgress
      */
     private async runChatWithProgress(
         chatId: string,
@@ -509,125 +866,81 @@ _Add any additional notes or requirements here_
         const session = chatStore.get(chatId);
         if (!session) return;
 
-        try {
-            const result = await this.chatManager.runConversation(
-                task,
-                workdir,
-                (event) => {
-                    // Update session status
-                    if (event.status) {
-                        session.status = event.status;
-                        db.updateSession({ id: chatId, status: event.status });
-                    }
-
-                    // Handle task.md updates
-                    if (event.type === 'task_md_update' && event.taskMd) {
-                        session.taskMd = event.taskMd;
-                        db.updateSession({ id: chatId, taskMd: event.taskMd });
-                        
-                        // Notify frontend about task.md update
-                        onProgress?.({
-                            type: 'chat_update',
-                            content: JSON.stringify({
-                                type: 'task_md_update',
-                                taskMd: event.taskMd,
-                            }),
-                            chatId,
-                        });
-                    }
+        await enqueueConversationJob(
+            { sessionId: chatId, task, workdir, taskMd: taskMd || session.taskMd, backend: session.backend },
+            this.chatJobListener(chatId, onProgress),
+            this.chatManager
+        );
+    }
 
-                    // Forward progress to frontend
+    /**
+     * Forward a sub-task conversation's progress to the orchestrator stream
+     */
+    private chatJobListener(chatId: string, onProgress?: ProgressCallback): ConversationJobListener {
+        return {
+            onEvent: (event) => {
+                // Notify frontend about task.md update
+                if (event.type === 'task_md_update' && event.taskMd) {
                     onProgress?.({
                         type: 'chat_update',
-                        content: JSON.stringify(event),
+                        content: JSON.stringify({
+                            type: 'task_md_update',
+                            taskMd: event.taskMd,
+                        }),
                         chatId,
-                        chatStatus: event.status,
                     });
+                }
 
-                    // Store messages
-                    if (event.type === 'cursor_response' && event.content) {
-                        const msg: Message = {
-                            id: generateId(),
-                            role: 'assistant',
-                            content: event.content,
-                            timestamp: new Date(),
-                            metadata: { source: 'cursor' },
-                        };
-                        session.messages.push(msg);
-                        db.addMessage(chatId, msg);
-                    } else if (event.type === 'thinking' && event.content) {
-                        // Agent Manager's thinking - use 'system' role with thinking source
-                        const msg: Message = {
-                            id: generateId(),
-                            role: 'system',
-                            content: event.content,
-                            timestamp: new Date(),
-                            metadata: { source: 'thinking' },
-                        };
-                        session.messages.push(msg);
-                        db.addMessage(chatId, msg);
-                    } else if (event.type === 'ai_followup' && event.content) {
-                        // Agent Manager's response - use 'system' role for UI display
-                        const msg: Message = {
-                            id: generateId(),
-                            role: 'system',
-                            content: event.content,
-                            timestamp: new Date(),
-                            metadata: { source: 'agent_manager' },
-                        };
-                        session.messages.push(msg);
-                        db.addMessage(chatId, msg);
-                    }
-                },
-                undefined, // existingSessionId
-                taskMd || session.taskMd // Use existing taskMd if available
-            );
-
-            session.status = result.success ? 'completed' : 'error';
-            session.cursorSessionId = result.cursorSessionId;
-            
-            // Save final task.md if available
-            if (result.finalTaskMd) {
-                session.taskMd = result.finalTaskMd;
-            }
-            
-            db.updateSession({ 
-                id: chatId, 
-                status: session.status, 
-                cursorSessionId: result.cursorSessionId,
-                taskMd: session.taskMd,
-            });
-
-            // Send completion event
-            onProgress?.({
-                type: 'chat_complete',
-                content: JSON.stringify({
+                // Forward progress to frontend
+                onProgress?.({
+                    type: 'chat_update',
+                    content: JSON.stringify(event),
                     chatId,
-                    success: result.success,
-                    turns: result.turns,
-                }),
-                chatId,
-                chatStatus: session.status,
-            });
-
-            console.log(`[Chat ${chatId}] Completed: success=${result.success}, turns=${result.turns}`);
-        } catch (error) {
-            session.status = 'error';
-            db.updateSession({ id: chatId, status: 'error' });
-
-            onProgress?.({
-                type: 'chat_complete',
-                content: JSON.stringify({
+                    chatStatus: event.status,
+                });
+            },
+            onComplete: (result) => {
+                onProgress?.({
+                    type: 'chat_complete',
+                    content: JSON.stringify({ chatId, ...result }),
                     chatId,
-                    success: false,
-                    error: String(error),
-                }),
-                chatId,
-                chatStatus: 'error',
-            });
+                    chatStatus: result.success ? 'completed'
+                        : result.cancelled ? 'cancelled'
+                        : result.rejected || result.budgetExceeded ? 'idle'
+                        : 'error',
+                });
+                console.log(`[Chat ${chatId}] Completed: success=${result.success}, turns=${result.turns}`);
+            },
+        };
+    }
 
-            console.error(`[Chat ${chatId}] Error:`, error);
-        }
+    /**
+     * Forward a plan's new chats, their progress and the graph state to the orchestrator stream
+     */
+    private planListener(onProgress?: ProgressCallback, onSettled?: (plan: TaskPlan) => void): PlanListener {
+        return {
+            onNodeStarted: (plan, node, session) => {
+                this.createdChats.push(session.id);
+                const initialMessage = session.messages[0];
+                onProgress?.({
+                    type: 'chat_created',
+                    content: JSON.stringify({
+                        chatId: session.id,
+                        title: session.title,
+                        task: initialMessage?.content,
+                        taskMd: session.taskMd,
+                        initialMessage,
+                        planId: plan.id,
+                    }),
+                    chatId: session.id,
+                });
+            },
+            jobListener: (node) => (node.chatId ? this.chatJobListener(node.chatId, onProgress) : undefined),
+            onPlanUpdate: (plan) => {
+                onProgress?.({ type: 'plan_update', content: JSON.stringify(plan) });
+                if (plan.status !== 'running') onSettled?.(plan);
+            },
+        };
     }
 
     /**
@@ -642,64 +955,12 @@ _Add any additional notes or requirements here_
         const session = chatStore.get(chatId);
         if (!session) return;
 
-        try {
-            const result = await this.chatManager.runConversation(
-                task,
-                workdir,
-                (event) => {
-                    // Update session status
-                    if (event.status) {
-                        session.status = event.status;
-                        db.updateSession({ id: chatId, status: event.status });
-                    }
-
-                    // Store messages
-                    if (event.type === 'cursor_response' && event.content) {
-                        const msg: Message = {
-                            id: generateId(),
-                            role: 'assistant',
-                            content: event.content,
-                            timestamp: new Date(),
-                            metadata: { source: 'cursor' },
-                        };
-                        session.messages.push(msg);
-                        db.addMessage(chatId, msg);
-                    } else if (event.type === 'thinking' && event.content) {
-                        // Agent Manager's thinking - use 'system' role with thinking source
-                        const msg: Message = {
-                            id: generateId(),
-                            role: 'system',
-                            content: event.content,
-                            timestamp: new Date(),
-                            metadata: { source: 'thinking' },
-                        };
-                        session.messages.push(msg);
-                        db.addMessage(chatId, msg);
-                    } else if (event.type === 'ai_followup' && event.content) {
-                        // Agent Manager's response - use 'system' role for UI display
-                        const msg: Message = {
-                            id: generateId(),
-                            role: 'system',
-                            content: event.content,
-                            timestamp: new Date(),
-                            metadata: { source: 'agent_manager' },
-                        };
-                        session.messages.push(msg);
-                        db.addMessage(chatId, msg);
-                    }
-                }
-            );
-
-            session.status = result.success ? 'completed' : 'error';
-            session.cursorSessionId = result.cursorSessionId;
-            db.updateSession({ id: chatId, status: session.status, cursorSessionId: result.cursorSessionId });
-
-            console.log(`[Background Chat ${chatId}] Completed: success=${result.success}, turns=${result.turns}`);
-        } catch (error) {
-            session.status = 'error';
-            db.updateSession({ id: chatId, status: 'error' });
-            console.error(`[Background Chat ${chatId}] Error:`, error);
-        }
+        const result = await enqueueConversationJob(
+            { sessionId: chatId, task, workdir, backend: session.backend },
+            undefined,
+            this.chatManager
+        );
+        console.log(`[Background Chat ${chatId}] Completed: success=${result.success}, turns=${result.turns}`);
     }
 
     /**
@@ -775,6 +1036,8 @@ _Add any additional notes or requirements here_
      */
     reset(): void {
         this.conversationHistory = [];
+        this.historySummary = undefined;
+        this.historyCompactions = 0;
         this.createdChats = [];
     }
 }
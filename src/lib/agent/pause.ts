@@ -0,0 +1,116 @@
+/**
+ * Pause & Resume
+ * A pause request is picked up by the Agent Manager loop between turns: the current Cursor
+ * turn finishes, its decision is checkpointed, and the loop waits here until resumed (web UI /
+ * Telegram), optionally with a human instruction replacing the Agent Manager's next message.
+ */
+import { chatStore } from './chat-store';
+import { Message, ResumeRequest } from '../types';
+import * as db from '../db';
+import { generateId } from '../utils/id';
+
+interface PauseWaiter {
+    turn: number;
+    resolve: (request: ResumeRequest) => void;
+}
+
+const globalForPause = globalThis as unknown as {
+    pauseRequests: Set<string> | undefined;
+    pauseWaiters: Map<string, PauseWaiter> | undefined;
+};
+
+// Sessions whose loop should pause at the next turn boundary
+const requests = globalForPause.pauseRequests ?? new Set<string>();
+globalForPause.pauseRequests = requests;
+
+// Paused loops, by session ID
+const waiters = globalForPause.pauseWaiters ?? new Map<string, PauseWaiter>();
+globalForPause.pauseWaiters = waiters;
+
+/**
+ * Ask the session's loop to pause once the current turn is done
+ */
+export function requestPause(sessionId: string): void {
+    requests.add(sessionId);
+    console.log(`[Pause] Session ${sessionId}: pause requested`);
+}
+
+export function isPauseRequested(sessionId: string): boolean {
+    return requests.has(sessionId);
+}
+
+/**
+ * Mark the session paused and wait until it is resumed (or cancelled)
+ */
+export function waitForResume(sessionId: string, turn: number): Promise<ResumeRequest> {
+    requests.delete(sessionId);
+    db.updateSession({ id: sessionId, status: 'paused' });
+    const cached = chatStore.get(sessionId);
+    if (cached) cached.status = 'paused';
+    console.log(`[Pause] Session ${sessionId}: paused after turn ${turn}`);
+
+    return new Promise<ResumeRequest>((resolve) => {
+        waiters.set(sessionId, { turn, resolve });
+    });
+}
+
+/**
+ * Record a resume in the chat (as a user message) and mark the session running again
+ */
+export function recordResume(sessionId: string, request: ResumeRequest): Message {
+    const instruction = request.message?.trim();
+    const message: Message = {
+        id: generateId(),
+        role: 'user',
+        content: instruction ? `▶️ ${instruction}` : '▶️ Resumed',
+        timestamp: new Date(),
+        metadata: { source: 'user' },
+    };
+    db.addMessage(sessionId, message);
+    db.updateSession({ id: sessionId, status: 'running' });
+
+    const cached = chatStore.get(sessionId);
+    if (cached) {
+        cached.status = 'running';
+        cached.messages.push(message);
+    }
+    return message;
+}
+
+/**
+ * Let a loop paused in this process continue
+ * @throws if no loop in this process is paused in the session
+ */
+export function resumeSession(sessionId: string, request: ResumeRequest): Message {
+    const waiter = waiters.get(sessionId);
+    if (!waiter) {
+        throw new Error('Chat is not paused');
+    }
+
+    waiters.delete(sessionId);
+    const message = recordResume(sessionId, request);
+    console.log(`[Pause] Session ${sessionId}: resumed after turn ${waiter.turn}${request.message?.trim() ? ' with an instruction' : ''}`);
+    waiter.resolve(request.message?.trim() ? { message: request.message.trim() } : {});
+    return message;
+}
+
+/**
+ * Drop a pause request and release a paused loop without resuming it (the session was aborted)
+ * @returns true if a loop was paused
+ */
+export function cancelPause(sessionId: string): boolean {
+    requests.delete(sessionId);
+    const waiter = waiters.get(sessionId);
+    if (!waiter) return false;
+
+    waiters.delete(sessionId);
+    waiter.resolve({});
+    return true;
+}
+
+/**
+ * Whether a loop in this process is paused in the session
+ */
+export function isPaused(sessionId: string): boolean {
+    return waiters.has(sessionId);
+}
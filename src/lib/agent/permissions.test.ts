@@ -0,0 +1,74 @@
+import { TEST_DATA_DIR } from '../testing/temp-data';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdirSync } from 'fs';
+import { join } from 'path';
+import { checkToolCall, recordPolicyViolation, resolveAgentPermissions } from './permissions';
+import { createProject } from '../projects';
+import { getSettings, saveSettings } from '../settings';
+import { AgentPermissions, ChatSession, Project } from '../types';
+import * as db from '../db';
+
+saveSettings({ ...getSettings(), agentPermissions: { force: true, allowedTools: ['read', 'grep', 'write', 'shell'] } });
+
+function project(name: string, permissions?: AgentPermissions): Project {
+    const rootPath = join(TEST_DATA_DIR, name);
+    mkdirSync(rootPath, { recursive: true });
+    return createProject({ name, rootPath, permissions });
+}
+
+// A chat owned by a user with the given permissions
+function chatOwnedBy(userId: string, permissions?: AgentPermissions): string {
+    db.createUser({ id: userId, username: userId, role: 'member', createdAt: new Date() }, 'hash');
+    db.updateUserAgentPermissions(userId, permissions);
+    const session: ChatSession = { id: `chat-${userId}`, title: 'Chat', createdAt: new Date(), status: 'idle', messages: [], ownerId: userId };
+    db.createSession(session);
+    return session.id;
+}
+
+test('a project overrides the settings --force default', () => {
+    assert.equal(resolveAgentPermissions(project('defaults')).force, true);
+    assert.equal(resolveAgentPermissions(project('careful', { force: false })).force, false);
+});
+
+test("the owner's restrictions win over the project and settings", () => {
+    const permissive = project('permissive', { force: true, planOnly: false, allowedTools: ['read', 'grep', 'write'] });
+    const chatId = chatOwnedBy('restricted', { force: false, planOnly: true, allowedTools: ['read', 'write'] });
+
+    assert.deepEqual(resolveAgentPermissions(permissive, chatId), { force: false, planOnly: true, allowedTools: ['read', 'write'] });
+});
+
+test("an owner can't lift restrictions the project sets", () => {
+    const strict = project('strict', { force: false, planOnly: true, allowedTools: ['read'] });
+    const chatId = chatOwnedBy('eager', { force: true, planOnly: false, allowedTools: ['read', 'write', 'shell'] });
+
+    assert.deepEqual(resolveAgentPermissions(strict, chatId), { force: false, planOnly: true, allowedTools: ['read'] });
+});
+
+test('plan-only mode refuses write tools and allows read-only ones', () => {
+    const planOnly = { force: true, planOnly: true };
+    assert.equal(checkToolCall(planOnly, 'write'), 'write is not allowed in plan-only mode');
+    assert.equal(checkToolCall(planOnly, 'shell'), 'shell is not allowed in plan-only mode');
+    assert.equal(checkToolCall(planOnly, 'read'), null);
+    assert.equal(checkToolCall(planOnly, 'Grep'), null);
+    assert.equal(checkToolCall({ force: true, planOnly: false }, 'write'), null);
+});
+
+test('the allowed tool list refuses anything outside it', () => {
+    assert.equal(checkToolCall({ force: true, planOnly: false, allowedTools: ['read'] }, 'shell'), 'shell is not an allowed tool (allowed: read)');
+    assert.equal(checkToolCall({ force: true, planOnly: false, allowedTools: [] }, 'read'), 'read is not allowed (no tools are)');
+});
+
+test('recordPolicyViolation stores the violation and tells the chat', () => {
+    const session: ChatSession = { id: 'chat-violation', title: 'Chat', createdAt: new Date(), status: 'running', messages: [] };
+    db.createSession(session);
+
+    recordPolicyViolation(session.id, 'write', 'write is not allowed in plan-only mode');
+
+    const violations = db.getPolicyViolations(session.id);
+    assert.equal(violations.length, 1);
+    assert.equal(violations[0].sessionId, session.id);
+    assert.equal(violations[0].toolName, 'write');
+    assert.equal(violations[0].reason, 'write is not allowed in plan-only mode');
+    assert.equal(db.getMessages(session.id).at(-1)?.content, '🛑 Stopped the agent: write is not allowed in plan-only mode.');
+});
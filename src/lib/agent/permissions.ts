@@ -0,0 +1,121 @@
+/**
+ * Agent Permissions
+ * Whether Cursor runs with --force, in plan-only (read-only) mode, and which tool types it may
+ * call. Settings hold the default, a project can set its own, and the chat owner's permissions
+ * can only restrict further. A tool call outside the permissions stops the turn and is
+ * recorded on the session.
+ */
+import { chatStore } from './chat-store';
+import { AgentPermissions, Message, PolicyViolation, Project } from '../types';
+import { audit } from '../audit';
+import * as db from '../db';
+import { getSettings } from '../settings';
+import { generateId } from '../utils/id';
+
+// Tools that only look at the workdir, allowed in plan-only mode
+export const READ_ONLY_TOOLS = ['read', 'ls', 'glob', 'grep', 'semSearch', 'updateTodos'];
+
+// Permissions with every layer applied
+export interface EffectiveAgentPermissions {
+    force: boolean;
+    planOnly: boolean;
+    allowedTools?: string[]; // Unset allows every tool
+}
+
+/**
+ * Check permissions from a request body or the settings file
+ * @throws Error describing the first invalid field
+ */
+export function parseAgentPermissions(input: unknown): AgentPermissions | undefined {
+    if (input === undefined || input === null) return undefined;
+    if (typeof input !== 'object' || Array.isArray(input)) {
+        throw new Error('Agent permissions must be an object');
+    }
+    const { force, planOnly, allowedTools } = input as Record<string, unknown>;
+    if (force !== undefined && typeof force !== 'boolean') {
+        throw new Error('force must be true or false');
+    }
+    if (planOnly !== undefined && typeof planOnly !== 'boolean') {
+        throw new Error('planOnly must be true or false');
+    }
+    if (allowedTools !== undefined && (!Array.isArray(allowedTools) || allowedTools.some((tool) => typeof tool !== 'string'))) {
+        throw new Error('allowedTools must be a list of tool types');
+    }
+
+    const permissions: AgentPermissions = {};
+    if (force !== undefined) permissions.force = force;
+    if (planOnly !== undefined) permissions.planOnly = planOnly;
+    if (allowedTools !== undefined) {
+        permissions.allowedTools = (allowedTools as string[]).map((tool) => tool.trim()).filter(Boolean);
+    }
+    return Object.keys(permissions).length > 0 ? permissions : undefined;
+}
+
+function sameTool(a: string, b: string): boolean {
+    return a.toLowerCase() === b.toLowerCase();
+}
+
+/**
+ * Permissions for an agent run in a project for a chat: the project's --force choice
+ * overrides the settings default; plan-only and tool lists from any layer (the owner's
+ * included) all apply
+ */
+export function resolveAgentPermissions(project: Project | null, chatId?: string): EffectiveAgentPermissions {
+    const ownerId = chatId ? db.getSessionMeta(chatId)?.ownerId : undefined;
+    const owner = ownerId ? db.getUser(ownerId) : null;
+    const defaults = getSettings().agentPermissions;
+    const layers = [defaults, project?.permissions, owner?.agentPermissions].filter(
+        (layer): layer is AgentPermissions => Boolean(layer)
+    );
+
+    let allowedTools: string[] | undefined;
+    for (const layer of layers) {
+        if (!layer.allowedTools) continue;
+        allowedTools = allowedTools
+            ? allowedTools.filter((tool) => layer.allowedTools!.some((other) => sameTool(tool, other)))
+            : layer.allowedTools;
+    }
+
+    return {
+        force: (project?.permissions?.force ?? defaults.force ?? true) && owner?.agentPermissions?.force !== false,
+        planOnly: layers.some((layer) => layer.planOnly),
+        allowedTools,
+    };
+}
+
+/**
+ * Why a tool call isn't allowed, or null when it is
+ */
+export function checkToolCall(permissions: EffectiveAgentPermissions, toolName: string): string | null {
+    if (permissions.planOnly && !READ_ONLY_TOOLS.some((tool) => sameTool(tool, toolName))) {
+        return `${toolName} is not allowed in plan-only mode`;
+    }
+    if (permissions.allowedTools && !permissions.allowedTools.some((tool) => sameTool(tool, toolName))) {
+        return permissions.allowedTools.length > 0
+            ? `${toolName} is not an allowed tool (allowed: ${permissions.allowedTools.join(', ')})`
+            : `${toolName} is not allowed (no tools are)`;
+    }
+    return null;
+}
+
+/**
+ * Record a stopped tool call on the session, with a system message in the chat
+ */
+export function recordPolicyViolation(sessionId: string | undefined, toolName: string, reason: string): void {
+    console.warn(`[Permissions] ${sessionId ? `Session ${sessionId}: ` : ''}stopped the agent, ${reason}`);
+    audit('policy_violation', { sessionId, details: { toolName, reason } });
+    if (!sessionId || !db.sessionExists(sessionId)) return;
+
+    const violation: PolicyViolation = { id: generateId(), sessionId, toolName, reason, createdAt: new Date() };
+    db.addPolicyViolation(violation);
+
+    const message: Message = {
+        id: generateId(),
+        role: 'system',
+        content: `🛑 Stopped the agent: ${reason}.`,
+        timestamp: new Date(),
+        metadata: { source: 'system' },
+    };
+    db.addMessage(sessionId, message);
+    chatStore.get(sessionId)?.messages.push(message);
+}
@@ -0,0 +1,28 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import Anthropic from '@anthropic-ai/sdk';
+import { withApiRetry } from './retry';
+
+const POLICY = { maxAttempts: 3, baseDelayMs: 1, maxDelayMs: 1 };
+
+test('withApiRetry retries transient API errors', async () => {
+    let calls = 0;
+    const result = await withApiRetry(async () => {
+        calls++;
+        if (calls < 3) throw new Anthropic.APIConnectionError({ message: 'Connection error.' });
+        return 'ok';
+    }, { policy: POLICY });
+    assert.equal(result, 'ok');
+    assert.equal(calls, 3);
+});
+
+test('withApiRetry rethrows instead of retrying once canRetry says no', async () => {
+    let calls = 0;
+    let streamed = false;
+    await assert.rejects(withApiRetry(async () => {
+        calls++;
+        streamed = true; // Some output went out before the call failed
+        throw new Anthropic.APIConnectionError({ message: 'Connection error.' });
+    }, { policy: POLICY, canRetry: () => !streamed }), Anthropic.APIConnectionError);
+    assert.equal(calls, 1);
+});
@@ -0,0 +1,178 @@
+/**
+ * Retry Policy
+ * Transient failures (rate limits, an overloaded API, dropped connections, a crashed agent
+ * process) are retried with exponential backoff; failures that would just happen again
+ * (bad credentials, an invalid request, a missing agent binary) are not.
+ */
+import Anthropic from '@anthropic-ai/sdk';
+import { CursorTaskResult, RetryPolicy } from '../types';
+import { getSettings } from '../settings';
+
+export interface RetryClassification {
+    retryable: boolean;
+    reason: string; // Short description for logs and the chat
+    retryAfterMs?: number; // Wait the error asked for (Retry-After, "try again in 30s")
+}
+
+export interface RetryAttempt {
+    attempt: number; // The attempt about to be made (2 = first retry)
+    maxAttempts: number;
+    delayMs: number;
+    reason: string;
+}
+
+// Agent failures that are worth waiting out, even when they also match a fatal pattern below
+const TRANSIENT_AGENT_ERRORS = [
+    /rate.?limit|too many requests|\b429\b/i,
+    /overloaded|service unavailable|bad gateway|internal server error|\b50[0-4]\b|\b529\b/i,
+    /ECONNRESET|ECONNREFUSED|ETIMEDOUT|EAI_AGAIN|socket hang up|network error|fetch failed/i,
+];
+
+// Agent failures that won't go away by retrying
+const FATAL_AGENT_ERRORS = [
+    /not (logged|signed) in|unauthori[sz]ed|authentication|invalid api key/i,
+    /permission denied|EACCES/i,
+    /ENOENT|command not found/i,
+    /(invalid|unknown) model/i,
+    /usage limit|quota|billing/i,
+    /registered project|outside project|project was removed/i,
+];
+
+// Stream error types sent by the API mid-response (no HTTP status)
+const TRANSIENT_API_ERROR_TYPES = ['overloaded_error', 'rate_limit_error', 'api_error'];
+
+function firstLine(text: string): string {
+    const line = text.trim().split('\n')[0] ?? '';
+    return line.length > 200 ? `${line.substring(0, 200)}...` : line;
+}
+
+// "retry after 30s", "try again in 12 seconds"
+function parseRetryAfter(text: string): number | undefined {
+    const match = text.match(/(?:retry|try again)\s+(?:after|in)\s+(\d+(?:\.\d+)?)\s*(ms|s|sec|seconds?|m|min|minutes?)\b/i);
+    if (!match) return undefined;
+    const value = Number(match[1]);
+    const unit = match[2].toLowerCase();
+    if (unit === 'ms') return value;
+    if (unit.startsWith('m')) return value * 60_000;
+    return value * 1000;
+}
+
+/**
+ * Whether a failed Cursor execution should be tried again
+ * Cancelled, timed-out and policy-stopped executions never are (timeouts go to the Agent
+ * Manager instead); an unrecognized non-zero exit is treated as transient.
+ */
+export function classifyCursorFailure(result: CursorTaskResult): RetryClassification {
+    const error = result.error || 'Agent failed';
+    const reason = firstLine(error);
+    if (result.success || result.cancelled || result.timeout || result.policyViolation) {
+        return { retryable: false, reason };
+    }
+    if (TRANSIENT_AGENT_ERRORS.some((pattern) => pattern.test(error))) {
+        return { retryable: true, reason, retryAfterMs: parseRetryAfter(error) };
+    }
+    if (FATAL_AGENT_ERRORS.some((pattern) => pattern.test(error))) {
+        return { retryable: false, reason };
+    }
+    return { retryable: true, reason };
+}
+
+/**
+ * Whether an Anthropic API error should be tried again (429, 5xx / 529 overloaded, connection errors)
+ */
+export function classifyApiError(error: unknown): RetryClassification {
+    const reason = firstLine(error instanceof Error ? error.message : String(error));
+
+    if (!(error instanceof Anthropic.APIError) || error instanceof Anthropic.APIUserAbortError) {
+        return { retryable: false, reason };
+    }
+    if (error instanceof Anthropic.APIConnectionError) {
+        return { retryable: true, reason };
+    }
+
+    const retryAfter = Number(error.headers?.get('retry-after'));
+    const retryAfterMs = retryAfter > 0 ? retryAfter * 1000 : undefined;
+    const status = error.status;
+    if (status === 408 || status === 409 || status === 429 || (status !== undefined && status >= 500)) {
+        return { retryable: true, reason, retryAfterMs };
+    }
+
+    const body = error.error as { error?: { type?: string } } | undefined;
+    if (status === undefined && TRANSIENT_API_ERROR_TYPES.includes(body?.error?.type ?? '')) {
+        return { retryable: true, reason };
+    }
+    return { retryable: false, reason };
+}
+
+/**
+ * Backoff before the given attempt: baseDelayMs doubled per retry with some jitter,
+ * at least what the error asked for, never more than maxDelayMs
+ */
+export function retryDelay(attempt: number, policy: RetryPolicy, retryAfterMs?: number): number {
+    const backoff = policy.baseDelayMs * 2 ** Math.max(0, attempt - 2);
+    const jittered = backoff * (0.8 + Math.random() * 0.4);
+    return Math.round(Math.min(Math.max(jittered, retryAfterMs ?? 0), policy.maxDelayMs));
+}
+
+/**
+ * Wait, returning early if the signal is aborted
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve) => {
+        if (signal?.aborted) return resolve();
+        const done = () => {
+            clearTimeout(timer);
+            signal?.removeEventListener('abort', done);
+            resolve();
+        };
+        const timer = setTimeout(done, ms);
+        signal?.addEventListener('abort', done, { once: true });
+    });
+}
+
+/**
+ * Chat line for a retry, e.g. "🔁 Agent Manager call failed (429 ...), retrying in 4s (attempt 2/3)"
+ */
+export function formatRetry(what: string, retry: RetryAttempt): string {
+    return `🔁 ${what} failed (${retry.reason}), retrying in ${Math.ceil(retry.delayMs / 1000)}s (attempt ${retry.attempt}/${retry.maxAttempts})`;
+}
+
+/**
+ * Run an Anthropic call, retrying transient API errors under the retry policy
+ * The last error (or the first non-retryable one) is rethrown; an abort stops the retries.
+ * canRetry lets the caller refuse a retry once the failed call had effects a second
+ * attempt would repeat (e.g. text already streamed to the client).
+ */
+export async function withApiRetry<T>(
+    call: () => Promise<T>,
+    options: {
+        policy?: RetryPolicy; // Defaults to the retry setting
+        signal?: AbortSignal;
+        onRetry?: (retry: RetryAttempt) => void;
+        canRetry?: () => boolean;
+    } = {}
+): Promise<T> {
+    const policy = options.policy ?? getSettings().retry;
+
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await call();
+        } catch (error) {
+            const classification = classifyApiError(error);
+            if (!classification.retryable || attempt >= policy.maxAttempts || options.signal?.aborted || options.canRetry?.() === false) {
+                throw error;
+            }
+
+            const retry: RetryAttempt = {
+                attempt: attempt + 1,
+                maxAttempts: policy.maxAttempts,
+                delayMs: retryDelay(attempt + 1, policy, classification.retryAfterMs),
+                reason: classification.reason,
+            };
+            console.warn(`[Retry] ${classification.reason}, retrying in ${retry.delayMs}ms (attempt ${retry.attempt}/${retry.maxAttempts})`);
+            options.onRetry?.(retry);
+            await sleep(retry.delayMs, options.signal);
+            if (options.signal?.aborted) throw error;
+        }
+    }
+}
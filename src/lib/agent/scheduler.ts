@@ -0,0 +1,205 @@
+/**
+ * Cursor Process Scheduler
+ * Gatekeeper in front of every agent spawn: a global concurrency limit, a per-workdir limit
+ * (so two agents don't edit the same repo at once unless allowed), and priority ordering.
+ * Limits come from settings and are re-read on every scheduling pass.
+ */
+import { resolve } from 'path';
+import { getSettings } from '../settings';
+
+export type CursorCallPriority = 'high' | 'normal' | 'low';
+
+const PRIORITY_RANK: Record<CursorCallPriority, number> = { high: 0, normal: 1, low: 2 };
+
+export interface CursorSlotRequest {
+    task: string;
+    workdir: string;
+    chatId?: string;
+    chatTitle?: string;
+    priority?: CursorCallPriority;
+    onQueued?: (position: number) => void; // Called if the request has to wait
+    signal?: AbortSignal; // Leave the queue when aborted
+}
+
+export interface CursorSlot {
+    release(): void;
+}
+
+export interface QueuedCursorCall {
+    id: string;
+    chatId?: string;
+    chatTitle?: string;
+    task: string;
+    workdir: string;
+    priority: CursorCallPriority;
+    position: number; // 1-based position in the queue
+    queuedAt: Date;
+    waitingForWorkdir: boolean; // Global capacity is free but the workdir is busy
+}
+
+interface Waiter {
+    id: string;
+    request: CursorSlotRequest & { priority: CursorCallPriority };
+    workdirKey: string;
+    queuedAt: Date;
+    seq: number;
+    admit: () => void;
+    reject: (error: Error) => void;
+}
+
+export class CursorCallCancelledError extends Error {
+    constructor(message = 'Cancelled while waiting for an agent slot') {
+        super(message);
+        this.name = 'CursorCallCancelledError';
+    }
+}
+
+// Use globalThis for persistence across hot reloads
+const globalForScheduler = globalThis as unknown as {
+    cursorScheduler: {
+        waiting: Waiter[];
+        running: Map<string, string>; // slot id -> workdir key
+        seq: number;
+    } | undefined;
+};
+
+const state = globalForScheduler.cursorScheduler ?? { waiting: [], running: new Map<string, string>(), seq: 0 };
+globalForScheduler.cursorScheduler = state;
+
+function getLimits(): { maxConcurrent: number; maxPerWorkdir: number } {
+    const { concurrency } = getSettings();
+    return {
+        maxConcurrent: Math.max(1, concurrency?.maxConcurrent || 1),
+        maxPerWorkdir: Math.max(1, concurrency?.maxPerWorkdir || 1),
+    };
+}
+
+function runningInWorkdir(workdirKey: string): number {
+    let count = 0;
+    for (const key of state.running.values()) {
+        if (key === workdirKey) count++;
+    }
+    return count;
+}
+
+function sortedWaiting(): Waiter[] {
+    return [...state.waiting].sort(
+        (a, b) => PRIORITY_RANK[a.request.priority] - PRIORITY_RANK[b.request.priority] || a.seq - b.seq
+    );
+}
+
+/**
+ * Admit as many waiters as the limits allow
+ * A waiter blocked on its workdir doesn't hold up waiters for other workdirs
+ */
+function pump(): void {
+    const { maxConcurrent, maxPerWorkdir } = getLimits();
+
+    for (const waiter of sortedWaiting()) {
+        if (state.running.size >= maxConcurrent) break;
+        if (runningInWorkdir(waiter.workdirKey) >= maxPerWorkdir) continue;
+
+        state.waiting = state.waiting.filter((w) => w !== waiter);
+        state.running.set(waiter.id, waiter.workdirKey);
+        waiter.admit();
+    }
+}
+
+/**
+ * Wait for a free agent slot
+ * Resolves once the caller may spawn; the slot must be released when the process exits.
+ * Rejects with CursorCallCancelledError if cancelled (or aborted) while still queued.
+ */
+export function acquireCursorSlot(request: CursorSlotRequest): Promise<CursorSlot> {
+    const id = `slot_${Date.now().toString(36)}_${(++state.seq).toString(36)}`;
+    const normalized = { ...request, priority: request.priority || 'normal' };
+
+    return new Promise<CursorSlot>((resolvePromise, reject) => {
+        if (request.signal?.aborted) {
+            reject(new CursorCallCancelledError('Cancelled before an agent slot was free'));
+            return;
+        }
+
+        const onAbort = () => {
+            const waiting = state.waiting.some((w) => w.id === id);
+            state.waiting = state.waiting.filter((w) => w.id !== id);
+            if (waiting) reject(new CursorCallCancelledError());
+        };
+        request.signal?.addEventListener('abort', onAbort, { once: true });
+
+        let released = false;
+        const slot: CursorSlot = {
+            release: () => {
+                if (released) return;
+                released = true;
+                state.running.delete(id);
+                pump();
+            },
+        };
+
+        state.waiting.push({
+            id,
+            request: normalized,
+            workdirKey: resolve(request.workdir),
+            queuedAt: new Date(),
+            seq: state.seq,
+            admit: () => {
+                request.signal?.removeEventListener('abort', onAbort);
+                resolvePromise(slot);
+            },
+            reject: (error) => {
+                request.signal?.removeEventListener('abort', onAbort);
+                reject(error);
+            },
+        });
+        pump();
+
+        const position = sortedWaiting().findIndex((w) => w.id === id) + 1;
+        if (position > 0) {
+            console.log(`[Scheduler] Queued ${id} at position ${position} (priority=${normalized.priority}, running=${state.running.size})`);
+            request.onQueued?.(position);
+        }
+    });
+}
+
+/**
+ * Drop queued (not yet running) calls for a chat
+ * @returns number of calls removed from the queue
+ */
+export function cancelQueuedCursorCalls(chatId: string): number {
+    const cancelled = state.waiting.filter((w) => w.request.chatId === chatId);
+    state.waiting = state.waiting.filter((w) => w.request.chatId !== chatId);
+    for (const waiter of cancelled) {
+        waiter.reject(new CursorCallCancelledError());
+    }
+    return cancelled.length;
+}
+
+/**
+ * Current queue in scheduling order
+ */
+export function getQueuedCursorCalls(): QueuedCursorCall[] {
+    const { maxConcurrent, maxPerWorkdir } = getLimits();
+    return sortedWaiting().map((waiter, index) => ({
+        id: waiter.id,
+        chatId: waiter.request.chatId,
+        chatTitle: waiter.request.chatTitle,
+        task: waiter.request.task.slice(0, 200), // Truncate for display
+        workdir: waiter.request.workdir,
+        priority: waiter.request.priority,
+        position: index + 1,
+        queuedAt: waiter.queuedAt,
+        waitingForWorkdir: state.running.size < maxConcurrent && runningInWorkdir(waiter.workdirKey) >= maxPerWorkdir,
+    }));
+}
+
+/**
+ * Queue position for a chat's earliest waiting call (1-based), or undefined if none is queued
+ */
+export function getQueuePosition(chatId: string): number | undefined {
+    return getQueuedCursorCalls().find((c) => c.chatId === chatId)?.position;
+}
+
+export function getSchedulerLimits() {
+    return { ...getLimits(), running: state.running.size, queued: state.waiting.length };
+}
@@ -0,0 +1,55 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { CursorStreamDecoder } from './stream-decoder';
+
+// Text deltas and the decoder's content after feeding a transcript in small chunks, like stdout
+function decode(fixture: string): { deltas: string[]; content: string; toolCalls: string[] } {
+    const transcript = readFileSync(join(__dirname, 'fixtures', 'stream-decoder', fixture), 'utf-8');
+    const decoder = new CursorStreamDecoder();
+    const deltas: string[] = [];
+    for (let i = 0; i < transcript.length; i += 64) {
+        for (const event of decoder.push(transcript.slice(i, i + 64))) {
+            if (event.type === 'text_delta') deltas.push(event.text);
+        }
+    }
+    decoder.flush();
+    return { deltas, content: decoder.content, toolCalls: decoder.toolCalls };
+}
+
+test('partial output: the cumulative copy of each segment adds nothing', () => {
+    const { deltas, content, toolCalls } = decode('partial-segments.jsonl');
+    assert.deepEqual(deltas, ["I'll", ' read the file', ' first.', 'Now', ' adding the greeting.', 'Added', ' the greeting.']);
+    assert.equal(content, "I'll read the file first.Now adding the greeting.Added the greeting.");
+    assert.deepEqual(toolCalls, ['read', 'write']);
+});
+
+test('partial output: a line the model repeats in later segments is kept each time', () => {
+    const { content } = decode('partial-repeats.jsonl');
+    assert.equal(content, 'Done.Done.Done.');
+});
+
+test('partial output: a final summary of the whole turn adds nothing', () => {
+    const { deltas, content } = decode('partial-summary.jsonl');
+    assert.equal(content, 'The change renames the handler.\n\nIt also adds a test.');
+    assert.equal(deltas.join(''), content);
+});
+
+test('partial output: text the deltas missed is taken from the complete message', () => {
+    const { deltas, content } = decode('partial-missed-delta.jsonl');
+    assert.deepEqual(deltas, ['Hello', ', world.']);
+    assert.equal(content, 'Hello, world.');
+});
+
+test('partial output: a complete message after a tool call with no deltas before it is new', () => {
+    const { deltas, content } = decode('partial-unstreamed-message.jsonl');
+    assert.deepEqual(deltas, ['Hello', 'Done']);
+    assert.equal(content, 'HelloDone');
+});
+
+test('without partial output every complete message is new, repeats included', () => {
+    const { deltas, content } = decode('complete-messages.jsonl');
+    assert.deepEqual(deltas, ['Done.', 'Done.']);
+    assert.equal(content, 'Done.Done.');
+});
@@ -0,0 +1,269 @@
+/**
+ * Cursor stream-json Decoder
+ * Turns raw `agent --output-format=stream-json` stdout into typed events
+ * Shared by executeCursorTask, CursorAgentSession and /api/chat so all paths dedup the same way
+ */
+import { CursorAgentMessage, ToolCallResult } from '../types';
+
+export type CursorStreamEvent =
+    | { type: 'session'; sessionId: string }
+    | { type: 'model'; model: string }
+    | { type: 'text_delta'; text: string }
+    | { type: 'thinking'; text: string }
+    | { type: 'tool_start'; toolName: string; params?: Record<string, unknown> }
+    | { type: 'tool_complete'; result: ToolCallResult }
+    | { type: 'result'; durationMs?: number; isError: boolean };
+
+/**
+ * Tool type of a tool_call message: its name, or the `<type>ToolCall` key Cursor wraps the
+ * call in (shellToolCall → shell)
+ */
+export function toolCallName(msg: CursorAgentMessage): string | null {
+    const toolCall = msg.tool_call;
+    if (!toolCall) return null;
+    if (toolCall.name) return toolCall.name;
+    const key = Object.keys(toolCall).find((k) => k.endsWith('ToolCall'));
+    return key ? key.slice(0, -'ToolCall'.length) : null;
+}
+
+/**
+ * Extract a typed tool result from a completed tool_call message
+ */
+export function extractToolResult(msg: CursorAgentMessage): ToolCallResult | null {
+    const toolCall = msg.tool_call;
+    if (!toolCall) return null;
+
+    if (toolCall.writeToolCall) {
+        const write = toolCall.writeToolCall;
+        return {
+            toolName: 'write',
+            path: write.args?.path,
+            success: !!write.result?.success,
+            linesCreated: write.result?.success?.linesCreated,
+            fileSize: write.result?.success?.fileSize,
+        };
+    }
+
+    if (toolCall.readToolCall) {
+        const read = toolCall.readToolCall;
+        return {
+            toolName: 'read',
+            path: read.args?.path,
+            success: !!read.result?.success,
+            linesRead: read.result?.success?.totalLines,
+        };
+    }
+
+    const toolName = toolCallName(msg);
+    if (toolName) {
+        return {
+            toolName,
+            success: true,
+        };
+    }
+
+    return null;
+}
+
+/**
+ * Format tool result for display
+ */
+export function formatToolResult(result: ToolCallResult): string {
+    const status = result.success ? '✅' : '❌';
+    const path = result.path ? ` ${result.path}` : '';
+
+    if (result.toolName === 'write' && result.linesCreated !== undefined) {
+        return `${status} Created${path} (${result.linesCreated} lines, ${result.fileSize} bytes)`;
+    }
+    if (result.toolName === 'read' && result.linesRead !== undefined) {
+        return `${status} Read${path} (${result.linesRead} lines)`;
+    }
+    return `${status} ${result.toolName}${path}`;
+}
+
+/**
+ * Streaming decoder for Cursor stream-json output
+ *
+ * With --stream-partial-output Cursor sends each `assistant` text delta as it arrives (those
+ * carry timestamp_ms), then repeats the whole segment (text since the last tool call/thinking
+ * block) as one complete message without it. Once a turn has streamed deltas, a complete
+ * message closes the segment and only the part the deltas didn't send is emitted. Without
+ * partial output every complete message is new text.
+ */
+export class CursorStreamDecoder {
+    private buffer = '';
+    private partialOutput = false; // The turn streams text deltas (--stream-partial-output)
+    private segment = ''; // Text the deltas sent since the segment started
+    private _content = '';
+    private _sessionId?: string;
+    private _model?: string;
+    private _toolCalls: string[] = [];
+    private _toolCallResults: ToolCallResult[] = [];
+    private _durationMs?: number;
+
+    get content(): string {
+        return this._content;
+    }
+
+    get sessionId(): string | undefined {
+        return this._sessionId;
+    }
+
+    get model(): string | undefined {
+        return this._model;
+    }
+
+    get toolCalls(): string[] {
+        return this._toolCalls;
+    }
+
+    get toolCallResults(): ToolCallResult[] {
+        return this._toolCallResults;
+    }
+
+    get durationMs(): number | undefined {
+        return this._durationMs;
+    }
+
+    /**
+     * Feed a raw stdout chunk; returns events for every complete line
+     */
+    push(chunk: string): CursorStreamEvent[] {
+        this.buffer += chunk;
+        const lines = this.buffer.split('\n');
+        this.buffer = lines.pop() || '';
+
+        const events: CursorStreamEvent[] = [];
+        for (const line of lines) {
+            events.push(...this.decodeLine(line));
+        }
+        return events;
+    }
+
+    /**
+     * Decode whatever is left in the buffer (call when stdout closes)
+     */
+    flush(): CursorStreamEvent[] {
+        const rest = this.buffer;
+        this.buffer = '';
+        return this.decodeLine(rest);
+    }
+
+    /**
+     * Decode a single stream-json line
+     */
+    decodeLine(line: string): CursorStreamEvent[] {
+        if (!line.trim()) return [];
+
+        let msg: CursorAgentMessage;
+        try {
+            msg = JSON.parse(line);
+        } catch {
+            // Ignore non-JSON lines
+            return [];
+        }
+        return this.decodeMessage(msg);
+    }
+
+    /**
+     * Decode an already-parsed Cursor message
+     */
+    decodeMessage(msg: CursorAgentMessage): CursorStreamEvent[] {
+        const events: CursorStreamEvent[] = [];
+
+        if (msg.session_id && !this._sessionId) {
+            this._sessionId = msg.session_id;
+            events.push({ type: 'session', sessionId: msg.session_id });
+        }
+
+        switch (msg.type) {
+            case 'system':
+                if (msg.subtype === 'init' && msg.model) {
+                    this._model = msg.model;
+                    events.push({ type: 'model', model: msg.model });
+                }
+                break;
+
+            case 'assistant': {
+                const text = (msg.message?.content || [])
+                    .filter((c) => c.type === 'text' && c.text)
+                    .map((c) => c.text)
+                    .join('');
+                const delta = msg.timestamp_ms !== undefined ? this.appendDelta(text) : this.appendMessage(text);
+                if (delta) {
+                    events.push({ type: 'text_delta', text: delta });
+                }
+                break;
+            }
+
+            case 'thinking':
+                if (msg.text) {
+                    this.endSegment();
+                    events.push({ type: 'thinking', text: msg.text });
+                }
+                break;
+
+            case 'tool_call': {
+                const toolName = toolCallName(msg);
+                if (msg.subtype === 'started' && toolName) {
+                    this.endSegment();
+                    this._toolCalls.push(toolName);
+                    events.push({
+                        type: 'tool_start',
+                        toolName,
+                        params: msg.tool_call?.params,
+                    });
+                } else if (msg.subtype === 'completed' && msg.tool_call) {
+                    this.endSegment();
+                    const result = extractToolResult(msg);
+                    if (result) {
+                        this._toolCallResults.push(result);
+                        events.push({ type: 'tool_complete', result });
+                    }
+                }
+                break;
+            }
+
+            case 'result':
+                this._durationMs = msg.duration_ms;
+                events.push({ type: 'result', durationMs: msg.duration_ms, isError: !!msg.is_error });
+                break;
+        }
+
+        return events;
+    }
+
+    /**
+     * A partial text delta: always new
+     */
+    private appendDelta(text: string): string {
+        this.partialOutput = true;
+        this.segment += text;
+        this._content += text;
+        return text;
+    }
+
+    /**
+     * A complete assistant message, returning the part not already sent as deltas
+     */
+    private appendMessage(text: string): string {
+        if (!this.partialOutput) {
+            this._content += text;
+            return text;
+        }
+
+        // The segment the deltas just sent, or the whole turn once more at the end; a message
+        // that repeats neither wasn't streamed at all
+        const streamed = this.segment && text.startsWith(this.segment) ? this.segment
+            : text.startsWith(this._content) ? this._content
+            : '';
+        const missed = text.slice(streamed.length);
+        this._content += missed;
+        this.endSegment();
+        return missed;
+    }
+
+    private endSegment(): void {
+        this.segment = '';
+    }
+}
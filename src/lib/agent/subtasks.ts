@@ -0,0 +1,160 @@
+/**
+ * Sub-task Chats
+ * Chat sessions the orchestrator creates for a piece of work (create_chat and task plan nodes)
+ */
+import { chatStore } from './chat-store';
+import { ChatSession, FileChange, Message, SubtaskReport, WorktreeInfo } from '../types';
+import { getSettings } from '../settings';
+import { audit } from '../audit';
+import { createWorktree } from '../git/worktree';
+import * as db from '../db';
+import { generateId } from '../utils/id';
+
+// Of a sub-task's final Cursor report, handed to dependent tasks and the orchestrator
+const SUMMARY_MAX_CHARS = 2000;
+
+export interface SubtaskChatInput {
+    title: string;
+    task: string;
+    workdir: string;
+    isolated?: boolean; // Defaults to the isolateSubtasks setting
+    ownerId?: string; // User the chat belongs to
+    projectId?: string; // Project the chat belongs to
+}
+
+export interface SubtaskChat {
+    session: ChatSession;
+    initialMessage: Message; // The task, as sent to Cursor
+    worktree?: WorktreeInfo;
+    isolationNote?: string; // Why isolation was asked for but not used
+}
+
+/**
+ * Generate task.md content for a sub-task
+ */
+export function generateTaskMd(title: string, task: string, workdir: string): string {
+    const now = new Date().toISOString();
+    return `# Task: ${title}
+
+## Description
+${task}
+
+## Context
+- **Working Directory**: \`${workdir}\`
+- **Created**: ${now}
+
+## Acceptance Criteria
+- [ ] Task completed as described
+- [ ] No errors or issues reported
+- [ ] Code follows project conventions
+
+## Notes
+_Add any additional notes or requirements here_
+`;
+}
+
+/**
+ * Create (and persist) a running chat for a sub-task, in its own worktree when isolated
+ * Sub-task chats are NOT orchestrator-managed, so they appear in the sidebar.
+ */
+export async function createSubtaskChat(input: SubtaskChatInput): Promise<SubtaskChat> {
+    const chatId = generateId();
+
+    // Optionally give the sub-task its own worktree so parallel tasks don't collide
+    let chatWorkdir = input.workdir;
+    let worktree: WorktreeInfo | undefined;
+    let isolationNote: string | undefined;
+    if (input.isolated ?? getSettings().isolateSubtasks) {
+        try {
+            const created = await createWorktree(input.workdir, chatId, input.title);
+            worktree = created.info;
+            chatWorkdir = created.workdir;
+        } catch (error) {
+            console.warn(`[Subtasks] Worktree isolation unavailable, using shared workdir:`, error);
+            isolationNote = `Isolation unavailable (${error instanceof Error ? error.message : String(error)}); running in the shared workdir.`;
+        }
+    }
+
+    const initialMessage: Message = {
+        id: generateId(),
+        role: 'user',
+        content: input.task,
+        timestamp: new Date(),
+        metadata: { source: 'orchestrator' },
+    };
+
+    const session: ChatSession = {
+        id: chatId,
+        title: input.title,
+        createdAt: new Date(),
+        status: 'running',
+        messages: [initialMessage],
+        orchestrateTaskId: chatId, // Mark that this was created by orchestrator
+        workdir: chatWorkdir,
+        taskMd: generateTaskMd(input.title, input.task, chatWorkdir),
+        worktree,
+        ownerId: input.ownerId,
+        projectId: input.projectId,
+    };
+    chatStore.set(chatId, session);
+    db.createSession(session); // Also saves the initial message
+    audit('session_started', {
+        userId: input.ownerId,
+        sessionId: chatId,
+        projectId: input.projectId,
+        details: { source: 'orchestrator', workdir: chatWorkdir, title: input.title },
+    });
+
+    return { session, initialMessage, worktree, isolationNote };
+}
+
+/**
+ * Cursor's final report in the chat (plus the branch, when the task ran in a worktree)
+ * Empty if Cursor never answered.
+ */
+export function summarizeSubtask(chatId: string): string {
+    const report = db.getRecentMessages(chatId, 20)
+        .reverse()
+        .find((m) => m.metadata?.source === 'cursor' && m.content.trim());
+    const parts: string[] = [];
+    if (report) {
+        const content = report.content.trim();
+        parts.push(content.length > SUMMARY_MAX_CHARS ? `${content.substring(0, SUMMARY_MAX_CHARS)}...` : content);
+    }
+
+    const worktree = db.getSessionMeta(chatId)?.worktree;
+    if (worktree) {
+        parts.push(`Changes are on branch \`${worktree.branch}\` (worktree ${worktree.path}).`);
+    }
+    return parts.join('\n\n');
+}
+
+/**
+ * A sub-task chat's outcome: status, task.md, Cursor's last report and the files its turns changed
+ * @returns undefined if the chat doesn't exist
+ */
+export function getSubtaskReport(chatId: string, finished: boolean): SubtaskReport | undefined {
+    const session = db.getSessionMeta(chatId);
+    if (!session) return undefined;
+
+    // Latest status per file across the chat's turns
+    const changed = new Map<string, FileChange['status']>();
+    for (const diff of db.getTurnDiffs(chatId)) {
+        for (const file of diff.files) {
+            const previous = changed.get(file.path);
+            changed.set(file.path, previous === 'added' && file.status === 'modified' ? 'added' : file.status);
+        }
+    }
+
+    return {
+        chatId,
+        title: session.title,
+        status: session.status,
+        finished,
+        taskMd: session.taskMd,
+        summary: summarizeSubtask(chatId),
+        changedFiles: [...changed].map(([path, status]) => ({ path, status })),
+        ...(session.worktree && { worktree: { branch: session.worktree.branch, path: session.worktree.path } }),
+        ...(session.pendingApproval && { waitingForApproval: true }),
+    };
+}
@@ -0,0 +1,78 @@
+import { TEST_DATA_DIR } from '../testing/temp-data';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { submitPlan, validatePlan, PlanTaskInput } from './task-graph';
+import type { ChatManager, RunConversationOptions } from './chat-manager';
+import { TaskPlan } from '../types';
+
+const task = (id: string, dependsOn?: string[]): PlanTaskInput => ({ id, title: id, task: `Do ${id}`, dependsOn, isolated: false });
+
+test('validatePlan accepts a diamond of dependencies', () => {
+    assert.doesNotThrow(() => validatePlan([task('a'), task('b', ['a']), task('c', ['a']), task('d', ['b', 'c'])]));
+});
+
+test('validatePlan rejects an empty plan and tasks missing fields', () => {
+    assert.throws(() => validatePlan([]), /at least one task/);
+    assert.throws(() => validatePlan([{ id: 'a', title: '', task: 'Do a' }]), /id, a title and a task/);
+});
+
+test('validatePlan rejects duplicate task ids', () => {
+    assert.throws(() => validatePlan([task('a'), task('b'), task('a')]), /Duplicate task id "a"/);
+});
+
+test('validatePlan rejects dependencies on unknown tasks', () => {
+    assert.throws(() => validatePlan([task('a'), task('b', ['a', 'x'])]), /Task "b" depends on unknown task "x"/);
+});
+
+test('validatePlan rejects dependency cycles, naming the tasks on them', () => {
+    assert.throws(() => validatePlan([task('a', ['a'])]), /Dependency cycle between tasks: a$/);
+    assert.throws(
+        () => validatePlan([task('a'), task('b', ['a', 'd']), task('c', ['b']), task('d', ['c']), task('e', ['a'])]),
+        /Dependency cycle between tasks: b, c, d$/
+    );
+});
+
+/**
+ * Run a plan to the end with conversations that finish on their own after a moment
+ * @returns the settled plan and the order conversations started and ended in
+ */
+async function runPlan(tasks: PlanTaskInput[], failing: string[] = []): Promise<{ plan: TaskPlan; log: string[] }> {
+    const log: string[] = [];
+    const chatManager = {
+        runConversation: async (_task: string, _workdir: string, _onProgress: unknown, _sessionId: unknown, _taskMd: unknown, options: RunConversationOptions) => {
+            const title = options.chatTitle!;
+            log.push(`start ${title}`);
+            await new Promise((resolve) => setTimeout(resolve, 10));
+            log.push(`end ${title}`);
+            const success = !failing.includes(title);
+            return { success, messages: [], turns: 1, ...(!success && { error: 'Agent failed' }) };
+        },
+    } as unknown as ChatManager;
+
+    const settled = new Promise<TaskPlan>((resolve) => {
+        void submitPlan({ title: 'Plan', workdir: TEST_DATA_DIR, tasks }, {
+            chatManager,
+            listener: { onPlanUpdate: (plan) => plan.status !== 'running' && resolve(plan) },
+        });
+    });
+    return { plan: await settled, log };
+}
+
+test('advancePlan starts each task once all its dependencies have completed', async () => {
+    const { plan, log } = await runPlan([task('d', ['b', 'c']), task('b', ['a']), task('c', ['a']), task('a')]);
+
+    assert.equal(plan.status, 'completed');
+    assert.deepEqual(log.slice(0, 2), ['start a', 'end a']);
+    assert.deepEqual(log.slice(2, 4).sort(), ['start b', 'start c']);
+    assert.deepEqual(log.slice(4, 6).sort(), ['end b', 'end c']);
+    assert.deepEqual(log.slice(6), ['start d', 'end d']);
+});
+
+test('advancePlan skips the tasks behind a failed one', async () => {
+    const { plan, log } = await runPlan([task('a'), task('b', ['a']), task('c', ['b']), task('x')], ['a']);
+
+    assert.deepEqual(log.filter((entry) => entry.startsWith('start')).sort(), ['start a', 'start x']);
+    const status = Object.fromEntries(plan.nodes.map((node) => [node.id, node.status]));
+    assert.deepEqual(status, { a: 'failed', b: 'skipped', c: 'skipped', x: 'completed' });
+    assert.equal(plan.status, 'failed');
+});
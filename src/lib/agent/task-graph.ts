@@ -0,0 +1,348 @@
+/**
+ * Task Graph
+ * The orchestrator can submit a plan of sub-tasks with dependency edges. Each task starts in
+ * its own chat once everything it depends on has completed, with the upstream results added
+ * to its prompt; when an upstream task fails or is cancelled, its dependents are skipped.
+ * Plans are stored in SQLite and advanced from job completions, so they carry on after a restart.
+ */
+import type { ChatManager } from './chat-manager';
+import { abortChat } from './abort-controller';
+import { cancelApproval } from './approvals';
+import { cancelPause } from './pause';
+import {
+    cancelPausedJobs,
+    enqueueConversationJob,
+    setJobCompletionNotifier,
+    ConversationJobListener,
+    ConversationJobResult,
+} from './job-queue';
+import { createSubtaskChat, summarizeSubtask } from './subtasks';
+import { ChatSession, ConversationJob, PlanNode, PlanNodeStatus, TaskPlan, TaskPlanStatus } from '../types';
+import * as db from '../db';
+import { findProjectForPath } from '../projects';
+import { generateId } from '../utils/id';
+
+const FINAL_NODE_STATUSES: PlanNodeStatus[] = ['completed', 'failed', 'skipped', 'cancelled'];
+
+export interface PlanTaskInput {
+    id: string;
+    title: string;
+    task: string;
+    dependsOn?: string[];
+    isolated?: boolean;
+}
+
+export interface TaskPlanInput {
+    title: string;
+    workdir: string;
+    sessionId?: string; // Orchestrator chat submitting the plan
+    tasks: PlanTaskInput[];
+}
+
+// Live observers of a plan (e.g. the orchestrator stream that submitted it)
+export interface PlanListener {
+    onNodeStarted?: (plan: TaskPlan, node: PlanNode, session: ChatSession) => void;
+    jobListener?: (node: PlanNode) => ConversationJobListener | undefined; // Progress of a task's conversation
+    onPlanUpdate?: (plan: TaskPlan) => void;
+}
+
+interface PlanRuntime {
+    listener?: PlanListener;
+    chatManager?: ChatManager;
+}
+
+const globalForPlans = globalThis as unknown as {
+    planRuntimes: Map<string, PlanRuntime> | undefined;
+    planLocks: Map<string, Promise<void>> | undefined;
+};
+
+// In-process extras of running plans (gone after a restart; plans then run with defaults)
+const runtimes = globalForPlans.planRuntimes ?? new Map<string, PlanRuntime>();
+globalForPlans.planRuntimes = runtimes;
+
+// Serializes changes to a plan: its nodes are read, changed and written back as one JSON column
+const locks = globalForPlans.planLocks ?? new Map<string, Promise<void>>();
+globalForPlans.planLocks = locks;
+
+function withPlanLock<T>(planId: string, fn: () => Promise<T>): Promise<T> {
+    const run = (locks.get(planId) ?? Promise.resolve()).then(fn);
+    const tail = run.then(() => undefined, () => undefined);
+    locks.set(planId, tail);
+    void tail.then(() => {
+        if (locks.get(planId) === tail) locks.delete(planId);
+    });
+    return run;
+}
+
+/**
+ * Check a plan's tasks: ids are unique, dependencies exist and there are no cycles
+ * @throws describing the first problem found
+ */
+export function validatePlan(tasks: PlanTaskInput[]): void {
+    if (!Array.isArray(tasks) || tasks.length === 0) {
+        throw new Error('A plan needs at least one task');
+    }
+
+    const ids = new Set<string>();
+    for (const task of tasks) {
+        if (!task.id || !task.title || !task.task) {
+            throw new Error('Every task needs an id, a title and a task');
+        }
+        if (ids.has(task.id)) {
+            throw new Error(`Duplicate task id "${task.id}"`);
+        }
+        ids.add(task.id);
+    }
+    for (const task of tasks) {
+        const unknown = (task.dependsOn ?? []).find((id) => !ids.has(id));
+        if (unknown) {
+            throw new Error(`Task "${task.id}" depends on unknown task "${unknown}"`);
+        }
+    }
+
+    // Peel off tasks whose dependencies are all ordered; whatever is left is on a cycle
+    const remaining = new Map(tasks.map((task) => [task.id, task.dependsOn ?? []]));
+    let progressed = true;
+    while (remaining.size > 0 && progressed) {
+        progressed = false;
+        for (const [id, dependsOn] of remaining) {
+            if (dependsOn.every((dep) => !remaining.has(dep))) {
+                remaining.delete(id);
+                progressed = true;
+            }
+        }
+    }
+    if (remaining.size > 0) {
+        throw new Error(`Dependency cycle between tasks: ${[...remaining.keys()].join(', ')}`);
+    }
+}
+
+/**
+ * Store a plan and start the tasks that don't depend on anything
+ * @throws if the plan is invalid
+ */
+export async function submitPlan(input: TaskPlanInput, runtime: PlanRuntime = {}): Promise<TaskPlan> {
+    validatePlan(input.tasks);
+    setJobCompletionNotifier(handleJobFinished);
+
+    const now = new Date();
+    const plan: TaskPlan = {
+        id: generateId(),
+        sessionId: input.sessionId,
+        title: input.title,
+        workdir: input.workdir,
+        status: 'running',
+        nodes: input.tasks.map((task) => ({
+            id: task.id,
+            title: task.title,
+            task: task.task,
+            dependsOn: [...new Set(task.dependsOn ?? [])],
+            isolated: task.isolated,
+            status: 'pending',
+        })),
+        createdAt: now,
+        updatedAt: now,
+    };
+    db.createTaskPlan(plan);
+    runtimes.set(plan.id, runtime);
+    console.log(`[TaskGraph] Plan ${plan.id} "${plan.title}": ${plan.nodes.length} task(s)`);
+
+    return advancePlan(plan.id);
+}
+
+/**
+ * Stop a plan: tasks not started yet are cancelled, running ones are aborted
+ * (they end as cancelled, which completes the plan)
+ */
+export async function cancelPlan(planId: string): Promise<TaskPlan | null> {
+    const running = await withPlanLock(planId, async () => {
+        const plan = db.getTaskPlan(planId);
+        if (!plan || plan.status !== 'running') return [];
+
+        const finishedAt = new Date().toISOString();
+        for (const node of plan.nodes) {
+            if (node.status === 'pending') {
+                node.status = 'cancelled';
+                node.error = 'Plan cancelled';
+                node.finishedAt = finishedAt;
+            }
+        }
+        db.updateTaskPlan(plan);
+        console.log(`[TaskGraph] Plan ${planId} cancelled`);
+        return plan.nodes.filter((node) => node.status === 'running' && node.chatId).map((node) => node.chatId!);
+    });
+
+    for (const chatId of running) {
+        abortChat(chatId);
+        cancelApproval(chatId);
+        if (!cancelPause(chatId)) cancelPausedJobs(chatId);
+    }
+    return advancePlan(planId).catch(() => db.getTaskPlan(planId));
+}
+
+/**
+ * Startup reconciliation: settle tasks whose job ended while nothing was listening, then
+ * start whatever became ready. Call before recoverJobs so recovered jobs report back here.
+ */
+export function recoverPlans(): void {
+    setJobCompletionNotifier(handleJobFinished);
+
+    for (const plan of db.getTaskPlansByStatus(['running'])) {
+        for (const node of plan.nodes) {
+            if (node.status !== 'running' || !node.chatId) continue;
+
+            const job = db.getJobsForSession(node.chatId)[0];
+            if (job && (job.status === 'queued' || job.status === 'running' || job.status === 'paused')) continue;
+
+            const session = db.getSessionMeta(node.chatId);
+            void finishNode(plan.id, node.chatId, {
+                success: session?.status === 'completed',
+                turns: job?.currentTurn ?? 0,
+                cancelled: !session || job?.status === 'cancelled',
+                error: !session ? 'Chat deleted' : job?.error,
+            });
+        }
+        void advancePlan(plan.id).catch((error) => console.error(`[TaskGraph] Failed to advance plan ${plan.id}:`, error));
+    }
+}
+
+function handleJobFinished(job: ConversationJob, result: ConversationJobResult): void {
+    const plan = db.getTaskPlansByStatus(['running']).find((p) =>
+        p.nodes.some((node) => node.chatId === job.sessionId && node.status === 'running')
+    );
+    if (!plan) return;
+
+    void finishNode(plan.id, job.sessionId, result)
+        .catch((error) => console.error(`[TaskGraph] Failed to update plan ${plan.id}:`, error));
+}
+
+/**
+ * Record how a task's conversation ended, then schedule what it unblocked
+ */
+async function finishNode(planId: string, chatId: string, result: ConversationJobResult): Promise<void> {
+    await withPlanLock(planId, async () => {
+        const plan = db.getTaskPlan(planId);
+        const node = plan?.nodes.find((n) => n.chatId === chatId && n.status === 'running');
+        if (!plan || !node) return;
+
+        node.status = result.success ? 'completed' : result.cancelled ? 'cancelled' : 'failed';
+        node.finishedAt = new Date().toISOString();
+        if (result.success) {
+            node.summary = summarizeSubtask(chatId);
+        } else {
+            node.error = result.error || (result.rejected ? 'Stopped by a human' : 'Did not complete');
+        }
+        db.updateTaskPlan(plan);
+        console.log(`[TaskGraph] Plan ${planId}: task "${node.id}" ${node.status}`);
+    });
+    await advancePlan(planId);
+}
+
+/**
+ * Skip tasks behind a failed one, start tasks whose dependencies have all completed,
+ * and settle the plan once every task has ended
+ */
+function advancePlan(planId: string): Promise<TaskPlan> {
+    return withPlanLock(planId, async () => {
+        const plan = db.getTaskPlan(planId);
+        if (!plan) throw new Error('Plan not found');
+        if (plan.status !== 'running') return plan;
+
+        const runtime = runtimes.get(planId);
+        const byId = new Map(plan.nodes.map((node) => [node.id, node]));
+
+        for (;;) {
+            // Skips cascade: repeat until nothing else is blocked
+            let skipped = true;
+            while (skipped) {
+                skipped = false;
+                for (const node of plan.nodes) {
+                    if (node.status !== 'pending') continue;
+                    const blocker = node.dependsOn
+                        .map((id) => byId.get(id)!)
+                        .find((dep) => dep.status === 'failed' || dep.status === 'skipped' || dep.status === 'cancelled');
+                    if (blocker) {
+                        node.status = 'skipped';
+                        node.error = `Depends on "${blocker.title}", which ${blocker.status === 'skipped' ? 'was skipped' : blocker.status === 'failed' ? 'failed' : 'was cancelled'}`;
+                        node.finishedAt = new Date().toISOString();
+                        skipped = true;
+                    }
+                }
+            }
+
+            const ready = plan.nodes.filter((node) =>
+                node.status === 'pending' && node.dependsOn.every((id) => byId.get(id)!.status === 'completed')
+            );
+            if (ready.length === 0) break;
+            for (const node of ready) {
+                await startNode(plan, node, runtime);
+            }
+        }
+
+        plan.status = settledStatus(plan.nodes);
+        db.updateTaskPlan(plan);
+        runtime?.listener?.onPlanUpdate?.(plan);
+
+        if (plan.status !== 'running') {
+            runtimes.delete(planId);
+            console.log(`[TaskGraph] Plan ${planId} ${plan.status}`);
+        }
+        return plan;
+    });
+}
+
+/**
+ * Create the task's chat and start its conversation job
+ * (a chat that can't be created fails the task, which skips its dependents)
+ */
+async function startNode(plan: TaskPlan, node: PlanNode, runtime: PlanRuntime | undefined): Promise<void> {
+    const task = buildNodeTask(plan, node);
+    let session: ChatSession;
+    try {
+        ({ session } = await createSubtaskChat({
+            title: node.title,
+            task,
+            workdir: plan.workdir,
+            isolated: node.isolated,
+            ownerId: plan.sessionId ? db.getSessionMeta(plan.sessionId)?.ownerId : undefined, // Same user as the orchestrator chat
+            projectId: findProjectForPath(plan.workdir)?.id,
+        }));
+    } catch (error) {
+        node.status = 'failed';
+        node.error = `Could not start: ${error instanceof Error ? error.message : String(error)}`;
+        node.finishedAt = new Date().toISOString();
+        return;
+    }
+
+    // Saved before the job starts so its completion can find the task
+    node.status = 'running';
+    node.chatId = session.id;
+    node.startedAt = new Date().toISOString();
+    db.updateTaskPlan(plan);
+    console.log(`[TaskGraph] Plan ${plan.id}: started task "${node.id}" in chat ${session.id}`);
+
+    runtime?.listener?.onNodeStarted?.(plan, node, session);
+    void enqueueConversationJob(
+        { sessionId: session.id, task, workdir: session.workdir || plan.workdir, taskMd: session.taskMd },
+        runtime?.listener?.jobListener?.(node),
+        runtime?.chatManager
+    );
+}
+
+/**
+ * The task as sent to Cursor: the results of the tasks it depends on, then the task itself
+ */
+function buildNodeTask(plan: TaskPlan, node: PlanNode): string {
+    const upstream = plan.nodes.filter((n) => node.dependsOn.includes(n.id));
+    if (upstream.length === 0) return node.task;
+
+    const results = upstream.map((n) => `### ${n.title}\n${n.summary || 'Completed.'}`).join('\n\n');
+    return `## Results of the tasks this one builds on\n\n${results}\n\n---\n\n${node.task}`;
+}
+
+function settledStatus(nodes: PlanNode[]): TaskPlanStatus {
+    if (nodes.some((node) => !FINAL_NODE_STATUSES.includes(node.status))) return 'running';
+    if (nodes.every((node) => node.status === 'completed')) return 'completed';
+    if (nodes.some((node) => node.status === 'failed')) return 'failed';
+    return 'cancelled';
+}
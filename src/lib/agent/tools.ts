@@ -16,8 +16,8 @@ The system will:
 3. Monitor responses and ask follow-up questions if needed
 4. Continue until the task is marked as complete
 
-IMPORTANT: This tool will wait for the task to complete and stream progress updates in real-time.
-You will receive all messages from the conversation as they happen.`,
+Returns the chat ID right away while the conversation runs in the background (progress is
+streamed to the user). Use wait_for_chats when you need the outcome.`,
         input_schema: {
             type: 'object' as const,
             properties: {
@@ -29,10 +29,68 @@ You will receive all messages from the conversation as they happen.`,
                     type: 'string',
                     description: 'A short, descriptive title for the chat session.',
                 },
+                isolated: {
+                    type: 'boolean',
+                    description: 'Run the task in its own git worktree/branch so it cannot collide with other tasks. Defaults to the isolateSubtasks setting.',
+                },
             },
             required: ['task', 'title'],
         },
     },
+    {
+        name: 'submit_plan',
+        description: `Submit a plan of sub-tasks with dependencies instead of a single chat.
+Use this when the request splits into parts where some must finish before others can start
+(e.g. "add the API, then the UI that calls it"), or into independent parts that can run in parallel.
+
+The system will:
+1. Start every task without dependencies in its own chat right away
+2. Start each other task once all tasks it depends_on have completed, adding their results to its prompt
+3. Skip the tasks that depend on one that failed or was cancelled
+
+Returns the plan ID and the initial state of each task. Like create_chat, it does not wait for the tasks.`,
+        input_schema: {
+            type: 'object' as const,
+            properties: {
+                title: {
+                    type: 'string',
+                    description: 'A short title for the whole plan.',
+                },
+                tasks: {
+                    type: 'array',
+                    description: 'The sub-tasks. Dependencies must not form a cycle.',
+                    items: {
+                        type: 'object',
+                        properties: {
+                            id: {
+                                type: 'string',
+                                description: 'Short unique key for the task (e.g. "api"), used in depends_on.',
+                            },
+                            title: {
+                                type: 'string',
+                                description: 'A short, descriptive title for the task\'s chat session.',
+                            },
+                            task: {
+                                type: 'string',
+                                description: 'The coding task description to send to Cursor Agent.',
+                            },
+                            depends_on: {
+                                type: 'array',
+                                items: { type: 'string' },
+                                description: 'IDs of the tasks that must complete before this one starts.',
+                            },
+                            isolated: {
+                                type: 'boolean',
+                                description: 'Run the task in its own git worktree/branch. Dependent tasks only see its changes once merged, so leave this off for tasks others build on.',
+                            },
+                        },
+                        required: ['id', 'title', 'task'],
+                    },
+                },
+            },
+            required: ['title', 'tasks'],
+        },
+    },
     {
         name: 'check_chat_status',
         description: `Check the status of an existing chat session.
@@ -48,6 +106,30 @@ Use this to monitor progress of tasks you've dispatched.`,
             required: ['chat_id'],
         },
     },
+    {
+        name: 'wait_for_chats',
+        description: `Wait until the given chat sessions have finished their automated conversations, then
+return each one's outcome: status, final task.md, Cursor's last report and the files it changed.
+
+Use this when the request needs the result of the work (verify it, combine results, dispatch a
+fix-up) rather than just dispatching it. Chats still running when the timeout expires are
+returned with finished: false.`,
+        input_schema: {
+            type: 'object' as const,
+            properties: {
+                chat_ids: {
+                    type: 'array',
+                    items: { type: 'string' },
+                    description: 'IDs of the chat sessions to wait for (from create_chat or submit_plan).',
+                },
+                timeout_seconds: {
+                    type: 'number',
+                    description: 'How long to wait at most (default 600, max 3600).',
+                },
+            },
+            required: ['chat_ids'],
+        },
+    },
     {
         name: 'send_message_to_chat',
         description: `Send a follow-up message to an existing chat session.
@@ -69,34 +151,142 @@ Use this to provide additional instructions or ask questions about an ongoing ta
     },
     {
         name: 'list_files',
-        description: 'List files in a directory to understand project structure.',
+        description: `List a directory to understand project structure.
+Paths are relative to the working directory; only the working directory and configured extra roots can be read.
+With recursive, returns every file below the directory (respecting .gitignore).`,
         input_schema: {
             type: 'object' as const,
             properties: {
                 path: {
                     type: 'string',
-                    description: 'Directory path to list.',
+                    description: 'Directory to list. Defaults to the working directory.',
+                },
+                recursive: {
+                    type: 'boolean',
+                    description: 'List all files below the directory instead of its direct entries.',
                 },
             },
-            required: ['path'],
         },
     },
     {
         name: 'read_file',
-        description: 'Read contents of a file.',
+        description: `Read a text file. Returns at most 500 lines per call; use start_line/end_line for the rest.
+Binary files and files over 2 MB are refused.`,
         input_schema: {
             type: 'object' as const,
             properties: {
                 path: {
                     type: 'string',
-                    description: 'File path to read.',
+                    description: 'File to read, relative to the working directory.',
+                },
+                start_line: {
+                    type: 'number',
+                    description: 'First line to read (1-based). Defaults to 1.',
+                },
+                end_line: {
+                    type: 'number',
+                    description: 'Last line to read (inclusive).',
                 },
             },
             required: ['path'],
         },
     },
+    {
+        name: 'search_files',
+        description: `Search file contents with a regular expression (like grep), respecting .gitignore.
+Returns matching lines with their file and line number.`,
+        input_schema: {
+            type: 'object' as const,
+            properties: {
+                pattern: {
+                    type: 'string',
+                    description: 'JavaScript regular expression matched against each line.',
+                },
+                path: {
+                    type: 'string',
+                    description: 'Directory or file to search. Defaults to the working directory.',
+                },
+                glob: {
+                    type: 'string',
+                    description: 'Only search matching files, e.g. "*.ts" or "src/**/*.tsx".',
+                },
+                case_insensitive: {
+                    type: 'boolean',
+                    description: 'Ignore case.',
+                },
+                max_results: {
+                    type: 'number',
+                    description: 'Maximum matches to return (default 50, at most 200).',
+                },
+            },
+            required: ['pattern'],
+        },
+    },
+    {
+        name: 'file_tree',
+        description: `Show the project's directory tree (respecting .gitignore), to plan tasks from its real structure.
+Directories below max_depth are collapsed into a file count.`,
+        input_schema: {
+            type: 'object' as const,
+            properties: {
+                path: {
+                    type: 'string',
+                    description: 'Directory to show. Defaults to the working directory.',
+                },
+                max_depth: {
+                    type: 'number',
+                    description: 'Levels to expand (default 3).',
+                },
+            },
+        },
+    },
 ];
 
+// Agent Manager decision tool - the only tool offered to the Agent Manager, and it must be called
+export const AGENT_MANAGER_DECISION_TOOL: Anthropic.Tool = {
+    name: 'submit_decision',
+    description: `Submit your decision about Cursor's latest response.
+Call this exactly once per turn. The next_message is sent to Cursor verbatim unless is_complete is true.`,
+    input_schema: {
+        type: 'object' as const,
+        properties: {
+            state: {
+                type: 'string',
+                enum: ['WORKING', 'BLOCKED', 'ASKING', 'COMPLETED', 'PARTIAL'],
+                description: `Cursor's state after its latest response:
+WORKING - still working on the current task
+BLOCKED - hit an error or cannot continue without help
+ASKING - asked a question or presented options
+COMPLETED - finished the current task
+PARTIAL - finished part of the current task`,
+            },
+            next_message: {
+                type: 'string',
+                description: 'The instruction or answer to send to Cursor next. Empty when is_complete is true.',
+            },
+            task_md: {
+                type: 'string',
+                description: 'The full, updated TODO list as markdown checkboxes ("- [ ] ..." / "- [x] ..."). Omit if there is no list yet.',
+            },
+            is_complete: {
+                type: 'boolean',
+                description: 'True only when ALL tasks in the TODO list are done and the whole mission is finished.',
+            },
+            confidence: {
+                type: 'number',
+                minimum: 0,
+                maximum: 1,
+                description: 'How confident you are in this decision, from 0 to 1.',
+            },
+            reasoning: {
+                type: 'string',
+                description: '1-2 sentences about what you observed and why you made this decision.',
+            },
+        },
+        required: ['state', 'next_message', 'is_complete', 'confidence'],
+    },
+};
+
 // Legacy tool for backward compatibility
 export const LEGACY_TOOLS: Anthropic.Tool[] = [
     {
@@ -123,17 +313,34 @@ Do NOT wait for the result of the task. Your job is just to dispatch it.`,
     ...TOOLS.filter(t => t.name !== 'create_chat'),
 ];
 
-export type ToolName = 'create_chat' | 'check_chat_status' | 'send_message_to_chat' | 'dispatch_task' | 'list_files' | 'read_file';
+export type ToolName = 'create_chat' | 'submit_plan' | 'check_chat_status' | 'wait_for_chats' | 'send_message_to_chat' | 'dispatch_task' | 'list_files' | 'read_file' | 'search_files' | 'file_tree';
 
 export interface CreateChatInput {
     task: string;
     title: string;
+    isolated?: boolean;
+}
+
+export interface SubmitPlanInput {
+    title: string;
+    tasks: Array<{
+        id: string;
+        title: string;
+        task: string;
+        depends_on?: string[];
+        isolated?: boolean;
+    }>;
 }
 
 export interface CheckChatStatusInput {
     chat_id: string;
 }
 
+export interface WaitForChatsInput {
+    chat_ids: string[];
+    timeout_seconds?: number;
+}
+
 export interface SendMessageToChatInput {
     chat_id: string;
     message: string;
@@ -145,9 +352,34 @@ export interface DispatchTaskInput {
 }
 
 export interface ListFilesInput {
-    path: string;
+    path?: string;
+    recursive?: boolean;
 }
 
 export interface ReadFileInput {
     path: string;
+    start_line?: number;
+    end_line?: number;
+}
+
+export interface SearchFilesInput {
+    pattern: string;
+    path?: string;
+    glob?: string;
+    case_insensitive?: boolean;
+    max_results?: number;
+}
+
+export interface FileTreeInput {
+    path?: string;
+    max_depth?: number;
+}
+
+export interface AgentManagerDecisionInput {
+    state: 'WORKING' | 'BLOCKED' | 'ASKING' | 'COMPLETED' | 'PARTIAL';
+    next_message: string;
+    task_md?: string;
+    is_complete: boolean;
+    confidence: number;
+    reasoning?: string;
 }
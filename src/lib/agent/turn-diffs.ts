@@ -0,0 +1,79 @@
+/**
+ * Turn Diffs & Checkpoints
+ * Persists what a Cursor turn changed in the workdir (diff) and how to undo it (checkpoint),
+ * both linked to the turn's assistant message, and rolls a session's workdir back.
+ */
+import { chatStore } from './chat-store';
+import { Message, RestorePoint, SessionCheckpoint, WorkdirChanges } from '../types';
+import { restoreWorkdir } from '../git/snapshot';
+import * as db from '../db';
+import { generateId } from '../utils/id';
+
+export interface TurnRecord {
+    changes?: WorkdirChanges | null;
+    restorePoint?: RestorePoint | null;
+    turn?: number; // Conversation loop turn (sub-tasks only)
+}
+
+export interface RollbackResult {
+    checkpoint: SessionCheckpoint;
+    restored: string[];
+    skipped: string[];
+    message: Message;
+}
+
+/**
+ * Save a turn's diff and checkpoint and tag the message with their IDs
+ * Call before the message itself is stored so the tags are persisted with it.
+ */
+export function recordTurn(sessionId: string, message: Message, record: TurnRecord): void {
+    const { changes, restorePoint, turn } = record;
+
+    if (restorePoint) {
+        const checkpointId = generateId();
+        db.addCheckpoint({ id: checkpointId, sessionId, messageId: message.id, restorePoint, createdAt: new Date() });
+        message.metadata = { ...message.metadata, checkpointId };
+    }
+
+    if (changes) {
+        const diffId = generateId();
+        db.addTurnDiff({ id: diffId, sessionId, messageId: message.id, turn, ...changes, createdAt: new Date() });
+        message.metadata = { ...message.metadata, diffId };
+        console.log(`[TurnDiffs] Session ${sessionId}: ${changes.files.length} file(s) changed (${changes.mode})`);
+    }
+}
+
+/**
+ * Restore a session's workdir to its state before a checkpointed turn
+ * Later turns are marked as rolled back and the rollback is recorded as a system message.
+ */
+export async function rollbackToCheckpoint(sessionId: string, checkpointId: string): Promise<RollbackResult> {
+    const checkpoints = db.getCheckpoints(sessionId).filter((c) => !c.rolledBack);
+    const checkpoint = checkpoints.find((c) => c.id === checkpointId);
+    if (!checkpoint) {
+        throw new Error('Checkpoint not found or already rolled back');
+    }
+
+    const undone = checkpoints.filter((c) => c.turn >= checkpoint.turn);
+    const { restored, skipped } = await restoreWorkdir(undone.map((c) => c.restorePoint));
+    db.markCheckpointsRolledBack(sessionId, checkpoint.turn);
+
+    const lines = [
+        `⏪ Rolled back the workdir to before turn ${checkpoint.turn} (${undone.length} turn${undone.length === 1 ? '' : 's'} undone, ${restored.length} file${restored.length === 1 ? '' : 's'} restored).`,
+    ];
+    if (skipped.length > 0) {
+        lines.push(`Could not restore (binary or too large): ${skipped.join(', ')}`);
+    }
+    const message: Message = {
+        id: generateId(),
+        role: 'system',
+        content: lines.join('\n'),
+        timestamp: new Date(),
+        metadata: { source: 'system' },
+    };
+    db.addMessage(sessionId, message);
+    chatStore.get(sessionId)?.messages.push(message);
+
+    console.log(`[TurnDiffs] Session ${sessionId}: rolled back to before turn ${checkpoint.turn}, ${restored.length} file(s) restored`);
+    return { checkpoint, restored, skipped, message };
+}
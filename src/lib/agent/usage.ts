@@ -0,0 +1,105 @@
+/**
+ * Token Usage & Budgets
+ * Every orchestrator / Agent Manager call to the Anthropic API is recorded with its token usage
+ * and an estimated cost from the price table. Sessions can be capped; loops check the cap
+ * before each call and stop once it is spent.
+ */
+import { ModelPrice, SessionBudget, UsageRecord, UsageSource } from '../types';
+import * as db from '../db';
+import { getSettings } from '../settings';
+import { generateId } from '../utils/id';
+
+// USD per million tokens, matched by model-name prefix (longest prefix wins)
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+    'claude-opus-4-5': { input: 5, output: 25 },
+    'claude-opus-4': { input: 15, output: 75 },
+    'claude-sonnet-4': { input: 3, output: 15 },
+    'claude-haiku-4-5': { input: 1, output: 5 },
+    'claude-3-7-sonnet': { input: 3, output: 15 },
+    'claude-3-5-sonnet': { input: 3, output: 15 },
+    'claude-3-5-haiku': { input: 0.8, output: 4 },
+    'claude-3-opus': { input: 15, output: 75 },
+    'claude-3-haiku': { input: 0.25, output: 1.25 },
+};
+
+/**
+ * Price of a model from the built-in table plus the `modelPrices` setting
+ */
+export function getModelPrice(model: string): ModelPrice | undefined {
+    const prices = { ...DEFAULT_MODEL_PRICES, ...getSettings().modelPrices };
+    if (prices[model]) return prices[model];
+
+    const prefix = Object.keys(prices)
+        .filter((key) => model.startsWith(key))
+        .sort((a, b) => b.length - a.length)[0];
+    return prefix ? prices[prefix] : undefined;
+}
+
+/**
+ * @returns undefined when the model has no price
+ */
+export function estimateCost(model: string, inputTokens: number, outputTokens: number): number | undefined {
+    const price = getModelPrice(model);
+    if (!price) return undefined;
+    return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+}
+
+/**
+ * Persist the usage of one API call
+ * Never throws: accounting must not break the loop that made the call.
+ */
+export function recordUsage(entry: {
+    sessionId?: string;
+    runId?: string;
+    source: UsageSource;
+    model: string;
+    usage?: { input_tokens: number; output_tokens: number } | null; // Some proxies don't report usage
+}): UsageRecord | undefined {
+    const inputTokens = entry.usage?.input_tokens ?? 0;
+    const outputTokens = entry.usage?.output_tokens ?? 0;
+    const record: UsageRecord = {
+        id: generateId(),
+        sessionId: entry.sessionId,
+        runId: entry.runId,
+        source: entry.source,
+        model: entry.model,
+        inputTokens,
+        outputTokens,
+        costUsd: estimateCost(entry.model, inputTokens, outputTokens),
+        createdAt: new Date(),
+    };
+
+    try {
+        db.addUsageRecord(record);
+        return record;
+    } catch (error) {
+        console.error('[Usage] Failed to record usage:', error);
+        return undefined;
+    }
+}
+
+/**
+ * The session's own budget, or the default from settings
+ */
+export function getSessionBudget(sessionId: string): SessionBudget {
+    return db.getSessionMeta(sessionId)?.budget ?? getSettings().budget;
+}
+
+/**
+ * Check a session's spending against its budget
+ * @returns why the budget is spent, or undefined if there is room left
+ */
+export function checkBudget(sessionId: string): string | undefined {
+    const budget = getSessionBudget(sessionId);
+    if (!budget.maxCostUsd && !budget.maxTokens) return undefined;
+
+    const totals = db.getUsageTotals({ sessionId });
+    if (budget.maxCostUsd && totals.costUsd >= budget.maxCostUsd) {
+        return `Budget exceeded: $${totals.costUsd.toFixed(2)} of $${budget.maxCostUsd.toFixed(2)} spent`;
+    }
+    const tokens = totals.inputTokens + totals.outputTokens;
+    if (budget.maxTokens && tokens >= budget.maxTokens) {
+        return `Budget exceeded: ${tokens.toLocaleString('en-US')} of ${budget.maxTokens.toLocaleString('en-US')} tokens used`;
+    }
+    return undefined;
+}
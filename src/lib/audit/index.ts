@@ -0,0 +1,90 @@
+/**
+ * Audit Log
+ * Append-only record of who started which chat, what was sent to Cursor and what it did,
+ * Agent Manager decisions, aborts, settings changes and Telegram commands. The table refuses
+ * updates and deletes; recording never fails the action being recorded.
+ */
+import type { CursorStreamEvent } from '../agent/stream-decoder';
+import * as db from '../db';
+import { AuditAction, AuditEntry } from '../types';
+import { generateId } from '../utils/id';
+
+export const AUDIT_ACTIONS: AuditAction[] = [
+    'session_started',
+    'prompt_sent',
+    'agent_decision',
+    'tool_call',
+    'file_written',
+    'policy_violation',
+    'chat_aborted',
+    'settings_changed',
+    'telegram_command',
+];
+
+/**
+ * Append an entry; the user and project default to the session's owner and project
+ */
+export function audit(
+    action: AuditAction,
+    entry: { userId?: string; sessionId?: string; projectId?: string; details?: Record<string, unknown> } = {}
+): void {
+    try {
+        const session = entry.sessionId && (!entry.userId || !entry.projectId) ? db.getSessionMeta(entry.sessionId) : null;
+        db.addAuditEntry({
+            id: generateId(),
+            action,
+            userId: entry.userId ?? session?.ownerId,
+            sessionId: entry.sessionId,
+            projectId: entry.projectId ?? session?.projectId,
+            details: entry.details,
+            createdAt: new Date(),
+        });
+    } catch (error) {
+        console.error(`[Audit] Failed to record ${action}:`, error);
+    }
+}
+
+/**
+ * Record Cursor's tool calls and the files its write calls created
+ */
+export function auditAgentEvent(sessionId: string | undefined, event: CursorStreamEvent): void {
+    if (event.type === 'tool_start') {
+        audit('tool_call', { sessionId, details: { toolName: event.toolName, params: event.params } });
+    } else if (event.type === 'tool_complete' && event.result.toolName === 'write' && event.result.path) {
+        audit('file_written', {
+            sessionId,
+            details: {
+                path: event.result.path,
+                success: event.result.success,
+                linesCreated: event.result.linesCreated,
+                fileSize: event.result.fileSize,
+            },
+        });
+    }
+}
+
+// ============ Export ============
+
+const CSV_COLUMNS = ['id', 'createdAt', 'action', 'userId', 'username', 'sessionId', 'projectId', 'details'] as const;
+
+function csvField(value: string): string {
+    // Cells starting with = + - @ would run as formulas in a spreadsheet
+    const safe = /^[=+\-@]/.test(value) ? `'${value}` : value;
+    return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+export function toCsv(entries: AuditEntry[]): string {
+    const lines = entries.map((entry) =>
+        CSV_COLUMNS.map((column) => {
+            const value = entry[column];
+            if (value === undefined) return '';
+            if (value instanceof Date) return value.toISOString();
+            return csvField(typeof value === 'object' ? JSON.stringify(value) : String(value));
+        }).join(',')
+    );
+    return [CSV_COLUMNS.join(','), ...lines].join('\n') + '\n';
+}
+
+export function toJsonl(entries: AuditEntry[]): string {
+    return entries.map((entry) => JSON.stringify(entry) + '\n').join('');
+}
@@ -0,0 +1,232 @@
+/**
+ * Authentication
+ * Local user accounts with scrypt-hashed passwords. Browsers sign in with a session cookie,
+ * scripts send an API token as `Authorization: Bearer <token>`; only SHA-256 hashes of
+ * either are stored. AUTH_DISABLED=true turns sign-in off for a single-user local setup.
+ */
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import * as db from '../db';
+import { ApiToken, ChatSession, TaskPlan, User, UserRole } from '../types';
+import { generateId } from '../utils/id';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+export const SESSION_COOKIE = 'cursor_pilot_session';
+const SESSION_DAYS = Number(process.env.AUTH_SESSION_DAYS) || 30;
+const API_TOKEN_PREFIX = 'cpt_';
+const MIN_PASSWORD_LENGTH = 8;
+const USERNAME_PATTERN = /^[a-zA-Z0-9._-]{2,32}$/;
+const KEY_LENGTH = 64;
+
+// The shared orchestrator chat without auth (and Telegram's, which has no users)
+export const DEFAULT_ORCHESTRATOR_SESSION_ID = 'web_orchestrator_main';
+
+// Who every request is when auth is disabled: an admin, so every chat is visible
+const LOCAL_USER: User = { id: 'local', username: 'local', role: 'admin', createdAt: new Date(0) };
+
+export class AuthError extends Error {
+    constructor(message: string, public readonly status = 400) {
+        super(message);
+        this.name = 'AuthError';
+    }
+}
+
+export function isAuthEnabled(): boolean {
+    return process.env.AUTH_DISABLED !== 'true';
+}
+
+// ============ Hashing ============
+
+export async function hashPassword(password: string): Promise<string> {
+    const salt = randomBytes(16);
+    const key = await scryptAsync(password, salt, KEY_LENGTH);
+    return `scrypt:${salt.toString('hex')}:${key.toString('hex')}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+    const [scheme, salt, key] = stored.split(':');
+    if (scheme !== 'scrypt' || !salt || !key) return false;
+    const expected = Buffer.from(key, 'hex');
+    const actual = await scryptAsync(password, Buffer.from(salt, 'hex'), expected.length);
+    return timingSafeEqual(actual, expected);
+}
+
+function hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+}
+
+// ============ Accounts ============
+
+function validateCredentials(username: string, password: string): void {
+    if (!USERNAME_PATTERN.test(username || '')) {
+        throw new AuthError('Username must be 2-32 letters, digits, dots, dashes or underscores');
+    }
+    if ((password || '').length < MIN_PASSWORD_LENGTH) {
+        throw new AuthError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+    }
+}
+
+export async function createUserAccount(username: string, password: string, role: UserRole = 'member'): Promise<User> {
+    validateCredentials(username, password);
+    if (db.getUserCredentials(username)) {
+        throw new AuthError(`User ${username} already exists`, 409);
+    }
+    const user: User = { id: generateId(), username, role, createdAt: new Date() };
+    db.createUser(user, await hashPassword(password));
+    console.log(`[Auth] Created ${role} ${username}`);
+    return user;
+}
+
+/**
+ * Create the first (admin) account; it takes over the chats created before auth was set up
+ */
+export async function setupFirstUser(username: string, password: string): Promise<User> {
+    if (db.countUsers() > 0) {
+        throw new AuthError('Already set up', 409);
+    }
+    const user = await createUserAccount(username, password, 'admin');
+    const claimed = db.claimUnownedSessions(user.id);
+    if (claimed > 0) console.log(`[Auth] ${username} took over ${claimed} existing chats`);
+    return user;
+}
+
+export function needsSetup(): boolean {
+    return isAuthEnabled() && db.countUsers() === 0;
+}
+
+// ============ Sign-in ============
+
+/**
+ * Check a username and password and start a browser session
+ * @returns the session token for the cookie
+ */
+export async function signIn(username: string, password: string): Promise<{ user: User; token: string; expiresAt: Date }> {
+    const credentials = db.getUserCredentials(username || '');
+    // Same error either way, so usernames can't be probed
+    if (!credentials || !(await verifyPassword(password || '', credentials.passwordHash))) {
+        throw new AuthError('Invalid username or password', 401);
+    }
+
+    db.deleteExpiredAuthSessions();
+    const token = randomBytes(32).toString('base64url');
+    const expiresAt = new Date(Date.now() + SESSION_DAYS * 24 * 60 * 60 * 1000);
+    db.createAuthSession(hashToken(token), credentials.user.id, expiresAt);
+    return { user: credentials.user, token, expiresAt };
+}
+
+export function signOut(req: Request): void {
+    const token = readCookie(req, SESSION_COOKIE);
+    if (token) db.deleteAuthSession(hashToken(token));
+}
+
+export function createApiTokenForUser(userId: string, name: string): { apiToken: ApiToken; token: string } {
+    const apiToken: ApiToken = { id: generateId(), userId, name: name.trim() || 'API token', createdAt: new Date() };
+    const token = `${API_TOKEN_PREFIX}${randomBytes(32).toString('base64url')}`;
+    db.createApiToken(apiToken, hashToken(token));
+    return { apiToken, token };
+}
+
+function readCookie(req: Request, name: string): string | undefined {
+    for (const part of (req.headers.get('cookie') || '').split(';')) {
+        const [key, ...value] = part.trim().split('=');
+        if (key === name) return decodeURIComponent(value.join('='));
+    }
+    return undefined;
+}
+
+function isHttps(req: Request): boolean {
+    return req.headers.get('x-forwarded-proto') === 'https' || new URL(req.url).protocol === 'https:';
+}
+
+export function sessionCookie(req: Request, token: string, expiresAt: Date): string {
+    return `${SESSION_COOKIE}=${encodeURIComponent(token)}; Path=/; HttpOnly; SameSite=Lax; Expires=${expiresAt.toUTCString()}${isHttps(req) ? '; Secure' : ''}`;
+}
+
+export function clearedSessionCookie(): string {
+    return `${SESSION_COOKIE}=; Path=/; HttpOnly; SameSite=Lax; Max-Age=0`;
+}
+
+/**
+ * The user behind a request: API token first, then the session cookie
+ */
+export function getRequestUser(req: Request): User | null {
+    if (!isAuthEnabled()) return LOCAL_USER;
+
+    const authorization = req.headers.get('authorization');
+    if (authorization?.startsWith('Bearer ')) {
+        return db.getApiTokenUser(hashToken(authorization.slice('Bearer '.length).trim()));
+    }
+    const token = readCookie(req, SESSION_COOKIE);
+    return token ? db.getAuthSessionUser(hashToken(token)) : null;
+}
+
+// ============ Access Checks ============
+
+/**
+ * Owner to record on a chat the user creates (none without auth, so the first account set up
+ * later takes the chat over)
+ */
+export function sessionOwnerId(user: User): string | undefined {
+    return user === LOCAL_USER ? undefined : user.id;
+}
+
+export function canAccessSession(user: User, session: Pick<ChatSession, 'ownerId'>): boolean {
+    return user.role === 'admin' || session.ownerId === user.id;
+}
+
+// Plans belong to whoever owns the orchestrator chat that submitted them
+export function canAccessPlan(user: User, plan: Pick<TaskPlan, 'sessionId'>): boolean {
+    if (user.role === 'admin') return true;
+    const session = plan.sessionId ? db.getSessionMeta(plan.sessionId) : null;
+    return Boolean(session && canAccessSession(user, session));
+}
+
+/**
+ * The user's own orchestrator chat (the shared one when auth is disabled)
+ */
+export function getOrchestratorSessionId(user: User): string {
+    return isAuthEnabled() ? `web_orchestrator_${user.id}` : DEFAULT_ORCHESTRATOR_SESSION_ID;
+}
+
+export function unauthorizedResponse(): Response {
+    return new Response(
+        JSON.stringify({ error: 'Not signed in' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+    );
+}
+
+/**
+ * Guard for routes acting on a chat: 401 when not signed in, 404 when the chat belongs to
+ * someone else (so other users' chat IDs can't be probed)
+ * @returns an error response, or null when the request may go ahead (or the chat doesn't exist)
+ */
+export function checkSessionAccess(req: Request, sessionId: string): Response | null {
+    const user = getRequestUser(req);
+    if (!user) return unauthorizedResponse();
+
+    const session = db.getSessionMeta(sessionId);
+    if (session && !canAccessSession(user, session)) {
+        return new Response(
+            JSON.stringify({ error: 'Session not found' }),
+            { status: 404, headers: { 'Content-Type': 'application/json' } }
+        );
+    }
+    return null;
+}
+
+/**
+ * Guard for admin-only routes
+ * @returns an error response, or null for admins
+ */
+export function checkAdmin(req: Request): Response | null {
+    const user = getRequestUser(req);
+    if (!user) return unauthorizedResponse();
+    if (user.role !== 'admin') {
+        return new Response(
+            JSON.stringify({ error: 'Admins only' }),
+            { status: 403, headers: { 'Content-Type': 'application/json' } }
+        );
+    }
+    return null;
+}
@@ -5,7 +5,7 @@
 import Database from 'better-sqlite3';
 import { existsSync, mkdirSync } from 'fs';
 import { dirname } from 'path';
-import { ChatSession, ChatStatus, Message } from '../types';
+import { AgentBackendConfig, AgentPermissions, ApiToken, AuditEntry, AuditQuery, ApprovalPolicy, ChatSession, ChatStatus, ConversationJob, FileChange, JobStatus, Message, OrchestratorHistory, PendingApproval, PlanNode, PolicyViolation, Project, RestorePoint, SearchQuery, SearchResult, SessionBudget, SessionCheckpoint, TaskPlan, TaskPlanStatus, TurnDiff, UsageRecord, UsageTotals, User, UserRole, WorktreeInfo } from '../types';
 
 const DB_PATH = process.env.DB_PATH || '.data/cursor-pilot.db';
 
@@ -30,6 +30,9 @@ const globalForDb = globalThis as unknown as {
         getMessagesTail?: Database.Statement;
         getMessageCount?: Database.Statement;
         getLastMessage?: Database.Statement;
+        insertJob?: Database.Statement;
+        updateJob?: Database.Statement;
+        getJob?: Database.Statement;
     } | undefined;
 };
 
@@ -69,11 +72,171 @@ function getDb(): Database.Database {
             FOREIGN KEY (session_id) REFERENCES chat_sessions(id) ON DELETE CASCADE
         );
 
+        -- Background conversation jobs (survive restarts)
+        CREATE TABLE IF NOT EXISTS jobs (
+            id TEXT PRIMARY KEY,
+            session_id TEXT NOT NULL,
+            status TEXT NOT NULL DEFAULT 'queued',
+            task TEXT NOT NULL,
+            workdir TEXT NOT NULL,
+            task_md TEXT,
+            backend TEXT,
+            current_turn INTEGER NOT NULL DEFAULT 0,
+            cursor_session_id TEXT,
+            last_manager_message TEXT,
+            error TEXT,
+            attempts INTEGER NOT NULL DEFAULT 0,
+            created_at INTEGER NOT NULL,
+            updated_at INTEGER NOT NULL,
+            FOREIGN KEY (session_id) REFERENCES chat_sessions(id) ON DELETE CASCADE
+        );
+
+        -- Workdir changes made by each Cursor turn
+        CREATE TABLE IF NOT EXISTS turn_diffs (
+            id TEXT PRIMARY KEY,
+            session_id TEXT NOT NULL,
+            message_id TEXT,
+            turn INTEGER,
+            mode TEXT NOT NULL,
+            files TEXT NOT NULL,
+            patch TEXT NOT NULL,
+            truncated INTEGER DEFAULT 0,
+            created_at INTEGER NOT NULL,
+            FOREIGN KEY (session_id) REFERENCES chat_sessions(id) ON DELETE CASCADE
+        );
+
+        -- Workdir state before each Cursor turn (rollback)
+        CREATE TABLE IF NOT EXISTS checkpoints (
+            id TEXT PRIMARY KEY,
+            session_id TEXT NOT NULL,
+            message_id TEXT,
+            turn INTEGER NOT NULL,
+            restore_point TEXT NOT NULL,
+            rolled_back INTEGER DEFAULT 0,
+            created_at INTEGER NOT NULL,
+            FOREIGN KEY (session_id) REFERENCES chat_sessions(id) ON DELETE CASCADE
+        );
+
+        -- Token usage of each Anthropic API call (kept after the session is deleted)
+        CREATE TABLE IF NOT EXISTS usage_records (
+            id TEXT PRIMARY KEY,
+            session_id TEXT,
+            run_id TEXT,
+            source TEXT NOT NULL,
+            model TEXT NOT NULL,
+            input_tokens INTEGER NOT NULL DEFAULT 0,
+            output_tokens INTEGER NOT NULL DEFAULT 0,
+            cost_usd REAL,
+            created_at INTEGER NOT NULL
+        );
+
+        -- Orchestrator task graphs (nodes as JSON)
+        CREATE TABLE IF NOT EXISTS task_plans (
+            id TEXT PRIMARY KEY,
+            session_id TEXT,
+            title TEXT NOT NULL,
+            workdir TEXT NOT NULL,
+            status TEXT NOT NULL DEFAULT 'running',
+            nodes TEXT NOT NULL,
+            created_at INTEGER NOT NULL,
+            updated_at INTEGER NOT NULL
+        );
+
+        -- Orchestrator conversation per chat (Anthropic messages as JSON), reloaded on each request
+        CREATE TABLE IF NOT EXISTS orchestrator_history (
+            session_id TEXT PRIMARY KEY,
+            messages TEXT NOT NULL,
+            summary TEXT,
+            compactions INTEGER NOT NULL DEFAULT 0,
+            updated_at INTEGER NOT NULL,
+            FOREIGN KEY (session_id) REFERENCES chat_sessions(id) ON DELETE CASCADE
+        );
+
+        -- Users of the web UI / API (see lib/auth)
+        CREATE TABLE IF NOT EXISTS users (
+            id TEXT PRIMARY KEY,
+            username TEXT NOT NULL UNIQUE COLLATE NOCASE,
+            password_hash TEXT NOT NULL,
+            role TEXT NOT NULL DEFAULT 'member',
+            created_at INTEGER NOT NULL
+        );
+
+        -- Browser sign-ins; id is the SHA-256 of the cookie value
+        CREATE TABLE IF NOT EXISTS auth_sessions (
+            id TEXT PRIMARY KEY,
+            user_id TEXT NOT NULL,
+            created_at INTEGER NOT NULL,
+            expires_at INTEGER NOT NULL,
+            FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+        );
+
+        -- Bearer tokens for scripts; only the SHA-256 of the token is stored
+        CREATE TABLE IF NOT EXISTS api_tokens (
+            id TEXT PRIMARY KEY,
+            user_id TEXT NOT NULL,
+            name TEXT NOT NULL,
+            token_hash TEXT NOT NULL UNIQUE,
+            created_at INTEGER NOT NULL,
+            last_used_at INTEGER,
+            FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+        );
+
+        -- Project registry: agents only run inside a registered root (see lib/projects)
+        CREATE TABLE IF NOT EXISTS projects (
+            id TEXT PRIMARY KEY,
+            name TEXT NOT NULL,
+            root_path TEXT NOT NULL UNIQUE,
+            default_model TEXT,
+            skills_path TEXT,
+            agent_flags TEXT,
+            created_at INTEGER NOT NULL
+        );
+
         -- Create indexes for common queries
         CREATE INDEX IF NOT EXISTS idx_messages_session_id ON messages(session_id);
         CREATE INDEX IF NOT EXISTS idx_messages_session_id_timestamp ON messages(session_id, timestamp);
         CREATE INDEX IF NOT EXISTS idx_sessions_status ON chat_sessions(status);
         CREATE INDEX IF NOT EXISTS idx_sessions_created_at ON chat_sessions(created_at DESC);
+        CREATE INDEX IF NOT EXISTS idx_jobs_status ON jobs(status);
+        CREATE INDEX IF NOT EXISTS idx_jobs_session_id ON jobs(session_id);
+        CREATE INDEX IF NOT EXISTS idx_turn_diffs_session_id ON turn_diffs(session_id, created_at);
+        CREATE INDEX IF NOT EXISTS idx_checkpoints_session_id ON checkpoints(session_id, turn);
+        CREATE INDEX IF NOT EXISTS idx_usage_records_session_id ON usage_records(session_id);
+        CREATE INDEX IF NOT EXISTS idx_usage_records_run_id ON usage_records(run_id);
+        CREATE INDEX IF NOT EXISTS idx_task_plans_status ON task_plans(status);
+        CREATE INDEX IF NOT EXISTS idx_task_plans_session_id ON task_plans(session_id, created_at);
+        CREATE INDEX IF NOT EXISTS idx_auth_sessions_user_id ON auth_sessions(user_id);
+        CREATE INDEX IF NOT EXISTS idx_api_tokens_user_id ON api_tokens(user_id);
+
+        -- Tool calls stopped by agent permissions (see lib/agent/permissions)
+        CREATE TABLE IF NOT EXISTS policy_violations (
+            id TEXT PRIMARY KEY,
+            session_id TEXT NOT NULL,
+            tool_name TEXT NOT NULL,
+            reason TEXT NOT NULL,
+            created_at INTEGER NOT NULL,
+            FOREIGN KEY (session_id) REFERENCES chat_sessions(id) ON DELETE CASCADE
+        );
+        CREATE INDEX IF NOT EXISTS idx_policy_violations_session_id ON policy_violations(session_id, created_at);
+
+        -- Append-only record of who did what (see lib/audit); kept after sessions and users are deleted
+        CREATE TABLE IF NOT EXISTS audit_log (
+            id TEXT PRIMARY KEY,
+            action TEXT NOT NULL,
+            user_id TEXT,
+            session_id TEXT,
+            project_id TEXT,
+            details TEXT,
+            created_at INTEGER NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS idx_audit_log_created_at ON audit_log(created_at);
+        CREATE INDEX IF NOT EXISTS idx_audit_log_user_id ON audit_log(user_id, created_at);
+        CREATE INDEX IF NOT EXISTS idx_audit_log_project_id ON audit_log(project_id, created_at);
+        CREATE INDEX IF NOT EXISTS idx_audit_log_session_id ON audit_log(session_id, created_at);
+        CREATE TRIGGER IF NOT EXISTS audit_log_no_update BEFORE UPDATE ON audit_log
+            BEGIN SELECT RAISE(ABORT, 'audit_log is append-only'); END;
+        CREATE TRIGGER IF NOT EXISTS audit_log_no_delete BEFORE DELETE ON audit_log
+            BEGIN SELECT RAISE(ABORT, 'audit_log is append-only'); END;
     `);
     
     // Migrate: Add new columns if they don't exist
@@ -99,6 +262,80 @@ function getDb(): Database.Database {
     } catch (e) {
         // Column already exists
     }
+    try {
+        db.exec(`ALTER TABLE chat_sessions ADD COLUMN backend TEXT`);
+        globalForDb.stmts = undefined;
+    } catch (e) {
+        // Column already exists
+    }
+    try {
+        db.exec(`ALTER TABLE chat_sessions ADD COLUMN worktree TEXT`);
+        globalForDb.stmts = undefined;
+    } catch (e) {
+        // Column already exists
+    }
+    try {
+        db.exec(`ALTER TABLE chat_sessions ADD COLUMN approval_policy TEXT`);
+        globalForDb.stmts = undefined;
+    } catch (e) {
+        // Column already exists
+    }
+    try {
+        db.exec(`ALTER TABLE chat_sessions ADD COLUMN pending_approval TEXT`);
+        globalForDb.stmts = undefined;
+    } catch (e) {
+        // Column already exists
+    }
+    try {
+        db.exec(`ALTER TABLE chat_sessions ADD COLUMN budget TEXT`);
+        globalForDb.stmts = undefined;
+    } catch (e) {
+        // Column already exists
+    }
+    try {
+        db.exec(`ALTER TABLE chat_sessions ADD COLUMN owner_id TEXT`);
+        globalForDb.stmts = undefined;
+    } catch (e) {
+        // Column already exists
+    }
+    db.exec(`CREATE INDEX IF NOT EXISTS idx_sessions_owner_id ON chat_sessions(owner_id)`);
+    try {
+        db.exec(`ALTER TABLE chat_sessions ADD COLUMN project_id TEXT`);
+        globalForDb.stmts = undefined;
+    } catch (e) {
+        // Column already exists
+    }
+    db.exec(`CREATE INDEX IF NOT EXISTS idx_sessions_project_id ON chat_sessions(project_id)`);
+    try {
+        db.exec(`ALTER TABLE projects ADD COLUMN agent_permissions TEXT`);
+    } catch (e) {
+        // Column already exists
+    }
+    try {
+        db.exec(`ALTER TABLE users ADD COLUMN agent_permissions TEXT`);
+    } catch (e) {
+        // Column already exists
+    }
+
+    // Full-text index over chat titles, task.md and messages, built from existing chats on first start
+    const hasSearchIndex = db.prepare(`SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'search_index'`).get();
+    if (!hasSearchIndex) {
+        db.exec(`
+            CREATE VIRTUAL TABLE search_index USING fts5(
+                session_id UNINDEXED,
+                kind UNINDEXED,
+                message_id UNINDEXED,
+                content,
+                tokenize = 'porter unicode61'
+            );
+            INSERT INTO search_index (session_id, kind, message_id, content)
+                SELECT id, 'title', NULL, title FROM chat_sessions;
+            INSERT INTO search_index (session_id, kind, message_id, content)
+                SELECT id, 'task_md', NULL, task_md FROM chat_sessions WHERE task_md IS NOT NULL AND task_md != '';
+            INSERT INTO search_index (session_id, kind, message_id, content)
+                SELECT session_id, 'message', id, content FROM messages;
+        `);
+    }
 
     console.log('[DB] SQLite database initialized');
     
@@ -113,15 +350,15 @@ function getStatements() {
     const db = getDb();
     
     // Use globalThis for stmts too
-    if (!globalForDb.stmts || !globalForDb.stmts.insertSession) {
+    if (!globalForDb.stmts || !globalForDb.stmts.insertSession || !globalForDb.stmts.insertJob) {
         globalForDb.stmts = {
             insertSession: db.prepare(`
-                INSERT INTO chat_sessions (id, title, status, cursor_session_id, orchestrate_task_id, is_orchestrator_managed, source, workdir, task_md, created_at, updated_at)
-                VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+                INSERT INTO chat_sessions (id, title, status, cursor_session_id, orchestrate_task_id, is_orchestrator_managed, source, workdir, task_md, backend, worktree, approval_policy, pending_approval, budget, owner_id, project_id, created_at, updated_at)
+                VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
             `),
             updateSession: db.prepare(`
                 UPDATE chat_sessions 
-                SET title = ?, status = ?, cursor_session_id = ?, workdir = ?, task_md = ?, updated_at = ?
+                SET title = ?, status = ?, cursor_session_id = ?, workdir = ?, task_md = ?, backend = ?, worktree = ?, approval_policy = ?, pending_approval = ?, budget = ?, updated_at = ?
                 WHERE id = ?
             `),
             getSession: db.prepare(`
@@ -152,12 +389,34 @@ function getStatements() {
             getLastMessage: db.prepare(`
                 SELECT * FROM messages WHERE session_id = ? ORDER BY timestamp DESC LIMIT 1
             `),
+            insertJob: db.prepare(`
+                INSERT INTO jobs (id, session_id, status, task, workdir, task_md, backend, current_turn, cursor_session_id, last_manager_message, error, attempts, created_at, updated_at)
+                VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+            `),
+            updateJob: db.prepare(`
+                UPDATE jobs
+                SET status = ?, task_md = ?, current_turn = ?, cursor_session_id = ?, last_manager_message = ?, error = ?, attempts = ?, updated_at = ?
+                WHERE id = ?
+            `),
+            getJob: db.prepare(`
+                SELECT * FROM jobs WHERE id = ?
+            `),
         };
     }
     
     return globalForDb.stmts!;
 }
 
+// JSON-encoded columns (backend, worktree, pending_approval, budget)
+function parseJson<T>(value: string | null): T | undefined {
+    if (!value) return undefined;
+    try {
+        return JSON.parse(value) || undefined;
+    } catch {
+        return undefined;
+    }
+}
+
 // ============ Chat Session Operations ============
 
 export function createSession(session: ChatSession): void {
@@ -174,9 +433,18 @@ export function createSession(session: ChatSession): void {
         session.source || 'web',
         session.workdir || null,
         session.taskMd || null,
+        session.backend ? JSON.stringify(session.backend) : null,
+        session.worktree ? JSON.stringify(session.worktree) : null,
+        session.approvalPolicy || null,
+        session.pendingApproval ? JSON.stringify(session.pendingApproval) : null,
+        session.budget ? JSON.stringify(session.budget) : null,
+        session.ownerId || null,
+        session.projectId || null,
         session.createdAt.getTime(),
         now
     );
+    indexSessionText(session.id, 'title', session.title);
+    indexSessionText(session.id, 'task_md', session.taskMd);
     
     // Insert initial messages if any
     for (const msg of session.messages) {
@@ -188,6 +456,7 @@ export function createSession(session: ChatSession): void {
             msg.metadata ? JSON.stringify(msg.metadata) : null,
             msg.timestamp.getTime()
         );
+        indexMessage(session.id, msg);
     }
 }
 
@@ -202,9 +471,30 @@ export function updateSession(session: Partial<ChatSession> & { id: string }): v
         session.cursorSessionId ?? existing.cursorSessionId ?? null,
         session.workdir ?? existing.workdir ?? null,
         session.taskMd ?? existing.taskMd ?? null,
+        // `backend: undefined` clears it too (back to the settings backend)
+        'backend' in session
+            ? (session.backend ? JSON.stringify(session.backend) : null)
+            : (existing.backend ? JSON.stringify(existing.backend) : null),
+        (session.worktree ?? existing.worktree) ? JSON.stringify(session.worktree ?? existing.worktree) : null,
+        session.approvalPolicy ?? existing.approvalPolicy ?? null,
+        // Passing `pendingApproval: undefined` explicitly clears it
+        'pendingApproval' in session
+            ? (session.pendingApproval ? JSON.stringify(session.pendingApproval) : null)
+            : (existing.pendingApproval ? JSON.stringify(existing.pendingApproval) : null),
+        // Same for `budget: undefined` (back to the default budget)
+        'budget' in session
+            ? (session.budget ? JSON.stringify(session.budget) : null)
+            : (existing.budget ? JSON.stringify(existing.budget) : null),
         Date.now(),
         session.id
     );
+
+    if (session.title !== undefined && session.title !== existing.title) {
+        indexSessionText(session.id, 'title', session.title);
+    }
+    if (session.taskMd !== undefined && session.taskMd !== existing.taskMd) {
+        indexSessionText(session.id, 'task_md', session.taskMd);
+    }
 }
 
 export function getSession(id: string): ChatSession | null {
@@ -220,6 +510,13 @@ export function getSession(id: string): ChatSession | null {
         source: string | null;
         workdir: string | null;
         task_md: string | null;
+        backend: string | null;
+        worktree: string | null;
+        approval_policy: ApprovalPolicy | null;
+        pending_approval: string | null;
+        budget: string | null;
+        owner_id: string | null;
+        project_id: string | null;
         created_at: number;
         updated_at: number;
     } | undefined;
@@ -242,6 +539,13 @@ export function getSession(id: string): ChatSession | null {
         source: (row.source as 'web' | 'telegram') || 'web',
         workdir: row.workdir || undefined,
         taskMd: row.task_md || undefined,
+        backend: parseJson<AgentBackendConfig>(row.backend),
+        worktree: parseJson<WorktreeInfo>(row.worktree),
+        approvalPolicy: row.approval_policy || undefined,
+        pendingApproval: parseJson<PendingApproval>(row.pending_approval),
+        budget: parseJson<SessionBudget>(row.budget),
+        ownerId: row.owner_id || undefined,
+        projectId: row.project_id || undefined,
         createdAt: new Date(row.created_at),
         messages,
     };
@@ -263,6 +567,13 @@ export function getSessionMeta(id: string): ChatSession | null {
         source: string | null;
         workdir: string | null;
         task_md: string | null;
+        backend: string | null;
+        worktree: string | null;
+        approval_policy: ApprovalPolicy | null;
+        pending_approval: string | null;
+        budget: string | null;
+        owner_id: string | null;
+        project_id: string | null;
         created_at: number;
         updated_at: number;
     } | undefined;
@@ -279,6 +590,13 @@ export function getSessionMeta(id: string): ChatSession | null {
         source: (row.source as 'web' | 'telegram') || 'web',
         workdir: row.workdir || undefined,
         taskMd: row.task_md || undefined,
+        backend: parseJson<AgentBackendConfig>(row.backend),
+        worktree: parseJson<WorktreeInfo>(row.worktree),
+        approvalPolicy: row.approval_policy || undefined,
+        pendingApproval: parseJson<PendingApproval>(row.pending_approval),
+        budget: parseJson<SessionBudget>(row.budget),
+        ownerId: row.owner_id || undefined,
+        projectId: row.project_id || undefined,
         createdAt: new Date(row.created_at),
         messages: [],
     };
@@ -296,6 +614,13 @@ export function getAllSessions(): ChatSession[] {
         source: string | null;
         workdir: string | null;
         task_md: string | null;
+        backend: string | null;
+        worktree: string | null;
+        approval_policy: ApprovalPolicy | null;
+        pending_approval: string | null;
+        budget: string | null;
+        owner_id: string | null;
+        project_id: string | null;
         created_at: number;
         updated_at: number;
     }>;
@@ -310,6 +635,13 @@ export function getAllSessions(): ChatSession[] {
         source: (row.source as 'web' | 'telegram') || 'web',
         workdir: row.workdir || undefined,
         taskMd: row.task_md || undefined,
+        backend: parseJson<AgentBackendConfig>(row.backend),
+        worktree: parseJson<WorktreeInfo>(row.worktree),
+        approvalPolicy: row.approval_policy || undefined,
+        pendingApproval: parseJson<PendingApproval>(row.pending_approval),
+        budget: parseJson<SessionBudget>(row.budget),
+        ownerId: row.owner_id || undefined,
+        projectId: row.project_id || undefined,
         createdAt: new Date(row.created_at),
         messages: [], // Don't load messages for list view
     }));
@@ -329,6 +661,11 @@ export function deleteSession(id: string): void {
     
     // Delete messages first (or use CASCADE)
     db.prepare('DELETE FROM messages WHERE session_id = ?').run(id);
+    db.prepare('DELETE FROM jobs WHERE session_id = ?').run(id);
+    db.prepare('DELETE FROM turn_diffs WHERE session_id = ?').run(id);
+    db.prepare('DELETE FROM checkpoints WHERE session_id = ?').run(id);
+    db.prepare('DELETE FROM orchestrator_history WHERE session_id = ?').run(id);
+    db.prepare('DELETE FROM search_index WHERE session_id = ?').run(id);
     s.deleteSession!.run(id);
 }
 
@@ -354,6 +691,7 @@ export function addMessage(sessionId: string, message: Message): void {
             message.metadata ? JSON.stringify(message.metadata) : null,
             message.timestamp.getTime()
         );
+        indexMessage(sessionId, message);
         console.log(`[db.addMessage] Successfully saved message ${message.id} to session ${sessionId}`);
     } catch (err) {
         console.error(`[db.addMessage] Error saving message:`, err);
@@ -485,5 +823,906 @@ export function getSessionsByStatus(status: ChatStatus): ChatSession[] {
     }));
 }
 
+// ============ Job Operations ============
+
+type JobRow = {
+    id: string;
+    session_id: string;
+    status: JobStatus;
+    task: string;
+    workdir: string;
+    task_md: string | null;
+    backend: string | null;
+    current_turn: number;
+    cursor_session_id: string | null;
+    last_manager_message: string | null;
+    error: string | null;
+    attempts: number;
+    created_at: number;
+    updated_at: number;
+};
+
+function mapJobRow(row: JobRow): ConversationJob {
+    return {
+        id: row.id,
+        sessionId: row.session_id,
+        status: row.status,
+        task: row.task,
+        workdir: row.workdir,
+        taskMd: row.task_md || undefined,
+        backend: parseJson<AgentBackendConfig>(row.backend),
+        currentTurn: row.current_turn,
+        cursorSessionId: row.cursor_session_id || undefined,
+        lastManagerMessage: row.last_manager_message || undefined,
+        error: row.error || undefined,
+        attempts: row.attempts,
+        createdAt: new Date(row.created_at),
+        updatedAt: new Date(row.updated_at),
+    };
+}
+
+export function createJob(job: ConversationJob): void {
+    const s = getStatements();
+    s.insertJob!.run(
+        job.id,
+        job.sessionId,
+        job.status,
+        job.task,
+        job.workdir,
+        job.taskMd || null,
+        job.backend ? JSON.stringify(job.backend) : null,
+        job.currentTurn,
+        job.cursorSessionId || null,
+        job.lastManagerMessage || null,
+        job.error || null,
+        job.attempts,
+        job.createdAt.getTime(),
+        Date.now()
+    );
+}
+
+export function updateJob(job: Partial<ConversationJob> & { id: string }): void {
+    const existing = getJob(job.id);
+    if (!existing) return;
+
+    const s = getStatements();
+    s.updateJob!.run(
+        job.status ?? existing.status,
+        job.taskMd ?? existing.taskMd ?? null,
+        job.currentTurn ?? existing.currentTurn,
+        job.cursorSessionId ?? existing.cursorSessionId ?? null,
+        job.lastManagerMessage ?? existing.lastManagerMessage ?? null,
+        job.error ?? existing.error ?? null,
+        job.attempts ?? existing.attempts,
+        Date.now(),
+        job.id
+    );
+}
+
+export function getJob(id: string): ConversationJob | null {
+    const s = getStatements();
+    const row = s.getJob!.get(id) as JobRow | undefined;
+    return row ? mapJobRow(row) : null;
+}
+
+export function getJobsByStatus(statuses: JobStatus[]): ConversationJob[] {
+    const db = getDb();
+    const rows = db.prepare(`
+        SELECT * FROM jobs WHERE status IN (${statuses.map(() => '?').join(', ')}) ORDER BY created_at ASC
+    `).all(...statuses) as JobRow[];
+    return rows.map(mapJobRow);
+}
+
+export function getJobsForSession(sessionId: string): ConversationJob[] {
+    const db = getDb();
+    const rows = db.prepare(`
+        SELECT * FROM jobs WHERE session_id = ? ORDER BY created_at DESC
+    `).all(sessionId) as JobRow[];
+    return rows.map(mapJobRow);
+}
+
+// ============ Turn Diff Operations ============
+
+type TurnDiffRow = {
+    id: string;
+    session_id: string;
+    message_id: string | null;
+    turn: number | null;
+    mode: 'git' | 'hash';
+    files: string;
+    patch: string;
+    truncated: number;
+    created_at: number;
+};
+
+function mapTurnDiffRow(row: TurnDiffRow): TurnDiff {
+    return {
+        id: row.id,
+        sessionId: row.session_id,
+        messageId: row.message_id || undefined,
+        turn: row.turn ?? undefined,
+        mode: row.mode,
+        files: parseJson<FileChange[]>(row.files) ?? [],
+        patch: row.patch,
+        truncated: !!row.truncated,
+        createdAt: new Date(row.created_at),
+    };
+}
+
+export function addTurnDiff(diff: TurnDiff): void {
+    const db = getDb();
+    db.prepare(`
+        INSERT INTO turn_diffs (id, session_id, message_id, turn, mode, files, patch, truncated, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+        diff.id,
+        diff.sessionId,
+        diff.messageId || null,
+        diff.turn ?? null,
+        diff.mode,
+        JSON.stringify(diff.files),
+        diff.patch,
+        diff.truncated ? 1 : 0,
+        diff.createdAt.getTime()
+    );
+}
+
+export function getTurnDiff(id: string): TurnDiff | null {
+    const db = getDb();
+    const row = db.prepare(`SELECT * FROM turn_diffs WHERE id = ?`).get(id) as TurnDiffRow | undefined;
+    return row ? mapTurnDiffRow(row) : null;
+}
+
+export function getTurnDiffs(sessionId: string): TurnDiff[] {
+    const db = getDb();
+    const rows = db.prepare(`
+        SELECT * FROM turn_diffs WHERE session_id = ? ORDER BY created_at ASC
+    `).all(sessionId) as TurnDiffRow[];
+    return rows.map(mapTurnDiffRow);
+}
+
+// ============ Checkpoint Operations ============
+
+type CheckpointRow = {
+    id: string;
+    session_id: string;
+    message_id: string | null;
+    turn: number;
+    restore_point: string;
+    rolled_back: number;
+    created_at: number;
+};
+
+function mapCheckpointRow(row: CheckpointRow): SessionCheckpoint {
+    return {
+        id: row.id,
+        sessionId: row.session_id,
+        messageId: row.message_id || undefined,
+        turn: row.turn,
+        restorePoint: JSON.parse(row.restore_point) as RestorePoint,
+        rolledBack: !!row.rolled_back,
+        createdAt: new Date(row.created_at),
+    };
+}
+
+/**
+ * Store a checkpoint as the session's next turn
+ * @returns the turn number it was given
+ */
+export function addCheckpoint(checkpoint: Omit<SessionCheckpoint, 'turn'>): number {
+    const db = getDb();
+    const { turn } = db.prepare(`
+        SELECT COALESCE(MAX(turn), 0) + 1 AS turn FROM checkpoints WHERE session_id = ?
+    `).get(checkpoint.sessionId) as { turn: number };
+
+    db.prepare(`
+        INSERT INTO checkpoints (id, session_id, message_id, turn, restore_point, rolled_back, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(
+        checkpoint.id,
+        checkpoint.sessionId,
+        checkpoint.messageId || null,
+        turn,
+        JSON.stringify(checkpoint.restorePoint),
+        checkpoint.rolledBack ? 1 : 0,
+        checkpoint.createdAt.getTime()
+    );
+    return turn;
+}
+
+export function getCheckpoints(sessionId: string): SessionCheckpoint[] {
+    const db = getDb();
+    const rows = db.prepare(`
+        SELECT * FROM checkpoints WHERE session_id = ? ORDER BY turn ASC
+    `).all(sessionId) as CheckpointRow[];
+    return rows.map(mapCheckpointRow);
+}
+
+/**
+ * Flag checkpoints from a turn onward as undone
+ */
+export function markCheckpointsRolledBack(sessionId: string, fromTurn: number): void {
+    const db = getDb();
+    db.prepare(`
+        UPDATE checkpoints SET rolled_back = 1 WHERE session_id = ? AND turn >= ?
+    `).run(sessionId, fromTurn);
+}
+
+// ============ Usage Operations ============
+
+const USAGE_TOTALS_COLUMNS = `
+    COUNT(*) AS calls,
+    COALESCE(SUM(input_tokens), 0) AS input_tokens,
+    COALESCE(SUM(output_tokens), 0) AS output_tokens,
+    COALESCE(SUM(cost_usd), 0) AS cost_usd,
+    COALESCE(SUM(cost_usd IS NULL), 0) AS unpriced_calls
+`;
+
+type UsageTotalsRow = {
+    calls: number;
+    input_tokens: number;
+    output_tokens: number;
+    cost_usd: number;
+    unpriced_calls: number;
+};
+
+function mapUsageTotalsRow(row: UsageTotalsRow): UsageTotals {
+    return {
+        calls: row.calls,
+        inputTokens: row.input_tokens,
+        outputTokens: row.output_tokens,
+        costUsd: row.cost_usd,
+        unpricedCalls: row.unpriced_calls,
+    };
+}
+
+export function addUsageRecord(record: UsageRecord): void {
+    const db = getDb();
+    db.prepare(`
+        INSERT INTO usage_records (id, session_id, run_id, source, model, input_tokens, output_tokens, cost_usd, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+        record.id,
+        record.sessionId || null,
+        record.runId || null,
+        record.source,
+        record.model,
+        record.inputTokens,
+        record.outputTokens,
+        record.costUsd ?? null,
+        record.createdAt.getTime()
+    );
+}
+
+/**
+ * Usage summed over a session, an orchestrator run, or everything
+ */
+export function getUsageTotals(filter: { sessionId?: string; runId?: string } = {}): UsageTotals {
+    const db = getDb();
+    const where = filter.sessionId ? 'WHERE session_id = ?' : filter.runId ? 'WHERE run_id = ?' : '';
+    const params = filter.sessionId ? [filter.sessionId] : filter.runId ? [filter.runId] : [];
+    const row = db.prepare(`SELECT ${USAGE_TOTALS_COLUMNS} FROM usage_records ${where}`).get(...params) as UsageTotalsRow;
+    return mapUsageTotalsRow(row);
+}
+
+export function getUsageByModel(): Array<UsageTotals & { model: string }> {
+    const db = getDb();
+    const rows = db.prepare(`
+        SELECT model, ${USAGE_TOTALS_COLUMNS} FROM usage_records GROUP BY model ORDER BY cost_usd DESC, input_tokens DESC
+    `).all() as Array<UsageTotalsRow & { model: string }>;
+    return rows.map((row) => ({ model: row.model, ...mapUsageTotalsRow(row) }));
+}
+
+/**
+ * Sessions that spent the most
+ */
+export function getUsageBySession(limit: number): Array<UsageTotals & { sessionId: string }> {
+    const db = getDb();
+    const rows = db.prepare(`
+        SELECT session_id, ${USAGE_TOTALS_COLUMNS} FROM usage_records
+        WHERE session_id IS NOT NULL
+        GROUP BY session_id ORDER BY cost_usd DESC, SUM(input_tokens + output_tokens) DESC LIMIT ?
+    `).all(limit) as Array<UsageTotalsRow & { session_id: string }>;
+    return rows.map((row) => ({ sessionId: row.session_id, ...mapUsageTotalsRow(row) }));
+}
+
+// ============ Task Plan Operations ============
+
+type TaskPlanRow = {
+    id: string;
+    session_id: string | null;
+    title: string;
+    workdir: string;
+    status: TaskPlanStatus;
+    nodes: string;
+    created_at: number;
+    updated_at: number;
+};
+
+function mapTaskPlanRow(row: TaskPlanRow): TaskPlan {
+    return {
+        id: row.id,
+        sessionId: row.session_id || undefined,
+        title: row.title,
+        workdir: row.workdir,
+        status: row.status,
+        nodes: parseJson<PlanNode[]>(row.nodes) ?? [],
+        createdAt: new Date(row.created_at),
+        updatedAt: new Date(row.updated_at),
+    };
+}
+
+export function createTaskPlan(plan: TaskPlan): void {
+    const db = getDb();
+    db.prepare(`
+        INSERT INTO task_plans (id, session_id, title, workdir, status, nodes, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+        plan.id,
+        plan.sessionId || null,
+        plan.title,
+        plan.workdir,
+        plan.status,
+        JSON.stringify(plan.nodes),
+        plan.createdAt.getTime(),
+        Date.now()
+    );
+}
+
+export function updateTaskPlan(plan: Pick<TaskPlan, 'id' | 'status' | 'nodes'>): void {
+    const db = getDb();
+    db.prepare(`
+        UPDATE task_plans SET status = ?, nodes = ?, updated_at = ? WHERE id = ?
+    `).run(plan.status, JSON.stringify(plan.nodes), Date.now(), plan.id);
+}
+
+export function getTaskPlan(id: string): TaskPlan | null {
+    const db = getDb();
+    const row = db.prepare(`SELECT * FROM task_plans WHERE id = ?`).get(id) as TaskPlanRow | undefined;
+    return row ? mapTaskPlanRow(row) : null;
+}
+
+export function getTaskPlansByStatus(statuses: TaskPlanStatus[]): TaskPlan[] {
+    const db = getDb();
+    const rows = db.prepare(`
+        SELECT * FROM task_plans WHERE status IN (${statuses.map(() => '?').join(', ')}) ORDER BY created_at ASC
+    `).all(...statuses) as TaskPlanRow[];
+    return rows.map(mapTaskPlanRow);
+}
+
+/**
+ * Newest plans first, optionally only those submitted from one chat
+ */
+export function getRecentTaskPlans(limit: number, sessionId?: string): TaskPlan[] {
+    const db = getDb();
+    const rows = (sessionId
+        ? db.prepare(`SELECT * FROM task_plans WHERE session_id = ? ORDER BY created_at DESC LIMIT ?`).all(sessionId, limit)
+        : db.prepare(`SELECT * FROM task_plans ORDER BY created_at DESC LIMIT ?`).all(limit)) as TaskPlanRow[];
+    return rows.map(mapTaskPlanRow);
+}
+
+// ============ Orchestrator History Operations ============
+
+type OrchestratorHistoryRow = {
+    session_id: string;
+    messages: string;
+    summary: string | null;
+    compactions: number;
+    updated_at: number;
+};
+
+export function getOrchestratorHistory(sessionId: string): OrchestratorHistory | null {
+    const db = getDb();
+    const row = db.prepare(`SELECT * FROM orchestrator_history WHERE session_id = ?`).get(sessionId) as OrchestratorHistoryRow | undefined;
+    if (!row) return null;
+    return {
+        sessionId: row.session_id,
+        messages: parseJson<OrchestratorHistory['messages']>(row.messages) ?? [],
+        summary: row.summary || undefined,
+        compactions: row.compactions,
+        updatedAt: new Date(row.updated_at),
+    };
+}
+
+export function saveOrchestratorHistory(history: Omit<OrchestratorHistory, 'updatedAt'>): void {
+    const db = getDb();
+    db.prepare(`
+        INSERT INTO orchestrator_history (session_id, messages, summary, compactions, updated_at)
+        VALUES (?, ?, ?, ?, ?)
+        ON CONFLICT(session_id) DO UPDATE SET
+            messages = excluded.messages,
+            summary = excluded.summary,
+            compactions = excluded.compactions,
+            updated_at = excluded.updated_at
+    `).run(
+        history.sessionId,
+        JSON.stringify(history.messages),
+        history.summary || null,
+        history.compactions,
+        Date.now()
+    );
+}
+
+export function deleteOrchestratorHistory(sessionId: string): boolean {
+    const db = getDb();
+    return db.prepare(`DELETE FROM orchestrator_history WHERE session_id = ?`).run(sessionId).changes > 0;
+}
+
+// ============ User / Auth Operations ============
+
+type UserRow = {
+    id: string;
+    username: string;
+    password_hash: string;
+    role: UserRole;
+    agent_permissions: string | null;
+    created_at: number;
+};
+
+function mapUserRow(row: UserRow): User {
+    return {
+        id: row.id,
+        username: row.username,
+        role: row.role,
+        agentPermissions: parseJson<AgentPermissions>(row.agent_permissions),
+        createdAt: new Date(row.created_at),
+    };
+}
+
+export function createUser(user: User, passwordHash: string): void {
+    const db = getDb();
+    db.prepare(`
+        INSERT INTO users (id, username, password_hash, role, created_at)
+        VALUES (?, ?, ?, ?, ?)
+    `).run(user.id, user.username, passwordHash, user.role, user.createdAt.getTime());
+}
+
+export function getUser(id: string): User | null {
+    const db = getDb();
+    const row = db.prepare(`SELECT * FROM users WHERE id = ?`).get(id) as UserRow | undefined;
+    return row ? mapUserRow(row) : null;
+}
+
+/**
+ * Look up a user by username (case-insensitive) along with their password hash
+ */
+export function getUserCredentials(username: string): { user: User; passwordHash: string } | null {
+    const db = getDb();
+    const row = db.prepare(`SELECT * FROM users WHERE username = ?`).get(username) as UserRow | undefined;
+    return row ? { user: mapUserRow(row), passwordHash: row.password_hash } : null;
+}
+
+export function getUsers(): User[] {
+    const db = getDb();
+    const rows = db.prepare(`SELECT * FROM users ORDER BY created_at ASC`).all() as UserRow[];
+    return rows.map(mapUserRow);
+}
+
+export function countUsers(): number {
+    const db = getDb();
+    return (db.prepare(`SELECT COUNT(*) as count FROM users`).get() as { count: number }).count;
+}
+
+export function updateUserPassword(id: string, passwordHash: string): void {
+    const db = getDb();
+    db.prepare(`UPDATE users SET password_hash = ? WHERE id = ?`).run(passwordHash, id);
+}
+
+export function updateUserAgentPermissions(id: string, permissions: AgentPermissions | undefined): boolean {
+    const db = getDb();
+    return db.prepare(`UPDATE users SET agent_permissions = ? WHERE id = ?`)
+        .run(permissions ? JSON.stringify(permissions) : null, id).changes > 0;
+}
+
+/**
+ * Delete a user with their sign-ins and tokens (their chats are kept, unowned)
+ */
+export function deleteUser(id: string): boolean {
+    const db = getDb();
+    db.prepare(`DELETE FROM auth_sessions WHERE user_id = ?`).run(id);
+    db.prepare(`DELETE FROM api_tokens WHERE user_id = ?`).run(id);
+    db.prepare(`UPDATE chat_sessions SET owner_id = NULL WHERE owner_id = ?`).run(id);
+    return db.prepare(`DELETE FROM users WHERE id = ?`).run(id).changes > 0;
+}
+
+/**
+ * Give chats created before auth was set up to a user
+ */
+export function claimUnownedSessions(userId: string): number {
+    const db = getDb();
+    return db.prepare(`UPDATE chat_sessions SET owner_id = ? WHERE owner_id IS NULL`).run(userId).changes;
+}
+
+export function createAuthSession(id: string, userId: string, expiresAt: Date): void {
+    const db = getDb();
+    db.prepare(`
+        INSERT INTO auth_sessions (id, user_id, created_at, expires_at)
+        VALUES (?, ?, ?, ?)
+    `).run(id, userId, Date.now(), expiresAt.getTime());
+}
+
+/**
+ * The user signed in with a (hashed) session cookie, if it hasn't expired
+ */
+export function getAuthSessionUser(id: string): User | null {
+    const db = getDb();
+    const row = db.prepare(`
+        SELECT users.* FROM auth_sessions
+        JOIN users ON users.id = auth_sessions.user_id
+        WHERE auth_sessions.id = ? AND auth_sessions.expires_at > ?
+    `).get(id, Date.now()) as UserRow | undefined;
+    return row ? mapUserRow(row) : null;
+}
+
+export function deleteAuthSession(id: string): void {
+    const db = getDb();
+    db.prepare(`DELETE FROM auth_sessions WHERE id = ?`).run(id);
+}
+
+export function deleteExpiredAuthSessions(): number {
+    const db = getDb();
+    return db.prepare(`DELETE FROM auth_sessions WHERE expires_at <= ?`).run(Date.now()).changes;
+}
+
+type ApiTokenRow = {
+    id: string;
+    user_id: string;
+    name: string;
+    created_at: number;
+    last_used_at: number | null;
+};
+
+export function createApiToken(token: ApiToken, tokenHash: string): void {
+    const db = getDb();
+    db.prepare(`
+        INSERT INTO api_tokens (id, user_id, name, token_hash, created_at)
+        VALUES (?, ?, ?, ?, ?)
+    `).run(token.id, token.userId, token.name, tokenHash, token.createdAt.getTime());
+}
+
+export function getApiTokens(userId: string): ApiToken[] {
+    const db = getDb();
+    const rows = db.prepare(`
+        SELECT id, user_id, name, created_at, last_used_at FROM api_tokens WHERE user_id = ? ORDER BY created_at DESC
+    `).all(userId) as ApiTokenRow[];
+    return rows.map((row) => ({
+        id: row.id,
+        userId: row.user_id,
+        name: row.name,
+        createdAt: new Date(row.created_at),
+        lastUsedAt: row.last_used_at ? new Date(row.last_used_at) : undefined,
+    }));
+}
+
+/**
+ * The user a (hashed) bearer token belongs to; records the token as used
+ */
+export function getApiTokenUser(tokenHash: string): User | null {
+    const db = getDb();
+    const row = db.prepare(`
+        SELECT users.*, api_tokens.id AS token_id FROM api_tokens
+        JOIN users ON users.id = api_tokens.user_id
+        WHERE api_tokens.token_hash = ?
+    `).get(tokenHash) as (UserRow & { token_id: string }) | undefined;
+    if (!row) return null;
+    db.prepare(`UPDATE api_tokens SET last_used_at = ? WHERE id = ?`).run(Date.now(), row.token_id);
+    return mapUserRow(row);
+}
+
+export function deleteApiToken(id: string, userId: string): boolean {
+    const db = getDb();
+    return db.prepare(`DELETE FROM api_tokens WHERE id = ? AND user_id = ?`).run(id, userId).changes > 0;
+}
+
+// ============ Project Operations ============
+
+type ProjectRow = {
+    id: string;
+    name: string;
+    root_path: string;
+    default_model: string | null;
+    skills_path: string | null;
+    agent_flags: string | null;
+    agent_permissions: string | null;
+    created_at: number;
+};
+
+function mapProjectRow(row: ProjectRow): Project {
+    return {
+        id: row.id,
+        name: row.name,
+        rootPath: row.root_path,
+        defaultModel: row.default_model || undefined,
+        skillsPath: row.skills_path || undefined,
+        agentFlags: parseJson<string[]>(row.agent_flags) || [],
+        permissions: parseJson<AgentPermissions>(row.agent_permissions),
+        createdAt: new Date(row.created_at),
+    };
+}
+
+export function createProject(project: Project): void {
+    const db = getDb();
+    db.prepare(`
+        INSERT INTO projects (id, name, root_path, default_model, skills_path, agent_flags, agent_permissions, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+        project.id,
+        project.name,
+        project.rootPath,
+        project.defaultModel || null,
+        project.skillsPath || null,
+        project.agentFlags.length > 0 ? JSON.stringify(project.agentFlags) : null,
+        project.permissions ? JSON.stringify(project.permissions) : null,
+        project.createdAt.getTime()
+    );
+}
+
+export function updateProject(project: Project): void {
+    const db = getDb();
+    db.prepare(`
+        UPDATE projects SET name = ?, root_path = ?, default_model = ?, skills_path = ?, agent_flags = ?, agent_permissions = ?
+        WHERE id = ?
+    `).run(
+        project.name,
+        project.rootPath,
+        project.defaultModel || null,
+        project.skillsPath || null,
+        project.agentFlags.length > 0 ? JSON.stringify(project.agentFlags) : null,
+        project.permissions ? JSON.stringify(project.permissions) : null,
+        project.id
+    );
+}
+
+export function getProject(id: string): Project | null {
+    const db = getDb();
+    const row = db.prepare(`SELECT * FROM projects WHERE id = ?`).get(id) as ProjectRow | undefined;
+    return row ? mapProjectRow(row) : null;
+}
+
+export function getProjects(): Project[] {
+    const db = getDb();
+    const rows = db.prepare(`SELECT * FROM projects ORDER BY name COLLATE NOCASE ASC`).all() as ProjectRow[];
+    return rows.map(mapProjectRow);
+}
+
+/**
+ * Delete a project; its chats are kept, without a project until one covering their
+ * workdir is registered
+ */
+export function deleteProject(id: string): boolean {
+    const db = getDb();
+    return db.prepare(`DELETE FROM projects WHERE id = ?`).run(id).changes > 0;
+}
+
+// Chats from before projects existed, or whose project was deleted
+const UNASSIGNED_SESSION = `(project_id IS NULL OR project_id NOT IN (SELECT id FROM projects))`;
+
+/**
+ * Working directories of chats without a project
+ */
+export function getUnassignedWorkdirs(): string[] {
+    const db = getDb();
+    const rows = db.prepare(`
+        SELECT DISTINCT workdir FROM chat_sessions WHERE ${UNASSIGNED_SESSION} AND workdir IS NOT NULL
+    `).all() as Array<{ workdir: string }>;
+    return rows.map((row) => row.workdir);
+}
+
+/**
+ * Move the chats without a project in a working directory into one
+ */
+export function assignSessionsToProject(workdir: string, projectId: string): number {
+    const db = getDb();
+    return db.prepare(`
+        UPDATE chat_sessions SET project_id = ? WHERE ${UNASSIGNED_SESSION} AND workdir = ?
+    `).run(projectId, workdir).changes;
+}
+
+// ============ Policy Violation Operations ============
+
+type PolicyViolationRow = {
+    id: string;
+    session_id: string;
+    tool_name: string;
+    reason: string;
+    created_at: number;
+};
+
+export function addPolicyViolation(violation: PolicyViolation): void {
+    const db = getDb();
+    db.prepare(`
+        INSERT INTO policy_violations (id, session_id, tool_name, reason, created_at)
+        VALUES (?, ?, ?, ?, ?)
+    `).run(violation.id, violation.sessionId, violation.toolName, violation.reason, violation.createdAt.getTime());
+}
+
+export function getPolicyViolations(sessionId: string): PolicyViolation[] {
+    const db = getDb();
+    const rows = db.prepare(`
+        SELECT * FROM policy_violations WHERE session_id = ? ORDER BY created_at ASC
+    `).all(sessionId) as PolicyViolationRow[];
+    return rows.map((row) => ({
+        id: row.id,
+        sessionId: row.session_id,
+        toolName: row.tool_name,
+        reason: row.reason,
+        createdAt: new Date(row.created_at),
+    }));
+}
+
+// ============ Audit Log Operations ============
+
+type AuditRow = {
+    id: string;
+    action: AuditEntry['action'];
+    user_id: string | null;
+    username: string | null;
+    session_id: string | null;
+    project_id: string | null;
+    details: string | null;
+    created_at: number;
+};
+
+export function addAuditEntry(entry: AuditEntry): void {
+    const db = getDb();
+    db.prepare(`
+        INSERT INTO audit_log (id, action, user_id, session_id, project_id, details, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(
+        entry.id,
+        entry.action,
+        entry.userId || null,
+        entry.sessionId || null,
+        entry.projectId || null,
+        entry.details ? JSON.stringify(entry.details) : null,
+        entry.createdAt.getTime()
+    );
+}
+
+/**
+ * Audit entries matching every given filter, newest first
+ */
+export function queryAuditLog(query: AuditQuery): AuditEntry[] {
+    const db = getDb();
+    const conditions: string[] = [];
+    const params: Array<string | number> = [];
+    const filters: Array<[string, string | number | undefined]> = [
+        ['audit_log.user_id = ?', query.userId],
+        ['audit_log.project_id = ?', query.projectId],
+        ['audit_log.session_id = ?', query.sessionId],
+        ['audit_log.action = ?', query.action],
+        ['audit_log.created_at >= ?', query.from?.getTime()],
+        ['audit_log.created_at < ?', query.to?.getTime()],
+    ];
+    for (const [condition, value] of filters) {
+        if (value === undefined) continue;
+        conditions.push(condition);
+        params.push(value);
+    }
+
+    const rows = db.prepare(`
+        SELECT audit_log.*, users.username FROM audit_log
+        LEFT JOIN users ON users.id = audit_log.user_id
+        ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+        ORDER BY audit_log.created_at DESC, audit_log.rowid DESC
+        LIMIT ? OFFSET ?
+    `).all(...params, query.limit ?? -1, query.offset ?? 0) as AuditRow[];
+
+    return rows.map((row) => ({
+        id: row.id,
+        action: row.action,
+        userId: row.user_id || undefined,
+        username: row.username || undefined,
+        sessionId: row.session_id || undefined,
+        projectId: row.project_id || undefined,
+        details: parseJson<Record<string, unknown>>(row.details),
+        createdAt: new Date(row.created_at),
+    }));
+}
+
+// ============ Search Operations ============
+
+// Around each matched term in snippets (turned into highlight ranges)
+const MATCH_START = '\u0002';
+const MATCH_END = '\u0003';
+
+// A chat's title or task.md, replacing what was indexed before
+function indexSessionText(sessionId: string, kind: 'title' | 'task_md', content: string | undefined): void {
+    const db = getDb();
+    db.prepare(`DELETE FROM search_index WHERE session_id = ? AND kind = ?`).run(sessionId, kind);
+    if (content) {
+        db.prepare(`INSERT INTO search_index (session_id, kind, message_id, content) VALUES (?, ?, NULL, ?)`).run(sessionId, kind, content);
+    }
+}
+
+function indexMessage(sessionId: string, message: Message): void {
+    getDb().prepare(`
+        INSERT INTO search_index (session_id, kind, message_id, content) VALUES (?, 'message', ?, ?)
+    `).run(sessionId, message.id, message.content);
+}
+
+function parseSnippet(marked: string): { snippet: string; highlights: Array<[number, number]> } {
+    let snippet = '';
+    let start = -1;
+    const highlights: Array<[number, number]> = [];
+    for (const char of marked) {
+        if (char === MATCH_START) {
+            start = snippet.length;
+        } else if (char === MATCH_END) {
+            if (start >= 0) highlights.push([start, snippet.length]);
+            start = -1;
+        } else {
+            snippet += char;
+        }
+    }
+    return { snippet, highlights };
+}
+
+type SearchRow = {
+    session_id: string;
+    kind: SearchResult['kind'];
+    message_id: string | null;
+    snippet: string;
+    title: string;
+    status: ChatStatus;
+    workdir: string | null;
+    role: Message['role'] | null;
+    timestamp: number;
+};
+
+/**
+ * Best matches first across the chats listed in the Sidebar
+ * @param query.text an FTS5 query (see lib/search for turning user input into one)
+ */
+export function searchChats(query: SearchQuery): SearchResult[] {
+    const db = getDb();
+    const conditions = ['search_index MATCH ?', 'chat_sessions.is_orchestrator_managed = 0'];
+    const params: Array<string | number> = [query.text];
+    const filters: Array<[string, string | number | undefined]> = [
+        ['chat_sessions.status = ?', query.status],
+        [`COALESCE(chat_sessions.source, 'web') = ?`, query.source],
+        ['chat_sessions.project_id = ?', query.projectId],
+        ['messages.role = ?', query.role],
+        ['COALESCE(messages.timestamp, chat_sessions.updated_at) >= ?', query.from?.getTime()],
+        ['COALESCE(messages.timestamp, chat_sessions.updated_at) < ?', query.to?.getTime()],
+        ['chat_sessions.owner_id = ?', query.ownerId],
+    ];
+    for (const [condition, value] of filters) {
+        if (value === undefined) continue;
+        conditions.push(condition);
+        params.push(value);
+    }
+    if (query.workdir) {
+        const root = query.workdir.replace(/\/+$/, '') || '/';
+        conditions.push(`(chat_sessions.workdir = ? OR chat_sessions.workdir LIKE ? ESCAPE '\\')`);
+        params.push(root, `${root.replace(/[\\%_]/g, '\\$&').replace(/\/$/, '')}/%`);
+    }
+
+    const rows = db.prepare(`
+        SELECT search_index.session_id, search_index.kind, search_index.message_id,
+            snippet(search_index, 3, '${MATCH_START}', '${MATCH_END}', '…', 16) AS snippet,
+            chat_sessions.title, chat_sessions.status, chat_sessions.workdir, messages.role,
+            COALESCE(messages.timestamp, chat_sessions.updated_at) AS timestamp
+        FROM search_index
+        JOIN chat_sessions ON chat_sessions.id = search_index.session_id
+        LEFT JOIN messages ON messages.id = search_index.message_id
+        WHERE ${conditions.join(' AND ')}
+        ORDER BY search_index.rank, timestamp DESC
+        LIMIT ? OFFSET ?
+    `).all(...params, query.limit ?? -1, query.offset ?? 0) as SearchRow[];
+
+    return rows.map((row) => ({
+        sessionId: row.session_id,
+        sessionTitle: row.title,
+        status: row.status,
+        workdir: row.workdir || undefined,
+        kind: row.kind,
+        messageId: row.message_id || undefined,
+        role: row.role || undefined,
+        ...parseSnippet(row.snippet),
+        timestamp: new Date(row.timestamp),
+    }));
+}
+
 // Export database instance for advanced operations
 export { getDb };
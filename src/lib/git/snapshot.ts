@@ -0,0 +1,311 @@
+/**
+ * Workdir Snapshots
+ * Captures the state of a workdir before a Cursor turn, diffs it afterwards and can
+ * put it back (rollback).
+ * Git workdirs are snapshotted as tree objects through a throwaway index (the user's
+ * index, HEAD and stash are untouched); anything else falls back to hashing files.
+ */
+import { createHash, randomBytes } from 'crypto';
+import { existsSync, mkdirSync, readdirSync, readFileSync, realpathSync, rmSync, statSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { dirname, join, relative, sep } from 'path';
+import { FileChange, RestorePoint, WorkdirChanges } from '../types';
+import { unifiedDiff } from '../utils/diff';
+import { getRepoRoot, git } from './worktree';
+
+// Patches beyond this are cut off (the file list stays complete)
+const MAX_PATCH_BYTES = 512 * 1024;
+// Hash-mode limits, so a huge non-git directory can't stall a turn
+const MAX_FILES = 5000;
+const MAX_CONTENT_BYTES = 256 * 1024;
+const IGNORED_DIRS = new Set(['.git', 'node_modules', '.next', '.data', 'dist', 'build', '.cache']);
+
+interface HashedFile {
+    hash: string;
+    content?: string; // Text content (small text files only)
+}
+
+export type WorkdirSnapshot =
+    | { mode: 'git'; workdir: string; repoRoot: string; subdir: string; tree: string }
+    | { mode: 'hash'; workdir: string; files: Map<string, HashedFile> };
+
+// ============ Git mode ============
+
+// Run git commands against a temporary index file
+async function withTempIndex<T>(fn: (env: Record<string, string>) => Promise<T>): Promise<T> {
+    const indexFile = join(tmpdir(), `cursor-pilot-index-${randomBytes(6).toString('hex')}`);
+    try {
+        return await fn({ GIT_INDEX_FILE: indexFile });
+    } finally {
+        rmSync(indexFile, { force: true });
+        rmSync(`${indexFile}.lock`, { force: true });
+    }
+}
+
+function writeWorkdirTree(repoRoot: string, subdir: string): Promise<string> {
+    return withTempIndex(async (env) => {
+        try {
+            await git(repoRoot, ['read-tree', 'HEAD'], env);
+        } catch {
+            // No commits yet
+            await git(repoRoot, ['read-tree', '--empty'], env);
+        }
+        await git(repoRoot, ['add', '-A', '--', subdir || '.'], env);
+        return await git(repoRoot, ['write-tree'], env);
+    });
+}
+
+/**
+ * Put the workdir back to a snapshot tree
+ * Files added since are deleted; modified/deleted files are checked out of the tree.
+ * Only the workdir subtree is touched, and ignored files are left alone.
+ */
+async function restoreTree(point: Extract<RestorePoint, { mode: 'git' }>): Promise<string[]> {
+    const { repoRoot, subdir, tree } = point;
+    const current = await writeWorkdirTree(repoRoot, subdir);
+    if (current === tree) return [];
+
+    const pathspec = ['--', subdir || '.'];
+    const nameStatus = await git(repoRoot, ['diff-tree', '-r', '--no-renames', '--name-status', tree, current, ...pathspec]);
+    const toCheckout: string[] = [];
+    const changed: string[] = [];
+
+    for (const line of nameStatus.split('\n').filter(Boolean)) {
+        const [code, ...pathParts] = line.split('\t');
+        const path = pathParts.join('\t');
+        if (code === 'A') {
+            rmSync(join(repoRoot, path), { force: true });
+        } else {
+            toCheckout.push(path);
+        }
+        changed.push(subdir ? relative(subdir, path) : path);
+    }
+
+    if (toCheckout.length > 0) {
+        await withTempIndex(async (env) => {
+            await git(repoRoot, ['read-tree', tree], env);
+            await git(repoRoot, ['checkout-index', '-f', '--', ...toCheckout], env);
+        });
+    }
+    return changed;
+}
+
+async function diffTrees(snapshot: Extract<WorkdirSnapshot, { mode: 'git' }>, after: string): Promise<WorkdirChanges | null> {
+    if (snapshot.tree === after) return null;
+
+    // --relative limits the diff to the workdir and makes paths relative to it
+    const base = ['diff-tree', '-r', '--no-renames', ...(snapshot.subdir ? [`--relative=${snapshot.subdir}/`] : [])];
+    const nameStatus = await git(snapshot.repoRoot, [...base, '--name-status', snapshot.tree, after]);
+    if (!nameStatus) return null;
+    const numstat = await git(snapshot.repoRoot, [...base, '--numstat', snapshot.tree, after]);
+    const patch = await git(snapshot.repoRoot, [...base, '-p', '--no-color', snapshot.tree, after]);
+
+    const counts = new Map<string, { additions: number; deletions: number; binary: boolean }>();
+    for (const line of numstat.split('\n').filter(Boolean)) {
+        const [added, deleted, ...pathParts] = line.split('\t');
+        counts.set(pathParts.join('\t'), {
+            additions: Number(added) || 0,
+            deletions: Number(deleted) || 0,
+            binary: added === '-',
+        });
+    }
+
+    const files: FileChange[] = nameStatus.split('\n').filter(Boolean).map((line) => {
+        const [code, ...pathParts] = line.split('\t');
+        const path = pathParts.join('\t');
+        const count = counts.get(path);
+        return {
+            path,
+            status: code === 'A' ? 'added' : code === 'D' ? 'deleted' : 'modified',
+            additions: count?.additions ?? 0,
+            deletions: count?.deletions ?? 0,
+            ...(count?.binary && { binary: true }),
+        };
+    });
+
+    return { mode: 'git', files, ...truncatePatch(patch + '\n') };
+}
+
+// ============ Hash mode ============
+
+function hashWorkdir(workdir: string): Map<string, HashedFile> {
+    const files = new Map<string, HashedFile>();
+    const pending = [workdir];
+
+    while (pending.length > 0 && files.size < MAX_FILES) {
+        const dir = pending.pop()!;
+        let entries;
+        try {
+            entries = readdirSync(dir, { withFileTypes: true });
+        } catch {
+            continue;
+        }
+
+        for (const entry of entries) {
+            const fullPath = join(dir, entry.name);
+            if (entry.isDirectory()) {
+                if (!IGNORED_DIRS.has(entry.name)) pending.push(fullPath);
+                continue;
+            }
+            if (!entry.isFile()) continue;
+
+            const path = relative(workdir, fullPath).split(sep).join('/');
+            try {
+                const stat = statSync(fullPath);
+                if (stat.size > MAX_CONTENT_BYTES) {
+                    // Don't read large files; size + mtime is enough to notice a change
+                    files.set(path, { hash: `${stat.size}:${stat.mtimeMs}` });
+                    continue;
+                }
+                const data = readFileSync(fullPath);
+                files.set(path, {
+                    hash: createHash('sha1').update(data).digest('hex'),
+                    content: data.includes(0) ? undefined : data.toString('utf-8'),
+                });
+            } catch {
+                // File vanished or is unreadable
+            }
+            if (files.size >= MAX_FILES) break;
+        }
+    }
+
+    return files;
+}
+
+function diffHashes(before: Map<string, HashedFile>, after: Map<string, HashedFile>): WorkdirChanges | null {
+    const paths = [...new Set([...before.keys(), ...after.keys()])].sort();
+    const files: FileChange[] = [];
+    const patches: string[] = [];
+
+    for (const path of paths) {
+        const old = before.get(path);
+        const current = after.get(path);
+        if (old && current && old.hash === current.hash) continue;
+
+        const status = !old ? 'added' : !current ? 'deleted' : 'modified';
+        const isText = (!old || old.content !== undefined) && (!current || current.content !== undefined);
+        if (!isText) {
+            files.push({ path, status, additions: 0, deletions: 0, binary: true });
+            patches.push(`diff --git a/${path} b/${path}\nBinary files ${old ? `a/${path}` : '/dev/null'} and ${current ? `b/${path}` : '/dev/null'} differ\n`);
+            continue;
+        }
+
+        const diff = unifiedDiff(path, old ? old.content! : null, current ? current.content! : null);
+        files.push({ path, status, additions: diff.additions, deletions: diff.deletions });
+        patches.push(diff.patch);
+    }
+
+    if (files.length === 0) return null;
+    return { mode: 'hash', files, ...truncatePatch(patches.join('')) };
+}
+
+function truncatePatch(patch: string): { patch: string; truncated?: boolean } {
+    if (Buffer.byteLength(patch) <= MAX_PATCH_BYTES) return { patch };
+    return { patch: Buffer.from(patch).subarray(0, MAX_PATCH_BYTES).toString('utf-8'), truncated: true };
+}
+
+function restoreFiles(points: Extract<RestorePoint, { mode: 'hash' }>[]): { restored: string[]; skipped: string[] } {
+    const restored = new Set<string>();
+    const skipped = new Set<string>();
+
+    // Undo the newest turn first
+    for (const point of [...points].reverse()) {
+        for (const [path, content] of Object.entries(point.files)) {
+            const fullPath = join(point.workdir, path);
+            if (content === null) {
+                rmSync(fullPath, { force: true });
+            } else {
+                mkdirSync(dirname(fullPath), { recursive: true });
+                writeFileSync(fullPath, content);
+            }
+            restored.add(path);
+        }
+        point.unrestorable?.forEach((path) => skipped.add(path));
+    }
+
+    return { restored: [...restored].sort(), skipped: [...skipped].filter((p) => !restored.has(p)).sort() };
+}
+
+// ============ Public API ============
+
+/**
+ * Snapshot a workdir before the agent runs
+ * @returns null if the workdir can't be snapshotted (change tracking is best-effort)
+ */
+export async function takeSnapshot(workdir: string): Promise<WorkdirSnapshot | null> {
+    try {
+        if (!existsSync(workdir)) return null;
+
+        const repoRoot = await getRepoRoot(workdir);
+        if (repoRoot) {
+            const subdir = relative(repoRoot, realpathSync(workdir)).split(sep).join('/');
+            return { mode: 'git', workdir, repoRoot, subdir, tree: await writeWorkdirTree(repoRoot, subdir) };
+        }
+
+        return { mode: 'hash', workdir, files: hashWorkdir(workdir) };
+    } catch (error) {
+        console.warn(`[Snapshot] Failed to snapshot ${workdir}:`, error);
+        return null;
+    }
+}
+
+/**
+ * Changes made to the workdir since the snapshot
+ * @returns null if nothing changed or the diff failed
+ */
+export async function diffSinceSnapshot(snapshot: WorkdirSnapshot): Promise<WorkdirChanges | null> {
+    try {
+        if (snapshot.mode === 'git') {
+            return await diffTrees(snapshot, await writeWorkdirTree(snapshot.repoRoot, snapshot.subdir));
+        }
+        return diffHashes(snapshot.files, hashWorkdir(snapshot.workdir));
+    } catch (error) {
+        console.warn(`[Snapshot] Failed to diff ${snapshot.workdir}:`, error);
+        return null;
+    }
+}
+
+/**
+ * What's needed to undo a turn, from the snapshot taken before it
+ * Git snapshots already hold the whole tree; hash snapshots keep the prior content of changed files.
+ */
+export function createRestorePoint(snapshot: WorkdirSnapshot, changes: WorkdirChanges | null): RestorePoint {
+    if (snapshot.mode === 'git') {
+        return { mode: 'git', repoRoot: snapshot.repoRoot, subdir: snapshot.subdir, tree: snapshot.tree };
+    }
+
+    const files: Record<string, string | null> = {};
+    const unrestorable: string[] = [];
+    for (const file of changes?.files ?? []) {
+        const before = snapshot.files.get(file.path);
+        if (!before) {
+            files[file.path] = null;
+        } else if (before.content !== undefined) {
+            files[file.path] = before.content;
+        } else {
+            unrestorable.push(file.path);
+        }
+    }
+    return { mode: 'hash', workdir: snapshot.workdir, files, ...(unrestorable.length > 0 && { unrestorable }) };
+}
+
+/**
+ * Restore the workdir to its state before the first of `points`
+ * @param points - restore points of the target turn and every later turn, oldest first
+ * @returns workdir-relative paths that were restored, and ones that couldn't be
+ */
+export async function restoreWorkdir(points: RestorePoint[]): Promise<{ restored: string[]; skipped: string[] }> {
+    const [target] = points;
+    if (!target) return { restored: [], skipped: [] };
+
+    if (target.mode === 'git') {
+        try {
+            return { restored: await restoreTree(target), skipped: [] };
+        } catch (error) {
+            // Unreachable snapshot trees are pruned by `git gc` after gc.pruneExpire (2 weeks by default)
+            throw new Error(`Failed to restore snapshot ${target.tree.slice(0, 8)}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    return restoreFiles(points.filter((p): p is Extract<RestorePoint, { mode: 'hash' }> => p.mode === 'hash'));
+}
@@ -0,0 +1,198 @@
+/**
+ * Git Worktree Isolation
+ * Gives each orchestrator sub-task its own worktree + branch off the session's workdir,
+ * so parallel Cursor agents never edit the same checkout. Finished worktrees are either
+ * merged back into the branch they came from or discarded.
+ */
+import { execFile } from 'child_process';
+import { existsSync, mkdirSync, realpathSync } from 'fs';
+import { basename, join, relative, resolve, sep } from 'path';
+import { promisify } from 'util';
+import { WorktreeInfo } from '../types';
+
+const execFileAsync = promisify(execFile);
+
+// Worktrees live outside the user's repo so they never show up as untracked files
+const WORKTREES_DIR = process.env.WORKTREES_DIR || '.data/worktrees';
+
+/**
+ * Whether a (symlink-resolved) path is inside the sub-task worktrees directory
+ */
+export function isWorktreePath(path: string): boolean {
+    const dir = resolve(WORKTREES_DIR);
+    const root = existsSync(dir) ? realpathSync(dir) : dir;
+    return path === root || path.startsWith(`${root}${sep}`);
+}
+
+export class GitError extends Error {
+    constructor(message: string, public readonly stderr?: string) {
+        super(message);
+        this.name = 'GitError';
+    }
+}
+
+export async function git(cwd: string, args: string[], env?: Record<string, string>): Promise<string> {
+    try {
+        const { stdout } = await execFileAsync('git', args, {
+            cwd,
+            maxBuffer: 64 * 1024 * 1024,
+            env: env ? { ...process.env, ...env } : undefined,
+        });
+        return stdout.trim();
+    } catch (error) {
+        const stderr = (error as { stderr?: string }).stderr?.trim();
+        throw new GitError(`git ${args[0]} failed: ${stderr || (error as Error).message}`, stderr);
+    }
+}
+
+export async function getRepoRoot(dir: string): Promise<string | null> {
+    try {
+        return await git(dir, ['rev-parse', '--show-toplevel']);
+    } catch {
+        return null;
+    }
+}
+
+function slugify(text: string): string {
+    return text
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '')
+        .slice(0, 40) || 'task';
+}
+
+/**
+ * Create a worktree + branch for a sub-task
+ * @returns worktree info and the workdir to run the chat in (same relative subdirectory)
+ */
+export async function createWorktree(
+    workdir: string,
+    chatId: string,
+    title: string
+): Promise<{ info: WorktreeInfo; workdir: string }> {
+    const repoRoot = await getRepoRoot(workdir);
+    if (!repoRoot) {
+        throw new GitError(`${workdir} is not inside a git repository`);
+    }
+
+    const baseCommit = await git(repoRoot, ['rev-parse', 'HEAD']);
+    const baseBranch = await git(repoRoot, ['rev-parse', '--abbrev-ref', 'HEAD']);
+    const branch = `cursor-pilot/${slugify(title)}-${chatId.slice(-6)}`;
+    const path = resolve(WORKTREES_DIR, basename(repoRoot), chatId);
+
+    mkdirSync(resolve(WORKTREES_DIR, basename(repoRoot)), { recursive: true });
+    await git(repoRoot, ['worktree', 'add', '-b', branch, path, baseCommit]);
+    console.log(`[Worktree] Created ${path} on ${branch} (base ${baseBranch}@${baseCommit.slice(0, 8)})`);
+
+    return {
+        info: {
+            path,
+            branch,
+            repoRoot,
+            baseBranch,
+            baseCommit,
+            originalWorkdir: workdir,
+            status: 'active',
+        },
+        workdir: join(path, relative(repoRoot, realpathSync(workdir))),
+    };
+}
+
+/**
+ * Commit anything the agent left uncommitted in the worktree
+ * @returns true if a commit was made
+ */
+async function commitPending(info: WorktreeInfo, message: string): Promise<boolean> {
+    const status = await git(info.path, ['status', '--porcelain']);
+    if (!status) return false;
+
+    await git(info.path, ['add', '-A']);
+    await git(info.path, [
+        '-c', 'user.name=Cursor Pilot',
+        '-c', 'user.email=cursor-pilot@localhost',
+        'commit', '-m', message,
+    ]);
+    return true;
+}
+
+async function removeWorktree(info: WorktreeInfo): Promise<void> {
+    if (existsSync(info.path)) {
+        await git(info.repoRoot, ['worktree', 'remove', '--force', info.path]);
+    } else {
+        await git(info.repoRoot, ['worktree', 'prune']);
+    }
+    await git(info.repoRoot, ['branch', '-D', info.branch]);
+}
+
+/**
+ * Summary of what the sub-task changed relative to its base
+ */
+export async function getWorktreeStatus(info: WorktreeInfo): Promise<{
+    exists: boolean;
+    uncommittedFiles: number;
+    commitsAhead: number;
+    changedFiles: string[];
+}> {
+    if (info.status !== 'active' || !existsSync(info.path)) {
+        return { exists: false, uncommittedFiles: 0, commitsAhead: 0, changedFiles: [] };
+    }
+
+    const status = await git(info.path, ['status', '--porcelain']);
+    const ahead = await git(info.path, ['rev-list', '--count', `${info.baseCommit}..HEAD`]);
+    // Committed + uncommitted changes against the base
+    const changed = await git(info.path, ['diff', '--name-only', info.baseCommit]);
+    const untracked = await git(info.path, ['ls-files', '--others', '--exclude-standard']);
+
+    return {
+        exists: true,
+        uncommittedFiles: status ? status.split('\n').length : 0,
+        commitsAhead: Number(ahead) || 0,
+        changedFiles: [...new Set([...changed.split('\n'), ...untracked.split('\n')].filter(Boolean))],
+    };
+}
+
+/**
+ * Merge the sub-task branch back into the branch it was created from, then remove the worktree
+ * The main checkout must be on the base branch; conflicts abort the merge and leave everything as-is.
+ */
+export async function mergeWorktree(info: WorktreeInfo, title: string): Promise<WorktreeInfo> {
+    if (info.status !== 'active') {
+        throw new GitError(`Worktree already ${info.status}`);
+    }
+
+    await commitPending(info, `${title}\n\nUncommitted changes from Cursor Pilot sub-task`);
+
+    const currentBranch = await git(info.repoRoot, ['rev-parse', '--abbrev-ref', 'HEAD']);
+    if (currentBranch !== info.baseBranch) {
+        throw new GitError(`${info.repoRoot} is on ${currentBranch}, expected ${info.baseBranch}. Switch back before merging.`);
+    }
+
+    try {
+        await git(info.repoRoot, [
+            '-c', 'user.name=Cursor Pilot',
+            '-c', 'user.email=cursor-pilot@localhost',
+            'merge', '--no-ff', '-m', `Merge ${info.branch}: ${title}`, info.branch,
+        ]);
+    } catch (error) {
+        // Leave the main checkout clean; the worktree stays for manual resolution
+        await git(info.repoRoot, ['merge', '--abort']).catch(() => undefined);
+        throw error;
+    }
+
+    await removeWorktree(info);
+    console.log(`[Worktree] Merged ${info.branch} into ${info.baseBranch}`);
+    return { ...info, status: 'merged' };
+}
+
+/**
+ * Throw away the sub-task's worktree and branch
+ */
+export async function discardWorktree(info: WorktreeInfo): Promise<WorktreeInfo> {
+    if (info.status !== 'active') {
+        throw new GitError(`Worktree already ${info.status}`);
+    }
+
+    await removeWorktree(info);
+    console.log(`[Worktree] Discarded ${info.branch}`);
+    return { ...info, status: 'discarded' };
+}
@@ -0,0 +1,58 @@
+import { TEST_DATA_DIR } from '../testing/temp-data';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdirSync } from 'fs';
+import { join } from 'path';
+import { createProject, ProjectError, resolveAgentProject } from '.';
+import { ChatSession } from '../types';
+import * as db from '../db';
+
+function makeDir(...parts: string[]): string {
+    const dir = join(TEST_DATA_DIR, ...parts);
+    mkdirSync(dir, { recursive: true });
+    return dir;
+}
+
+const projectA = createProject({ name: 'a', rootPath: makeDir('a') });
+const projectB = createProject({ name: 'b', rootPath: makeDir('b') });
+
+// A sub-task chat of project A whose worktree was made from A's repo
+const worktreePath = makeDir('worktrees', 'a', 'chat-a');
+const chat: ChatSession = {
+    id: 'chat-a',
+    title: 'Sub-task',
+    createdAt: new Date(),
+    status: 'running',
+    messages: [],
+    projectId: projectA.id,
+    workdir: worktreePath,
+    worktree: {
+        path: worktreePath,
+        branch: 'cursor-pilot/sub-task-chat-a',
+        repoRoot: projectA.rootPath,
+        baseBranch: 'main',
+        baseCommit: '0000000',
+        originalWorkdir: projectA.rootPath,
+        status: 'active',
+    },
+};
+db.createSession(chat);
+
+test('a workdir inside a project resolves to it', () => {
+    assert.equal(resolveAgentProject(makeDir('b', 'src')).id, projectB.id);
+});
+
+test('a worktree resolves to the project its repo is in', () => {
+    assert.equal(resolveAgentProject(worktreePath, chat.id).id, projectA.id);
+    assert.equal(resolveAgentProject(join(worktreePath, 'src')).id, projectA.id);
+});
+
+test("a worktree can't run as another project", () => {
+    const chatOfB: ChatSession = { id: 'chat-b', title: 'B', createdAt: new Date(), status: 'idle', messages: [], projectId: projectB.id };
+    db.createSession(chatOfB);
+    assert.throws(() => resolveAgentProject(worktreePath, chatOfB.id), ProjectError);
+});
+
+test('an unknown worktree is refused', () => {
+    assert.throws(() => resolveAgentProject(makeDir('worktrees', 'a', 'stray')), ProjectError);
+});
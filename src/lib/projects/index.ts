@@ -0,0 +1,271 @@
+/**
+ * Project Registry
+ * Chats belong to a registered project (name, root folder, default model, skills path, extra
+ * agent flags), and an agent process is only spawned inside a project root or a sub-task
+ * worktree made from one. On first use DEFAULT_WORKDIR and the workdirs of existing chats
+ * are registered as projects.
+ */
+import { existsSync, realpathSync, statSync } from 'fs';
+import { basename, isAbsolute, resolve, sep } from 'path';
+import { parseAgentPermissions } from '../agent/permissions';
+import * as db from '../db';
+import { isWorktreePath } from '../git/worktree';
+import { getSettings } from '../settings';
+import { AgentPermissions, Project } from '../types';
+import { generateId } from '../utils/id';
+
+// Registered as the first project
+const DEFAULT_WORKDIR = process.env.DEFAULT_WORKDIR || process.cwd();
+
+// Flags the agent backends set themselves (--force and --mode come from the agent permissions)
+const RESERVED_AGENT_FLAGS = ['-p', '--print', '--output-format', '--stream-partial-output', '--resume', '--model', '-f', '--force', '--mode'];
+
+export interface ProjectInput {
+    name?: string;
+    rootPath?: string;
+    defaultModel?: string;
+    skillsPath?: string;
+    agentFlags?: string[];
+    permissions?: AgentPermissions | null; // null clears them (back to the settings default)
+}
+
+export class ProjectError extends Error {
+    constructor(message: string, public readonly status = 400) {
+        super(message);
+        this.name = 'ProjectError';
+    }
+}
+
+// ============ Paths ============
+
+// Symlinks resolved, so a link can't point an agent outside its project
+function canonicalPath(path: string): string {
+    const absolute = resolve(path);
+    return existsSync(absolute) ? realpathSync(absolute) : absolute;
+}
+
+function isInside(path: string, root: string): boolean {
+    return path === root || path.startsWith(root.endsWith(sep) ? root : `${root}${sep}`);
+}
+
+/**
+ * The project whose root contains a path (the innermost one when roots are nested)
+ */
+export function findProjectForPath(path: string): Project | null {
+    const target = canonicalPath(path);
+    let match: Project | null = null;
+    for (const project of getProjects()) {
+        if (isInside(target, project.rootPath) && (!match || project.rootPath.length > match.rootPath.length)) {
+            match = project;
+        }
+    }
+    return match;
+}
+
+// ============ Registry ============
+
+function validateProject(input: ProjectInput, currentId?: string): Omit<Project, 'id' | 'createdAt'> {
+    const name = (input.name || '').trim();
+    if (!name) {
+        throw new ProjectError('Project name is required');
+    }
+
+    const rawRoot = (input.rootPath || '').trim();
+    if (!isAbsolute(rawRoot)) {
+        throw new ProjectError('Project root must be an absolute path');
+    }
+    if (!existsSync(rawRoot) || !statSync(rawRoot).isDirectory()) {
+        throw new ProjectError(`${rawRoot} is not a directory`);
+    }
+    const rootPath = realpathSync(rawRoot);
+    const clash = db.getProjects().find((project) => project.rootPath === rootPath && project.id !== currentId);
+    if (clash) {
+        throw new ProjectError(`${rootPath} is already registered as ${clash.name}`, 409);
+    }
+
+    if (input.agentFlags !== undefined && !Array.isArray(input.agentFlags)) {
+        throw new ProjectError('Agent flags must be a list');
+    }
+    const agentFlags = (input.agentFlags || []).map((flag) => String(flag).trim()).filter(Boolean);
+    for (const flag of agentFlags) {
+        const option = flag.split(/\s+/)[0].split('=')[0];
+        if (!option.startsWith('-')) {
+            throw new ProjectError(`Agent flag "${flag}" must start with -`);
+        }
+        if (RESERVED_AGENT_FLAGS.includes(option)) {
+            throw new ProjectError(`Agent flag ${option} is set by CursorPilot itself`);
+        }
+    }
+
+    let permissions: AgentPermissions | undefined;
+    try {
+        permissions = parseAgentPermissions(input.permissions);
+    } catch (error) {
+        throw new ProjectError(error instanceof Error ? error.message : String(error));
+    }
+
+    return {
+        name,
+        rootPath,
+        defaultModel: input.defaultModel?.trim() || undefined,
+        skillsPath: input.skillsPath?.trim() || undefined,
+        agentFlags,
+        permissions,
+    };
+}
+
+// Chats without a project whose workdir lies inside the new root join it
+function adoptSessions(project: Project): number {
+    let adopted = 0;
+    for (const workdir of db.getUnassignedWorkdirs()) {
+        if (isInside(canonicalPath(workdir), project.rootPath)) {
+            adopted += db.assignSessionsToProject(workdir, project.id);
+        }
+    }
+    return adopted;
+}
+
+export function createProject(input: ProjectInput): Project {
+    const project: Project = { id: generateId(), ...validateProject(input), createdAt: new Date() };
+    db.createProject(project);
+    const adopted = adoptSessions(project);
+    console.log(`[Projects] Registered ${project.name} at ${project.rootPath}${adopted ? ` (${adopted} existing chats)` : ''}`);
+    return project;
+}
+
+export function updateProject(id: string, input: ProjectInput): Project {
+    const existing = getProject(id);
+    if (!existing) {
+        throw new ProjectError('Project not found', 404);
+    }
+    const project: Project = { ...existing, ...validateProject({ ...existing, ...input }, id) };
+    db.updateProject(project);
+    adoptSessions(project);
+    return project;
+}
+
+export function deleteProject(id: string): boolean {
+    return db.deleteProject(id);
+}
+
+/**
+ * Register the default workdir and existing chats' workdirs when no project exists yet
+ */
+function ensureProjects(): void {
+    if (db.getProjects().length > 0) return;
+
+    const roots = [DEFAULT_WORKDIR, ...db.getUnassignedWorkdirs()]
+        .filter((dir) => isAbsolute(dir) && existsSync(dir) && statSync(dir).isDirectory())
+        .map((dir) => realpathSync(dir))
+        .filter((dir) => !isWorktreePath(dir))
+        .sort((a, b) => a.length - b.length);
+
+    const registered: string[] = [];
+    for (const root of roots) {
+        // Folders inside an already registered root belong to that project
+        if (registered.some((parent) => isInside(root, parent))) continue;
+        createProject({ name: basename(root) || root, rootPath: root });
+        registered.push(root);
+    }
+}
+
+export function getProjects(): Project[] {
+    ensureProjects();
+    return db.getProjects();
+}
+
+export function getProject(id: string): Project | null {
+    ensureProjects();
+    return db.getProject(id);
+}
+
+/**
+ * The project new chats go to when none is picked: the default project setting, else the
+ * one containing DEFAULT_WORKDIR
+ */
+export function getDefaultProject(): Project | null {
+    const { defaultProjectId } = getSettings();
+    return (defaultProjectId && getProject(defaultProjectId)) || findProjectForPath(DEFAULT_WORKDIR) || getProjects()[0] || null;
+}
+
+// ============ Agent Workdirs ============
+
+/**
+ * Project and workdir for a new chat: a project (and optionally a folder inside it), or a
+ * workdir inside some project; neither means the default project
+ */
+export function resolveProjectWorkdir(input: { projectId?: string; workdir?: string }): { project: Project; workdir: string } {
+    if (input.projectId) {
+        const project = getProject(input.projectId);
+        if (!project) {
+            throw new ProjectError('Project not found', 404);
+        }
+        if (!input.workdir) {
+            return { project, workdir: project.rootPath };
+        }
+        const workdir = canonicalPath(input.workdir);
+        if (!isInside(workdir, project.rootPath)) {
+            throw new ProjectError(`${input.workdir} is outside project ${project.name}`);
+        }
+        return { project, workdir };
+    }
+
+    if (input.workdir) {
+        const project = findProjectForPath(input.workdir);
+        if (!project) {
+            throw new ProjectError(`${input.workdir} is not inside a registered project`);
+        }
+        return { project, workdir: canonicalPath(input.workdir) };
+    }
+
+    const project = getDefaultProject();
+    if (!project) {
+        throw new ProjectError('No project registered; add one in Settings');
+    }
+    return { project, workdir: project.rootPath };
+}
+
+// Main checkout a sub-task worktree was made from, as recorded on the chat it belongs to
+function worktreeRepoRoot(path: string, chatId?: string): string | null {
+    const chat = chatId ? db.getSessionMeta(chatId) : null;
+    for (const session of chat?.worktree ? [chat] : db.getAllSessions()) {
+        const worktree = session.worktree;
+        if (worktree && isInside(path, canonicalPath(worktree.path))) {
+            return canonicalPath(worktree.repoRoot);
+        }
+    }
+    return null;
+}
+
+/**
+ * Check an agent may be spawned in a workdir: inside the chat's project, or inside any
+ * project for calls without a chat. A sub-task worktree counts as the repo it was made
+ * from, so it only runs as the project that repo is in.
+ * @returns the project whose model and agent flags apply
+ * @throws ProjectError when the workdir is outside every registered project
+ */
+export function resolveAgentProject(workdir: string, chatId?: string): Project {
+    const path = canonicalPath(workdir);
+    const target = isWorktreePath(path) ? worktreeRepoRoot(path, chatId) : path;
+    const projectId = chatId ? db.getSessionMeta(chatId)?.projectId : undefined;
+    const project = projectId ? getProject(projectId) : target ? findProjectForPath(target) : null;
+
+    if (project && target && isInside(target, project.rootPath)) {
+        return project;
+    }
+    if (project) {
+        throw new ProjectError(`Refusing to run the agent in ${workdir}: outside project ${project.name}`);
+    }
+    throw new ProjectError(
+        projectId
+            ? `Refusing to run the agent: the chat's project was removed`
+            : `Refusing to run the agent in ${workdir}: not inside a registered project`
+    );
+}
+
+/**
+ * Extra agent CLI arguments for a project ("--sandbox enabled" → two arguments)
+ */
+export function getAgentArgs(project: Project | null): string[] {
+    return project ? project.agentFlags.flatMap((flag) => flag.split(/\s+/)) : [];
+}
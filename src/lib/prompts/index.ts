@@ -3,5 +3,5 @@
  * Central export for all AI prompts used in the application
  */
 
-export { buildOrchestratorPrompt } from './orchestrator';
+export { buildOrchestratorPrompt, buildFollowUpRequest, FOLLOW_UP_MARKER, ORCHESTRATOR_COMPACTION_PROMPT } from './orchestrator';
 export { AGENT_MANAGER_PROMPT, buildAgentManagerPrompt } from './agent-manager';
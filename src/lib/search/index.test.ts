@@ -0,0 +1,71 @@
+import '../testing/temp-data';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { searchChats, toMatchQuery } from '.';
+import { ChatSession, ChatStatus } from '../types';
+import * as db from '../db';
+
+function addChat(id: string, fields: { title: string; ownerId?: string; projectId?: string; status?: ChatStatus; message?: string }): void {
+    const session: ChatSession = {
+        id,
+        title: fields.title,
+        createdAt: new Date(),
+        status: fields.status ?? 'completed',
+        messages: [],
+        ownerId: fields.ownerId,
+        projectId: fields.projectId,
+    };
+    db.createSession(session);
+    if (fields.message) {
+        db.addMessage(id, { id: `${id}-m1`, role: 'assistant', content: fields.message, timestamp: new Date(), metadata: { source: 'cursor' } });
+    }
+}
+
+addChat('alice-1', { title: 'Fix the login redirect', ownerId: 'alice', projectId: 'web', message: 'The login token expired early' });
+addChat('alice-2', { title: 'Deploy script', ownerId: 'alice', projectId: 'ops', status: 'error', message: 'Deployment failed: login to the registry was refused' });
+addChat('bob-1', { title: 'Login page styles', ownerId: 'bob', projectId: 'web', message: 'Restyled the login form' });
+
+const sessionIds = (results: ReturnType<typeof searchChats>) => [...new Set(results.map((result) => result.sessionId))].sort();
+
+test('toMatchQuery quotes every term so FTS5 operators are plain words', () => {
+    assert.equal(toMatchQuery('login token'), '"login" "token"');
+    assert.equal(toMatchQuery('NEAR(login token)'), '"NEAR(login" "token)"');
+    assert.equal(toMatchQuery('-login OR token AND NOT x'), '"-login" "OR" "token" "AND" "NOT" "x"');
+    assert.equal(toMatchQuery('title:login ^start'), '"title:login" "^start"');
+});
+
+test('toMatchQuery keeps quoted phrases and strips quotes it cannot pair', () => {
+    assert.equal(toMatchQuery('"login token" expired'), '"login token" "expired"');
+    assert.equal(toMatchQuery('say "unclosed'), '"say" "unclosed"');
+    assert.equal(toMatchQuery('a"b'), '"ab"');
+    assert.equal(toMatchQuery('""'), null);
+});
+
+test('toMatchQuery turns a trailing * into a prefix match and ignores a lone one', () => {
+    assert.equal(toMatchQuery('deplo*'), '"deplo"*');
+    assert.equal(toMatchQuery('*'), null);
+    assert.equal(toMatchQuery('"deplo*"'), '"deplo"');
+    assert.equal(toMatchQuery('   '), null);
+});
+
+test('operator characters in a search never reach FTS5 as syntax', () => {
+    for (const text of ['NEAR(login token)', '-login', 'login OR', '"login', 'login*', '*', 'title:login', '(login', 'login AND NOT']) {
+        assert.doesNotThrow(() => searchChats({ text }), text);
+    }
+    assert.deepEqual(sessionIds(searchChats({ text: 'deploy*' })), ['alice-2']);
+    assert.deepEqual(sessionIds(searchChats({ text: '"token expired"' })), ['alice-1']);
+});
+
+test('status and project filters narrow the results', () => {
+    assert.deepEqual(sessionIds(searchChats({ text: 'login' })), ['alice-1', 'alice-2', 'bob-1']);
+    assert.deepEqual(sessionIds(searchChats({ text: 'login', status: 'error' })), ['alice-2']);
+    assert.deepEqual(sessionIds(searchChats({ text: 'login', projectId: 'web' })), ['alice-1', 'bob-1']);
+    assert.deepEqual(sessionIds(searchChats({ text: 'login', projectId: 'web', status: 'error' })), []);
+});
+
+test("an owner filter never returns another owner's chats", () => {
+    assert.deepEqual(sessionIds(searchChats({ text: 'login', ownerId: 'alice' })), ['alice-1', 'alice-2']);
+    assert.deepEqual(sessionIds(searchChats({ text: 'login', ownerId: 'bob' })), ['bob-1']);
+    assert.deepEqual(sessionIds(searchChats({ text: 'restyled', ownerId: 'alice' })), []);
+    assert.deepEqual(sessionIds(searchChats({ text: 'login', ownerId: 'carol' })), []);
+});
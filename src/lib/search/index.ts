@@ -0,0 +1,32 @@
+/**
+ * Chat Search
+ * Full-text search over chat titles, task.md and messages (an SQLite FTS5 index the db keeps in
+ * sync). Words the user types must all appear, in any order; "quoted phrases" match as a
+ * phrase and a trailing * matches a prefix.
+ */
+import * as db from '../db';
+import { SearchQuery, SearchResult } from '../types';
+
+/**
+ * Turn what the user typed into an FTS5 query, so FTS5 operators and punctuation in it
+ * can't cause a syntax error
+ * @returns null when there is nothing to search for
+ */
+export function toMatchQuery(text: string): string | null {
+    const terms: string[] = [];
+    for (const [, phrase, word] of text.matchAll(/"([^"]*)"|(\S+)/g)) {
+        const prefix = phrase === undefined && word.endsWith('*');
+        const term = (phrase ?? word).replace(/"/g, '').replace(/\*+$/, '').trim();
+        if (!term) continue;
+        terms.push(`"${term}"${prefix ? '*' : ''}`);
+    }
+    return terms.length > 0 ? terms.join(' ') : null;
+}
+
+/**
+ * Matches for what the user typed, best first (empty when there is nothing to search for)
+ */
+export function searchChats(query: SearchQuery): SearchResult[] {
+    const match = toMatchQuery(query.text);
+    return match ? db.searchChats({ ...query, text: match }) : [];
+}
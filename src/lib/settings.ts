@@ -4,19 +4,72 @@
 import { existsSync, readFileSync, writeFileSync, mkdirSync } from 'fs';
 import { homedir } from 'os';
 import { dirname, join } from 'path';
+import { AgentBackendConfig, AgentPermissions, AgentTimeouts, ApprovalPolicy, ModelPrice, RetryPolicy, SessionBudget } from './types';
 
 const SETTINGS_FILE = process.env.SETTINGS_FILE || '.data/settings.json';
 
+export interface ConcurrencySettings {
+    maxConcurrent: number; // Agent processes running at once, across all chats
+    maxPerWorkdir: number; // Agent processes running at once in the same working directory
+}
+
 export interface AppSettings {
-    workdir: string;
+    defaultProjectId?: string; // Project new chats go to when none is picked (Telegram, API calls)
     skillsPath: string;
     model: string;
+    backend: AgentBackendConfig;
+    concurrency: ConcurrencySettings;
+    isolateSubtasks: boolean; // Run each orchestrator sub-task in its own git worktree
+    orchestratorFollowUp: boolean; // Run the orchestrator again with the results once its sub-tasks finish
+    orchestratorHistoryTokens: number; // Estimated size at which an orchestrator chat's history is compacted
+    fileAccessRoots: string[]; // Directories the orchestrator's file tools may read besides the session workdir
+    approvalPolicy: ApprovalPolicy; // Default for sub-tasks that don't set their own
+    budget: SessionBudget; // Default spending cap per session
+    modelPrices: Record<string, ModelPrice>; // Added to / overrides the built-in price table
+    timeouts: AgentTimeouts; // Limits on Cursor executions
+    retry: RetryPolicy; // Transient Cursor / Anthropic failures
+    agentPermissions: AgentPermissions; // Default for projects that don't set their own
 }
 
 const DEFAULT_SETTINGS: AppSettings = {
-    workdir: process.env.DEFAULT_WORKDIR || process.cwd(),
     skillsPath: process.env.SKILLS_PATH || join(homedir(), '.cursor', 'skills'),
     model: process.env.CURSOR_MODEL || 'auto',
+    backend: process.env.FAKE_AGENT_TRANSCRIPTS
+        ? { type: 'fake', transcripts: process.env.FAKE_AGENT_TRANSCRIPTS }
+        : process.env.AGENT_COMMAND
+            ? { type: 'command', command: process.env.AGENT_COMMAND }
+            : { type: 'cursor' },
+    concurrency: {
+        maxConcurrent: Number(process.env.MAX_CONCURRENT_AGENTS) || 4,
+        maxPerWorkdir: Number(process.env.MAX_AGENTS_PER_WORKDIR) || 1,
+    },
+    isolateSubtasks: process.env.ISOLATE_SUBTASKS === 'true',
+    orchestratorFollowUp: process.env.ORCHESTRATOR_FOLLOW_UP === 'true',
+    orchestratorHistoryTokens: Number(process.env.ORCHESTRATOR_HISTORY_TOKENS) || 50000,
+    fileAccessRoots: (process.env.ORCHESTRATOR_FILE_ROOTS || '').split(',').map((root) => root.trim()).filter(Boolean),
+    approvalPolicy: (process.env.APPROVAL_POLICY as ApprovalPolicy) || 'auto',
+    budget: {
+        maxCostUsd: Number(process.env.SESSION_BUDGET_USD) || undefined,
+        maxTokens: Number(process.env.SESSION_TOKEN_BUDGET) || undefined,
+    },
+    modelPrices: {},
+    timeouts: {
+        inactivitySec: Number(process.env.AGENT_INACTIVITY_TIMEOUT_SEC ?? 600) || undefined,
+        turnSec: Number(process.env.AGENT_TURN_TIMEOUT_SEC ?? 3600) || undefined,
+        taskSec: Number(process.env.AGENT_TASK_TIMEOUT_SEC) || undefined,
+    },
+    retry: {
+        maxAttempts: Number(process.env.AGENT_RETRY_ATTEMPTS) || 3,
+        baseDelayMs: Number(process.env.AGENT_RETRY_BASE_MS) || 2000,
+        maxDelayMs: Number(process.env.AGENT_RETRY_MAX_MS) || 60000,
+    },
+    agentPermissions: {
+        force: process.env.AGENT_FORCE !== 'false',
+        planOnly: process.env.AGENT_PLAN_ONLY === 'true',
+        allowedTools: process.env.AGENT_ALLOWED_TOOLS
+            ? process.env.AGENT_ALLOWED_TOOLS.split(',').map((tool) => tool.trim()).filter(Boolean)
+            : undefined,
+    },
 };
 
 export function ensureDirectory(filePath: string) {
@@ -87,6 +87,13 @@ export class TelegramBot {
         return this.allowedChatIds.size === 0 || this.allowedChatIds.has(chatId);
     }
 
+    /**
+     * Chat IDs on the allow-list (empty when every chat is allowed)
+     */
+    getAllowedChatIds(): number[] {
+        return [...this.allowedChatIds];
+    }
+
     /**
      * Send a message to a chat
      */
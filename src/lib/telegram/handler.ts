@@ -3,17 +3,33 @@
  * Shared logic for processing Telegram updates (used by both webhook and polling)
  */
 import { TelegramBot, TelegramUpdate, TelegramCallbackQuery, InlineKeyboardMarkup } from './bot';
-import { OrchestratorAgent } from '@/lib/agent/orchestrator';
+import { OrchestratorAgent, OrchestratorResult } from '@/lib/agent/orchestrator';
+import { recordTurn } from '@/lib/agent/turn-diffs';
+import { resolveApproval, setApprovalNotifier } from '@/lib/agent/approvals';
+import { isSessionJobActive, resumeConversation } from '@/lib/agent/job-queue';
+import { isPaused, requestPause } from '@/lib/agent/pause';
+import { audit } from '@/lib/audit';
 import * as db from '@/lib/db';
-import { ChatSession, Message } from '@/lib/types';
+import { resolveProjectWorkdir } from '@/lib/projects';
+import { searchChats } from '@/lib/search';
+import { ApprovalResponse, ChatSession, Message, PendingApproval, SearchResult, TaskPlan } from '@/lib/types';
 import { generateId } from '@/lib/utils/id';
 
+// Orchestrator chat shared with the web panel (its conversation history persists across requests)
+const ORCHESTRATOR_SESSION_ID = 'web_orchestrator_main';
+
 // Store conversation history per chat
 const chatHistories = new Map<number, { role: 'user' | 'assistant'; content: string }[]>();
 
 // Store selected chat per Telegram user - key is Telegram chat ID, value is selected app chat ID
 const selectedChats = new Map<number, string | null>();
 
+// Telegram chats that pressed "Edit" on an approval - the next text message replaces the decision
+const pendingEdits = new Map<number, string>();
+
+// Telegram chats that have talked to the bot (approval notifications go here when there's no allow-list)
+const knownChats = new Set<number>();
+
 // Get status emoji
 function getStatusEmoji(status: string): string {
     switch (status) {
@@ -24,18 +40,15 @@ function getStatusEmoji(status: string): string {
             return '✅';
         case 'error':
             return '❌';
+        case 'paused':
+            return '⏸️';
+        case 'cancelled':
+            return '⏹️';
         default:
             return '💬';
     }
 }
 
-// Settings getter - will be injected
-let getSettingsFn: () => { workdir: string } = () => ({ workdir: process.cwd() });
-
-export function setSettingsGetter(fn: () => { workdir: string }) {
-    getSettingsFn = fn;
-}
-
 /**
  * Process a Telegram update
  */
@@ -61,13 +74,28 @@ export async function handleTelegramUpdate(bot: TelegramBot, update: TelegramUpd
         }
 
         console.log(`[Telegram] Message from ${username} (${chatId}): ${text}`);
+        knownChats.add(chatId);
 
         // Handle commands
         if (text.startsWith('/')) {
+            pendingEdits.delete(chatId);
+            const [command, ...args] = text.split(' ');
+            audit('telegram_command', {
+                sessionId: selectedChats.get(chatId) ?? undefined,
+                details: { telegramChatId: chatId, username, command, args },
+            });
             await handleCommand(bot, chatId, text, message.message_id);
             return;
         }
 
+        // Reply to an "Edit" button press
+        const editSessionId = pendingEdits.get(chatId);
+        if (editSessionId) {
+            pendingEdits.delete(chatId);
+            await answerApproval(bot, chatId, editSessionId, { action: 'edit', message: text }, message.message_id);
+            return;
+        }
+
         // Check if user has selected a specific chat
         const selectedChatId = selectedChats.get(chatId);
         
@@ -82,11 +110,12 @@ export async function handleTelegramUpdate(bot: TelegramBot, update: TelegramUpd
 
         // Process with Orchestrator Agent (main agent mode)
         try {
-            const workdir = getSettingsFn().workdir;
-            const agent = new OrchestratorAgent();
+            // Sub-tasks go to the default project
+            const { project, workdir } = resolveProjectWorkdir({});
+            const agent = new OrchestratorAgent({ skillsPath: project.skillsPath, projectId: project.id });
 
             // Use shared session ID so messages appear in Web Orchestrator panel too
-            const sessionId = 'web_orchestrator_main';
+            const sessionId = ORCHESTRATOR_SESSION_ID;
             
             // Check if session exists, create if not
             console.log(`[Telegram] Checking for session: ${sessionId}`);
@@ -103,6 +132,7 @@ export async function handleTelegramUpdate(bot: TelegramBot, update: TelegramUpd
                     source: 'telegram',
                 };
                 db.createSession(session);
+                audit('session_started', { sessionId, details: { source: 'telegram', telegramChatId: chatId, username } });
                 console.log(`[Telegram] Session created: ${sessionId}`);
             } else {
                 console.log(`[Telegram] Session exists, updating status to running`);
@@ -128,10 +158,68 @@ export async function handleTelegramUpdate(bot: TelegramBot, update: TelegramUpd
             // Track which chats we've sent updates for
             const sentChatUpdates = new Map<string, number>(); // chatId -> last message count
 
+            // Report a finished run (the request's, or a follow-up once its chats have finished)
+            const reportResult = async (result: OrchestratorResult) => {
+                // Build final response
+                let finalResponse = '';
+                
+                console.log(`[Telegram] Orchestrator finished. responseText length: ${responseText.length}, createdChats: ${createdChats.length}, success: ${result.success}`);
+                
+                if (responseText) {
+                    finalResponse = responseText;
+                }
+
+                if (result.success) {
+                    if (createdChats.length > 0) {
+                        finalResponse += `\n\n✅ Completed ${createdChats.length} task(s)`;
+                    }
+                } else if (result.cancelled) {
+                    finalResponse += '\n\n⏹️ Cancelled';
+                } else {
+                    finalResponse += `\n\n❌ Error: ${result.error || 'Unknown error'}`;
+                }
+
+                if (!finalResponse.trim()) {
+                    finalResponse = '✅ All tasks processed successfully.';
+                }
+
+                console.log(`[Telegram] Final response to send: ${finalResponse.substring(0, 200)}...`);
+
+                // Save assistant response to database
+                const assistantMessage: Message = {
+                    id: generateId(),
+                    role: 'assistant',
+                    content: finalResponse,
+                    timestamp: new Date(),
+                    metadata: { source: 'orchestrator' },
+                };
+                db.addMessage(sessionId, assistantMessage);
+
+                // Update session status
+                db.updateSession({ 
+                    id: sessionId,
+                    status: result.success ? 'completed' : result.cancelled ? 'cancelled' : 'error' 
+                });
+
+                // Send final response to Telegram
+                const sendResult = await bot.sendLongMessage(chatId, finalResponse, {
+                    replyToMessageId: message.message_id,
+                });
+                console.log(`[Telegram] Message sent result: ${sendResult}`);
+            };
+
             // Run orchestrator with progress callback
             const result = await agent.run(text, workdir, async (event) => {
                 if (event.type === 'message') {
                     responseText += event.content || '';
+                } else if (event.type === 'retry') {
+                    await bot.sendMessage(chatId, event.content);
+                } else if (event.type === 'follow_up') {
+                    // Dispatched chats finished - the orchestrator reviews them in a new run
+                    responseText = '';
+                    createdChats.length = 0;
+                    db.updateSession({ id: sessionId, status: 'running' });
+                    await bot.sendMessage(chatId, event.content);
                 } else if (event.type === 'chat_created') {
                     // Parse chat info
                     try {
@@ -162,6 +250,8 @@ export async function handleTelegramUpdate(bot: TelegramBot, update: TelegramUpd
                             await bot.sendLongMessage(chatId,
                                 `💬 *Agent Manager*\n\n${updateData.content}`,
                             );
+                        } else if (['budget_exceeded', 'paused', 'timeout', 'retry'].includes(updateData.type) && updateData.content) {
+                            await bot.sendMessage(chatId, updateData.content);
                         } else if (updateData.type === 'state_detected' && updateData.content) {
                             // State detection - usually short, no need for long message
                             await bot.sendMessage(chatId,
@@ -175,7 +265,7 @@ export async function handleTelegramUpdate(bot: TelegramBot, update: TelegramUpd
                     // Task completed
                     try {
                         const completeData = JSON.parse(event.content || '{}');
-                        const statusEmoji = completeData.success ? '✅' : '❌';
+                        const statusEmoji = completeData.success ? '✅' : completeData.cancelled ? '⏹️' : '❌';
                         await bot.sendMessage(chatId,
                             `${statusEmoji} *Task Complete*\n\n🆔 ${event.chatId}\n🔄 Turns: ${completeData.turns || 'N/A'}`,
                             { parseMode: 'Markdown' }
@@ -183,56 +273,32 @@ export async function handleTelegramUpdate(bot: TelegramBot, update: TelegramUpd
                     } catch (e) {
                         // Ignore parse errors
                     }
+                } else if (event.type === 'plan_update') {
+                    // Task plan settled - report every task's outcome
+                    try {
+                        const plan = JSON.parse(event.content || '{}') as TaskPlan;
+                        if (plan.status !== 'running') {
+                            const statusEmoji = plan.status === 'completed' ? '✅' : plan.status === 'cancelled' ? '⏹️' : '❌';
+                            const lines = plan.nodes.map((node) => `• ${node.title}: ${node.status}`);
+                            await bot.sendMessage(chatId,
+                                `${statusEmoji} *Plan ${plan.status}*\n\n📋 ${plan.title}\n${lines.join('\n')}`,
+                                { parseMode: 'Markdown' }
+                            );
+                        }
+                    } catch (e) {
+                        // Ignore parse errors
+                    }
                 }
-                
+
                 // Keep sending typing indicator
                 await bot.sendTyping(chatId);
+            }, sessionId, undefined, {
+                onFollowUp: (followUpResult) => {
+                    reportResult(followUpResult).catch((error) => console.error('[Telegram] Failed to report follow-up:', error));
+                },
             });
 
-            // Build final response
-            let finalResponse = '';
-            
-            console.log(`[Telegram] Orchestrator finished. responseText length: ${responseText.length}, createdChats: ${createdChats.length}, success: ${result.success}`);
-            
-            if (responseText) {
-                finalResponse = responseText;
-            }
-
-            if (result.success) {
-                if (createdChats.length > 0) {
-                    finalResponse += `\n\n✅ Completed ${createdChats.length} task(s)`;
-                }
-            } else {
-                finalResponse += `\n\n❌ Error: ${result.error || 'Unknown error'}`;
-            }
-
-            if (!finalResponse.trim()) {
-                finalResponse = '✅ All tasks processed successfully.';
-            }
-
-            console.log(`[Telegram] Final response to send: ${finalResponse.substring(0, 200)}...`);
-
-            // Save assistant response to database
-            const assistantMessage: Message = {
-                id: generateId(),
-                role: 'assistant',
-                content: finalResponse,
-                timestamp: new Date(),
-                metadata: { source: 'orchestrator' },
-            };
-            db.addMessage(sessionId, assistantMessage);
-
-            // Update session status
-            db.updateSession({ 
-                id: sessionId,
-                status: result.success ? 'completed' : 'error' 
-            });
-
-            // Send final response to Telegram
-            const sendResult = await bot.sendLongMessage(chatId, finalResponse, {
-                replyToMessageId: message.message_id,
-            });
-            console.log(`[Telegram] Message sent result: ${sendResult}`);
+            await reportResult(result);
 
         } catch (error) {
             console.error('[Telegram] Error processing message:', error);
@@ -267,6 +333,7 @@ Welcome! I'm connected to the AI Orchestrator.
 /help - Show this help
 /status - Check system status
 /chats - List and select chats
+/search - Search chats and messages
 /back - Return to main agent
 /clear - Clear conversation history
 
@@ -288,9 +355,18 @@ Send me a development task and I'll:
 
 *Chat Selection:*
 • /chats - Browse and select a chat
+• /search <words> - Find chats by title, task.md or messages
 • /back - Return to main agent mode
 • When a chat is selected, messages go to that chat
 
+*Approvals:*
+• Chats with an approval policy ask here before acting
+• ✅ Approve, 🛑 Reject, or ✏️ Edit and send your own message
+
+*Pause & Resume:*
+• ⏸️ Pause a selected running chat after its current turn
+• ▶️ Resume it, or send a message to resume with your instruction
+
 *Tips:*
 • Be specific about what you want
 • Include file paths if relevant
@@ -300,6 +376,7 @@ Send me a development task and I'll:
 /start - Welcome message
 /status - System status
 /chats - List and select chats
+/search - Search chats
 /back - Return to main agent
 /clear - Clear history
 `, { parseMode: 'Markdown', replyToMessageId: messageId });
@@ -314,6 +391,8 @@ Send me a development task and I'll:
             const completed = chats.filter(c => c.status === 'completed').length;
             const idle = chats.filter(c => c.status === 'idle').length;
             const error = chats.filter(c => c.status === 'error').length;
+            const paused = chats.filter(c => c.status === 'paused').length;
+            const cancelled = chats.filter(c => c.status === 'cancelled').length;
             
             // Show current mode
             const selectedChatId = selectedChats.get(chatId);
@@ -332,8 +411,10 @@ ${modeText}
 📋 Total Chats: ${chats.length}
 💬 Idle: ${idle}
 🔄 Running: ${running}
+⏸️ Paused: ${paused}
 ✅ Completed: ${completed}
 ❌ Error: ${error}
+⏹️ Cancelled: ${cancelled}
 `, { replyToMessageId: messageId });
             break;
         }
@@ -342,6 +423,10 @@ ${modeText}
             await handleChatsCommand(bot, chatId, messageId, 0);
             break;
 
+        case '/search':
+            await handleSearchCommand(bot, chatId, messageId, args.join(' ').trim());
+            break;
+
         case '/back':
             selectedChats.delete(chatId);
             await bot.sendMessage(chatId, 
@@ -387,6 +472,7 @@ Use /back to return to the main agent.
 
         case '/clear':
             chatHistories.delete(chatId);
+            db.deleteOrchestratorHistory(ORCHESTRATOR_SESSION_ID);
             await bot.sendMessage(chatId, '🗑️ Conversation history cleared.', {
                 replyToMessageId: messageId,
             });
@@ -462,6 +548,74 @@ No chat sessions found. Send a task to the main agent to create one.
     });
 }
 
+function escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+// Search snippet with the matched terms in bold (HTML parse mode)
+function formatSnippet(result: SearchResult): string {
+    let formatted = '';
+    let position = 0;
+    for (const [start, end] of result.highlights) {
+        formatted += escapeHtml(result.snippet.slice(position, start));
+        formatted += `<b>${escapeHtml(result.snippet.slice(start, end))}</b>`;
+        position = end;
+    }
+    return formatted + escapeHtml(result.snippet.slice(position));
+}
+
+// Handle /search command - best matches with a button to select each chat
+async function handleSearchCommand(
+    bot: TelegramBot,
+    telegramChatId: number,
+    messageId: number,
+    text: string
+) {
+    const MAX_RESULTS = 5;
+    if (!text) {
+        await bot.sendMessage(telegramChatId, '❌ Please provide something to search for.\n\nUsage: /search <words>\n\nAll words must match; use "quotes" for a phrase and a trailing * for a prefix.', {
+            replyToMessageId: messageId,
+        });
+        return;
+    }
+
+    const results = searchChats({ text, limit: MAX_RESULTS });
+    if (results.length === 0) {
+        await bot.sendMessage(telegramChatId, `🔍 No chats match "${text}"`, { replyToMessageId: messageId });
+        return;
+    }
+
+    let messageText = `🔍 <b>Search results for "${escapeHtml(text)}"</b>\n\n`;
+    const buttons: InlineKeyboardMarkup['inline_keyboard'] = [];
+    for (const result of results) {
+        const where = result.kind === 'message' ? result.role ?? 'message' : result.kind === 'task_md' ? 'task.md' : 'title';
+        messageText += `${getStatusEmoji(result.status)} <b>${escapeHtml(result.sessionTitle)}</b> (${where})\n`;
+        messageText += `${formatSnippet(result)}\n\n`;
+
+        if (!buttons.some((row) => row[0].callback_data === `select:${result.sessionId}`)) {
+            const title = result.sessionTitle.length > 30 ? result.sessionTitle.substring(0, 27) + '...' : result.sessionTitle;
+            buttons.push([{ text: `${getStatusEmoji(result.status)} ${title}`, callback_data: `select:${result.sessionId}` }]);
+        }
+    }
+
+    await bot.sendMessage(telegramChatId, messageText, {
+        parseMode: 'HTML',
+        replyToMessageId: messageId,
+        replyMarkup: { inline_keyboard: buttons },
+    });
+}
+
+// Pause / Resume row for a selected chat's keyboard
+function pauseButtons(session: ChatSession): InlineKeyboardMarkup['inline_keyboard'] {
+    if (session.status === 'paused') {
+        return [[{ text: '▶️ Resume', callback_data: `resume:${session.id}` }]];
+    }
+    if ((session.status === 'running' || session.status === 'waiting_response') && session.orchestrateTaskId) {
+        return [[{ text: '⏸️ Pause', callback_data: `pause:${session.id}` }]];
+    }
+    return [];
+}
+
 // Handle callback query (button press)
 async function handleCallbackQuery(
     bot: TelegramBot,
@@ -524,6 +678,7 @@ Type your message or use the buttons below.`;
                     replyMarkup: {
                         inline_keyboard: [
                             [{ text: '🔄 Refresh', callback_data: `refresh:${value}` }],
+                            ...pauseButtons(session),
                             [{ text: '🤖 Back to Main Agent', callback_data: 'back' }],
                             [{ text: '📋 Browse Chats', callback_data: 'page:0' }],
                         ],
@@ -568,6 +723,7 @@ Type your message or use the buttons below.
                     replyMarkup: {
                         inline_keyboard: [
                             [{ text: '🔄 Refresh', callback_data: `refresh:${value}` }],
+                            ...pauseButtons(session),
                             [{ text: '🤖 Back to Main Agent', callback_data: 'back' }],
                             [{ text: '📋 Browse Chats', callback_data: 'page:0' }],
                         ],
@@ -588,6 +744,53 @@ Type your message or use the buttons below.
             break;
         }
         
+        case 'approve':
+        case 'reject': {
+            const response: ApprovalResponse = action === 'approve' ? { action } : { action: 'reject' };
+            const result = answerApprovalQuietly(value, response);
+            await bot.answerCallbackQuery(query.id, { text: result.text, showAlert: !result.ok });
+            if (result.ok && messageId) {
+                // Drop the buttons so the decision can't be answered twice
+                await bot.editMessageText(telegramChatId, messageId, `${query.message?.text || ''}\n\n${result.text}`);
+            }
+            break;
+        }
+
+        case 'edit': {
+            const session = db.getSessionMeta(value);
+            if (!session?.pendingApproval) {
+                await bot.answerCallbackQuery(query.id, { text: 'Nothing is waiting for approval', showAlert: true });
+                return;
+            }
+            pendingEdits.set(telegramChatId, value);
+            await bot.answerCallbackQuery(query.id);
+            await bot.sendMessage(telegramChatId, `✏️ Send the message to give Cursor instead (for "${session.title}").`);
+            break;
+        }
+
+        case 'pause': {
+            if (isPaused(value) || !isSessionJobActive(value)) {
+                await bot.answerCallbackQuery(query.id, { text: 'No auto-conversation is running in this chat', showAlert: true });
+                return;
+            }
+            requestPause(value);
+            await bot.answerCallbackQuery(query.id, { text: '⏸️ Pausing after the current turn' });
+            break;
+        }
+
+        case 'resume': {
+            try {
+                resumeConversation(value, {});
+                await bot.answerCallbackQuery(query.id, { text: '▶️ Resumed' });
+            } catch (error) {
+                await bot.answerCallbackQuery(query.id, {
+                    text: `❌ ${error instanceof Error ? error.message : 'Unknown error'}`,
+                    showAlert: true,
+                });
+            }
+            break;
+        }
+
         case 'back': {
             selectedChats.delete(telegramChatId);
             await bot.answerCallbackQuery(query.id, { text: 'Switched to Main Agent' });
@@ -634,10 +837,27 @@ async function handleSelectedChatMessage(
         return;
     }
 
+    // The chat's loop is waiting for approval: the message answers it instead of going to Cursor directly
+    if (session.pendingApproval) {
+        await answerApproval(bot, telegramChatId, selectedChatId, { action: 'edit', message: text }, messageId);
+        return;
+    }
+
+    // The chat's loop is paused: the message resumes it as the next instruction for Cursor
+    if (session.status === 'paused') {
+        try {
+            resumeConversation(selectedChatId, { message: text });
+            await bot.sendMessage(telegramChatId, '▶️ Resumed with your instruction', { replyToMessageId: messageId });
+        } catch (error) {
+            await bot.sendMessage(telegramChatId, `❌ ${error instanceof Error ? error.message : 'Unknown error'}`, { replyToMessageId: messageId });
+        }
+        return;
+    }
+
     await bot.sendTyping(telegramChatId);
 
     try {
-        const workdir = session.workdir || getSettingsFn().workdir;
+        const workdir = session.workdir || resolveProjectWorkdir({ projectId: session.projectId }).workdir;
         
         // Import ChatManager for direct Cursor communication
         const { ChatManager } = await import('@/lib/agent/chat-manager');
@@ -663,7 +883,10 @@ async function handleSelectedChatMessage(
             session.cursorSessionId, // Resume existing Cursor session
             async () => {
                 await bot.sendTyping(telegramChatId);
-            }
+            },
+            session.backend,
+            undefined,
+            selectedChatId
         );
 
         // Save Cursor's response to DB
@@ -675,6 +898,7 @@ async function handleSelectedChatMessage(
                 timestamp: new Date(),
                 metadata: { source: 'cursor' },
             };
+            recordTurn(selectedChatId, assistantMessage, result);
             db.addMessage(selectedChatId, assistantMessage);
             
             // Send response to Telegram
@@ -700,3 +924,81 @@ async function handleSelectedChatMessage(
         );
     }
 }
+
+// ============ Approvals ============
+
+// Telegram caps messages at 4096 characters
+const APPROVAL_EXCERPT_CHARS = 800;
+const APPROVAL_PROPOSAL_CHARS = 1500;
+
+function formatApproval(title: string, approval: PendingApproval): string {
+    const excerpt = approval.cursorExcerpt.length > APPROVAL_EXCERPT_CHARS
+        ? `…${approval.cursorExcerpt.slice(-APPROVAL_EXCERPT_CHARS)}`
+        : approval.cursorExcerpt;
+    const proposal = approval.isComplete
+        ? 'Mark the task as complete'
+        : approval.proposedMessage.length > APPROVAL_PROPOSAL_CHARS
+            ? `${approval.proposedMessage.slice(0, APPROVAL_PROPOSAL_CHARS)}…`
+            : approval.proposedMessage;
+
+    return `⏸️ Approval needed: ${title}
+
+Turn ${approval.turn} · State: ${approval.state}
+
+🤖 Cursor:
+${excerpt}
+
+➡️ Agent Manager proposes:
+${proposal}${approval.reasoning ? `\n\n💭 ${approval.reasoning}` : ''}`;
+}
+
+/**
+ * Send new approval requests to Telegram with Approve / Edit / Reject buttons
+ * Goes to the allow-listed chats, or to every chat that has used the bot when there's no allow-list.
+ */
+export function registerApprovalNotifications(bot: TelegramBot): void {
+    setApprovalNotifier((sessionId, approval) => {
+        const allowed = bot.getAllowedChatIds();
+        const targets = allowed.length > 0 ? allowed : [...knownChats];
+        if (targets.length === 0) return;
+
+        const text = formatApproval(db.getSessionMeta(sessionId)?.title || sessionId, approval);
+        const replyMarkup: InlineKeyboardMarkup = {
+            inline_keyboard: [[
+                { text: '✅ Approve', callback_data: `approve:${sessionId}` },
+                { text: '✏️ Edit', callback_data: `edit:${sessionId}` },
+                { text: '🛑 Reject', callback_data: `reject:${sessionId}` },
+            ]],
+        };
+        for (const chatId of targets) {
+            bot.sendMessage(chatId, text, { replyMarkup }).catch((error) => {
+                console.error('[Telegram] Failed to send approval request:', error);
+            });
+        }
+    });
+}
+
+function answerApprovalQuietly(sessionId: string, response: ApprovalResponse): { ok: boolean; text: string } {
+    try {
+        resolveApproval(sessionId, response);
+        const text = response.action === 'approve'
+            ? '✅ Approved, continuing'
+            : response.action === 'edit'
+                ? '✏️ Sent your message to Cursor'
+                : '🛑 Rejected, the chat has stopped';
+        return { ok: true, text };
+    } catch (error) {
+        return { ok: false, text: `❌ ${error instanceof Error ? error.message : 'Unknown error'}` };
+    }
+}
+
+async function answerApproval(
+    bot: TelegramBot,
+    telegramChatId: number,
+    sessionId: string,
+    response: ApprovalResponse,
+    messageId: number
+) {
+    const result = answerApprovalQuietly(sessionId, response);
+    await bot.sendMessage(telegramChatId, result.text, { replyToMessageId: messageId });
+}
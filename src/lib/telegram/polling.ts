@@ -3,7 +3,7 @@
  * Runs as a background service to receive Telegram updates
  */
 import { getTelegramBot } from './bot';
-import { handleTelegramUpdate, setSettingsGetter } from './handler';
+import { handleTelegramUpdate, registerApprovalNotifications } from './handler';
 
 let startingPromise: Promise<void> | null = null; // Lock to prevent concurrent starts in same worker
 let conflictDetected = false; // Flag to prevent retries after conflict
@@ -16,7 +16,7 @@ let conflictResetTime = 0; // Timestamp when conflict was detected
  * This function uses bot.isPolling() as the source of truth to prevent
  * multiple instances from starting polling, even across different Next.js workers.
  */
-export async function startTelegramPolling(getSettings: () => { workdir: string }): Promise<void> {
+export async function startTelegramPolling(): Promise<void> {
     const bot = getTelegramBot();
     
     // Always check bot's actual state first (source of truth)
@@ -62,8 +62,7 @@ export async function startTelegramPolling(getSettings: () => { workdir: string
                 return;
             }
 
-            // Inject settings getter
-            setSettingsGetter(getSettings);
+            registerApprovalNotifications(bot);
 
             console.log('[Telegram Polling] Starting polling service...');
 
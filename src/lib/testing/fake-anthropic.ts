@@ -0,0 +1,200 @@
+/**
+ * Fake Anthropic Messages API
+ * Returns scripted responses for POST /v1/messages so the orchestrator and
+ * Agent Manager can run offline. Used in-process (custom fetch) and by
+ * /api/fake-anthropic for tools pointed at ANTHROPIC_BASE_URL.
+ *
+ * Script file format (JSON):
+ * {
+ *   "rules": [
+ *     {
+ *       "when": { "system": "task manager", "lastUser": "proceed", "tool": "submit_decision", "hasToolResult": false },
+ *       "response": { "content": [{ "type": "tool_use", "name": "submit_decision", "input": { "state": "COMPLETED", "next_message": "", "is_complete": true, "confidence": 0.9 } }] }
+ *     }
+ *   ]
+ * }
+ * The first rule whose conditions all match wins. `system` and `lastUser` are
+ * case-insensitive regexes; `tool` requires the request to offer that tool;
+ * `continuation` matches requests that end with an assistant prefill (continuing
+ * a response cut off at max_tokens). Requests with `stream: true` get the same
+ * message as server-sent events, text split into word deltas.
+ */
+import { readFileSync } from 'fs';
+
+export interface FakeAnthropicRule {
+    name?: string;
+    when?: {
+        system?: string;
+        lastUser?: string;
+        tool?: string;
+        hasToolResult?: boolean;
+        continuation?: boolean;
+    };
+    response: {
+        content: Array<
+            | { type: 'text'; text: string }
+            | { type: 'tool_use'; id?: string; name: string; input: Record<string, unknown> }
+        >;
+        stop_reason?: 'end_turn' | 'tool_use' | 'max_tokens';
+    };
+}
+
+export interface FakeAnthropicScript {
+    rules: FakeAnthropicRule[];
+}
+
+interface MessagesRequestBody {
+    model?: string;
+    system?: string | Array<{ type: string; text?: string }>;
+    messages?: Array<{ role: string; content: string | Array<Record<string, unknown>> }>;
+    tools?: Array<{ name: string }>;
+    stream?: boolean;
+}
+
+export function loadFakeAnthropicScript(path: string): FakeAnthropicScript {
+    return JSON.parse(readFileSync(path, 'utf-8'));
+}
+
+function blockText(content: string | Array<Record<string, unknown>>): string {
+    if (typeof content === 'string') return content;
+    return content
+        .map((block) => {
+            if (typeof block.text === 'string') return block.text;
+            if (block.type === 'tool_result') {
+                const inner = block.content as string | Array<Record<string, unknown>> | undefined;
+                return inner ? blockText(inner) : '';
+            }
+            return '';
+        })
+        .join('\n');
+}
+
+function matches(rule: FakeAnthropicRule, body: MessagesRequestBody): boolean {
+    const when = rule.when || {};
+    const system = typeof body.system === 'string' ? body.system : blockText(body.system || []);
+    const messages = body.messages || [];
+    const lastUser = [...messages].reverse().find((m) => m.role === 'user');
+    const hasToolResult = messages.some(
+        (m) => Array.isArray(m.content) && m.content.some((b) => b.type === 'tool_result')
+    );
+
+    if (when.system && !new RegExp(when.system, 'i').test(system)) return false;
+    if (when.lastUser && !new RegExp(when.lastUser, 'i').test(lastUser ? blockText(lastUser.content) : '')) return false;
+    if (when.tool && !(body.tools || []).some((t) => t.name === when.tool)) return false;
+    if (when.hasToolResult !== undefined && when.hasToolResult !== hasToolResult) return false;
+    if (when.continuation !== undefined && when.continuation !== (messages[messages.length - 1]?.role === 'assistant')) return false;
+    return true;
+}
+
+// Rough, deterministic token estimate so usage numbers are stable across runs
+function estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+}
+
+/**
+ * Build a Messages API response for a request body
+ */
+export function createFakeMessage(script: FakeAnthropicScript, body: MessagesRequestBody) {
+    const rule = script.rules.find((r) => matches(r, body));
+    if (!rule) {
+        throw new Error('No fake Anthropic rule matched the request');
+    }
+
+    let toolIndex = 0;
+    const content = rule.response.content.map((block) =>
+        block.type === 'tool_use'
+            ? { ...block, id: block.id || `toolu_fake_${++toolIndex}` }
+            : block
+    );
+    const hasToolUse = content.some((b) => b.type === 'tool_use');
+
+    return {
+        id: `msg_fake_${Date.now().toString(36)}`,
+        type: 'message',
+        role: 'assistant',
+        model: body.model || 'fake-model',
+        content,
+        stop_reason: rule.response.stop_reason || (hasToolUse ? 'tool_use' : 'end_turn'),
+        stop_sequence: null,
+        usage: {
+            input_tokens: estimateTokens(JSON.stringify(body.messages || []) + JSON.stringify(body.system || '')),
+            output_tokens: estimateTokens(JSON.stringify(content)),
+        },
+    };
+}
+
+/**
+ * Encode a message as the Messages API streaming events (server-sent events)
+ */
+export function createFakeMessageEvents(message: ReturnType<typeof createFakeMessage>): string {
+    const events: Array<Record<string, unknown>> = [
+        {
+            type: 'message_start',
+            message: { ...message, content: [], stop_reason: null, usage: { ...message.usage, output_tokens: 0 } },
+        },
+    ];
+
+    message.content.forEach((block, index) => {
+        if (block.type === 'text') {
+            events.push({ type: 'content_block_start', index, content_block: { type: 'text', text: '' } });
+            for (const word of block.text.match(/\s*\S+\s*/g) || [block.text]) {
+                events.push({ type: 'content_block_delta', index, delta: { type: 'text_delta', text: word } });
+            }
+        } else {
+            events.push({ type: 'content_block_start', index, content_block: { ...block, input: {} } });
+            events.push({ type: 'content_block_delta', index, delta: { type: 'input_json_delta', partial_json: JSON.stringify(block.input) } });
+        }
+        events.push({ type: 'content_block_stop', index });
+    });
+
+    events.push({
+        type: 'message_delta',
+        delta: { stop_reason: message.stop_reason, stop_sequence: null },
+        usage: { output_tokens: message.usage.output_tokens },
+    });
+    events.push({ type: 'message_stop' });
+
+    return events.map((event) => `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`).join('');
+}
+
+/**
+ * Handle a raw /v1/messages request, returning an HTTP response
+ */
+export async function handleFakeMessagesRequest(script: FakeAnthropicScript, req: Request): Promise<Response> {
+    const body = (await req.json()) as MessagesRequestBody;
+    try {
+        const message = createFakeMessage(script, body);
+        if (body.stream) {
+            return new Response(createFakeMessageEvents(message), {
+                headers: { 'Content-Type': 'text/event-stream' },
+            });
+        }
+        return new Response(JSON.stringify(message), {
+            headers: { 'Content-Type': 'application/json' },
+        });
+    } catch (error) {
+        return new Response(
+            JSON.stringify({
+                type: 'error',
+                error: { type: 'invalid_request_error', message: error instanceof Error ? error.message : String(error) },
+            }),
+            { status: 400, headers: { 'Content-Type': 'application/json' } }
+        );
+    }
+}
+
+/**
+ * fetch() replacement for the Anthropic SDK that never touches the network
+ */
+export function createFakeAnthropicFetch(script: FakeAnthropicScript) {
+    return async (input: string | URL | Request, init?: RequestInit): Promise<Response> => {
+        const req = new Request(input, init);
+        if (!new URL(req.url).pathname.endsWith('/v1/messages')) {
+            return new Response(JSON.stringify({ type: 'error', error: { type: 'not_found_error', message: 'Not found' } }), {
+                status: 404,
+                headers: { 'Content-Type': 'application/json' },
+            });
+        }
+        return handleFakeMessagesRequest(script, req);
+    };
+}
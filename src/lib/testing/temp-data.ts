@@ -0,0 +1,14 @@
+/**
+ * Throwaway Data Directory for Unit Tests
+ * Import it before any app module: the database, settings file and worktrees directory are
+ * pointed at a fresh temporary directory before those modules read their paths.
+ */
+import { mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+export const TEST_DATA_DIR = mkdtempSync(join(tmpdir(), 'cursor-pilot-test-'));
+
+process.env.DB_PATH = join(TEST_DATA_DIR, 'cursor-pilot.db');
+process.env.SETTINGS_FILE = join(TEST_DATA_DIR, 'settings.json');
+process.env.WORKTREES_DIR = join(TEST_DATA_DIR, 'worktrees');
@@ -1,10 +1,13 @@
 /**
  * Type definitions for CursorPilot
  */
+import type Anthropic from '@anthropic-ai/sdk';
 
 // ============ Chat Session Types ============
 
-export type ChatStatus = 'idle' | 'running' | 'waiting_response' | 'completed' | 'error';
+// 'cancelled': stopped by the user before it finished
+// 'paused': auto-conversation held between turns until resumed
+export type ChatStatus = 'idle' | 'running' | 'waiting_response' | 'paused' | 'completed' | 'error' | 'cancelled';
 
 export interface Message {
     id: string;
@@ -14,7 +17,9 @@ export interface Message {
     metadata?: {
         toolCalls?: string[];
         thinking?: string;
-        source?: 'agent_manager' | 'orchestrator' | 'user' | 'cursor' | 'thinking';
+        source?: 'agent_manager' | 'orchestrator' | 'user' | 'cursor' | 'thinking' | 'system';
+        diffId?: string; // TurnDiff recorded for this Cursor turn
+        checkpointId?: string; // Workdir state before this Cursor turn
     };
 }
 
@@ -32,14 +37,151 @@ export interface ChatSession {
     isOrchestratorManaged?: boolean;
     // Source of the session: 'web' or 'telegram'
     source?: 'web' | 'telegram';
-    // Working directory for this chat (project context)
+    // Registered project the chat belongs to (its agent must run inside the project root)
+    projectId?: string;
+    // Working directory for this chat: the project root, a folder inside it, or a sub-task worktree
     workdir?: string;
-    // True if workdir no longer exists on filesystem
-    workdirMissing?: boolean;
     // Task description in markdown format (for sub-tasks)
     taskMd?: string;
     // Error message when status is 'error'
     errorMessage?: string;
+    // Coding agent backend for this chat (falls back to settings when unset)
+    backend?: AgentBackendConfig;
+    // Isolated git worktree the chat runs in (orchestrator sub-tasks, opt-in)
+    worktree?: WorktreeInfo;
+    // When the Agent Manager loop pauses for a human (falls back to settings when unset)
+    approvalPolicy?: ApprovalPolicy;
+    // Agent Manager decision waiting for a human (status is 'waiting_response' meanwhile)
+    pendingApproval?: PendingApproval;
+    // Spending cap for the session's Anthropic calls (falls back to settings when unset)
+    budget?: SessionBudget;
+    // User who created the chat (unset for chats from Telegram or from before auth was set up)
+    ownerId?: string;
+}
+
+// ============ Approval Types ============
+
+/**
+ * When the Agent Manager loop waits for a human before acting on its decision.
+ * 'auto' never waits; 'approve_each_task' waits whenever Cursor reports a task done;
+ * 'approve_on_asking' / 'approve_on_blocked' wait when Cursor asks a question / is stuck.
+ */
+export type ApprovalPolicy = 'auto' | 'approve_each_task' | 'approve_on_asking' | 'approve_on_blocked';
+
+export interface PendingApproval {
+    id: string;
+    turn: number;
+    state: string; // Agent state the Agent Manager detected (ASKING, BLOCKED, ...)
+    proposedMessage: string; // What the Agent Manager would send to Cursor
+    isComplete: boolean; // The Agent Manager would end the conversation
+    reasoning?: string;
+    cursorExcerpt: string; // End of Cursor's last response, for context
+    createdAt: string; // ISO timestamp (stored as JSON)
+}
+
+export type ApprovalResponse =
+    | { action: 'approve' } // Go ahead with the Agent Manager's decision
+    | { action: 'edit'; message: string } // Send this to Cursor instead
+    | { action: 'reject'; message?: string }; // Stop the loop
+
+export interface ResumeRequest {
+    message?: string; // Send this to Cursor instead of the Agent Manager's next message
+}
+
+// ============ Usage Types ============
+
+export type UsageSource = 'orchestrator' | 'agent_manager';
+
+// Token usage of one Anthropic API call
+export interface UsageRecord {
+    id: string;
+    sessionId?: string; // Chat the call was made for
+    runId?: string; // Orchestrator run (one per user request)
+    source: UsageSource;
+    model: string;
+    inputTokens: number;
+    outputTokens: number;
+    costUsd?: number; // Unset when the model isn't in the price table
+    createdAt: Date;
+}
+
+export interface UsageTotals {
+    calls: number;
+    inputTokens: number;
+    outputTokens: number;
+    costUsd: number;
+    unpricedCalls: number; // Calls to models without a price (not in costUsd)
+}
+
+// Limits are checked before each Anthropic call; unset fields don't limit
+export interface SessionBudget {
+    maxCostUsd?: number;
+    maxTokens?: number; // Input + output tokens
+}
+
+// USD per million tokens
+export interface ModelPrice {
+    input: number;
+    output: number;
+}
+
+export type WorktreeStatus = 'active' | 'merged' | 'discarded';
+
+export interface WorktreeInfo {
+    path: string; // Worktree checkout directory
+    branch: string; // Branch created for the sub-task
+    repoRoot: string; // Main checkout the worktree belongs to
+    baseBranch: string; // Branch the worktree was created from (merge target)
+    baseCommit: string;
+    originalWorkdir: string; // Workdir before isolation (the chat's workdir points into the worktree)
+    status: WorktreeStatus;
+}
+
+// ============ Change Tracking Types ============
+
+export interface FileChange {
+    path: string; // Relative to the workdir
+    status: 'added' | 'modified' | 'deleted';
+    additions: number;
+    deletions: number;
+    binary?: boolean;
+}
+
+// Workdir changes made during one Cursor turn
+export interface TurnDiff {
+    id: string;
+    sessionId: string;
+    messageId?: string; // Assistant message of the turn
+    turn?: number; // Conversation loop turn (sub-tasks only)
+    mode: 'git' | 'hash'; // How the workdir was snapshotted
+    files: FileChange[];
+    patch: string; // Unified diff
+    truncated?: boolean; // Patch was cut at the size limit
+    createdAt: Date;
+}
+
+// A TurnDiff before it is linked to a session/message
+export type WorkdirChanges = Pick<TurnDiff, 'mode' | 'files' | 'patch' | 'truncated'>;
+
+// What's needed to put a workdir back to its state before a turn
+export type RestorePoint =
+    | { mode: 'git'; repoRoot: string; subdir: string; tree: string } // Tree object of the whole workdir
+    | {
+        mode: 'hash';
+        workdir: string;
+        files: Record<string, string | null>; // Prior content of files the turn changed (null = didn't exist)
+        unrestorable?: string[]; // Changed files too large or binary to keep
+    };
+
+// Workdir state before a Cursor turn, for rollback
+export interface SessionCheckpoint {
+    id: string;
+    sessionId: string;
+    messageId?: string; // Assistant message of the turn
+    turn: number; // 1-based Cursor turn within the session
+    restorePoint: RestorePoint;
+    rolledBack?: boolean; // Undone by a rollback to this or an earlier turn
+    createdAt: Date;
 }
 
 // ============ Orchestrate Types ============
@@ -66,12 +208,42 @@ export interface OrchestrateTask {
     createdAt: Date;
 }
 
+// ============ Agent Backend Types ============
+
+export type AgentBackendType = 'cursor' | 'command' | 'fake';
+
+/**
+ * Which CLI drives a chat.
+ * 'cursor' is the Cursor `agent` CLI; 'command' is any executable that reads the
+ * prompt on stdin and writes Cursor-compatible stream-json lines to stdout;
+ * 'fake' replays recorded transcripts for offline testing.
+ */
+export interface AgentBackendConfig {
+    type: AgentBackendType;
+    // Executable and base args (for 'command')
+    command?: string;
+    args?: string[];
+    // Appended when resuming a session; '{sessionId}' is substituted
+    resumeArgs?: string[];
+    // Appended when a model is selected; '{model}' is substituted
+    modelArgs?: string[];
+    // Appended when tool calls are auto-approved (Cursor's --force); without them the
+    // command can only run with --force on
+    forceArgs?: string[];
+    // Appended in plan-only mode; without them the command can't run plan-only
+    planArgs?: string[];
+    // Directory of turn-N.jsonl transcripts (for 'fake')
+    transcripts?: string;
+}
+
 // ============ Cursor Agent Types ============
 
 export interface CursorAgentMessage {
     type: 'system' | 'user' | 'assistant' | 'thinking' | 'tool_call' | 'result';
     message?: { content: Array<{ type: string; text?: string }> };
     text?: string;
+    // Set on assistant text deltas with --stream-partial-output (not on the complete message after them)
+    timestamp_ms?: number;
     session_id?: string;
     model?: string;
     subtype?: string;
@@ -99,6 +271,8 @@ export interface CursorAgentMessage {
                 };
             };
         };
+        // Other tools arrive the same way: shellToolCall, editToolCall, grepToolCall, ...
+        [toolCall: `${string}ToolCall`]: unknown;
     };
 }
 
@@ -120,6 +294,26 @@ export interface CursorTaskResult {
     toolCallResults?: ToolCallResult[]; // Detailed tool call results
     error?: string;
     durationMs?: number; // Total duration in milliseconds
+    cancelled?: boolean; // Stopped through the chat's abort signal
+    timeout?: CursorTimeoutKind; // Stopped by a time limit (error says which)
+    policyViolation?: string; // Stopped for a tool call its permissions don't allow (error says which)
+}
+
+// Which limit stopped a Cursor execution
+export type CursorTimeoutKind = 'inactivity' | 'turn' | 'task';
+
+// Limits on Cursor executions, in seconds; unset or 0 doesn't limit
+export interface AgentTimeouts {
+    inactivitySec?: number; // No output from the agent process for this long
+    turnSec?: number; // One Cursor turn (one agent process)
+    taskSec?: number; // A whole auto-conversation
+}
+
+// Retries of transient Cursor / Anthropic failures (exponential backoff)
+export interface RetryPolicy {
+    maxAttempts: number; // Including the first try; 1 disables retries
+    baseDelayMs: number; // Delay before the first retry, doubled for each one after
+    maxDelayMs: number;
 }
 
 // ============ API Event Types ============
@@ -134,7 +328,7 @@ export interface ChatStreamEvent {
 }
 
 export interface OrchestrateStreamEvent {
-    type: 'thinking' | 'message' | 'tool_start' | 'tool_end' | 'dispatch_order' | 'chat_update' | 'cursor_progress' | 'result' | 'error';
+    type: 'thinking' | 'message' | 'tool_start' | 'tool_end' | 'dispatch_order' | 'chat_update' | 'cursor_progress' | 'retry' | 'plan_update' | 'result' | 'error';
     content?: string;
     chatId?: string;
     taskId?: string;
@@ -143,6 +337,214 @@ export interface OrchestrateStreamEvent {
     error?: string;
 }
 
+// ============ Job Types ============
+
+export type JobStatus = 'queued' | 'running' | 'paused' | 'done' | 'failed' | 'cancelled';
+
+// A sub-task conversation loop, persisted so it survives server restarts
+export interface ConversationJob {
+    id: string;
+    sessionId: string;
+    status: JobStatus;
+    task: string;
+    workdir: string;
+    taskMd?: string;
+    backend?: AgentBackendConfig;
+    currentTurn: number; // Last completed turn
+    cursorSessionId?: string;
+    lastManagerMessage?: string; // Next message for Cursor when resuming
+    error?: string;
+    attempts: number; // Times the job has been started (including recoveries)
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+// ============ Task Graph Types ============
+
+export type TaskPlanStatus = 'running' | 'completed' | 'failed' | 'cancelled';
+
+// pending: waiting for its dependencies; skipped: an upstream task didn't complete
+export type PlanNodeStatus = 'pending' | 'running' | 'completed' | 'failed' | 'skipped' | 'cancelled';
+
+// One sub-task of a plan, run in its own chat once everything it depends on has completed
+export interface PlanNode {
+    id: string; // Key given by the orchestrator, referenced by dependsOn
+    title: string;
+    task: string;
+    dependsOn: string[];
+    isolated?: boolean;
+    status: PlanNodeStatus;
+    chatId?: string; // Chat running the task, once started
+    summary?: string; // Result handed to dependent tasks
+    error?: string;
+    startedAt?: string; // ISO timestamps (stored as JSON)
+    finishedAt?: string;
+}
+
+// Sub-tasks with dependency edges, submitted by the orchestrator and scheduled as they unblock
+export interface TaskPlan {
+    id: string;
+    sessionId?: string; // Orchestrator chat that submitted it
+    title: string;
+    workdir: string;
+    status: TaskPlanStatus;
+    nodes: PlanNode[];
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+// Where a sub-task chat stands, as reported back to the orchestrator
+export interface SubtaskReport {
+    chatId: string;
+    title: string;
+    status: ChatStatus;
+    finished: boolean; // No conversation job is running (or paused) for it
+    taskMd?: string;
+    summary: string; // Cursor's last report (empty if none)
+    changedFiles: Pick<FileChange, 'path' | 'status'>[];
+    worktree?: { branch: string; path: string };
+    waitingForApproval?: boolean;
+}
+
+// ============ Orchestrator History Types ============
+
+// An orchestrator chat's conversation, kept between requests: the Anthropic messages since
+// the last compaction (tool calls included) and a summary of everything before them
+export interface OrchestratorHistory {
+    sessionId: string;
+    messages: Anthropic.MessageParam[];
+    summary?: string;
+    compactions: number;
+    updatedAt: Date;
+}
+
+// ============ Auth Types ============
+
+/**
+ * Admins manage users, change settings and see every chat; members only see their own chats
+ */
+export type UserRole = 'admin' | 'member';
+
+export interface User {
+    id: string;
+    username: string;
+    role: UserRole;
+    agentPermissions?: AgentPermissions; // Restrictions on the agents run for the user's chats
+    createdAt: Date;
+}
+
+// A bearer token for scripts (the token itself is only shown once, when created)
+export interface ApiToken {
+    id: string;
+    userId: string;
+    name: string;
+    createdAt: Date;
+    lastUsedAt?: Date;
+}
+
+// ============ Project Types ============
+
+/**
+ * A registered codebase; agents are only spawned inside a project root
+ */
+export interface Project {
+    id: string;
+    name: string;
+    rootPath: string; // Absolute, symlinks resolved
+    defaultModel?: string; // Cursor model for the project's chats (falls back to settings)
+    skillsPath?: string; // Skills directory for the orchestrator (falls back to settings)
+    agentFlags: string[]; // Extra agent CLI flags allowed for the project's chats, e.g. `--sandbox enabled`
+    permissions?: AgentPermissions; // What the project's agents may do (falls back to settings)
+    createdAt: Date;
+    rootMissing?: boolean; // The root folder no longer exists (set by the projects API)
+}
+
+// ============ Agent Permission Types ============
+
+// What a Cursor agent process may do. Unset fields inherit: settings, then the project, then
+// the chat owner's (see lib/agent/permissions for how they combine).
+export interface AgentPermissions {
+    force?: boolean; // Pass --force, auto-approving every tool call including shell commands
+    planOnly?: boolean; // Read-only: Cursor's plan mode, and only read/search tools
+    allowedTools?: string[]; // Cursor tool types (read, write, edit, delete, shell, ...); unset allows all
+}
+
+// A tool call stopped because the agent's permissions don't allow it
+export interface PolicyViolation {
+    id: string;
+    sessionId: string;
+    toolName: string;
+    reason: string;
+    createdAt: Date;
+}
+
+// ============ Audit Types ============
+
+export type AuditAction =
+    | 'session_started' // A chat was created (web, API, orchestrator sub-task, Telegram)
+    | 'prompt_sent' // A prompt went to Cursor
+    | 'agent_decision' // The Agent Manager decided the next step of an auto-conversation
+    | 'tool_call' // Cursor called a tool
+    | 'file_written' // A Cursor write tool call finished
+    | 'policy_violation' // A tool call stopped by agent permissions
+    | 'chat_aborted' // Stopped through /api/chat/abort
+    | 'settings_changed' // Server settings saved through /api/settings
+    | 'telegram_command'; // A /command sent to the Telegram bot
+
+// One row of the append-only audit log
+export interface AuditEntry {
+    id: string;
+    action: AuditAction;
+    userId?: string; // Who did it (a chat's owner for what its agents do)
+    username?: string; // Filled in by queries
+    sessionId?: string;
+    projectId?: string;
+    details?: Record<string, unknown>;
+    createdAt: Date;
+}
+
+export interface AuditQuery {
+    userId?: string;
+    projectId?: string;
+    sessionId?: string;
+    action?: AuditAction;
+    from?: Date; // Inclusive
+    to?: Date; // Exclusive
+    limit?: number;
+    offset?: number;
+}
+
+// ============ Search Types ============
+
+export type SearchMatchKind = 'title' | 'task_md' | 'message';
+
+export interface SearchQuery {
+    text: string;
+    status?: ChatStatus;
+    source?: 'web' | 'telegram'; // Where the chat was started
+    workdir?: string; // Chats in this folder or below it
+    projectId?: string; // Chats of this project
+    role?: Message['role']; // Only message matches from this role
+    from?: Date; // Inclusive
+    to?: Date; // Exclusive
+    ownerId?: string; // Only this user's chats
+    limit?: number;
+    offset?: number;
+}
+
+export interface SearchResult {
+    sessionId: string;
+    sessionTitle: string;
+    status: ChatStatus;
+    workdir?: string;
+    kind: SearchMatchKind;
+    messageId?: string; // Set for message matches
+    role?: Message['role'];
+    snippet: string; // Text around the match
+    highlights: Array<[number, number]>; // [start, end) of each matched term in snippet
+    timestamp: Date; // The message's time, or when the chat was last updated
+}
+
 // ============ Store/State Types ============
 
 export interface ChatStore {
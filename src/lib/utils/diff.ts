@@ -0,0 +1,129 @@
+/**
+ * Minimal unified diff for the non-git snapshot fallback
+ * LCS over lines; changes too large for the table are shown as a full replacement.
+ */
+
+const CONTEXT_LINES = 3;
+// Upper bound on the LCS table (old lines × new lines)
+const MAX_LCS_CELLS = 4_000_000;
+
+type Op = { type: ' ' | '-' | '+'; line: string };
+
+function splitLines(text: string): string[] {
+    if (!text) return [];
+    const lines = text.split('\n');
+    if (lines[lines.length - 1] === '') lines.pop();
+    return lines;
+}
+
+function diffLines(a: string[], b: string[]): Op[] {
+    // Strip the common prefix/suffix so the table only covers the changed middle
+    let start = 0;
+    while (start < a.length && start < b.length && a[start] === b[start]) start++;
+    let endA = a.length;
+    let endB = b.length;
+    while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+        endA--;
+        endB--;
+    }
+
+    const midA = a.slice(start, endA);
+    const midB = b.slice(start, endB);
+    const n = midA.length;
+    const m = midB.length;
+
+    const ops: Op[] = a.slice(0, start).map((line) => ({ type: ' ', line }));
+
+    if (n * m > MAX_LCS_CELLS) {
+        // Too big to align: show it as a full replacement
+        ops.push(...midA.map((line) => ({ type: '-' as const, line })));
+        ops.push(...midB.map((line) => ({ type: '+' as const, line })));
+    } else {
+        const lcs: Uint32Array[] = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+        for (let i = n - 1; i >= 0; i--) {
+            for (let j = m - 1; j >= 0; j--) {
+                lcs[i][j] = midA[i] === midB[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+            }
+        }
+        let i = 0;
+        let j = 0;
+        while (i < n || j < m) {
+            if (i < n && j < m && midA[i] === midB[j]) {
+                ops.push({ type: ' ', line: midA[i] });
+                i++;
+                j++;
+            } else if (i < n && (j >= m || lcs[i + 1][j] >= lcs[i][j + 1])) {
+                ops.push({ type: '-', line: midA[i++] });
+            } else {
+                ops.push({ type: '+', line: midB[j++] });
+            }
+        }
+    }
+
+    ops.push(...a.slice(endA).map((line) => ({ type: ' ' as const, line })));
+    return ops;
+}
+
+/**
+ * Unified diff of two texts in `git diff` format
+ * @returns patch plus added/removed line counts
+ */
+export function unifiedDiff(
+    path: string,
+    oldText: string | null,
+    newText: string | null
+): { patch: string; additions: number; deletions: number } {
+    const ops = diffLines(splitLines(oldText ?? ''), splitLines(newText ?? ''));
+    const additions = ops.filter((op) => op.type === '+').length;
+    const deletions = ops.filter((op) => op.type === '-').length;
+
+    const header = [
+        `diff --git a/${path} b/${path}`,
+        oldText === null ? 'new file mode 100644' : newText === null ? 'deleted file mode 100644' : null,
+        `--- ${oldText === null ? '/dev/null' : `a/${path}`}`,
+        `+++ ${newText === null ? '/dev/null' : `b/${path}`}`,
+    ].filter((line): line is string => line !== null);
+
+    // Group changes into hunks with surrounding context
+    const hunks: string[] = [];
+    let index = 0;
+    while (index < ops.length) {
+        if (ops[index].type === ' ') {
+            index++;
+            continue;
+        }
+
+        const hunkStart = Math.max(0, index - CONTEXT_LINES);
+        let hunkEnd = index;
+        // Extend while the next change is within 2×context lines
+        while (hunkEnd < ops.length) {
+            let next = hunkEnd;
+            while (next < ops.length && ops[next].type !== ' ') next++;
+            let gap = next;
+            while (gap < ops.length && ops[gap].type === ' ') gap++;
+            hunkEnd = next;
+            if (gap >= ops.length || gap - next > CONTEXT_LINES * 2) break;
+            hunkEnd = gap;
+        }
+        const hunkStop = Math.min(ops.length, hunkEnd + CONTEXT_LINES);
+
+        // 1-based line numbers at the hunk start
+        let oldLine = 1;
+        let newLine = 1;
+        for (let k = 0; k < hunkStart; k++) {
+            if (ops[k].type !== '+') oldLine++;
+            if (ops[k].type !== '-') newLine++;
+        }
+        const slice = ops.slice(hunkStart, hunkStop);
+        const oldCount = slice.filter((op) => op.type !== '+').length;
+        const newCount = slice.filter((op) => op.type !== '-').length;
+
+        hunks.push(
+            `@@ -${oldCount ? oldLine : oldLine - 1},${oldCount} +${newCount ? newLine : newLine - 1},${newCount} @@`,
+            ...slice.map((op) => `${op.type}${op.line}`)
+        );
+        index = hunkStop;
+    }
+
+    return { patch: [...header, ...hunks].join('\n') + '\n', additions, deletions };
+}
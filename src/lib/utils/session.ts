@@ -29,3 +29,8 @@ export function isManualChat(
     return !isOrchestratorMain(session) && !isOrchestratorSubtask(session);
 }
 
+
+// Orchestrator chats of the web panel: the shared `web_orchestrator_main`, or one per user with auth
+export function isWebOrchestratorSessionId(id: string | null | undefined): boolean {
+    return Boolean(id?.startsWith('web_orchestrator_'));
+}
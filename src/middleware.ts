@@ -0,0 +1,39 @@
+/**
+ * Auth Middleware
+ * Every page and API route needs a signed-in user (session cookie or API token), except the
+ * sign-in page and endpoints, the Telegram webhook (it checks its own secret) and the fake
+ * Anthropic endpoint. Routes acting on a chat also check that it belongs to the user.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser, isAuthEnabled } from '@/lib/auth';
+
+export const config = {
+    runtime: 'nodejs', // The user lookup needs SQLite
+    matcher: ['/((?!_next/static|_next/image|favicon.ico).*)'],
+};
+
+const PUBLIC_PATHS = [
+    '/login',
+    '/api/auth/status',
+    '/api/auth/setup',
+    '/api/auth/login',
+    '/api/telegram/webhook',
+    '/api/fake-anthropic',
+];
+
+export function middleware(req: NextRequest) {
+    const { pathname, search } = req.nextUrl;
+    if (!isAuthEnabled() || PUBLIC_PATHS.some((path) => pathname === path || pathname.startsWith(`${path}/`))) {
+        return NextResponse.next();
+    }
+    if (getRequestUser(req)) {
+        return NextResponse.next();
+    }
+
+    if (pathname.startsWith('/api/')) {
+        return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+    const login = new URL('/login', req.url);
+    login.searchParams.set('next', `${pathname}${search}`);
+    return NextResponse.redirect(login);
+}